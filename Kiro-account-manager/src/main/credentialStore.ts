@@ -0,0 +1,162 @@
+/**
+ * 系统钥匙串凭证存储 - 主进程
+ * 使用 Electron safeStorage（macOS Keychain / Windows DPAPI / Linux libsecret、kwallet）
+ * 加密账号的 accessToken、refreshToken、clientSecret，按账号 ID 单独保存，
+ * 账号数据本身不再包含这些字段；没有可用钥匙串时（如无头 Linux 的 basic_text）保持原有行为
+ */
+
+import { safeStorage } from 'electron'
+
+// 需要移入钥匙串的凭证字段
+const SECRET_FIELDS = ['accessToken', 'refreshToken', 'clientSecret'] as const
+
+type SecretField = typeof SECRET_FIELDS[number]
+export type AccountSecrets = Partial<Record<SecretField, string>>
+
+// 按账号 ID 保存的密文（base64）
+export type EncryptedCredentials = Record<string, string>
+
+interface AccountDataLike {
+  accounts?: Record<string, { credentials?: Record<string, unknown> } | undefined>
+}
+
+function hasAccounts(data: unknown): data is AccountDataLike & { accounts: NonNullable<AccountDataLike['accounts']> } {
+  return !!data && typeof data === 'object' && !!(data as AccountDataLike).accounts && typeof (data as AccountDataLike).accounts === 'object'
+}
+
+/**
+ * 钥匙串是否可用
+ * Linux 下 basic_text 后端只是用固定密钥混淆，视为不可用
+ */
+export function isKeychainAvailable(): boolean {
+  try {
+    if (!safeStorage.isEncryptionAvailable()) return false
+    if (process.platform === 'linux' && safeStorage.getSelectedStorageBackend() === 'basic_text') return false
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 当前使用的凭证存储后端（用于设置页展示）
+ */
+export function getKeychainBackend(): string {
+  if (!isKeychainAvailable()) return 'none'
+  switch (process.platform) {
+    case 'darwin':
+      return 'keychain'
+    case 'win32':
+      return 'dpapi'
+    default:
+      return safeStorage.getSelectedStorageBackend()
+  }
+}
+
+/**
+ * 是否还有明文保存在账号数据中的凭证（需要迁移）
+ */
+export function hasInlineSecrets(data: unknown): boolean {
+  if (!hasAccounts(data)) return false
+  return Object.values(data.accounts).some(account =>
+    SECRET_FIELDS.some(field => typeof account?.credentials?.[field] === 'string' && account.credentials[field] !== '')
+  )
+}
+
+/**
+ * 从账号数据中取出凭证并加密
+ * 返回不含凭证的账号数据和按账号 ID 的密文；previous 中内容未变化的条目直接复用，避免每次保存都重新加密
+ */
+export function detachSecrets(
+  data: unknown,
+  previous: EncryptedCredentials,
+  cache: Map<string, string>
+): { data: unknown; encrypted: EncryptedCredentials } {
+  if (!hasAccounts(data)) return { data, encrypted: previous }
+
+  const accounts: Record<string, unknown> = {}
+  const encrypted: EncryptedCredentials = {}
+  for (const [id, account] of Object.entries(data.accounts)) {
+    if (!account?.credentials) {
+      accounts[id] = account
+      continue
+    }
+    const credentials = { ...account.credentials }
+    const secrets: AccountSecrets = {}
+    for (const field of SECRET_FIELDS) {
+      if (typeof credentials[field] === 'string' && credentials[field] !== '') {
+        secrets[field] = credentials[field] as string
+      }
+      delete credentials[field]
+    }
+    accounts[id] = { ...account, credentials }
+
+    if (Object.keys(secrets).length === 0) {
+      // 账号数据中没有凭证（例如钥匙串暂时不可用时加载的数据），保留原有密文
+      if (previous[id]) encrypted[id] = previous[id]
+      continue
+    }
+    const json = JSON.stringify(secrets)
+    if (previous[id] && cache.get(id) === json) {
+      encrypted[id] = previous[id]
+    } else {
+      encrypted[id] = safeStorage.encryptString(json).toString('base64')
+      cache.set(id, json)
+    }
+  }
+  for (const id of cache.keys()) {
+    if (!encrypted[id]) cache.delete(id)
+  }
+  return { data: { ...data, accounts }, encrypted }
+}
+
+/**
+ * 将钥匙串中的凭证合并回账号数据
+ * 账号数据中已有的非空凭证优先（钥匙串不可用期间重新登录的账号），无法解密的条目跳过
+ */
+export function attachSecrets(data: unknown, encrypted: EncryptedCredentials, cache: Map<string, string>): unknown {
+  if (!hasAccounts(data) || !isKeychainAvailable()) return data
+
+  const accounts: Record<string, unknown> = {}
+  for (const [id, account] of Object.entries(data.accounts)) {
+    const cipher = encrypted[id]
+    if (!cipher || !account?.credentials) {
+      accounts[id] = account
+      continue
+    }
+    try {
+      const json = safeStorage.decryptString(Buffer.from(cipher, 'base64'))
+      const secrets = JSON.parse(json) as AccountSecrets
+      cache.set(id, json)
+      const credentials = { ...account.credentials }
+      for (const field of SECRET_FIELDS) {
+        if ((credentials[field] === undefined || credentials[field] === '') && secrets[field]) {
+          credentials[field] = secrets[field]
+        }
+      }
+      accounts[id] = { ...account, credentials }
+    } catch (error) {
+      console.error(`[Credentials] Failed to decrypt credentials for account ${id}:`, error)
+      accounts[id] = account
+    }
+  }
+  return { ...data, accounts }
+}
+
+/**
+ * 去掉账号数据中的凭证（用于备份，凭证只保存在钥匙串中）
+ */
+export function stripSecrets(data: unknown): unknown {
+  if (!hasAccounts(data)) return data
+  const accounts: Record<string, unknown> = {}
+  for (const [id, account] of Object.entries(data.accounts)) {
+    if (!account?.credentials) {
+      accounts[id] = account
+      continue
+    }
+    const credentials = { ...account.credentials }
+    for (const field of SECRET_FIELDS) delete credentials[field]
+    accounts[id] = { ...account, credentials }
+  }
+  return { ...data, accounts }
+}
@@ -0,0 +1,94 @@
+/**
+ * 加密导出包 - 主进程
+ * 使用口令（scrypt 派生密钥）以 AES-256-GCM 加密导出的账号数据，
+ * 文件头（格式、版本、KDF 参数）作为附加认证数据参与完整性校验，便于在多台机器之间安全迁移账号
+ */
+
+import * as crypto from 'crypto'
+import { createVaultKey, deriveKey, type VaultKdfParams } from './vault'
+
+export const EXPORT_BUNDLE_FORMAT = 'kiro-account-bundle'
+export const EXPORT_BUNDLE_VERSION = 1
+const IV_LENGTH = 12
+// GCM 认证标签固定 16 字节，解密时拒绝被截断的标签
+const AUTH_TAG_LENGTH = 16
+
+interface ExportBundleHeader {
+  format: typeof EXPORT_BUNDLE_FORMAT
+  version: number
+  cipher: 'aes-256-gcm'
+  kdf: VaultKdfParams
+  createdAt: number
+}
+
+export interface ExportBundle extends ExportBundleHeader {
+  iv: string  // base64
+  tag: string  // base64，GCM 认证标签
+  data: string  // base64 密文
+}
+
+export function isExportBundle(value: unknown): value is ExportBundle {
+  if (!value || typeof value !== 'object') return false
+  const bundle = value as Partial<ExportBundle>
+  return bundle.format === EXPORT_BUNDLE_FORMAT && typeof bundle.version === 'number' && !!bundle.kdf && typeof bundle.data === 'string'
+}
+
+// 附加认证数据：篡改文件头（例如降低 KDF 参数）会导致解密失败
+function headerAad(header: ExportBundleHeader): Buffer {
+  return Buffer.from(JSON.stringify([header.format, header.version, header.cipher, header.kdf, header.createdAt]), 'utf-8')
+}
+
+/**
+ * 使用口令加密导出内容，返回导出包 JSON 文本
+ */
+export async function encryptExportBundle(content: string, passphrase: string): Promise<string> {
+  if (!passphrase) throw new Error('Passphrase is required')
+  const { key, kdf } = await createVaultKey(passphrase)
+  const header: ExportBundleHeader = {
+    format: EXPORT_BUNDLE_FORMAT,
+    version: EXPORT_BUNDLE_VERSION,
+    cipher: 'aes-256-gcm',
+    kdf,
+    createdAt: Date.now()
+  }
+  const iv = crypto.randomBytes(IV_LENGTH)
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv, { authTagLength: AUTH_TAG_LENGTH })
+  cipher.setAAD(headerAad(header))
+  const encrypted = Buffer.concat([cipher.update(content, 'utf-8'), cipher.final()])
+  key.fill(0)
+
+  const bundle: ExportBundle = {
+    ...header,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: encrypted.toString('base64')
+  }
+  return JSON.stringify(bundle, null, 2)
+}
+
+/**
+ * 解密导出包，口令错误或内容被篡改时抛出异常
+ */
+export async function decryptExportBundle(text: string, passphrase: string): Promise<string> {
+  let bundle: unknown
+  try {
+    bundle = JSON.parse(text)
+  } catch {
+    throw new Error('Invalid bundle file')
+  }
+  if (!isExportBundle(bundle)) throw new Error('Invalid bundle file')
+  if (bundle.version > EXPORT_BUNDLE_VERSION) throw new Error(`Unsupported bundle version: ${bundle.version}`)
+  if (bundle.cipher !== 'aes-256-gcm' || bundle.kdf.name !== 'scrypt') throw new Error('Unsupported bundle encryption')
+
+  const key = await deriveKey(passphrase, bundle.kdf)
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(bundle.iv, 'base64'), { authTagLength: AUTH_TAG_LENGTH })
+    decipher.setAAD(headerAad(bundle))
+    decipher.setAuthTag(Buffer.from(bundle.tag, 'base64'))
+    return Buffer.concat([decipher.update(Buffer.from(bundle.data, 'base64')), decipher.final()]).toString('utf-8')
+  } catch {
+    throw new Error('Incorrect passphrase or corrupted bundle')
+  } finally {
+    key.fill(0)
+  }
+}
@@ -1,13 +1,13 @@
 import { app, shell, BrowserWindow, ipcMain, dialog, globalShortcut } from 'electron'
 import { autoUpdater } from 'electron-updater'
 import * as machineIdModule from './machineId'
-import { join } from 'path'
+import { join, dirname } from 'path'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import { writeFile, readFile } from 'fs/promises'
 import { encode, decode } from 'cbor-x'
 import { ProxyAgent, fetch as undiciFetch, type RequestInit as UndiciRequestInit } from 'undici'
 import icon from '../../resources/icon.png?asset'
-import { ProxyServer, type ProxyAccount, type ProxyConfig } from './proxy'
+import { ProxyServer, flushTraces, generateApiKeySecret, getDefaultPromptInjectionRules, hashApiKeySecret, toPublicApiKey, type ProxyAccount, type ProxyConfig } from './proxy'
 import {
   initKProxyService,
   getKProxyService,
@@ -23,6 +23,46 @@ import {
   setUseKProxyForApiInProxy
 } from './proxy/kiroApi'
 import { proxyLogStore } from './proxy/logger'
+import type { LogQuery } from './proxy/logStore'
+import { proxyCaptureStore } from './proxy/capture'
+import {
+  createVaultKey,
+  deriveVaultKey,
+  getUnlockedVaultKey,
+  isVaultPayload,
+  lockVault,
+  openVault,
+  sealVault,
+  setUnlockedVaultKey,
+  startVaultAutoLock,
+  type VaultKey
+} from './vault'
+import {
+  attachSecrets,
+  detachSecrets,
+  getKeychainBackend,
+  hasInlineSecrets,
+  isKeychainAvailable,
+  stripSecrets,
+  type EncryptedCredentials
+} from './credentialStore'
+import {
+  createSnapshot,
+  deleteSnapshot,
+  diffAccountData,
+  listSnapshots,
+  mergeSnapshotSelection,
+  readSnapshot,
+  rewriteSnapshots,
+  type RestoreSelection,
+  type SnapshotPayload,
+  type SnapshotReason
+} from './snapshots'
+import { decryptExportBundle, encryptExportBundle } from './exportBundle'
+import { parseJsoncObject, updateJsoncKeys } from './jsonc'
+import { ensureMcpConfigFile, readMcpConfigFile, updateMcpServers, validateMcpServerConfig, type McpServerConfig } from './mcpConfig'
+import { probeMcpServer } from './mcpProbe'
+import { listKiroSettingsTargets, resolveKiroSettingsTarget, resolveKiroUserDataDir, type KiroSettingsTarget } from './kiroPaths'
 import {
   createTray,
   destroyTray,
@@ -231,6 +271,7 @@ function initProxyServer(): ProxyServer {
 
   // 初始化日志存储
   proxyLogStore.initialize(app.getPath('userData'))
+  proxyCaptureStore.initialize(app.getPath('userData'))
 
   // 从 store 加载保存的配置，如果没有则使用默认配置
   const savedConfig = store?.get('proxyConfig') as Partial<ProxyConfig> | undefined
@@ -248,6 +289,8 @@ function initProxyServer(): ProxyServer {
   const savedTotalCredits = (store?.get('proxyTotalCredits') as number) || 0
   const savedInputTokens = (store?.get('proxyInputTokens') as number) || 0
   const savedOutputTokens = (store?.get('proxyOutputTokens') as number) || 0
+  const savedCacheReadTokens = (store?.get('proxyCacheReadTokens') as number) || 0
+  const savedCacheWriteTokens = (store?.get('proxyCacheWriteTokens') as number) || 0
   // 从 store 加载保存的请求统计
   const savedTotalRequests = (store?.get('proxyTotalRequests') as number) || 0
   const savedSuccessRequests = (store?.get('proxySuccessRequests') as number) || 0
@@ -262,11 +305,13 @@ function initProxyServer(): ProxyServer {
     maxConcurrent: 10,
     maxRetries: 3,
     retryDelayMs: 1000,
-    tokenRefreshBeforeExpiry: 300 // 5分钟提前刷新
+    tokenRefreshBeforeExpiry: 300, // 5分钟提前刷新
+    promptInjectionRules: getDefaultPromptInjectionRules()
   }
 
   // 合并保存的配置和默认配置
   const config: ProxyConfig = savedConfig ? { ...defaultConfig, ...savedConfig } : defaultConfig
+  const hasPlaintextApiKeys = !!savedConfig?.apiKeys?.some((k) => k.key !== undefined)
 
   proxyServer = new ProxyServer(config, {
     onRequest: (info) => {
@@ -321,9 +366,11 @@ function initProxyServer(): ProxyServer {
       debouncedStoreSet('proxyTotalCredits', totalCredits)
     },
     // Tokens 更新回调 - 使用防抖持久化
-    onTokensUpdate: (inputTokens, outputTokens) => {
+    onTokensUpdate: (inputTokens, outputTokens, cacheReadTokens, cacheWriteTokens) => {
       debouncedStoreSet('proxyInputTokens', inputTokens)
       debouncedStoreSet('proxyOutputTokens', outputTokens)
+      debouncedStoreSet('proxyCacheReadTokens', cacheReadTokens)
+      debouncedStoreSet('proxyCacheWriteTokens', cacheWriteTokens)
     },
     // 请求统计更新回调 - 使用防抖持久化
     onRequestStatsUpdate: (totalRequests, successRequests, failedRequests) => {
@@ -342,7 +389,7 @@ function initProxyServer(): ProxyServer {
 
   // 恢复保存的累计 tokens
   if (savedInputTokens > 0 || savedOutputTokens > 0) {
-    proxyServer.setTotalTokens(savedInputTokens, savedOutputTokens)
+    proxyServer.setTotalTokens(savedInputTokens, savedOutputTokens, savedCacheReadTokens, savedCacheWriteTokens)
   }
 
   // 恢复保存的请求统计
@@ -350,9 +397,44 @@ function initProxyServer(): ProxyServer {
     proxyServer.setRequestStats(savedTotalRequests, savedSuccessRequests, savedFailedRequests)
   }
 
+  // 旧版明文 API Key 已在 ProxyServer 中转换为哈希，立即持久化以移除明文
+  if (hasPlaintextApiKeys && store) {
+    store.set('proxyConfig', proxyServer.getConfig())
+  }
+
   return proxyServer
 }
 
+// 将已保存的可用账号同步到反代账号池（自启动或解锁保险库时）
+function syncStoredAccountsToProxy(server: ProxyServer): void {
+  const accountData = readAccountData() as { accounts?: Record<string, any> } | null
+  if (!accountData?.accounts) return
+  const proxyAccounts = Object.values(accountData.accounts)
+    .filter((acc: any) => acc.status === 'active' && acc.credentials?.accessToken)
+    .map((acc: any) => ({
+      id: acc.id,
+      email: acc.email,
+      accessToken: acc.credentials.accessToken,
+      refreshToken: acc.credentials?.refreshToken,
+      profileArn: acc.profileArn,
+      expiresAt: acc.credentials?.expiresAt,
+      clientId: acc.credentials?.clientId,
+      clientSecret: acc.credentials?.clientSecret,
+      region: acc.credentials?.region || 'us-east-1',
+      authMethod: acc.credentials?.authMethod
+    }))
+  if (proxyAccounts.length > 0) {
+    const pool = server.getAccountPool()
+    proxyAccounts.forEach((acc) => pool.addAccount(acc))
+    console.log('[ProxyServer] Auto-synced', proxyAccounts.length, 'accounts')
+  }
+}
+
+// 返回给渲染进程的反代配置（API Key 不含密钥哈希）
+function toPublicProxyConfig(config: ProxyConfig): ProxyConfig {
+  return { ...config, apiKeys: config.apiKeys?.map(toPublicApiKey) }
+}
+
 // ============ 隐私模式打开浏览器 ============
 import { exec, execSync } from 'child_process'
 
@@ -1275,9 +1357,21 @@ let store: {
   path: string
 } | null = null
 
+// 系统钥匙串加密后的账号凭证（单独文件，按账号 ID 保存）
+let credentialStore: {
+  get: (key: string, defaultValue?: unknown) => unknown
+  set: (key: string, value: unknown) => void
+} | null = null
+
+// 已写入钥匙串的凭证明文缓存，内容未变化时不重复加密
+const credentialCache = new Map<string, string>()
+
 // 最后保存的数据（用于崩溃恢复）
 let lastSavedData: unknown = null
 
+// 账号数据是否已使用主密码加密（initStore 时检测）
+let vaultEnabled = false
+
 async function initStore(): Promise<void> {
   if (store) return
   const Store = (await import('electron-store')).default
@@ -1290,6 +1384,7 @@ async function initStore(): Promise<void> {
   })
 
   store = storeInstance as unknown as typeof store
+  credentialStore = new Store({ name: 'kiro-credentials' }) as unknown as typeof credentialStore
 
   // 尝试从备份恢复数据（如果主数据损坏）
   try {
@@ -1301,18 +1396,35 @@ async function initStore(): Promise<void> {
       try {
         const backupContent = await fs.readFile(backupPath, 'utf-8')
         const backupData = JSON.parse(backupContent)
-        if (backupData && backupData.accounts) {
+        if (backupData && (backupData.accounts || isVaultPayload(backupData))) {
           console.log('[Store] Restoring data from backup...')
           storeInstance.set('accountData', backupData)
           console.log('[Store] Data restored from backup successfully')
         }
       } catch {
-        // 备份也不存在，忽略
+        // 备份不存在或已损坏，尝试最新的有效快照
+        const snapshotDir = path.join(path.dirname(storeInstance.path), 'backups')
+        const latest = (await listSnapshots(snapshotDir)).find(s => s.valid)
+        if (latest) {
+          const { payload } = await readSnapshot(snapshotDir, latest.id)
+          console.log(`[Store] Restoring data from snapshot ${latest.id}...`)
+          storeInstance.set('accountData', payload.data)
+          if (payload.credentials) {
+            credentialStore?.set('credentials', { ...payload.credentials, ...getEncryptedCredentials() })
+          }
+        }
       }
     }
   } catch (error) {
     console.error('[Store] Error checking backup:', error)
   }
+
+  vaultEnabled = isVaultPayload(storeInstance.get('accountData'))
+
+  // 将旧版明文保存的凭证迁移到系统钥匙串（保险库锁定时在解锁后迁移）
+  if (!isVaultLocked()) {
+    migrateCredentialsToKeychain()
+  }
 }
 
 // 创建数据备份
@@ -1323,14 +1435,184 @@ async function createBackup(data: unknown): Promise<void> {
     const fs = await import('fs/promises')
     const path = await import('path')
     const backupPath = path.join(path.dirname(store.path), 'kiro-accounts.backup.json')
-
-    await fs.writeFile(backupPath, JSON.stringify(data, null, 2), 'utf-8')
+    // 启用主密码时备份同样加密
+    const vaultKey = getUnlockedVaultKey()
+    if (vaultEnabled && !vaultKey) return
+    // 凭证已保存在钥匙串中时，备份不包含凭证
+    const backupData = isKeychainAvailable() ? stripSecrets(data) : data
+    const content = vaultEnabled && vaultKey ? sealVault(vaultKey, backupData) : backupData
+
+    await fs.writeFile(backupPath, JSON.stringify(content, null, 2), 'utf-8')
     console.log('[Backup] Data backup created')
+
+    await snapshotAccountData(data, 'auto')
   } catch (error) {
     console.error('[Backup] Failed to create backup:', error)
   }
 }
 
+// ============ 快照备份 ============
+
+function getSnapshotDir(): string {
+  return join(store ? dirname(store.path) : app.getPath('userData'), 'backups')
+}
+
+// 生成快照（与备份一样去掉钥匙串中的凭证并按需加密，同时保存当时的钥匙串密文以便恢复已删除的账号）
+async function snapshotAccountData(data: unknown, reason: SnapshotReason): Promise<void> {
+  if (!store) return
+  const vaultKey = getUnlockedVaultKey()
+  if (vaultEnabled && !vaultKey) return
+  const keychain = isKeychainAvailable()
+  const plainData = keychain ? stripSecrets(data) : data
+  const payload: SnapshotPayload = {
+    data: vaultEnabled && vaultKey ? sealVault(vaultKey, plainData) : plainData,
+    credentials: keychain ? getEncryptedCredentials() : undefined
+  }
+  const snapshot = await createSnapshot(getSnapshotDir(), plainData, payload, { reason, encrypted: vaultEnabled })
+  if (snapshot) {
+    console.log(`[Snapshot] Created ${reason} snapshot ${snapshot.id}`)
+  }
+}
+
+// 设置 / 修改 / 移除主密码后使用新密钥重新加密已有快照（to 为 null 时解密为明文）
+async function resealSnapshots(from: VaultKey | null, to: VaultKey | null): Promise<void> {
+  await rewriteSnapshots(getSnapshotDir(), (payload, encrypted) => {
+    let data = payload.data
+    if (encrypted && isVaultPayload(data)) {
+      if (!from) return { payload, encrypted }
+      data = openVault(from, data)
+    }
+    return { payload: { ...payload, data: to ? sealVault(to, data) : data }, encrypted: !!to }
+  })
+}
+
+// 读取快照中的账号数据（加密快照需要保险库已解锁）
+async function readSnapshotAccountData(id: string): Promise<{ data: unknown; credentials?: Record<string, string> }> {
+  const { payload, encrypted } = await readSnapshot(getSnapshotDir(), id)
+  if (!encrypted || !isVaultPayload(payload.data)) {
+    return { data: payload.data, credentials: payload.credentials }
+  }
+  const vaultKey = getUnlockedVaultKey()
+  if (!vaultKey) throw new Error('Vault is locked')
+  try {
+    return { data: openVault(vaultKey, payload.data), credentials: payload.credentials }
+  } catch {
+    throw new Error('Snapshot was encrypted with a different master password')
+  }
+}
+
+// ============ 主密码保险库 ============
+
+interface VaultSettings {
+  autoLockMinutes: number // 空闲多少分钟后自动锁定，0 表示不自动锁定
+}
+
+const defaultVaultSettings: VaultSettings = { autoLockMinutes: 0 }
+
+function getVaultSettings(): VaultSettings {
+  return { ...defaultVaultSettings, ...(store?.get('vaultSettings') as Partial<VaultSettings> | undefined) }
+}
+
+function isVaultLocked(): boolean {
+  return vaultEnabled && !getUnlockedVaultKey()
+}
+
+// 读取保存的账号数据（已加密时需先解锁，锁定状态下返回 null）
+function readStoredAccountData(): unknown {
+  const data = store?.get('accountData', null)
+  if (!isVaultPayload(data)) return data
+  const vaultKey = getUnlockedVaultKey()
+  return vaultKey ? openVault(vaultKey, data) : null
+}
+
+// 读取账号数据并合并钥匙串中的凭证
+function readAccountData(): unknown {
+  return attachSecrets(readStoredAccountData(), getEncryptedCredentials(), credentialCache)
+}
+
+// 写入账号数据（钥匙串可用时凭证单独保存，启用主密码时加密）
+function writeAccountData(data: unknown): void {
+  if (!store) return
+  const vaultKey = getUnlockedVaultKey()
+  if (vaultEnabled && !vaultKey) throw new Error('Vault is locked')
+
+  let content = data
+  if (isKeychainAvailable() && credentialStore) {
+    const detached = detachSecrets(data, getEncryptedCredentials(), credentialCache)
+    credentialStore.set('credentials', detached.encrypted)
+    content = detached.data
+  }
+  store.set('accountData', vaultEnabled && vaultKey ? sealVault(vaultKey, content) : content)
+}
+
+function getEncryptedCredentials(): EncryptedCredentials {
+  return (credentialStore?.get('credentials', {}) as EncryptedCredentials | undefined) ?? {}
+}
+
+// 将账号数据中的明文凭证移入系统钥匙串，并重写备份以移除明文
+function migrateCredentialsToKeychain(): void {
+  if (!isKeychainAvailable()) {
+    console.log('[Credentials] OS keychain not available, keeping credentials in the app store')
+    return
+  }
+  try {
+    if (!hasInlineSecrets(readStoredAccountData())) return
+    const data = readAccountData()
+    writeAccountData(data)
+    createBackup(data)
+    console.log('[Credentials] Migrated account credentials to OS keychain')
+  } catch (error) {
+    console.error('[Credentials] Failed to migrate credentials:', error)
+  }
+}
+
+// 锁定保险库：清除内存中的密钥和明文数据，并让渲染进程回到解锁界面
+function handleVaultLocked(): void {
+  lastSavedData = null
+  mainWindow?.webContents.send('vault-locked')
+}
+
+// ============ Kiro 设置目标 ============
+
+function getKiroCustomDirs(): string[] {
+  return (store?.get('kiroCustomInstallDirs') as string[] | undefined) || []
+}
+
+function getKiroSettingsTargets(): KiroSettingsTarget[] {
+  return listKiroSettingsTargets(getKiroCustomDirs())
+}
+
+// 解析要读写的 settings.json，未指定时使用上次选择的目标
+function getKiroSettingsTarget(targetId?: string): KiroSettingsTarget {
+  return resolveKiroSettingsTarget(
+    getKiroSettingsTargets(),
+    targetId || (store?.get('kiroSettingsTarget') as string | undefined)
+  )
+}
+
+// 写入时使用：显式指定的目标不存在（如安装目录已移除）时报错，避免静默写到默认 settings.json
+function requireKiroSettingsTarget(targetId?: string): KiroSettingsTarget {
+  if (targetId && !getKiroSettingsTargets().some((t) => t.id === targetId)) {
+    throw new Error(`Kiro settings target not found: ${targetId}`)
+  }
+  return getKiroSettingsTarget(targetId)
+}
+
+// ============ MCP 工作区 ============
+
+function getMcpWorkspaces(): string[] {
+  return (store?.get('kiroMcpWorkspaces') as string[] | undefined) || []
+}
+
+// 只允许操作已添加的工作区，null 表示用户级配置
+function checkMcpWorkspace(workspace?: string | null): string | null {
+  if (!workspace) return null
+  if (!getMcpWorkspaces().includes(workspace)) {
+    throw new Error(`Unknown workspace: ${workspace}`)
+  }
+  return workspace
+}
+
 let mainWindow: BrowserWindow | null = null
 
 // ============ 托盘相关变量 ============
@@ -1534,31 +1816,8 @@ function createWindow(): void {
         const server = initProxyServer()
         server.updateConfig(savedProxyConfig)
 
-        // 自启动时同步账号到代理池
-        const accountData = store.get('accountData') as
-          | { accounts?: Record<string, any> }
-          | undefined
-        if (accountData?.accounts) {
-          const proxyAccounts = Object.values(accountData.accounts)
-            .filter((acc: any) => acc.status === 'active' && acc.credentials?.accessToken)
-            .map((acc: any) => ({
-              id: acc.id,
-              email: acc.email,
-              accessToken: acc.credentials.accessToken,
-              refreshToken: acc.credentials?.refreshToken,
-              profileArn: acc.profileArn,
-              expiresAt: acc.credentials?.expiresAt,
-              clientId: acc.credentials?.clientId,
-              clientSecret: acc.credentials?.clientSecret,
-              region: acc.credentials?.region || 'us-east-1',
-              authMethod: acc.credentials?.authMethod
-            }))
-          if (proxyAccounts.length > 0) {
-            const pool = server.getAccountPool()
-            proxyAccounts.forEach((acc) => pool.addAccount(acc))
-            console.log('[ProxyServer] Auto-synced', proxyAccounts.length, 'accounts')
-          }
-        }
+        // 自启动时同步账号到代理池（启用主密码时在解锁后同步）
+        syncStoredAccountsToProxy(server)
 
         await server.start()
         console.log(
@@ -1628,7 +1887,7 @@ function createWindow(): void {
     if (lastSavedData && store) {
       try {
         console.log('[Window] Saving data before close...')
-        store.set('accountData', lastSavedData)
+        writeAccountData(lastSavedData)
         // 备份异步进行，不阻塞关闭
         createBackup(lastSavedData)
           .then(() => {
@@ -1862,6 +2121,196 @@ app.whenReady().then(async () => {
     return app.getVersion()
   })
 
+  // ============ 主密码保险库 IPC ============
+
+  startVaultAutoLock(() => (vaultEnabled ? getVaultSettings().autoLockMinutes : 0), handleVaultLocked)
+
+  // IPC: 获取保险库状态
+  ipcMain.handle('vault-get-status', async () => {
+    await initStore()
+    return { enabled: vaultEnabled, locked: isVaultLocked(), autoLockMinutes: getVaultSettings().autoLockMinutes }
+  })
+
+  // IPC: 使用主密码解锁
+  ipcMain.handle('vault-unlock', async (_event, password: string) => {
+    try {
+      await initStore()
+      const payload = store?.get('accountData')
+      if (!isVaultPayload(payload)) {
+        return { success: true }
+      }
+      const { vaultKey } = await deriveVaultKey(password, payload)
+      setUnlockedVaultKey(vaultKey)
+      migrateCredentialsToKeychain()
+      // 自启动的反代服务在锁定期间没有账号，解锁后补充同步
+      if (proxyServer && proxyServer.getAccountPool().size === 0) {
+        syncStoredAccountsToProxy(proxyServer)
+      }
+      return { success: true }
+    } catch {
+      return { success: false, error: 'Incorrect password' }
+    }
+  })
+
+  // IPC: 立即锁定
+  ipcMain.handle('vault-lock', () => {
+    if (!vaultEnabled) return { success: false, error: 'Master password is not set' }
+    lockVault()
+    handleVaultLocked()
+    return { success: true }
+  })
+
+  // IPC: 设置主密码（加密现有账号数据和备份）
+  ipcMain.handle('vault-enable', async (_event, password: string) => {
+    try {
+      await initStore()
+      if (vaultEnabled) return { success: false, error: 'Master password is already set' }
+      if (!password) return { success: false, error: 'Password is required' }
+      const data = lastSavedData ?? readAccountData()
+      const vaultKey = await createVaultKey(password)
+      setUnlockedVaultKey(vaultKey)
+      vaultEnabled = true
+      writeAccountData(data)
+      await createBackup(data)
+      await resealSnapshots(null, vaultKey)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to set master password' }
+    }
+  })
+
+  // IPC: 修改主密码（使用新密钥重新加密）
+  ipcMain.handle('vault-change-password', async (_event, currentPassword: string, newPassword: string) => {
+    try {
+      await initStore()
+      const payload = store?.get('accountData')
+      if (!isVaultPayload(payload)) return { success: false, error: 'Master password is not set' }
+      if (!newPassword) return { success: false, error: 'Password is required' }
+      let current: Awaited<ReturnType<typeof deriveVaultKey>>
+      try {
+        current = await deriveVaultKey(currentPassword, payload)
+      } catch {
+        return { success: false, error: 'Incorrect password' }
+      }
+      const nextKey = await createVaultKey(newPassword)
+      setUnlockedVaultKey(nextKey)
+      writeAccountData(lastSavedData ?? current.data)
+      await createBackup(lastSavedData ?? current.data)
+      await resealSnapshots(current.vaultKey, nextKey)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to change master password' }
+    }
+  })
+
+  // IPC: 移除主密码（恢复为不加密保存）
+  ipcMain.handle('vault-disable', async (_event, password: string) => {
+    try {
+      await initStore()
+      const payload = store?.get('accountData')
+      if (!isVaultPayload(payload)) return { success: false, error: 'Master password is not set' }
+      let current: Awaited<ReturnType<typeof deriveVaultKey>>
+      try {
+        current = await deriveVaultKey(password, payload)
+      } catch {
+        return { success: false, error: 'Incorrect password' }
+      }
+      vaultEnabled = false
+      lockVault()
+      writeAccountData(lastSavedData ?? current.data)
+      await createBackup(lastSavedData ?? current.data)
+      await resealSnapshots(current.vaultKey, null)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to remove master password' }
+    }
+  })
+
+  // IPC: 获取账号凭证存储方式（系统钥匙串或应用数据文件）
+  ipcMain.handle('get-credential-storage', async () => {
+    await initStore()
+    return { keychain: isKeychainAvailable(), backend: getKeychainBackend() }
+  })
+
+  // IPC: 设置空闲自动锁定时间
+  ipcMain.handle('vault-set-auto-lock', async (_event, minutes: number) => {
+    await initStore()
+    store?.set('vaultSettings', { ...getVaultSettings(), autoLockMinutes: Math.max(0, Math.floor(minutes) || 0) })
+    return { success: true }
+  })
+
+  // ============ 快照备份 IPC ============
+
+  // IPC: 列出快照
+  ipcMain.handle('backup-list-snapshots', async () => {
+    await initStore()
+    return listSnapshots(getSnapshotDir())
+  })
+
+  // IPC: 立即创建快照
+  ipcMain.handle('backup-create-snapshot', async () => {
+    try {
+      await initStore()
+      if (isVaultLocked()) return { success: false, error: 'Vault is locked' }
+      await snapshotAccountData(lastSavedData ?? readAccountData(), 'manual')
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create snapshot' }
+    }
+  })
+
+  // IPC: 预览快照与当前数据的差异
+  ipcMain.handle('backup-preview-snapshot', async (_event, id: string) => {
+    try {
+      await initStore()
+      const snapshot = await readSnapshotAccountData(id)
+      const current = lastSavedData ?? readAccountData()
+      return { success: true, diff: diffAccountData(stripSecrets(current), stripSecrets(snapshot.data)) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to read snapshot' }
+    }
+  })
+
+  // IPC: 从快照恢复（不指定 selection 时完整恢复，否则只恢复选中的账号 / 分组 / 标签）
+  ipcMain.handle('backup-restore-snapshot', async (_event, id: string, selection?: RestoreSelection) => {
+    try {
+      await initStore()
+      if (isVaultLocked()) return { success: false, error: 'Vault is locked' }
+      const snapshot = await readSnapshotAccountData(id)
+      const current = lastSavedData ?? readAccountData()
+
+      // 恢复前先为当前数据生成快照，便于撤销
+      await snapshotAccountData(current, 'pre-restore')
+
+      // 补回快照中已被删除账号的钥匙串凭证（当前已有的凭证优先，避免用旧 Token 覆盖）
+      if (snapshot.credentials && credentialStore) {
+        credentialStore.set('credentials', { ...snapshot.credentials, ...getEncryptedCredentials() })
+      }
+      const snapshotData = attachSecrets(snapshot.data, getEncryptedCredentials(), credentialCache)
+      const hasSelection = !!selection && Object.values(selection).some(ids => ids && ids.length > 0)
+      const restored = hasSelection ? mergeSnapshotSelection(current, snapshotData, selection) : snapshotData
+
+      writeAccountData(restored)
+      lastSavedData = restored
+      await createBackup(restored)
+      console.log(`[Snapshot] Restored ${hasSelection ? 'selected items' : 'all data'} from snapshot ${id}`)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to restore snapshot' }
+    }
+  })
+
+  // IPC: 删除快照
+  ipcMain.handle('backup-delete-snapshot', async (_event, id: string) => {
+    try {
+      await initStore()
+      await deleteSnapshot(getSnapshotDir(), id)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to delete snapshot' }
+    }
+  })
+
   // IPC: 检查更新
   ipcMain.handle('check-for-updates', async () => {
     if (is.dev) {
@@ -1985,7 +2434,10 @@ app.whenReady().then(async () => {
   ipcMain.handle('load-accounts', async () => {
     try {
       await initStore()
-      return store!.get('accountData', null)
+      if (isVaultLocked()) {
+        throw new Error('Vault is locked')
+      }
+      return readAccountData()
     } catch (error) {
       console.error('Failed to load accounts:', error)
       return null
@@ -1996,7 +2448,7 @@ app.whenReady().then(async () => {
   ipcMain.handle('save-accounts', async (_event, data) => {
     try {
       await initStore()
-      store!.set('accountData', data)
+      writeAccountData(data)
 
       // 保存最后的数据（用于崩溃恢复）
       lastSavedData = data
@@ -3255,7 +3707,9 @@ app.whenReady().then(async () => {
       const result = await dialog.showSaveDialog(mainWindow!, {
         title: '导出账号数据',
         defaultPath: filename,
-        filters: [{ name: 'JSON Files', extensions: ['json'] }]
+        filters: filename.endsWith('.kirobundle')
+          ? [{ name: 'Kiro Encrypted Bundle', extensions: ['kirobundle'] }]
+          : [{ name: 'JSON Files', extensions: ['json'] }]
       })
 
       if (!result.canceled && result.filePath) {
@@ -3269,14 +3723,33 @@ app.whenReady().then(async () => {
     }
   })
 
+  // IPC: 使用口令加密导出内容
+  ipcMain.handle('export-encrypt-bundle', async (_event, content: string, passphrase: string) => {
+    try {
+      return { success: true, content: await encryptExportBundle(content, passphrase) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to encrypt bundle' }
+    }
+  })
+
+  // IPC: 使用口令解密导入的加密包
+  ipcMain.handle('import-decrypt-bundle', async (_event, content: string, passphrase: string) => {
+    try {
+      return { success: true, content: await decryptExportBundle(content, passphrase) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to decrypt bundle' }
+    }
+  })
+
   // IPC: 从文件导入
   ipcMain.handle('import-from-file', async () => {
     try {
       const result = await dialog.showOpenDialog(mainWindow!, {
         title: '导入账号数据',
         filters: [
-          { name: '所有支持的格式', extensions: ['json', 'csv', 'txt'] },
+          { name: '所有支持的格式', extensions: ['json', 'kirobundle', 'csv', 'txt'] },
           { name: 'JSON Files', extensions: ['json'] },
+          { name: 'Kiro Encrypted Bundle', extensions: ['kirobundle'] },
           { name: 'CSV Files', extensions: ['csv'] },
           { name: 'TXT Files', extensions: ['txt'] }
         ],
@@ -4413,39 +4886,79 @@ app.whenReady().then(async () => {
 
   // ============ Kiro 设置管理 IPC ============
 
+  // IPC: 获取可编辑的 Kiro 设置目标（各安装的用户设置、Profile、工作区）
+  ipcMain.handle('get-kiro-settings-targets', () => {
+    try {
+      const targets = getKiroSettingsTargets()
+      const selected = resolveKiroSettingsTarget(targets, store?.get('kiroSettingsTarget') as string | undefined)
+      return { targets, selectedId: selected.id, customDirs: getKiroCustomDirs() }
+    } catch (error) {
+      console.error('[KiroSettings] Failed to list settings targets:', error)
+      return { targets: [], selectedId: null, customDirs: [], error: error instanceof Error ? error.message : 'Failed to list settings targets' }
+    }
+  })
+
+  // IPC: 记住当前编辑的设置目标
+  ipcMain.handle('set-kiro-settings-target', (_event, targetId: string) => {
+    store?.set('kiroSettingsTarget', targetId)
+    return { success: true }
+  })
+
+  // IPC: 添加便携版或自定义位置的 Kiro 安装目录
+  ipcMain.handle('add-kiro-install-dir', async () => {
+    if (!mainWindow) return { success: false, error: 'No window' }
+    const result = await dialog.showOpenDialog(mainWindow, {
+      title: 'Select Kiro installation or user data folder',
+      properties: ['openDirectory']
+    })
+    if (result.canceled || !result.filePaths[0]) {
+      return { success: false, error: 'Cancelled' }
+    }
+    const dir = result.filePaths[0]
+    const customDirs = getKiroCustomDirs()
+    if (!customDirs.includes(dir)) {
+      store?.set('kiroCustomInstallDirs', [...customDirs, dir])
+    }
+    console.log('[KiroSettings] Added install dir:', dir, '->', resolveKiroUserDataDir(dir))
+    return { success: true }
+  })
+
+  // IPC: 移除手动添加的 Kiro 安装目录
+  ipcMain.handle('remove-kiro-install-dir', (_event, dir: string) => {
+    store?.set('kiroCustomInstallDirs', getKiroCustomDirs().filter((d) => d !== dir))
+    return { success: true }
+  })
+
   // IPC: 获取 Kiro 设置
-  ipcMain.handle('get-kiro-settings', async () => {
+  ipcMain.handle('get-kiro-settings', async (_event, targetId?: string) => {
     try {
       const os = await import('os')
       const fs = await import('fs')
       const path = await import('path')
 
       const homeDir = os.homedir()
-      const kiroSettingsPath = path.join(
-        homeDir,
-        'AppData',
-        'Roaming',
-        'Kiro',
-        'User',
-        'settings.json'
-      )
+      const target = getKiroSettingsTarget(targetId)
+      const kiroSettingsPath = target.settingsPath
       const kiroSteeringPath = path.join(homeDir, '.kiro', 'steering')
       const kiroMcpUserPath = path.join(homeDir, '.kiro', 'settings', 'mcp.json')
 
-      let settings = {}
+      let settings: Record<string, unknown> | undefined = {}
+      let settingsError: string | undefined
       let mcpConfig = { mcpServers: {} }
       let steeringFiles: string[] = []
 
-      // 读取 Kiro settings.json (VS Code 风格 JSON，可能有尾随逗号)
+      // 读取 Kiro settings.json (VS Code 风格 JSONC，可能有注释和尾随逗号)
       if (fs.existsSync(kiroSettingsPath)) {
         const content = fs.readFileSync(kiroSettingsPath, 'utf-8')
-        // 移除尾随逗号和注释以兼容标准 JSON
-        const cleanedContent = content
-          .replace(/\/\/.*$/gm, '') // 移除单行注释
-          .replace(/\/\*[\s\S]*?\*\//g, '') // 移除多行注释
-          .replace(/,(\s*[}\]])/g, '$1') // 移除尾随逗号
-        const parsed = JSON.parse(cleanedContent)
-        settings = {
+        let parsed: Record<string, unknown> = {}
+        try {
+          parsed = parseJsoncObject(content)
+        } catch (parseError) {
+          // 解析失败时不返回设置，避免页面用默认值覆盖用户配置
+          settings = undefined
+          settingsError = `Failed to parse ${kiroSettingsPath}: ${parseError instanceof Error ? parseError.message : parseError}`
+        }
+        if (settings) settings = {
           modelSelection: parsed['kiroAgent.modelSelection'],
           agentAutonomy: parsed['kiroAgent.agentAutonomy'],
           enableDebugLogs: parsed['kiroAgent.enableDebugLogs'],
@@ -4468,8 +4981,7 @@ app.whenReady().then(async () => {
 
       // 读取 MCP 配置
       if (fs.existsSync(kiroMcpUserPath)) {
-        const mcpContent = fs.readFileSync(kiroMcpUserPath, 'utf-8')
-        mcpConfig = JSON.parse(mcpContent)
+        mcpConfig = { mcpServers: readMcpConfigFile(null).servers }
       }
 
       // 读取 Steering 文件列表
@@ -4482,7 +4994,7 @@ app.whenReady().then(async () => {
         console.log('[KiroSettings] Steering path does not exist:', kiroSteeringPath)
       }
 
-      return { settings, mcpConfig, steeringFiles }
+      return { settings, mcpConfig, steeringFiles, target, error: settingsError }
     } catch (error) {
       console.error('[KiroSettings] Failed to get settings:', error)
       return { error: error instanceof Error ? error.message : 'Failed to get settings' }
@@ -4493,7 +5005,7 @@ app.whenReady().then(async () => {
   ipcMain.handle('get-kiro-available-models', async () => {
     try {
       if (!store) return { models: [] }
-      const accountData = store.get('accountData') as { accounts?: Record<string, any> } | undefined
+      const accountData = readAccountData() as { accounts?: Record<string, any> } | null
       if (!accountData?.accounts) return { models: [] }
 
       // 优先使用当前激活账号（isActive），其次使用第一个 active 且有 accessToken 的账号
@@ -4534,36 +5046,17 @@ app.whenReady().then(async () => {
   })
 
   // IPC: 保存 Kiro 设置
-  ipcMain.handle('save-kiro-settings', async (_event, settings: Record<string, unknown>) => {
+  ipcMain.handle('save-kiro-settings', async (_event, settings: Record<string, unknown>, targetId?: string) => {
     try {
-      const os = await import('os')
       const fs = await import('fs')
       const path = await import('path')
 
-      const homeDir = os.homedir()
-      const kiroSettingsPath = path.join(
-        homeDir,
-        'AppData',
-        'Roaming',
-        'Kiro',
-        'User',
-        'settings.json'
-      )
+      const kiroSettingsPath = requireKiroSettingsTarget(targetId).settingsPath
 
-      let existingSettings = {}
-      if (fs.existsSync(kiroSettingsPath)) {
-        const content = fs.readFileSync(kiroSettingsPath, 'utf-8')
-        // 移除尾随逗号和注释以兼容标准 JSON
-        const cleanedContent = content
-          .replace(/\/\/.*$/gm, '') // 移除单行注释
-          .replace(/\/\*[\s\S]*?\*\//g, '') // 移除多行注释
-          .replace(/,(\s*[}\]])/g, '$1') // 移除尾随逗号
-        existingSettings = JSON.parse(cleanedContent)
-      }
+      const content = fs.existsSync(kiroSettingsPath) ? fs.readFileSync(kiroSettingsPath, 'utf-8') : ''
 
       // 映射设置到 Kiro 的格式
       const kiroSettings = {
-        ...existingSettings,
         'kiroAgent.modelSelection': settings.modelSelection,
         'kiroAgent.agentAutonomy': settings.agentAutonomy,
         'kiroAgent.enableDebugLogs': settings.enableDebugLogs,
@@ -4589,7 +5082,18 @@ app.whenReady().then(async () => {
         fs.mkdirSync(dir, { recursive: true })
       }
 
-      fs.writeFileSync(kiroSettingsPath, JSON.stringify(kiroSettings, null, 4))
+      // 只就地修改 kiroAgent.* 键，保留注释、顺序和缩进；文件无法解析时拒绝写入
+      let updated: string
+      try {
+        updated = updateJsoncKeys(content, kiroSettings)
+      } catch (parseError) {
+        return {
+          success: false,
+          error: `Refusing to overwrite ${kiroSettingsPath}, it contains syntax errors: ${parseError instanceof Error ? parseError.message : parseError}`
+        }
+      }
+
+      fs.writeFileSync(kiroSettingsPath, updated)
       return { success: true }
     } catch (error) {
       console.error('[KiroSettings] Failed to save settings:', error)
@@ -4601,29 +5105,12 @@ app.whenReady().then(async () => {
   })
 
   // IPC: 打开 Kiro MCP 配置文件
-  ipcMain.handle('open-kiro-mcp-config', async (_event, type: 'user' | 'workspace') => {
+  ipcMain.handle('open-kiro-mcp-config', async (_event, type: 'user' | 'workspace', workspace?: string) => {
     try {
-      const os = await import('os')
-      const path = await import('path')
-      const homeDir = os.homedir()
-
-      let configPath: string
-      if (type === 'user') {
-        configPath = path.join(homeDir, '.kiro', 'settings', 'mcp.json')
-      } else {
-        // 工作区配置，打开当前工作区的 .kiro/settings/mcp.json
-        configPath = path.join(process.cwd(), '.kiro', 'settings', 'mcp.json')
-      }
-
-      // 如果文件不存在，创建空配置
-      const fs = await import('fs')
-      if (!fs.existsSync(configPath)) {
-        const dir = path.dirname(configPath)
-        if (!fs.existsSync(dir)) {
-          fs.mkdirSync(dir, { recursive: true })
-        }
-        fs.writeFileSync(configPath, JSON.stringify({ mcpServers: {} }, null, 2))
-      }
+      // 工作区配置：打开指定工作区（未指定时为当前目录）的 .kiro/settings/mcp.json
+      const configPath = ensureMcpConfigFile(
+        type === 'user' ? null : workspace ? checkMcpWorkspace(workspace) : process.cwd()
+      )
 
       shell.openPath(configPath)
       return { success: true }
@@ -4662,13 +5149,11 @@ app.whenReady().then(async () => {
   })
 
   // IPC: 打开 Kiro settings.json 文件
-  ipcMain.handle('open-kiro-settings-file', async () => {
+  ipcMain.handle('open-kiro-settings-file', async (_event, targetId?: string) => {
     try {
-      const os = await import('os')
       const path = await import('path')
       const fs = await import('fs')
-      const homeDir = os.homedir()
-      const settingsPath = path.join(homeDir, 'AppData', 'Roaming', 'Kiro', 'User', 'settings.json')
+      const settingsPath = requireKiroSettingsTarget(targetId).settingsPath
 
       // 如果文件不存在，创建默认配置
       if (!fs.existsSync(settingsPath)) {
@@ -4895,11 +5380,11 @@ app.whenReady().then(async () => {
     if (!proxyServer) {
       // 未初始化时从 store 读取保存的配置
       const savedConfig = store?.get('proxyConfig') as ProxyConfig | undefined
-      return { running: false, config: savedConfig || null, stats: null, sessionStats: null }
+      return { running: false, config: savedConfig ? toPublicProxyConfig(savedConfig) : null, stats: null, sessionStats: null }
     }
     return {
       running: proxyServer.isRunning(),
-      config: proxyServer.getConfig(),
+      config: toPublicProxyConfig(proxyServer.getConfig()),
       stats: proxyServer.getStats(),
       sessionStats: proxyServer.getSessionStats()
     }
@@ -4924,6 +5409,8 @@ app.whenReady().then(async () => {
     if (store) {
       store.set('proxyInputTokens', 0)
       store.set('proxyOutputTokens', 0)
+      store.set('proxyCacheReadTokens', 0)
+      store.set('proxyCacheWriteTokens', 0)
     }
     return { success: true }
   })
@@ -4949,6 +5436,11 @@ app.whenReady().then(async () => {
     return proxyLogStore.getAll()
   })
 
+  // IPC: 按条件分页查询反代日志
+  ipcMain.handle('proxy-query-logs', (_event, query?: LogQuery) => {
+    return proxyLogStore.query(query)
+  })
+
   // IPC: 清除反代日志
   ipcMain.handle('proxy-clear-logs', () => {
     proxyLogStore.clear()
@@ -4960,6 +5452,41 @@ app.whenReady().then(async () => {
     return proxyLogStore.count()
   })
 
+  // IPC: 获取抓包列表
+  ipcMain.handle('proxy-get-captures', () => {
+    return proxyCaptureStore.list()
+  })
+
+  // IPC: 获取单条抓包详情
+  ipcMain.handle('proxy-get-capture', (_event, id: string) => {
+    return proxyCaptureStore.get(id) || null
+  })
+
+  // IPC: 删除抓包
+  ipcMain.handle('proxy-delete-capture', (_event, id: string) => {
+    proxyCaptureStore.delete(id)
+    return { success: true }
+  })
+
+  // IPC: 清除全部抓包
+  ipcMain.handle('proxy-clear-captures', () => {
+    proxyCaptureStore.clear()
+    return { success: true }
+  })
+
+  // IPC: 通过当前的转换逻辑重放抓包
+  ipcMain.handle('proxy-replay-capture', async (_event, id: string) => {
+    if (!proxyServer || !proxyServer.isRunning()) {
+      return { success: false, error: 'Proxy server is not running' }
+    }
+    try {
+      const result = await proxyServer.replayCapture(id)
+      return { success: true, ...result }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
   // IPC: 获取 Usage API 类型
   ipcMain.handle('get-usage-api-type', () => {
     return currentUsageApiType
@@ -5000,7 +5527,7 @@ app.whenReady().then(async () => {
       if (store) {
         store.set('proxyConfig', newConfig)
       }
-      return { success: true, config: newConfig }
+      return { success: true, config: toPublicProxyConfig(newConfig) }
     } catch (error) {
       console.error('[ProxyServer] Update config failed:', error)
       return {
@@ -5017,7 +5544,7 @@ app.whenReady().then(async () => {
     try {
       const server = initProxyServer()
       const config = server.getConfig()
-      return { success: true, apiKeys: config.apiKeys || [] }
+      return { success: true, apiKeys: (config.apiKeys || []).map(toPublicApiKey) }
     } catch (error) {
       return {
         success: false,
@@ -5037,6 +5564,10 @@ app.whenReady().then(async () => {
         key?: string
         format?: 'sk' | 'simple' | 'token'
         creditsLimit?: number
+        rateLimits?: import('./proxy/types').ApiKeyRateLimits
+        scopes?: import('./proxy/types').ApiKeyScopes
+        expiresAt?: number
+        allowedIps?: string[]
       }
     ) => {
       try {
@@ -5045,34 +5576,22 @@ app.whenReady().then(async () => {
         const config = server.getConfig()
         const apiKeys = config.apiKeys || []
 
-        // 根据格式生成随机 Key
+        // 根据格式生成随机 Key（只保存哈希，明文仅在本次返回）
         const format = apiKey.format || 'sk'
-        let newKey = apiKey.key
-        if (!newKey) {
-          const randomHex = crypto.randomBytes(24).toString('hex')
-          switch (format) {
-            case 'sk':
-              newKey = `sk-${randomHex}`
-              break
-            case 'simple':
-              newKey = `PROXY_KEY_${randomHex.toUpperCase().substring(0, 32)}`
-              break
-            case 'token':
-              newKey = `KEY:${randomHex.substring(0, 16)}:TOKEN:${randomHex.substring(16, 32)}`
-              break
-            default:
-              newKey = `sk-${randomHex}`
-          }
-        }
+        const secret = apiKey.key || generateApiKeySecret(format)
 
         const newApiKey: import('./proxy/types').ApiKey = {
           id: crypto.randomUUID(),
           name: apiKey.name || `API Key ${apiKeys.length + 1}`,
-          key: newKey,
+          ...hashApiKeySecret(secret),
           format: format,
           enabled: true,
           createdAt: Date.now(),
           creditsLimit: apiKey.creditsLimit,
+          rateLimits: apiKey.rateLimits,
+          scopes: apiKey.scopes,
+          expiresAt: apiKey.expiresAt,
+          allowedIps: apiKey.allowedIps,
           usage: {
             totalRequests: 0,
             totalCredits: 0,
@@ -5089,7 +5608,7 @@ app.whenReady().then(async () => {
           store.set('proxyConfig', server.getConfig())
         }
 
-        return { success: true, apiKey: newApiKey }
+        return { success: true, apiKey: toPublicApiKey(newApiKey), secret }
       } catch (error) {
         return {
           success: false,
@@ -5099,6 +5618,65 @@ app.whenReady().then(async () => {
     }
   )
 
+  // IPC: 轮换 API Key（创建继任 Key，旧 Key 在宽限期结束后吊销）
+  ipcMain.handle('proxy-rotate-api-key', async (_event, id: string, gracePeriodMinutes: number) => {
+    try {
+      const crypto = await import('crypto')
+      const server = initProxyServer()
+      const config = server.getConfig()
+      const apiKeys = config.apiKeys || []
+
+      const index = apiKeys.findIndex((k) => k.id === id)
+      if (index === -1) {
+        return { success: false, error: 'API key not found' }
+      }
+      const oldKey = apiKeys[index]
+      if (oldKey.replacedBy) {
+        return { success: false, error: 'API key has already been rotated' }
+      }
+
+      const now = Date.now()
+      const secret = generateApiKeySecret(oldKey.format)
+      // 继任 Key 沿用名称、额度、限流和访问范围，用量重新统计
+      const successor: import('./proxy/types').ApiKey = {
+        id: crypto.randomUUID(),
+        name: oldKey.name,
+        ...hashApiKeySecret(secret),
+        format: oldKey.format,
+        enabled: true,
+        createdAt: now,
+        creditsLimit: oldKey.creditsLimit,
+        rateLimits: oldKey.rateLimits,
+        scopes: oldKey.scopes,
+        expiresAt: oldKey.expiresAt,
+        allowedIps: oldKey.allowedIps,
+        rotatedFrom: oldKey.id,
+        usage: {
+          totalRequests: 0,
+          totalCredits: 0,
+          totalInputTokens: 0,
+          totalOutputTokens: 0,
+          daily: {}
+        }
+      }
+      const revokeAt = now + Math.max(0, gracePeriodMinutes || 0) * 60 * 1000
+      apiKeys[index] = { ...oldKey, replacedBy: successor.id, revokeAt }
+      apiKeys.splice(index + 1, 0, successor)
+      server.updateConfig({ apiKeys })
+
+      if (store) {
+        store.set('proxyConfig', server.getConfig())
+      }
+
+      return { success: true, apiKey: toPublicApiKey(successor), previous: toPublicApiKey(apiKeys[index]), secret }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to rotate API key'
+      }
+    }
+  })
+
   // IPC: 更新 API Key
   ipcMain.handle(
     'proxy-update-api-key',
@@ -5113,8 +5691,11 @@ app.whenReady().then(async () => {
           return { success: false, error: 'API key not found' }
         }
 
-        // 更新字段（不允许更新 id、createdAt、usage）
+        // 更新字段（不允许更新 id、createdAt、usage 和密钥，密钥只能通过轮换更换）
         const { id: _, createdAt: __, usage: ___, ...allowedUpdates } = updates
+        for (const field of ['key', 'keyHash', 'keyPrefix', 'rotatedFrom', 'replacedBy'] as const) {
+          delete allowedUpdates[field]
+        }
         apiKeys[index] = { ...apiKeys[index], ...allowedUpdates }
 
         server.updateConfig({ apiKeys })
@@ -5123,7 +5704,7 @@ app.whenReady().then(async () => {
           store.set('proxyConfig', server.getConfig())
         }
 
-        return { success: true, apiKey: apiKeys[index] }
+        return { success: true, apiKey: toPublicApiKey(apiKeys[index]) }
       } catch (error) {
         return {
           success: false,
@@ -5196,6 +5777,23 @@ app.whenReady().then(async () => {
     }
   })
 
+  // IPC: 获取 API Key 限流状态
+  ipcMain.handle('proxy-get-api-key-rate-limit-status', (_event, id: string) => {
+    try {
+      const server = initProxyServer()
+      const status = server.getApiKeyRateLimitStatus(id)
+      if (!status) {
+        return { success: false, error: 'API key not found' }
+      }
+      return { success: true, status }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get rate limit status'
+      }
+    }
+  })
+
   // IPC: 添加账号到反代池
   ipcMain.handle('proxy-add-account', (_event, account: ProxyAccount) => {
     try {
@@ -5266,6 +5864,11 @@ app.whenReady().then(async () => {
     return { success: true }
   })
 
+  // IPC: 获取内置的系统提示注入规则（用于恢复默认）
+  ipcMain.handle('proxy-get-default-prompt-rules', () => {
+    return getDefaultPromptInjectionRules()
+  })
+
   // IPC: 获取可用模型列表
   ipcMain.handle('proxy-get-models', async () => {
     if (!proxyServer) {
@@ -5959,45 +6562,58 @@ app.whenReady().then(async () => {
 
   // ============ MCP 服务器管理 IPC ============
 
+  // IPC: 获取用户级和各工作区的 MCP 配置
+  ipcMain.handle('get-mcp-configs', () => {
+    return {
+      user: readMcpConfigFile(null),
+      workspaces: getMcpWorkspaces().map((workspace) => readMcpConfigFile(workspace))
+    }
+  })
+
+  // IPC: 添加 MCP 工作区目录
+  ipcMain.handle('add-mcp-workspace', async () => {
+    if (!mainWindow) return { success: false, error: 'No window' }
+    const result = await dialog.showOpenDialog(mainWindow, {
+      title: 'Select workspace folder',
+      properties: ['openDirectory']
+    })
+    if (result.canceled || !result.filePaths[0]) {
+      return { success: false, error: 'Cancelled' }
+    }
+    const workspace = result.filePaths[0]
+    const workspaces = getMcpWorkspaces()
+    if (!workspaces.includes(workspace)) {
+      store?.set('kiroMcpWorkspaces', [...workspaces, workspace])
+    }
+    return { success: true, workspace }
+  })
+
+  // IPC: 移除 MCP 工作区目录（不删除工作区中的配置文件）
+  ipcMain.handle('remove-mcp-workspace', (_event, workspace: string) => {
+    store?.set('kiroMcpWorkspaces', getMcpWorkspaces().filter((w) => w !== workspace))
+    return { success: true }
+  })
+
   // IPC: 保存 MCP 服务器配置
   ipcMain.handle(
     'save-mcp-server',
     async (
       _event,
       name: string,
-      config: { command: string; args?: string[]; env?: Record<string, string> },
-      oldName?: string
+      config: McpServerConfig,
+      oldName?: string,
+      workspace?: string | null
     ) => {
       try {
-        const os = await import('os')
-        const fs = await import('fs')
-        const path = await import('path')
-        const homeDir = os.homedir()
-        const mcpPath = path.join(homeDir, '.kiro', 'settings', 'mcp.json')
-
-        // 读取现有配置
-        let mcpConfig: { mcpServers: Record<string, unknown> } = { mcpServers: {} }
-        if (fs.existsSync(mcpPath)) {
-          const content = fs.readFileSync(mcpPath, 'utf-8')
-          mcpConfig = JSON.parse(content)
-        }
+        const invalid = validateMcpServerConfig(config)
+        if (invalid) return { success: false, error: invalid }
 
-        // 如果是重命名，先删除旧的
-        if (oldName && oldName !== name) {
-          delete mcpConfig.mcpServers[oldName]
-        }
-
-        // 添加/更新服务器
-        mcpConfig.mcpServers[name] = config
-
-        // 确保目录存在
-        const dir = path.dirname(mcpPath)
-        if (!fs.existsSync(dir)) {
-          fs.mkdirSync(dir, { recursive: true })
-        }
-
-        fs.writeFileSync(mcpPath, JSON.stringify(mcpConfig, null, 2))
-        console.log('[KiroSettings] Saved MCP server:', name)
+        updateMcpServers(checkMcpWorkspace(workspace), () => ({
+          // 如果是重命名，先删除旧的
+          ...(oldName && oldName !== name ? { [oldName]: undefined } : {}),
+          [name]: config
+        }))
+        console.log('[KiroSettings] Saved MCP server:', name, workspace || '(user)')
         return { success: true }
       } catch (error) {
         console.error('[KiroSettings] Failed to save MCP server:', error)
@@ -6010,28 +6626,18 @@ app.whenReady().then(async () => {
   )
 
   // IPC: 删除 MCP 服务器
-  ipcMain.handle('delete-mcp-server', async (_event, name: string) => {
+  ipcMain.handle('delete-mcp-server', async (_event, name: string, workspace?: string | null) => {
     try {
-      const os = await import('os')
-      const fs = await import('fs')
-      const path = await import('path')
-      const homeDir = os.homedir()
-      const mcpPath = path.join(homeDir, '.kiro', 'settings', 'mcp.json')
-
-      if (!fs.existsSync(mcpPath)) {
+      const file = readMcpConfigFile(checkMcpWorkspace(workspace))
+      if (!file.exists) {
         return { success: false, error: '配置文件不存在' }
       }
-
-      const content = fs.readFileSync(mcpPath, 'utf-8')
-      const mcpConfig = JSON.parse(content)
-
-      if (!mcpConfig.mcpServers || !mcpConfig.mcpServers[name]) {
+      if (!file.servers[name]) {
         return { success: false, error: '服务器不存在' }
       }
 
-      delete mcpConfig.mcpServers[name]
-      fs.writeFileSync(mcpPath, JSON.stringify(mcpConfig, null, 2))
-      console.log('[KiroSettings] Deleted MCP server:', name)
+      updateMcpServers(file.workspace, () => ({ [name]: undefined }))
+      console.log('[KiroSettings] Deleted MCP server:', name, workspace || '(user)')
       return { success: true }
     } catch (error) {
       console.error('[KiroSettings] Failed to delete MCP server:', error)
@@ -6042,6 +6648,76 @@ app.whenReady().then(async () => {
     }
   })
 
+  // IPC: 启用 / 禁用 MCP 服务器
+  ipcMain.handle('set-mcp-server-disabled', async (_event, name: string, disabled: boolean, workspace?: string | null) => {
+    try {
+      updateMcpServers(checkMcpWorkspace(workspace), (servers) => {
+        if (!servers[name]) throw new Error('服务器不存在')
+        return { [name]: { ...servers[name], disabled } }
+      })
+      return { success: true }
+    } catch (error) {
+      console.error('[KiroSettings] Failed to toggle MCP server:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update MCP server'
+      }
+    }
+  })
+
+  // IPC: 在用户级和工作区之间复制 MCP 服务器
+  ipcMain.handle(
+    'copy-mcp-server',
+    async (_event, name: string, from: string | null, to: string | null, overwrite?: boolean) => {
+      try {
+        const source = readMcpConfigFile(checkMcpWorkspace(from))
+        if (source.error) return { success: false, error: source.error }
+        const config = source.servers[name]
+        if (!config) return { success: false, error: '服务器不存在' }
+
+        const target = checkMcpWorkspace(to)
+        if (target === source.workspace) return { success: false, error: 'Source and target are the same' }
+        if (!overwrite && readMcpConfigFile(target).servers[name]) {
+          return { success: false, exists: true, error: 'Server already exists in target' }
+        }
+
+        updateMcpServers(target, () => ({ [name]: config }))
+        console.log('[KiroSettings] Copied MCP server:', name, from || '(user)', '->', to || '(user)')
+        return { success: true }
+      } catch (error) {
+        console.error('[KiroSettings] Failed to copy MCP server:', error)
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to copy MCP server'
+        }
+      }
+    }
+  )
+
+  // IPC: 测试 MCP 服务器（握手并列出工具 / 资源 / 提示词）
+  ipcMain.handle('test-mcp-server', async (_event, name: string, workspace?: string | null) => {
+    try {
+      const os = await import('os')
+      const file = readMcpConfigFile(checkMcpWorkspace(workspace))
+      if (file.error) return { success: false, error: file.error }
+      const config = file.servers[name]
+      if (!config) return { success: false, error: '服务器不存在' }
+
+      const result = await probeMcpServer(config, {
+        cwd: file.workspace || os.homedir(),
+        clientVersion: app.getVersion()
+      })
+      console.log('[KiroSettings] Tested MCP server:', name, result.success ? `${result.tools.length} tools` : result.error)
+      return result
+    } catch (error) {
+      console.error('[KiroSettings] Failed to test MCP server:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to test MCP server'
+      }
+    }
+  })
+
   // IPC: 删除 Steering 文件
   ipcMain.handle('delete-kiro-steering-file', async (_event, filename: string) => {
     try {
@@ -6405,6 +7081,10 @@ app.on('will-quit', async (event) => {
   // 防止重复处理
   if (isQuitting) return
 
+  // 写入缓冲中的代理日志，并尽量导出剩余的追踪数据
+  proxyLogStore.flush()
+  void flushTraces()
+
   // 防止应用立即退出，先保存数据
   if (lastSavedData && store) {
     event.preventDefault()
@@ -6421,7 +7101,7 @@ app.on('will-quit', async (event) => {
       console.log('[Exit] Saving data before quit...')
       // 刷新待写入的防抖数据
       flushStoreWrites()
-      store.set('accountData', lastSavedData)
+      writeAccountData(lastSavedData)
       await createBackup(lastSavedData)
       console.log('[Exit] Data saved successfully')
     } catch (error) {
@@ -0,0 +1,71 @@
+/**
+ * JSONC（带注释的 JSON）读写 - 主进程
+ * 用于 Kiro / VS Code 风格的 settings.json：就地修改指定键，保留注释、键顺序和缩进，
+ * 文件无法解析时抛出异常，避免覆盖用户设置
+ */
+
+import { applyEdits, modify, parse, printParseErrorCode, type FormattingOptions, type ParseError } from 'jsonc-parser'
+
+const PARSE_OPTIONS = { allowTrailingComma: true, disallowComments: false, allowEmptyContent: true }
+
+// 将字符偏移量转换为行列号（从 1 开始）
+function offsetToPosition(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset)
+  const line = before.split('\n').length
+  return { line, column: offset - before.lastIndexOf('\n') }
+}
+
+/**
+ * 解析 JSONC 文本，根节点必须是对象；空文件视为空对象
+ */
+export function parseJsoncObject(text: string): Record<string, unknown> {
+  const errors: ParseError[] = []
+  const value = parse(text, errors, PARSE_OPTIONS)
+  if (errors.length > 0) {
+    const { line, column } = offsetToPosition(text, errors[0].offset)
+    throw new Error(`${printParseErrorCode(errors[0].error)} at line ${line}, column ${column}`)
+  }
+  if (value === undefined) return {}
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Root value must be an object')
+  }
+  return value as Record<string, unknown>
+}
+
+/**
+ * 根据已有内容推断缩进和换行符，保持文件原有风格（默认 4 空格）
+ */
+export function detectFormatting(text: string): FormattingOptions {
+  const eol = text.includes('\r\n') ? '\r\n' : '\n'
+  const indent = text.match(/^([ \t]+)\S/m)?.[1]
+  if (indent?.startsWith('\t')) {
+    return { insertSpaces: false, tabSize: 1, eol }
+  }
+  return { insertSpaces: true, tabSize: indent ? indent.length : 4, eol }
+}
+
+/**
+ * 就地设置指定路径的值，值为 undefined 时删除；保持原有缩进和换行符
+ */
+export function setJsoncValue(text: string, jsonPath: (string | number)[], value: unknown): string {
+  const base = text.trim() ? text : '{}'
+  const edits = modify(base, jsonPath, value, { formattingOptions: detectFormatting(text) })
+  return applyEdits(base, edits)
+}
+
+/**
+ * 就地更新顶层键，值为 undefined 时删除该键；值未变化的键不做修改
+ * 原文件无法解析时抛出异常
+ */
+export function updateJsoncKeys(text: string, updates: Record<string, unknown>): string {
+  const current = parseJsoncObject(text)
+  let result = text
+
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === undefined && !(key in current)) continue
+    if (value !== undefined && JSON.stringify(current[key]) === JSON.stringify(value)) continue
+    result = setJsoncValue(result, [key], value)
+  }
+
+  return result
+}
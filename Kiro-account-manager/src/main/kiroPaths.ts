@@ -0,0 +1,237 @@
+/**
+ * Kiro IDE 安装与配置路径定位 - 主进程
+ * 按平台解析 settings.json 所在的用户数据目录（Windows %APPDATA%、macOS Application Support、Linux XDG_CONFIG_HOME），
+ * 支持便携版安装、用户手动添加的安装目录，以及 Kiro（VS Code 风格）的多配置文件（Profile）和工作区设置
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { fileURLToPath } from 'url'
+
+export type KiroInstallationKind = 'default' | 'portable' | 'custom'
+
+export interface KiroInstallation {
+  kind: KiroInstallationKind
+  label: string
+  userDataDir: string  // 包含 User 目录的用户数据目录
+}
+
+export type KiroSettingsTargetKind = 'user' | 'profile' | 'workspace'
+
+export interface KiroSettingsTarget {
+  id: string
+  kind: KiroSettingsTargetKind
+  name: string
+  installation: KiroInstallation
+  settingsPath: string
+  exists: boolean
+  workspaces?: string[]  // 使用该 Profile 的工作区
+}
+
+export interface KiroPathEnv {
+  platform: NodeJS.Platform
+  env: NodeJS.ProcessEnv
+  home: string
+}
+
+const DEFAULT_PROFILE_LOCATION = '__default__profile__'
+
+function currentEnv(): KiroPathEnv {
+  return { platform: process.platform, env: process.env, home: os.homedir() }
+}
+
+function isDirectory(p: string): boolean {
+  try {
+    return fs.statSync(p).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+function readJsonFile(p: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(p, 'utf-8'))
+    return parsed && typeof parsed === 'object' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 默认安装的用户数据目录
+ */
+export function getDefaultKiroUserDataDir(pathEnv: KiroPathEnv = currentEnv()): string {
+  const { platform, env, home } = pathEnv
+  if (platform === 'win32') {
+    return path.join(env.APPDATA || path.join(home, 'AppData', 'Roaming'), 'Kiro')
+  }
+  if (platform === 'darwin') {
+    return path.join(home, 'Library', 'Application Support', 'Kiro')
+  }
+  return path.join(env.XDG_CONFIG_HOME || path.join(home, '.config'), 'Kiro')
+}
+
+// 便携版数据目录候选（与 VS Code 便携模式一致：安装目录下的 data/user-data）
+function getPortableDataDirs(pathEnv: KiroPathEnv): string[] {
+  const { platform, env, home } = pathEnv
+  const dirs: string[] = []
+  if (env.KIRO_PORTABLE) dirs.push(env.KIRO_PORTABLE)
+  if (platform === 'win32') {
+    if (env.LOCALAPPDATA) dirs.push(path.join(env.LOCALAPPDATA, 'Programs', 'Kiro', 'data'))
+    if (env.ProgramFiles) dirs.push(path.join(env.ProgramFiles, 'Kiro', 'data'))
+  } else if (platform === 'darwin') {
+    // macOS 便携数据目录位于 Kiro.app 同级
+    dirs.push('/Applications/kiro-portable-data', path.join(home, 'Applications', 'kiro-portable-data'))
+  } else {
+    dirs.push('/opt/Kiro/data', '/usr/share/kiro/data', path.join(home, '.local', 'share', 'kiro', 'data'))
+  }
+  return dirs
+}
+
+/**
+ * 将用户选择的目录解析为用户数据目录
+ * 支持选择安装目录、便携版 data 目录或直接选择用户数据目录
+ */
+export function resolveKiroUserDataDir(dir: string): string {
+  const candidates = [path.join(dir, 'data', 'user-data'), path.join(dir, 'user-data'), path.join(dir, 'kiro-portable-data', 'user-data')]
+  return candidates.find(isDirectory) || dir
+}
+
+/**
+ * 查找本机的 Kiro 安装（默认安装、便携版、手动添加的目录），按用户数据目录去重
+ */
+export function locateKiroInstallations(customDirs: string[] = [], pathEnv: KiroPathEnv = currentEnv()): KiroInstallation[] {
+  const installations: KiroInstallation[] = [
+    { kind: 'default', label: 'Kiro', userDataDir: getDefaultKiroUserDataDir(pathEnv) }
+  ]
+  for (const dataDir of getPortableDataDirs(pathEnv)) {
+    const userDataDir = path.join(dataDir, 'user-data')
+    if (isDirectory(userDataDir)) {
+      installations.push({ kind: 'portable', label: `Kiro Portable (${path.dirname(dataDir)})`, userDataDir })
+    }
+  }
+  for (const dir of customDirs) {
+    installations.push({ kind: 'custom', label: dir, userDataDir: resolveKiroUserDataDir(dir) })
+  }
+
+  const seen = new Set<string>()
+  return installations.filter((inst) => {
+    const key = path.resolve(inst.userDataDir)
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function uriToPath(uri: unknown): string | null {
+  if (typeof uri !== 'string' || !uri.startsWith('file://')) return null
+  try {
+    return fileURLToPath(uri)
+  } catch {
+    return null
+  }
+}
+
+// 从 globalStorage/storage.json 读取 Profile 列表、Profile 与工作区的关联以及最近打开的窗口
+function readProfileStorage(userDir: string): {
+  profiles: { location: string; name: string }[]
+  associations: Record<string, string>
+  openedFolders: string[]
+} {
+  const storage = readJsonFile(path.join(userDir, 'globalStorage', 'storage.json')) || {}
+
+  const profiles = (Array.isArray(storage.userDataProfiles) ? storage.userDataProfiles : [])
+    .filter((p): p is { location: string; name?: string } => !!p && typeof p.location === 'string')
+    .map((p) => ({ location: p.location, name: typeof p.name === 'string' && p.name ? p.name : p.location }))
+
+  const assoc = storage.profileAssociations as { workspaces?: Record<string, unknown> } | undefined
+  const associations: Record<string, string> = {}
+  for (const [uri, location] of Object.entries(assoc?.workspaces || {})) {
+    if (typeof location === 'string') associations[uri] = location
+  }
+
+  const windows = storage.windowsState as { lastActiveWindow?: { folder?: string }; openedWindows?: { folder?: string }[] } | undefined
+  const openedFolders = [windows?.lastActiveWindow?.folder, ...(windows?.openedWindows || []).map((w) => w?.folder)]
+    .filter((f): f is string => typeof f === 'string')
+
+  return { profiles, associations, openedFolders }
+}
+
+/**
+ * 列出所有可编辑的 settings.json：每个安装的默认用户设置、各 Profile 设置和已知工作区设置
+ */
+export function listKiroSettingsTargets(customDirs: string[] = [], pathEnv: KiroPathEnv = currentEnv()): KiroSettingsTarget[] {
+  const targets: KiroSettingsTarget[] = []
+  const seenWorkspaces = new Set<string>()
+
+  const addTarget = (target: Omit<KiroSettingsTarget, 'id' | 'exists'>): void => {
+    targets.push({ ...target, id: `${target.kind}:${target.settingsPath}`, exists: fs.existsSync(target.settingsPath) })
+  }
+
+  for (const installation of locateKiroInstallations(customDirs, pathEnv)) {
+    const userDir = path.join(installation.userDataDir, 'User')
+    const { profiles, associations, openedFolders } = readProfileStorage(userDir)
+
+    const workspacesOf = (location: string): string[] =>
+      Object.entries(associations)
+        .filter(([, loc]) => loc === location)
+        .map(([uri]) => uriToPath(uri))
+        .filter((p): p is string => !!p)
+
+    addTarget({
+      kind: 'user',
+      name: 'Default',
+      installation,
+      settingsPath: path.join(userDir, 'settings.json'),
+      workspaces: workspacesOf(DEFAULT_PROFILE_LOCATION)
+    })
+
+    // storage.json 中登记的 Profile，加上 profiles 目录中存在但未登记的
+    const profilesDir = path.join(userDir, 'profiles')
+    const known = new Map(profiles.map((p) => [p.location, p.name]))
+    if (isDirectory(profilesDir)) {
+      for (const entry of fs.readdirSync(profilesDir)) {
+        if (!known.has(entry) && isDirectory(path.join(profilesDir, entry))) known.set(entry, entry)
+      }
+    }
+    for (const [location, name] of known) {
+      addTarget({
+        kind: 'profile',
+        name,
+        installation,
+        settingsPath: path.join(profilesDir, location, 'settings.json'),
+        workspaces: workspacesOf(location)
+      })
+    }
+
+    // 工作区设置（.vscode/settings.json），只列出仍然存在的目录
+    const folders = [...Object.keys(associations), ...openedFolders]
+      .map(uriToPath)
+      .filter((p): p is string => !!p && isDirectory(p))
+    for (const folder of folders) {
+      const key = path.resolve(folder)
+      if (seenWorkspaces.has(key)) continue
+      seenWorkspaces.add(key)
+      addTarget({
+        kind: 'workspace',
+        name: path.basename(folder) || folder,
+        installation,
+        settingsPath: path.join(folder, '.vscode', 'settings.json')
+      })
+    }
+  }
+
+  return targets
+}
+
+/**
+ * 按 ID 查找设置目标，未指定或不存在时回退到第一个已存在的用户设置（都不存在时为默认安装）
+ */
+export function resolveKiroSettingsTarget(targets: KiroSettingsTarget[], id?: string | null): KiroSettingsTarget {
+  return (
+    (id ? targets.find((t) => t.id === id) : undefined) ||
+    targets.find((t) => t.kind === 'user' && t.exists) ||
+    targets[0]
+  )
+}
@@ -0,0 +1,138 @@
+/**
+ * Kiro MCP 配置管理 - 主进程
+ * 读写用户级（~/.kiro/settings/mcp.json）和工作区级（<workspace>/.kiro/settings/mcp.json）配置，
+ * 工作区中同名的服务器优先于用户级配置；修改时保留文件中的注释和格式
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { parseJsoncObject, setJsoncValue } from './jsonc'
+
+// 本地服务器使用 command/args/env，远程服务器（HTTP / SSE）使用 url/headers，其他未知字段原样保留
+export interface McpServerConfig {
+  command?: string
+  args?: string[]
+  env?: Record<string, string>
+  url?: string
+  headers?: Record<string, string>
+  disabled?: boolean
+  autoApprove?: string[]
+  disabledTools?: string[]
+  timeout?: number
+  [key: string]: unknown
+}
+
+// 配置文件位置：workspace 为 null 时表示用户级配置
+export interface McpConfigFile {
+  workspace: string | null
+  path: string
+  exists: boolean
+  servers: Record<string, McpServerConfig>
+  error?: string
+}
+
+export function getUserMcpConfigPath(home: string = os.homedir()): string {
+  return path.join(home, '.kiro', 'settings', 'mcp.json')
+}
+
+export function getWorkspaceMcpConfigPath(workspace: string): string {
+  return path.join(workspace, '.kiro', 'settings', 'mcp.json')
+}
+
+export function getMcpConfigPath(workspace: string | null): string {
+  return workspace ? getWorkspaceMcpConfigPath(workspace) : getUserMcpConfigPath()
+}
+
+/**
+ * 读取 MCP 配置文件，文件不存在时返回空配置，解析失败时记录错误而不抛出
+ */
+export function readMcpConfigFile(workspace: string | null): McpConfigFile {
+  const file = getMcpConfigPath(workspace)
+  if (!fs.existsSync(file)) {
+    return { workspace, path: file, exists: false, servers: {} }
+  }
+  try {
+    const parsed = parseJsoncObject(fs.readFileSync(file, 'utf-8'))
+    const servers = parsed.mcpServers && typeof parsed.mcpServers === 'object' && !Array.isArray(parsed.mcpServers)
+      ? parsed.mcpServers as Record<string, McpServerConfig>
+      : {}
+    return { workspace, path: file, exists: true, servers }
+  } catch (error) {
+    return {
+      workspace,
+      path: file,
+      exists: true,
+      servers: {},
+      error: `Failed to parse ${file}: ${error instanceof Error ? error.message : error}`
+    }
+  }
+}
+
+/**
+ * 修改 MCP 配置文件中的服务器（mcpServers 下的键），文件无法解析时抛出异常拒绝写入
+ * update 返回 undefined 表示删除对应服务器
+ */
+export function updateMcpServers(
+  workspace: string | null,
+  update: (servers: Record<string, McpServerConfig>) => Record<string, McpServerConfig | undefined>
+): void {
+  const file = getMcpConfigPath(workspace)
+  let text = fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : JSON.stringify({ mcpServers: {} }, null, 2)
+  const parsed = parseJsoncObject(text)
+  const servers = parsed.mcpServers && typeof parsed.mcpServers === 'object'
+    ? parsed.mcpServers as Record<string, McpServerConfig>
+    : {}
+
+  if (!parsed.mcpServers) {
+    text = setJsoncValue(text, ['mcpServers'], {})
+  }
+  for (const [name, config] of Object.entries(update(servers))) {
+    if (config === undefined && !(name in servers)) continue
+    text = setJsoncValue(text, ['mcpServers', name], config)
+  }
+
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, text)
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string')
+}
+
+function isStringRecord(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === 'string')
+}
+
+/**
+ * 校验服务器配置，返回错误信息；有效时返回 null
+ */
+export function validateMcpServerConfig(config: McpServerConfig): string | null {
+  if (!config || typeof config !== 'object') return 'Invalid server config'
+  const hasCommand = typeof config.command === 'string' && config.command.trim() !== ''
+  const hasUrl = typeof config.url === 'string' && config.url.trim() !== ''
+  if (!hasCommand && !hasUrl) return 'Either command or url is required'
+  if (hasCommand && hasUrl) return 'command and url cannot be used together'
+  if (hasUrl && !/^https?:\/\//i.test(config.url as string)) return 'url must start with http:// or https://'
+  if (config.args !== undefined && !isStringArray(config.args)) return 'args must be a list of strings'
+  if (config.env !== undefined && !isStringRecord(config.env)) return 'env values must be strings'
+  if (config.headers !== undefined && !isStringRecord(config.headers)) return 'headers values must be strings'
+  if (config.autoApprove !== undefined && !isStringArray(config.autoApprove)) return 'autoApprove must be a list of tool names'
+  if (config.disabledTools !== undefined && !isStringArray(config.disabledTools)) return 'disabledTools must be a list of tool names'
+  if (config.disabled !== undefined && typeof config.disabled !== 'boolean') return 'disabled must be a boolean'
+  if (config.timeout !== undefined && (typeof config.timeout !== 'number' || !(config.timeout > 0))) return 'timeout must be a positive number'
+  return null
+}
+
+/**
+ * 如果配置文件不存在，创建空配置
+ */
+export function ensureMcpConfigFile(workspace: string | null): string {
+  const file = getMcpConfigPath(workspace)
+  if (!fs.existsSync(file)) {
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(file, JSON.stringify({ mcpServers: {} }, null, 2))
+  }
+  return file
+}
@@ -0,0 +1,437 @@
+/**
+ * MCP 服务器健康检查 - 主进程
+ * 启动本地（stdio）服务器或连接远程（Streamable HTTP / SSE）服务器，完成 MCP initialize 握手，
+ * 列出工具、资源和提示词，并记录 stderr 输出和耗时，用于在管理器中验证服务器配置是否可用
+ */
+
+import { spawn } from 'child_process'
+import type { McpServerConfig } from './mcpConfig'
+
+const PROTOCOL_VERSION = '2025-03-26'
+const DEFAULT_TIMEOUT_MS = 30_000
+const MAX_STDERR_LENGTH = 20_000
+const MAX_LIST_PAGES = 20
+
+export type McpProbeTransport = 'stdio' | 'http' | 'sse'
+
+export interface McpProbeItem {
+  name: string
+  description?: string
+}
+
+export interface McpProbeResult {
+  success: boolean
+  transport: McpProbeTransport
+  serverInfo?: { name?: string; version?: string }
+  protocolVersion?: string
+  tools: McpProbeItem[]
+  resources: McpProbeItem[]
+  prompts: McpProbeItem[]
+  stderr: string
+  timings: { initializeMs?: number; listMs?: number; totalMs: number }
+  error?: string
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0'
+  id?: number | string
+  method?: string
+  params?: unknown
+  result?: unknown
+  error?: { code: number; message: string }
+}
+
+interface McpTransport {
+  request: (method: string, params?: unknown) => Promise<unknown>
+  notify: (method: string, params?: unknown) => Promise<void>
+  close: () => void
+}
+
+// ============ JSON-RPC 请求管理 ============
+
+class PendingRequests {
+  private nextId = 1
+  private pending = new Map<number | string, { resolve: (value: unknown) => void; reject: (error: Error) => void }>()
+
+  constructor(private timeoutMs: number) {}
+
+  create(method: string): { id: number; promise: Promise<unknown> } {
+    const id = this.nextId++
+    const promise = new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new Error(`${method} timed out after ${this.timeoutMs}ms`))
+      }, this.timeoutMs)
+      this.pending.set(id, {
+        resolve: (value) => { clearTimeout(timer); resolve(value) },
+        reject: (error) => { clearTimeout(timer); reject(error) }
+      })
+    })
+    return { id, promise }
+  }
+
+  // 处理响应，返回 true 表示已匹配到请求
+  handle(message: JsonRpcMessage): boolean {
+    if (message.id === undefined || message.method) return false
+    const entry = this.pending.get(message.id)
+    if (!entry) return false
+    this.pending.delete(message.id)
+    if (message.error) {
+      entry.reject(new Error(`${message.error.message} (code ${message.error.code})`))
+    } else {
+      entry.resolve(message.result)
+    }
+    return true
+  }
+
+  rejectAll(error: Error): void {
+    for (const entry of this.pending.values()) entry.reject(error)
+    this.pending.clear()
+  }
+}
+
+// 为没有请求 ID 的操作（通知、建立连接）加上超时，超时后调用 onTimeout 取消底层请求
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string, onTimeout?: () => void): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      onTimeout?.()
+      reject(new Error(message))
+    }, timeoutMs)
+    promise.then(
+      (value) => { clearTimeout(timer); resolve(value) },
+      (error) => { clearTimeout(timer); reject(error) }
+    )
+  })
+}
+
+// 服务器发来的请求（如 ping、roots/list）：ping 返回空结果，其余返回方法不存在
+function replyToServerRequest(message: JsonRpcMessage, send: (reply: JsonRpcMessage) => void): void {
+  if (message.id === undefined || !message.method) return
+  send(message.method === 'ping'
+    ? { jsonrpc: '2.0', id: message.id, result: {} }
+    : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } })
+}
+
+// ============ stdio ============
+
+function createStdioTransport(
+  config: McpServerConfig,
+  cwd: string | undefined,
+  timeoutMs: number,
+  onStderr: (chunk: string) => void
+): McpTransport {
+  const pending = new PendingRequests(timeoutMs)
+  const child = spawn(config.command || '', config.args || [], {
+    cwd,
+    env: { ...process.env, ...config.env },
+    // Windows 上 npx / uvx 等是 .cmd 脚本，需要通过 shell 启动
+    shell: process.platform === 'win32',
+    windowsHide: true,
+    stdio: ['pipe', 'pipe', 'pipe']
+  })
+
+  const send = (message: JsonRpcMessage): void => {
+    if (child.stdin.writable) child.stdin.write(JSON.stringify(message) + '\n')
+  }
+
+  let buffer = ''
+  child.stdout.setEncoding('utf-8')
+  child.stdout.on('data', (chunk: string) => {
+    buffer += chunk
+    let newline: number
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim()
+      buffer = buffer.slice(newline + 1)
+      if (!line) continue
+      try {
+        const message = JSON.parse(line) as JsonRpcMessage
+        if (!pending.handle(message)) replyToServerRequest(message, send)
+      } catch {
+        // 非 JSON 输出（部分服务器会往 stdout 打日志），归入 stderr 便于排查
+        onStderr(line + '\n')
+      }
+    }
+  })
+  child.stderr.setEncoding('utf-8')
+  child.stderr.on('data', (chunk: string) => onStderr(chunk))
+  child.stdin.on('error', () => { /* 进程退出后写入失败，由 exit 事件处理 */ })
+  child.on('error', (error) => pending.rejectAll(error))
+  child.on('exit', (code, signal) => {
+    pending.rejectAll(new Error(`Server process exited (${signal || `code ${code}`})`))
+  })
+
+  return {
+    request: (method, params) => {
+      const { id, promise } = pending.create(method)
+      send({ jsonrpc: '2.0', id, method, params })
+      return promise
+    },
+    notify: async (method, params) => {
+      send({ jsonrpc: '2.0', method, params })
+    },
+    close: () => {
+      child.stdin.end()
+      if (process.platform === 'win32' && child.pid && child.exitCode === null) {
+        // 通过 shell 启动时 kill 只会结束 cmd.exe，需要结束整个进程树（npx / uvx 启动的实际服务器）
+        spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true, stdio: 'ignore' })
+          .on('error', () => child.kill())
+      } else {
+        child.kill()
+      }
+    }
+  }
+}
+
+// ============ HTTP / SSE ============
+
+interface SseEvent {
+  event: string
+  data: string
+}
+
+// 逐个读取 SSE 事件，onEvent 返回 true 时停止读取
+async function readSseEvents(body: ReadableStream<Uint8Array>, onEvent: (event: SseEvent) => boolean | void): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) return
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+      let boundary: number
+      while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+        const block = buffer.slice(0, boundary)
+        buffer = buffer.slice(boundary + 2)
+        const event: SseEvent = { event: 'message', data: '' }
+        const data: string[] = []
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) event.event = line.slice(6).trim()
+          else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''))
+        }
+        event.data = data.join('\n')
+        if (onEvent(event)) return
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+class HttpStatusError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+  }
+}
+
+// Streamable HTTP：每条消息 POST 到同一地址，响应为 JSON 或 SSE 流
+function createHttpTransport(config: McpServerConfig, timeoutMs: number): McpTransport {
+  const pending = new PendingRequests(timeoutMs)
+  const url = config.url || ''
+  let sessionId: string | undefined
+  const controller = new AbortController()
+
+  const post = async (message: JsonRpcMessage): Promise<void> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+        ...config.headers
+      },
+      body: JSON.stringify(message),
+      signal: controller.signal
+    })
+    sessionId = response.headers.get('mcp-session-id') || sessionId
+    if (!response.ok) {
+      throw new HttpStatusError(response.status, `HTTP ${response.status} ${response.statusText}`.trim())
+    }
+    if (!response.body || response.status === 202) return
+
+    const contentType = response.headers.get('content-type') || ''
+    if (contentType.includes('text/event-stream')) {
+      await readSseEvents(response.body, (event) => {
+        if (!event.data) return false
+        try {
+          const parsed = JSON.parse(event.data) as JsonRpcMessage
+          return pending.handle(parsed) && parsed.id === message.id
+        } catch {
+          return false
+        }
+      })
+    } else if (contentType.includes('application/json')) {
+      const parsed = await response.json() as JsonRpcMessage | JsonRpcMessage[]
+      for (const item of Array.isArray(parsed) ? parsed : [parsed]) pending.handle(item)
+    }
+  }
+
+  return {
+    request: (method, params) => {
+      const { id, promise } = pending.create(method)
+      post({ jsonrpc: '2.0', id, method, params }).catch((error) => pending.rejectAll(error))
+      return promise
+    },
+    notify: (method, params) => post({ jsonrpc: '2.0', method, params }),
+    close: () => controller.abort()
+  }
+}
+
+// 旧版 HTTP+SSE：GET 建立事件流，服务器通过 endpoint 事件告知 POST 地址，响应经事件流返回
+async function createSseTransport(config: McpServerConfig, timeoutMs: number): Promise<McpTransport> {
+  const pending = new PendingRequests(timeoutMs)
+  const controller = new AbortController()
+  const url = config.url || ''
+
+  const response = await withTimeout(
+    fetch(url, { headers: { Accept: 'text/event-stream', ...config.headers }, signal: controller.signal }),
+    timeoutMs,
+    `SSE connection timed out after ${timeoutMs}ms`,
+    () => controller.abort()
+  )
+  if (!response.ok || !response.body) {
+    controller.abort()
+    throw new HttpStatusError(response.status, `HTTP ${response.status} ${response.statusText}`.trim())
+  }
+
+  const endpoint = await new Promise<string>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Timed out waiting for SSE endpoint event')), timeoutMs)
+    let resolved = false
+    readSseEvents(response.body as ReadableStream<Uint8Array>, (event) => {
+      if (event.event === 'endpoint') {
+        resolved = true
+        clearTimeout(timer)
+        resolve(new URL(event.data, url).toString())
+      } else if (event.data) {
+        try {
+          pending.handle(JSON.parse(event.data) as JsonRpcMessage)
+        } catch {
+          // 忽略无法解析的事件
+        }
+      }
+    })
+      .then(() => pending.rejectAll(new Error('SSE stream closed')))
+      .catch((error) => {
+        clearTimeout(timer)
+        if (!resolved) reject(error)
+        pending.rejectAll(error instanceof Error ? error : new Error(String(error)))
+      })
+  }).catch((error) => {
+    controller.abort()
+    throw error
+  })
+
+  const post = async (message: JsonRpcMessage): Promise<void> => {
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...config.headers },
+      body: JSON.stringify(message),
+      signal: controller.signal
+    })
+    if (!res.ok) throw new HttpStatusError(res.status, `HTTP ${res.status} ${res.statusText}`.trim())
+  }
+
+  return {
+    request: (method, params) => {
+      const { id, promise } = pending.create(method)
+      post({ jsonrpc: '2.0', id, method, params }).catch((error) => pending.rejectAll(error))
+      return promise
+    },
+    notify: (method, params) => post({ jsonrpc: '2.0', method, params }),
+    close: () => controller.abort()
+  }
+}
+
+// ============ 握手与能力列表 ============
+
+async function listAll(transport: McpTransport, method: string, key: string): Promise<McpProbeItem[]> {
+  const items: McpProbeItem[] = []
+  let cursor: string | undefined
+  for (let page = 0; page < MAX_LIST_PAGES; page++) {
+    const result = await transport.request(method, cursor ? { cursor } : {}).catch((error) => {
+      throw new Error(`${method}: ${error instanceof Error ? error.message : error}`)
+    }) as Record<string, unknown> | undefined
+    const list = Array.isArray(result?.[key]) ? result?.[key] as Record<string, unknown>[] : []
+    for (const item of list) {
+      const name = typeof item.name === 'string' ? item.name : typeof item.uri === 'string' ? item.uri : ''
+      if (name) items.push({ name, description: typeof item.description === 'string' ? item.description : undefined })
+    }
+    cursor = typeof result?.nextCursor === 'string' ? result.nextCursor : undefined
+    if (!cursor) break
+  }
+  return items
+}
+
+/**
+ * 测试 MCP 服务器：连接、握手并列出工具 / 资源 / 提示词，完成后关闭连接（结束子进程）
+ */
+export async function probeMcpServer(
+  config: McpServerConfig,
+  options: { cwd?: string; clientVersion?: string; timeoutMs?: number } = {}
+): Promise<McpProbeResult> {
+  const start = Date.now()
+  const timeoutMs = options.timeoutMs || config.timeout || DEFAULT_TIMEOUT_MS
+  const remote = typeof config.url === 'string' && config.url !== ''
+  let stderr = ''
+  const result: McpProbeResult = {
+    success: false,
+    transport: remote ? 'http' : 'stdio',
+    tools: [],
+    resources: [],
+    prompts: [],
+    stderr: '',
+    timings: { totalMs: 0 }
+  }
+
+  let transport: McpTransport | null = null
+  try {
+    const initializeParams = {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'kiro-account-manager', version: options.clientVersion || '0.0.0' }
+    }
+    let init: Record<string, unknown>
+
+    if (!remote) {
+      transport = createStdioTransport(config, options.cwd, timeoutMs, (chunk) => {
+        stderr = (stderr + chunk).slice(-MAX_STDERR_LENGTH)
+      })
+      init = await transport.request('initialize', initializeParams) as Record<string, unknown>
+    } else {
+      // 优先使用 Streamable HTTP，服务器返回 4xx 时回退到旧版 SSE
+      const http = createHttpTransport(config, timeoutMs)
+      transport = http
+      try {
+        init = await http.request('initialize', initializeParams) as Record<string, unknown>
+      } catch (error) {
+        if (!(error instanceof HttpStatusError) || error.status < 400 || error.status >= 500) throw error
+        http.close()
+        result.transport = 'sse'
+        transport = await createSseTransport(config, timeoutMs)
+        init = await transport.request('initialize', initializeParams) as Record<string, unknown>
+      }
+    }
+    result.timings.initializeMs = Date.now() - start
+
+    result.protocolVersion = typeof init?.protocolVersion === 'string' ? init.protocolVersion : undefined
+    result.serverInfo = init?.serverInfo as McpProbeResult['serverInfo']
+    await withTimeout(transport.notify('notifications/initialized'), timeoutMs, `notifications/initialized timed out after ${timeoutMs}ms`)
+
+    // 只请求服务器声明支持的能力
+    const capabilities = (init?.capabilities || {}) as Record<string, unknown>
+    const listStart = Date.now()
+    if (capabilities.tools) result.tools = await listAll(transport, 'tools/list', 'tools')
+    if (capabilities.resources) result.resources = await listAll(transport, 'resources/list', 'resources')
+    if (capabilities.prompts) result.prompts = await listAll(transport, 'prompts/list', 'prompts')
+    result.timings.listMs = Date.now() - listStart
+
+    result.success = true
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error)
+  } finally {
+    transport?.close()
+    result.stderr = stderr
+    result.timings.totalMs = Date.now() - start
+  }
+  return result
+}
@@ -0,0 +1,124 @@
+// API Key 访问范围：模型白名单、端点权限、管理 API 权限、过期时间和 IP / CIDR 白名单
+import net from 'net'
+import type { ApiKey, ApiKeyRouteScope } from './types'
+import { matchesModel } from './promptInjection'
+
+// 生成类端点所属的协议（非生成端点返回 null）
+export function getApiKeyRoute(path: string): ApiKeyRouteScope | null {
+  switch (path) {
+    case '/v1/chat/completions':
+    case '/chat/completions':
+      return 'openai'
+    case '/v1/completions':
+    case '/completions':
+      return 'completions'
+    case '/v1/responses':
+    case '/responses':
+      return 'responses'
+    case '/v1/messages':
+    case '/messages':
+    case '/anthropic/v1/messages':
+      return 'claude'
+    case '/api/chat':
+    case '/api/generate':
+      return 'ollama'
+  }
+  if (/^\/v1(?:beta)?\/models\/[^/:]+:(generateContent|streamGenerateContent)$/.test(path)) return 'gemini'
+  return null
+}
+
+export function isApiKeyExpired(apiKey: ApiKey, now: number = Date.now()): boolean {
+  return !!apiKey.expiresAt && apiKey.expiresAt <= now
+}
+
+export function isRouteAllowed(apiKey: ApiKey, route: ApiKeyRouteScope): boolean {
+  const routes = apiKey.scopes?.routes
+  return !routes || routes.length === 0 || routes.includes(route)
+}
+
+// 请求的模型名或映射后的实际模型任一匹配即可
+export function isModelAllowed(apiKey: ApiKey, ...models: string[]): boolean {
+  const patterns = apiKey.scopes?.models?.filter(m => m.trim())
+  if (!patterns || patterns.length === 0) return true
+  return models.some(model => matchesModel(patterns, model))
+}
+
+// 管理 API 权限：未显式设置时，限制了模型或端点的 Key 默认禁止（避免通过 /admin/config 解除自身限制），其余默认 write
+export function getAdminAccess(apiKey: ApiKey): 'none' | 'read' | 'write' {
+  if (apiKey.scopes?.admin) return apiKey.scopes.admin
+  const restricted = !!apiKey.scopes?.models?.some(m => m.trim()) || !!apiKey.scopes?.routes?.length
+  return restricted ? 'none' : 'write'
+}
+
+// 管理 API：GET 需要 read 权限，其他方法需要 write 权限
+export function isAdminAllowed(apiKey: ApiKey, method: string): boolean {
+  const level = getAdminAccess(apiKey)
+  if (level === 'none') return false
+  return level === 'write' || method === 'GET' || method === 'HEAD'
+}
+
+// 是否设置了任何访问限制（模型 / 端点范围、IP 白名单、过期时间、限流或额度）
+export function hasApiKeyRestrictions(apiKey: ApiKey): boolean {
+  const limits = apiKey.rateLimits
+  return !!apiKey.scopes?.models?.some(m => m.trim()) ||
+    !!apiKey.scopes?.routes?.length ||
+    !!apiKey.allowedIps?.some(ip => ip.trim()) ||
+    !!apiKey.expiresAt ||
+    apiKey.creditsLimit !== undefined ||
+    (!!limits && Object.values(limits).some(value => typeof value === 'number' && value > 0))
+}
+
+// 受限 Key 通过管理 API 更新配置时，不允许新增 / 删除 Key、修改密钥或任何 Key 的访问限制，返回拒绝原因
+export function getRestrictedKeyConfigViolation(
+  currentKeys: ApiKey[],
+  currentLegacyKey: string | undefined,
+  update: { apiKey?: string; apiKeys?: ApiKey[] }
+): string | null {
+  if (update.apiKey !== undefined && update.apiKey !== '***' && update.apiKey !== currentLegacyKey) {
+    return 'Restricted API keys cannot change the proxy API key'
+  }
+  if (update.apiKeys === undefined) return null
+  if (!Array.isArray(update.apiKeys)) return 'apiKeys must be an array'
+
+  const nextIds = new Set(update.apiKeys.map(k => k.id))
+  if (currentKeys.some(k => !nextIds.has(k.id))) return 'Restricted API keys cannot delete API keys'
+  for (const next of update.apiKeys) {
+    const existing = currentKeys.find(k => k.id === next.id)
+    if (!existing) return 'Restricted API keys cannot add API keys'
+    if (next.key || (next.keyHash && next.keyHash !== existing.keyHash)) return 'Restricted API keys cannot change API key secrets'
+    const restrictionFields = ['scopes', 'allowedIps', 'expiresAt', 'rateLimits', 'creditsLimit', 'enabled', 'revokeAt'] as const
+    const changed = restrictionFields.find(field => JSON.stringify(next[field]) !== JSON.stringify(existing[field]))
+    if (changed) return `Restricted API keys cannot change ${changed} of API keys`
+  }
+  return null
+}
+
+// 检查客户端地址是否在白名单内（支持单个 IP 和 CIDR，IPv4 映射的 IPv6 地址按 IPv4 处理）
+export function isIpAllowed(apiKey: ApiKey, remoteAddress: string | undefined): boolean {
+  const entries = apiKey.allowedIps?.map(entry => entry.trim()).filter(Boolean)
+  if (!entries || entries.length === 0) return true
+  if (!remoteAddress) return false
+
+  const address = normalizeAddress(remoteAddress)
+  const family = net.isIP(address) === 6 ? 'ipv6' : 'ipv4'
+  const blockList = new net.BlockList()
+  for (const entry of entries) {
+    const [rawAddress, rawPrefix] = entry.split('/')
+    const subnetAddress = normalizeAddress(rawAddress)
+    const version = net.isIP(subnetAddress)
+    if (version === 0) continue
+    const type = version === 6 ? 'ipv6' : 'ipv4'
+    const prefix = rawPrefix !== undefined ? parseInt(rawPrefix, 10) : NaN
+    if (Number.isInteger(prefix) && prefix >= 0 && prefix <= (version === 6 ? 128 : 32)) {
+      blockList.addSubnet(subnetAddress, prefix, type)
+    } else if (rawPrefix === undefined) {
+      blockList.addAddress(subnetAddress, type)
+    }
+  }
+  return blockList.check(address, family)
+}
+
+function normalizeAddress(address: string): string {
+  const trimmed = address.trim()
+  return /^::ffff:\d+\.\d+\.\d+\.\d+$/i.test(trimmed) ? trimmed.slice(7) : trimmed
+}
@@ -0,0 +1,64 @@
+// API Key 密钥：生成、加盐哈希与校验。配置中只保存哈希和前缀，明文在创建 / 轮换时返回一次后不再保存
+import crypto from 'crypto'
+import type { ApiKey, ApiKeyFormat } from './types'
+
+const HASH_ALGORITHM = 'sha256'
+const SALT_BYTES = 16
+// 用于在列表中识别密钥的前缀长度（短密钥最多显示三分之一）
+const KEY_PREFIX_LENGTH = 12
+
+// 返回给渲染进程的 API Key（不含哈希和旧版明文）
+export type PublicApiKey = Omit<ApiKey, 'key' | 'keyHash'>
+
+export function generateApiKeySecret(format: ApiKeyFormat): string {
+  const randomHex = crypto.randomBytes(24).toString('hex')
+  switch (format) {
+    case 'simple':
+      return `PROXY_KEY_${randomHex.toUpperCase().substring(0, 32)}`
+    case 'token':
+      return `KEY:${randomHex.substring(0, 16)}:TOKEN:${randomHex.substring(16, 32)}`
+    default:
+      return `sk-${randomHex}`
+  }
+}
+
+function digest(salt: string, secret: string): string {
+  return crypto.createHash(HASH_ALGORITHM).update(salt).update(secret).digest('hex')
+}
+
+export function hashApiKeySecret(secret: string): { keyHash: string; keyPrefix: string } {
+  const salt = crypto.randomBytes(SALT_BYTES).toString('hex')
+  return {
+    keyHash: `${HASH_ALGORITHM}$${salt}$${digest(salt, secret)}`,
+    keyPrefix: secret.substring(0, Math.min(KEY_PREFIX_LENGTH, Math.floor(secret.length / 3)))
+  }
+}
+
+export function verifyApiKeySecret(apiKey: ApiKey, secret: string): boolean {
+  if (!apiKey.keyHash) return false
+  if (apiKey.keyPrefix && !secret.startsWith(apiKey.keyPrefix)) return false
+  const [algorithm, salt, hash] = apiKey.keyHash.split('$')
+  if (algorithm !== HASH_ALGORITHM || !salt || !hash) return false
+  const expected = Buffer.from(hash, 'hex')
+  const actual = Buffer.from(digest(salt, secret), 'hex')
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
+
+// 将旧版明文密钥转换为哈希，返回是否有改动（调用方需要持久化）
+export function hashPlaintextApiKeys(apiKeys: ApiKey[] | undefined): boolean {
+  let changed = false
+  for (const apiKey of apiKeys || []) {
+    if (apiKey.key === undefined) continue
+    if (apiKey.key) Object.assign(apiKey, hashApiKeySecret(apiKey.key))
+    delete apiKey.key
+    changed = true
+  }
+  return changed
+}
+
+export function toPublicApiKey(apiKey: ApiKey): PublicApiKey {
+  const publicKey: ApiKey = { ...apiKey }
+  delete publicKey.key
+  delete publicKey.keyHash
+  return publicKey
+}
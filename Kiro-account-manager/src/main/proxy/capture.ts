@@ -0,0 +1,282 @@
+// 请求抓包：保存完整的入站请求、转换后的 Kiro payload、原始事件流帧和出站响应（已脱敏），用于调试和重放
+import * as fs from 'fs'
+import * as path from 'path'
+import * as http from 'http'
+import { AsyncLocalStorage } from 'async_hooks'
+import { v4 as uuidv4 } from 'uuid'
+
+export interface CaptureFrame {
+  call: number  // 对应 kiroPayloads 的下标（自动继续、n > 1 时会有多次上游调用）
+  eventType: string
+  payload: unknown
+}
+
+export interface CaptureRecord {
+  id: string
+  timestamp: string
+  method: string
+  path: string
+  apiKeyId?: string
+  replayOf?: string  // 重放来源的抓包 ID
+  request: {
+    headers: Record<string, string>
+    body: unknown
+  }
+  kiroPayloads: unknown[]
+  frames: CaptureFrame[]
+  response: {
+    status?: number
+    headers?: Record<string, string>
+    body: string
+  }
+  durationMs?: number
+  truncated?: boolean
+}
+
+// 列表展示用的摘要
+export interface CaptureSummary {
+  id: string
+  timestamp: string
+  method: string
+  path: string
+  model?: string
+  status?: number
+  durationMs?: number
+  replayOf?: string
+  frameCount: number
+}
+
+// 最多保存的抓包条数
+const MAX_CAPTURES = 50
+// 单条抓包中事件帧的最大数量
+const MAX_FRAMES_PER_CAPTURE = 5000
+// 出站响应体的最大保存长度（字符）
+const MAX_RESPONSE_CHARS = 1024 * 1024
+
+const REDACTED = '[REDACTED]'
+// 需要脱敏的请求头
+const SECRET_HEADERS = new Set(['authorization', 'x-api-key', 'x-goog-api-key', 'cookie', 'proxy-authorization'])
+// 需要脱敏的字段名
+const SECRET_KEY_PATTERN = /^(authorization|api[-_]?key|access[-_]?token|refresh[-_]?token|id[-_]?token|client[-_]?secret|password|secret)$/i
+// 文本中的凭证：Bearer token、sk- 开头的 API Key、Kiro/AWS 访问令牌
+const SECRET_TEXT_PATTERNS = [
+  /Bearer\s+[A-Za-z0-9._~+/=-]{16,}/g,
+  /\bsk-[A-Za-z0-9_-]{20,}/g,
+  /\bao[ar][A-Za-z0-9_-]{40,}/g
+]
+
+export const CAPTURE_ID_HEADER = 'X-Proxy-Capture-Id'
+export const REPLAY_OF_HEADER = 'x-proxy-replay-of'
+
+// 脱敏：替换凭证类请求头、字段和文本中的令牌
+export function redactSecrets<T>(value: T): T {
+  if (typeof value === 'string') {
+    return SECRET_TEXT_PATTERNS.reduce((text: string, pattern) => text.replace(pattern, REDACTED), value) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item)) as T
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = SECRET_KEY_PATTERN.test(key) && item ? REDACTED : redactSecrets(item)
+    }
+    return result as T
+  }
+  return value
+}
+
+function redactHeaders(headers: http.IncomingHttpHeaders | http.OutgoingHttpHeaders): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue
+    const text = Array.isArray(value) ? value.join(', ') : String(value)
+    result[name.toLowerCase()] = SECRET_HEADERS.has(name.toLowerCase()) ? REDACTED : redactSecrets(text)
+  }
+  return result
+}
+
+// 去掉查询参数中的 key（Gemini 客户端通过 ?key= 传 API Key）
+function redactPath(url: string): string {
+  const [pathname, query] = url.split('?')
+  if (!query) return pathname
+  const params = new URLSearchParams(query)
+  if (params.has('key')) params.set('key', REDACTED)
+  return `${pathname}?${params.toString()}`
+}
+
+function parseBody(body: string): unknown {
+  try {
+    return JSON.parse(body)
+  } catch {
+    return body
+  }
+}
+
+// ============ 抓包上下文 ============
+
+const captureStorage = new AsyncLocalStorage<CaptureRecord>()
+
+// 当前请求的抓包记录（未开启抓包时为 undefined）
+export function getActiveCapture(): CaptureRecord | undefined {
+  return captureStorage.getStore()
+}
+
+// 在抓包上下文中处理请求：记录入站请求头，并复制出站响应
+export function runWithCapture(req: http.IncomingMessage, res: http.ServerResponse, handler: () => Promise<void>): Promise<void> {
+  const startTime = Date.now()
+  const replayOf = req.headers[REPLAY_OF_HEADER]
+  const record: CaptureRecord = {
+    id: `cap_${uuidv4().replace(/-/g, '').slice(0, 24)}`,
+    timestamp: new Date(startTime).toISOString(),
+    method: req.method || 'GET',
+    path: redactPath(req.url || '/'),
+    replayOf: typeof replayOf === 'string' ? replayOf : undefined,
+    request: { headers: redactHeaders(req.headers), body: null },
+    kiroPayloads: [],
+    frames: [],
+    response: { body: '' }
+  }
+  proxyCaptureStore.add(record)
+  res.setHeader(CAPTURE_ID_HEADER, record.id)
+
+  // 复制写入响应的内容
+  const appendResponse = (chunk: unknown): void => {
+    if (chunk === undefined || chunk === null || typeof chunk === 'function') return
+    const text = typeof chunk === 'string' ? chunk : Buffer.from(chunk as Uint8Array).toString('utf8')
+    const remaining = MAX_RESPONSE_CHARS - record.response.body.length
+    if (text.length > remaining) record.truncated = true
+    if (remaining > 0) record.response.body += text.slice(0, remaining)
+  }
+  const originalWrite = res.write.bind(res) as (...args: unknown[]) => boolean
+  const originalEnd = res.end.bind(res) as (...args: unknown[]) => http.ServerResponse
+  res.write = ((chunk: unknown, ...rest: unknown[]) => {
+    appendResponse(chunk)
+    return originalWrite(chunk, ...rest)
+  }) as typeof res.write
+  res.end = ((chunk?: unknown, ...rest: unknown[]) => {
+    appendResponse(chunk)
+    return originalEnd(chunk, ...rest)
+  }) as typeof res.end
+
+  res.on('close', () => {
+    record.durationMs = Date.now() - startTime
+    record.response.status = res.statusCode
+    record.response.headers = redactHeaders(res.getHeaders())
+    record.response.body = redactSecrets(record.response.body)
+    proxyCaptureStore.update(record)
+  })
+
+  return captureStorage.run(record, handler)
+}
+
+// 记录入站请求体
+export function captureRequestBody(body: string): void {
+  const record = getActiveCapture()
+  if (record) record.request.body = redactSecrets(parseBody(body))
+}
+
+// 记录发往 Kiro 的 payload，返回用于记录该次调用事件流帧的回调
+export function captureKiroPayload(payload: unknown): ((eventType: string, payloadText: string) => void) | undefined {
+  const record = getActiveCapture()
+  if (!record) return undefined
+
+  const call = record.kiroPayloads.push(redactSecrets(payload)) - 1
+  return (eventType, payloadText) => {
+    if (record.frames.length >= MAX_FRAMES_PER_CAPTURE) {
+      record.truncated = true
+      return
+    }
+    record.frames.push({ call, eventType, payload: redactSecrets(parseBody(payloadText)) })
+  }
+}
+
+// ============ 抓包存储 ============
+
+class ProxyCaptureStore {
+  private captures: CaptureRecord[] = []
+  private storePath: string = ''
+  private saveTimer: NodeJS.Timeout | null = null
+
+  initialize(userDataPath: string): void {
+    this.storePath = path.join(userDataPath, 'proxy-captures.json')
+    this.load()
+  }
+
+  private load(): void {
+    try {
+      if (this.storePath && fs.existsSync(this.storePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.storePath, 'utf-8'))
+        this.captures = Array.isArray(parsed) ? parsed.filter((c: CaptureRecord) => c && c.id && c.timestamp) : []
+      }
+    } catch (error) {
+      console.error('[ProxyCaptureStore] Failed to load captures:', error)
+      this.captures = []
+    }
+  }
+
+  save(): void {
+    if (!this.storePath) return
+    try {
+      fs.writeFileSync(this.storePath, JSON.stringify(this.captures), 'utf-8')
+    } catch (error) {
+      console.error('[ProxyCaptureStore] Failed to save captures:', error)
+    }
+  }
+
+  // 延迟保存（避免频繁写入）
+  private scheduleSave(): void {
+    if (this.saveTimer) return
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null
+      this.save()
+    }, 5000)
+  }
+
+  add(record: CaptureRecord): void {
+    this.captures.push(record)
+    if (this.captures.length > MAX_CAPTURES) {
+      this.captures = this.captures.slice(-MAX_CAPTURES)
+    }
+    this.scheduleSave()
+  }
+
+  // 请求结束后保存最终内容
+  update(record: CaptureRecord): void {
+    if (this.captures.includes(record)) this.scheduleSave()
+  }
+
+  get(id: string): CaptureRecord | undefined {
+    return this.captures.find(c => c.id === id)
+  }
+
+  // 摘要列表（最新的在前）
+  list(): CaptureSummary[] {
+    return this.captures.map(c => {
+      const body = c.request.body as { model?: unknown } | null
+      return {
+        id: c.id,
+        timestamp: c.timestamp,
+        method: c.method,
+        path: c.path,
+        model: body && typeof body === 'object' && typeof body.model === 'string' ? body.model : undefined,
+        status: c.response.status,
+        durationMs: c.durationMs,
+        replayOf: c.replayOf,
+        frameCount: c.frames.length
+      }
+    }).reverse()
+  }
+
+  delete(id: string): void {
+    this.captures = this.captures.filter(c => c.id !== id)
+    this.save()
+  }
+
+  clear(): void {
+    this.captures = []
+    this.save()
+  }
+}
+
+export const proxyCaptureStore = new ProxyCaptureStore()
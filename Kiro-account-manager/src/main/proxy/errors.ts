@@ -0,0 +1,179 @@
+// 代理错误模型：统一错误分类，并按协议（OpenAI / Anthropic / Gemini / Ollama）生成标准错误响应体
+
+// 错误响应格式
+export type ProxyErrorFormat = 'openai' | 'anthropic' | 'gemini' | 'ollama'
+
+// 错误类别（与协议无关）
+export type ProxyErrorKind =
+  | 'invalid_request'
+  | 'authentication'
+  | 'permission'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'request_too_large'
+  | 'rate_limit'
+  | 'quota'
+  | 'overloaded'
+  | 'timeout'
+  | 'api'
+
+export class ProxyError extends Error {
+  kind: ProxyErrorKind
+  param?: string
+  code?: string
+
+  constructor(kind: ProxyErrorKind, message: string, options: { param?: string; code?: string } = {}) {
+    super(message)
+    this.name = 'ProxyError'
+    this.kind = kind
+    this.param = options.param
+    this.code = options.code
+  }
+}
+
+// HTTP 状态码（Anthropic 的过载错误使用 529）
+const ERROR_STATUS: Record<ProxyErrorKind, number> = {
+  invalid_request: 400,
+  authentication: 401,
+  permission: 403,
+  not_found: 404,
+  method_not_allowed: 405,
+  request_too_large: 413,
+  rate_limit: 429,
+  quota: 429,
+  overloaded: 503,
+  timeout: 504,
+  api: 500
+}
+
+// OpenAI 错误类型与默认错误码
+const OPENAI_ERROR_TYPES: Record<ProxyErrorKind, { type: string; code: string | null }> = {
+  invalid_request: { type: 'invalid_request_error', code: null },
+  authentication: { type: 'invalid_request_error', code: 'invalid_api_key' },
+  permission: { type: 'invalid_request_error', code: 'permission_denied' },
+  not_found: { type: 'invalid_request_error', code: 'unknown_url' },
+  method_not_allowed: { type: 'invalid_request_error', code: 'method_not_allowed' },
+  request_too_large: { type: 'invalid_request_error', code: 'request_too_large' },
+  rate_limit: { type: 'rate_limit_error', code: 'rate_limit_exceeded' },
+  quota: { type: 'insufficient_quota', code: 'insufficient_quota' },
+  overloaded: { type: 'server_error', code: 'overloaded' },
+  timeout: { type: 'server_error', code: 'timeout' },
+  api: { type: 'server_error', code: null }
+}
+
+// Anthropic 错误类型
+const ANTHROPIC_ERROR_TYPES: Record<ProxyErrorKind, string> = {
+  invalid_request: 'invalid_request_error',
+  authentication: 'authentication_error',
+  permission: 'permission_error',
+  not_found: 'not_found_error',
+  method_not_allowed: 'invalid_request_error',
+  request_too_large: 'request_too_large',
+  rate_limit: 'rate_limit_error',
+  quota: 'rate_limit_error',
+  overloaded: 'overloaded_error',
+  timeout: 'timeout_error',
+  api: 'api_error'
+}
+
+// Gemini（Google RPC）错误状态
+const GEMINI_ERROR_STATUS: Record<ProxyErrorKind, string> = {
+  invalid_request: 'INVALID_ARGUMENT',
+  authentication: 'UNAUTHENTICATED',
+  permission: 'PERMISSION_DENIED',
+  not_found: 'NOT_FOUND',
+  method_not_allowed: 'INVALID_ARGUMENT',
+  request_too_large: 'INVALID_ARGUMENT',
+  rate_limit: 'RESOURCE_EXHAUSTED',
+  quota: 'RESOURCE_EXHAUSTED',
+  overloaded: 'UNAVAILABLE',
+  timeout: 'DEADLINE_EXCEEDED',
+  api: 'INTERNAL'
+}
+
+export function getErrorStatus(kind: ProxyErrorKind, format: ProxyErrorFormat): number {
+  if (kind === 'overloaded' && format === 'anthropic') return 529
+  return ERROR_STATUS[kind]
+}
+
+// 根据请求路径判断错误格式
+export function getErrorFormat(path: string): ProxyErrorFormat {
+  if (path.startsWith('/v1beta/') || /\/models\/[^/]+:\w+$/.test(path)) return 'gemini'
+  if (path.startsWith('/api/')) return 'ollama'
+  return path.includes('/messages') ? 'anthropic' : 'openai'
+}
+
+// 将任意错误（上游 Kiro 错误、JSON 解析错误等）归类为 ProxyError
+export function classifyError(error: Error): ProxyError {
+  if (error instanceof ProxyError) return error
+
+  const message = error.message || 'Unknown error'
+
+  if (error instanceof SyntaxError) {
+    return new ProxyError('invalid_request', `Invalid JSON in request body: ${message}`)
+  }
+  if (error.name === 'AbortError' || message.includes('ETIMEDOUT') || message.toLowerCase().includes('timed out')) {
+    return new ProxyError('timeout', message)
+  }
+  if (message.includes('No available accounts')) {
+    return new ProxyError('overloaded', message)
+  }
+  if (message.includes('Auth error') || message.includes('401') || message.includes('403')) {
+    return new ProxyError('authentication', `Upstream account authentication failed: ${message}`)
+  }
+  if (message.includes('402') || message.includes('quota') || message.includes('reached the limit') || message.includes('Quota exhausted')) {
+    return new ProxyError('quota', message)
+  }
+  if (message.includes('429') || message.includes('ThrottlingException')) {
+    return new ProxyError('rate_limit', message)
+  }
+  if (message.includes('API error 400') || message.includes('ValidationException') || message.includes('Improperly formed request')) {
+    const tooLong = message.includes('Input is too long') || message.includes('CONTENT_LENGTH_EXCEEDS_THRESHOLD')
+    return new ProxyError('invalid_request', message, tooLong ? { code: 'context_length_exceeded' } : {})
+  }
+  return new ProxyError('api', message)
+}
+
+// OpenAI 错误码（流式事件中只携带 code 时使用）
+export function getOpenAIErrorCode(error: ProxyError): string {
+  const { type, code } = OPENAI_ERROR_TYPES[error.kind]
+  return error.code ?? code ?? type
+}
+
+// 生成对应协议的错误响应体
+export function buildErrorBody(error: ProxyError, format: ProxyErrorFormat): Record<string, unknown> {
+  // Ollama 错误体只有一个 error 字符串
+  if (format === 'ollama') {
+    return { error: error.message }
+  }
+
+  if (format === 'gemini') {
+    return {
+      error: {
+        code: getErrorStatus(error.kind, format),
+        message: error.message,
+        status: GEMINI_ERROR_STATUS[error.kind]
+      }
+    }
+  }
+
+  if (format === 'anthropic') {
+    return {
+      type: 'error',
+      error: {
+        type: ANTHROPIC_ERROR_TYPES[error.kind],
+        message: error.message
+      }
+    }
+  }
+
+  const { type, code } = OPENAI_ERROR_TYPES[error.kind]
+  return {
+    error: {
+      message: error.message,
+      type,
+      code: error.code ?? code,
+      param: error.param ?? null
+    }
+  }
+}
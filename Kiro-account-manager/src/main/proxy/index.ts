@@ -3,4 +3,12 @@ export * from './types'
 export * from './accountPool'
 export * from './kiroApi'
 export * from './translator'
+export * from './errors'
+export * from './tokenizer'
+export * from './structuredOutput'
+export * from './outputLimits'
+export * from './promptInjection'
+export * from './capture'
+export * from './telemetry'
+export * from './apiKeySecrets'
 export { ProxyServer, type ProxyServerEvents } from './proxyServer'
@@ -12,6 +12,9 @@ import type {
   ProxyAccount
 } from './types'
 import { proxyLogger } from './logger'
+import { countKiroPayloadTokens, countOutputTokens, countTextTokens } from './tokenizer'
+import { captureKiroPayload } from './capture'
+import { startUpstreamSpan } from './telemetry'
 import { getKProxyService } from '../kproxy'
 
 // 是否使用 K-Proxy 代理发送 API 请求（从主进程导入）
@@ -87,34 +90,6 @@ const KIRO_CLI_AMZ_USER_AGENT = 'aws-sdk-rust/1.3.9 ua/2.1 api/ssooidc/1.88.0 os
 const AGENT_MODE_SPEC = 'spec' // IDE 模式
 const AGENT_MODE_VIBE = 'vibe' // CLI 模式
 
-// Agentic 模式系统提示 - 防止大文件写入超时
-const AGENTIC_SYSTEM_PROMPT = `# CRITICAL: CHUNKED WRITE PROTOCOL (MANDATORY)
-
-You MUST follow these rules for ALL file operations. Violation causes server timeouts and task failure.
-
-## ABSOLUTE LIMITS
-- **MAXIMUM 350 LINES** per single write/edit operation - NO EXCEPTIONS
-- **RECOMMENDED 300 LINES** or less for optimal performance
-- **NEVER** write entire files in one operation if >300 lines
-
-## MANDATORY CHUNKED WRITE STRATEGY
-
-### For NEW FILES (>300 lines total):
-1. FIRST: Write initial chunk (first 250-300 lines) using write_to_file/fsWrite
-2. THEN: Append remaining content in 250-300 line chunks using file append operations
-3. REPEAT: Continue appending until complete
-
-### For EDITING EXISTING FILES:
-1. Use surgical edits (apply_diff/targeted edits) - change ONLY what's needed
-2. NEVER rewrite entire files - use incremental modifications
-3. Split large refactors into multiple small, focused edits
-
-REMEMBER: When in doubt, write LESS per operation. Multiple small operations > one large operation.`
-
-// Thinking 模式标签
-const THINKING_MODE_PROMPT = `<thinking_mode>enabled</thinking_mode>
-<max_thinking_length>200000</max_thinking_length>`
-
 // 模型 ID 映射
 const MODEL_ID_MAP: Record<string, string> = {
   // Claude 4.5 系列
@@ -165,34 +140,6 @@ export function isThinkingEnabled(headers?: Record<string, string>): boolean {
   return betaHeader.toLowerCase().includes('thinking')
 }
 
-// 注入系统提示
-export function injectSystemPrompts(
-  content: string,
-  isAgentic: boolean,
-  thinkingEnabled: boolean
-): string {
-  let result = content
-  
-  // 注入时间戳
-  const timestamp = new Date().toISOString()
-  const timestampPrompt = `Current time: ${timestamp}`
-  
-  // 注入 Thinking 模式（必须在最前面）
-  if (thinkingEnabled) {
-    result = THINKING_MODE_PROMPT + '\n\n' + result
-  }
-  
-  // 注入 Agentic 模式提示
-  if (isAgentic) {
-    result = result + '\n\n' + AGENTIC_SYSTEM_PROMPT
-  }
-  
-  // 注入时间戳
-  result = timestampPrompt + '\n\n' + result
-  
-  return result
-}
-
 // ============= 消息清理逻辑（参考 Kiro 官方实现）=============
 
 // 占位消息
@@ -520,8 +467,12 @@ export async function callKiroApiStream(
 ): Promise<void> {
   const endpoints = getSortedEndpoints(preferredEndpoint)
   let lastError: Error | null = null
+  // 抓包模式下记录 payload 和原始事件帧
+  const onFrame = captureKiroPayload(payload)
 
   for (const endpoint of endpoints) {
+    // 记录上游调用耗时和结果（指标 / 链路追踪）
+    const span = startUpstreamSpan(endpoint.name, endpoint.url)
     try {
       // 更新 payload 中的 origin
       if (payload.conversationState.currentMessage.userInputMessage) {
@@ -543,10 +494,12 @@ export async function callKiroApiStream(
         body: JSON.stringify(payload),
         signal
       })
+      span.setStatus(response.status)
 
       if (response.status === 429) {
         console.log(`[KiroAPI] Endpoint ${endpoint.name} quota exhausted, trying next...`)
         lastError = new Error(`Quota exhausted on ${endpoint.name}`)
+        span.end(lastError.message)
         continue
       }
 
@@ -560,13 +513,13 @@ export async function callKiroApiStream(
         throw new Error(`API error ${response.status}: ${body}`)
       }
 
-      // 解析 Event Stream
-      // 计算输入字符长度用于估算 input tokens
-      const inputChars = payloadStr.length
-      await parseEventStream(response.body!, onChunk, onComplete, onError, inputChars)
+      // 解析 Event Stream（上游未返回 input tokens 时用 tokenizer 计算 payload）
+      await parseEventStream(response.body!, onChunk, onComplete, onError, () => countKiroPayloadTokens(payload), signal, onFrame)
+      span.end()
       return
     } catch (error) {
       lastError = error as Error
+      span.end(lastError.message)
       console.error(`[KiroAPI] Endpoint ${endpoint.name} failed:`, error)
       
       // 如果是认证错误，不继续尝试其他端点
@@ -636,7 +589,9 @@ async function parseEventStream(
   onChunk: (text: string, toolUse?: KiroToolUse, isThinking?: boolean) => void,
   onComplete: (usage: { inputTokens: number; outputTokens: number; credits: number; cacheReadTokens?: number; cacheWriteTokens?: number; reasoningTokens?: number }) => void,
   onError: (error: Error) => void,
-  inputChars: number = 0  // 输入字符长度，用于估算 input tokens
+  estimateInputTokens?: () => number,  // 上游未返回 input tokens 时的回退计数
+  signal?: AbortSignal,  // 调用方主动中止（如命中停止序列）时提前结束，并按已收到的内容计算用量
+  onFrame?: (eventType: string, payloadText: string) => void  // 抓包模式下记录原始事件帧
 ): Promise<void> {
   const reader = body.getReader()
   let buffer = new Uint8Array(0)
@@ -649,22 +604,25 @@ async function parseEventStream(
     reasoningTokens: 0
   }
   
-  // 累积输出文本长度，用于估算 tokens
-  let totalOutputChars = 0
-  
-  // 估算 input tokens（基于输入字符长度）
-  // 约 3 个字符 = 1 token（混合中英文场景的保守估计）
-  if (inputChars > 0) {
-    usage.inputTokens = Math.max(1, Math.round(inputChars / 3))
-  }
+  // 累积输出内容，上游未返回 token 用量时用 tokenizer 计算
+  let outputText = ''
+  let reasoningText = ''
+  const outputToolUses: KiroToolUse[] = []
   
   // Tool use 状态跟踪 - 用于累积输入片段
   let currentToolUse: ToolUseState | null = null
   const processedIds = new Set<string>()
 
   try {
-    while (true) {
-      const { done, value } = await reader.read()
+    while (!signal?.aborted) {
+      let readResult: ReadableStreamReadResult<Uint8Array>
+      try {
+        readResult = await reader.read()
+      } catch (error) {
+        if (signal?.aborted) break
+        throw error
+      }
+      const { done, value } = readResult
       
       if (done) {
         break
@@ -677,7 +635,7 @@ async function parseEventStream(
       buffer = newBuffer
 
       // 尝试解析消息
-      while (buffer.length >= 16) {
+      while (buffer.length >= 16 && !signal?.aborted) {
         // AWS Event Stream 格式：
         // - 4 bytes: total length
         // - 4 bytes: headers length
@@ -708,6 +666,7 @@ async function parseEventStream(
           
           try {
             const payloadText = new TextDecoder().decode(payloadBytes)
+            onFrame?.(eventType, payloadText)
             const event = JSON.parse(payloadText)
             
             // 根据 event type 处理不同类型的事件
@@ -716,8 +675,7 @@ async function parseEventStream(
               const content = assistantResp.content
               if (content) {
                 onChunk(content)
-                // 累积输出字符长度
-                totalOutputChars += content.length
+                outputText += content
               }
             }
             
@@ -747,11 +705,13 @@ async function parseEventStream(
                         finalInput = JSON.parse(currentToolUse.inputBuffer)
                       }
                     } catch { /* 忽略解析错误 */ }
-                    onChunk('', {
+                    const toolUse: KiroToolUse = {
                       toolUseId: currentToolUse.toolUseId,
                       name: currentToolUse.name,
                       input: finalInput
-                    })
+                    }
+                    outputToolUses.push(toolUse)
+                    onChunk('', toolUse)
                     processedIds.add(currentToolUse.toolUseId)
                   }
                   currentToolUse = null
@@ -802,11 +762,13 @@ async function parseEventStream(
                 }
                 
                 // 只有在成功解析或有错误信息时才发送
-                onChunk('', {
+                const toolUse: KiroToolUse = {
                   toolUseId: currentToolUse.toolUseId,
                   name: currentToolUse.name,
                   input: finalInput
-                })
+                }
+                outputToolUses.push(toolUse)
+                onChunk('', toolUse)
                 
                 // 如果解析失败，额外发送一条文本消息告知用户
                 if (parseError) {
@@ -927,9 +889,7 @@ async function parseEventStream(
                 // 传递 isThinking=true 标记这是思考内容
                 proxyLogger.info('Kiro', `Received reasoning content (isThinking=true): ${reasoning.text.slice(0, 50)}...`)
                 onChunk(reasoning.text, undefined, true)
-                totalOutputChars += reasoning.text.length
-                // 累计 reasoning tokens（约 3 字符 = 1 token）
-                usage.reasoningTokens += Math.max(1, Math.round(reasoning.text.length / 3))
+                reasoningText += reasoning.text
               }
               proxyLogger.debug('Kiro', 'reasoningContentEvent', JSON.stringify(reasoning).slice(0, 200))
             }
@@ -1034,26 +994,31 @@ async function parseEventStream(
     }
     
     // 完成任何未完成的 tool use
-    if (currentToolUse && !processedIds.has(currentToolUse.toolUseId)) {
+    if (!signal?.aborted && currentToolUse && !processedIds.has(currentToolUse.toolUseId)) {
       let finalInput: Record<string, unknown> = {}
       try {
         if (currentToolUse.inputBuffer) {
           finalInput = JSON.parse(currentToolUse.inputBuffer)
         }
       } catch { /* 忽略解析错误 */ }
-      onChunk('', {
+      const toolUse: KiroToolUse = {
         toolUseId: currentToolUse.toolUseId,
         name: currentToolUse.name,
         input: finalInput
-      })
+      }
+      outputToolUses.push(toolUse)
+      onChunk('', toolUse)
     }
     
-    // 如果 API 没有返回 token 信息，基于输出字符长度估算
-    // Token 估算规则：约 4 个字符 = 1 token（对于英文），中文约 2 字符 = 1 token
-    // 这里使用保守估计：平均 3 个字符 = 1 token
-    if (usage.outputTokens === 0 && totalOutputChars > 0) {
-      usage.outputTokens = Math.max(1, Math.round(totalOutputChars / 3))
-      proxyLogger.info('Kiro', `Estimated output tokens: ${totalOutputChars} chars -> ${usage.outputTokens} tokens`)
+    // 如果 API 没有返回 token 信息，使用本地 tokenizer 计算
+    if (usage.inputTokens === 0 && estimateInputTokens) {
+      usage.inputTokens = estimateInputTokens()
+      proxyLogger.info('Kiro', `Counted input tokens locally: ${usage.inputTokens}`)
+    }
+    usage.reasoningTokens = countTextTokens(reasoningText)
+    if (usage.outputTokens === 0 && (outputText || reasoningText || outputToolUses.length > 0)) {
+      usage.outputTokens = Math.max(1, countOutputTokens(outputText, outputToolUses) + usage.reasoningTokens)
+      proxyLogger.info('Kiro', `Counted output tokens locally: ${usage.outputTokens}`)
     }
     
     proxyLogger.info('Kiro', 'Stream complete, final usage', usage)
@@ -1072,26 +1037,32 @@ export async function callKiroApi(
   signal?: AbortSignal
 ): Promise<{
   content: string
+  reasoning: string  // reasoningContentEvent 的思考内容
   toolUses: KiroToolUse[]
-  usage: { inputTokens: number; outputTokens: number; credits: number }
+  usage: { inputTokens: number; outputTokens: number; credits: number; cacheReadTokens?: number; cacheWriteTokens?: number; reasoningTokens?: number }
 }> {
   return new Promise((resolve, reject) => {
     let content = ''
+    let reasoning = ''
     const toolUses: KiroToolUse[] = []
-    let usage = { inputTokens: 0, outputTokens: 0, credits: 0 }
+    let usage: { inputTokens: number; outputTokens: number; credits: number } = { inputTokens: 0, outputTokens: 0, credits: 0 }
 
     callKiroApiStream(
       account,
       payload,
-      (text, toolUse) => {
-        content += text
+      (text, toolUse, isThinking) => {
+        if (isThinking) {
+          reasoning += text
+        } else {
+          content += text
+        }
         if (toolUse) {
           toolUses.push(toolUse)
         }
       },
       (u) => {
         usage = u
-        resolve({ content, toolUses, usage })
+        resolve({ content, reasoning, toolUses, usage })
       },
       reject,
       signal
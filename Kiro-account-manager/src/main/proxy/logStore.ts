@@ -0,0 +1,646 @@
+// 代理日志存储：日志按段追加写入 NDJSON 文件，内存中只保留列式索引，
+// 支持按时间范围 / 级别 / 类别 / 模型 / API Key 查询、分页读取和保留策略
+import * as fs from 'fs'
+import * as path from 'path'
+import type { LogEntry } from './logger'
+
+export interface LogQuery {
+  from?: number  // 起始时间（毫秒时间戳，含）
+  to?: number  // 结束时间（毫秒时间戳，含）
+  levels?: LogEntry['level'][]
+  category?: string
+  model?: string
+  apiKeyId?: string
+  search?: string  // 全文搜索（忽略大小写，需要读取日志内容，较慢）
+  offset?: number
+  limit?: number
+}
+
+export interface LogQueryResult {
+  entries: LogEntry[]  // 最新的在前
+  total: number  // 匹配的总条数（用于分页）
+  categories: string[]
+  models: string[]
+  apiKeyIds: string[]
+}
+
+export interface LogRetention {
+  maxDays?: number  // 保留天数（0 表示不限）
+  maxEntries?: number  // 最多保留条数（0 表示不限）
+}
+
+const LEVELS: LogEntry['level'][] = ['DEBUG', 'INFO', 'WARN', 'ERROR']
+// 单个段文件的最大条数 / 字节数，超过后切换到新段
+const SEGMENT_MAX_ENTRIES = 50000
+const SEGMENT_MAX_BYTES = 32 * 1024 * 1024
+// 写入缓冲：1 秒或 256KB 落盘一次
+const FLUSH_DELAY_MS = 1000
+const FLUSH_MAX_BYTES = 256 * 1024
+const DEFAULT_QUERY_LIMIT = 1000
+const MAX_QUERY_LIMIT = 100000
+const INDEX_VERSION = 1
+const DAY_MS = 24 * 60 * 60 * 1000
+const SEGMENT_FILE_PATTERN = /^segment-(\d+)\.ndjson$/
+
+interface Segment {
+  id: number
+  file: string
+  size: number  // 字节数（包含尚未落盘的部分）
+  count: number
+  minTime: number
+  maxTime: number
+}
+
+// 段索引文件（段写满后生成，启动时无需重新解析日志内容）
+interface SegmentIndexFile {
+  version: number
+  size: number
+  times: number[]
+  levels: number[]
+  categories: string[]
+  models: string[]
+  apiKeyIds: string[]
+  offsets: number[]
+  lengths: number[]
+}
+
+function resizeFloat64(array: Float64Array, capacity: number): Float64Array {
+  const next = new Float64Array(capacity)
+  next.set(array.subarray(0, Math.min(array.length, capacity)))
+  return next
+}
+
+function resizeUint32(array: Uint32Array, capacity: number): Uint32Array {
+  const next = new Uint32Array(capacity)
+  next.set(array.subarray(0, Math.min(array.length, capacity)))
+  return next
+}
+
+function resizeUint8(array: Uint8Array, capacity: number): Uint8Array {
+  const next = new Uint8Array(capacity)
+  next.set(array.subarray(0, Math.min(array.length, capacity)))
+  return next
+}
+
+// 列式索引：每条日志约 29 字节，按写入顺序排列（与段顺序一致）
+class LogIndex {
+  length = 0
+  times: Float64Array = new Float64Array(0)
+  levels: Uint8Array = new Uint8Array(0)
+  categories: Uint32Array = new Uint32Array(0)
+  models: Uint32Array = new Uint32Array(0)
+  apiKeys: Uint32Array = new Uint32Array(0)
+  segments: Uint32Array = new Uint32Array(0)
+  offsets: Uint32Array = new Uint32Array(0)
+  lengths: Uint32Array = new Uint32Array(0)
+
+  push(time: number, level: number, category: number, model: number, apiKey: number, segment: number, offset: number, length: number): void {
+    if (this.length === this.times.length) {
+      this.resize(Math.max(1024, this.times.length * 2))
+    }
+    const i = this.length++
+    this.times[i] = time
+    this.levels[i] = level
+    this.categories[i] = category
+    this.models[i] = model
+    this.apiKeys[i] = apiKey
+    this.segments[i] = segment
+    this.offsets[i] = offset
+    this.lengths[i] = length
+  }
+
+  // 删除最旧的 count 条
+  dropFront(count: number): void {
+    if (count <= 0) return
+    const arrays = [this.times, this.levels, this.categories, this.models, this.apiKeys, this.segments, this.offsets, this.lengths]
+    for (const array of arrays) {
+      array.copyWithin(0, count, this.length)
+    }
+    this.length = Math.max(0, this.length - count)
+    // 容量远大于实际条数时收缩
+    if (this.times.length > 1024 && this.length < this.times.length / 4) {
+      this.resize(Math.max(1024, this.length * 2))
+    }
+  }
+
+  clear(): void {
+    this.length = 0
+    this.resize(0)
+  }
+
+  private resize(capacity: number): void {
+    this.times = resizeFloat64(this.times, capacity)
+    this.levels = resizeUint8(this.levels, capacity)
+    this.categories = resizeUint32(this.categories, capacity)
+    this.models = resizeUint32(this.models, capacity)
+    this.apiKeys = resizeUint32(this.apiKeys, capacity)
+    this.segments = resizeUint32(this.segments, capacity)
+    this.offsets = resizeUint32(this.offsets, capacity)
+    this.lengths = resizeUint32(this.lengths, capacity)
+  }
+}
+
+// 字符串字典（0 表示空值）
+class StringDictionary {
+  private ids = new Map<string, number>()
+  values: string[] = ['']
+
+  id(value?: string): number {
+    if (!value) return 0
+    let id = this.ids.get(value)
+    if (id === undefined) {
+      id = this.values.length
+      this.values.push(value)
+      this.ids.set(value, id)
+    }
+    return id
+  }
+
+  lookup(value: string): number | undefined {
+    return this.ids.get(value)
+  }
+
+  list(): string[] {
+    return this.values.slice(1).sort()
+  }
+
+  clear(): void {
+    this.ids.clear()
+    this.values = ['']
+  }
+}
+
+// 读取段文件中的日志行：分页时按偏移读取，全文搜索时整段读入
+class SegmentReader {
+  private fds = new Map<number, number>()
+  private buffered: { id: number; data: Buffer } | null = null
+
+  constructor(private segments: Map<number, Segment>, private wholeFile: boolean) {}
+
+  read(segmentId: number, offset: number, length: number): string {
+    const segment = this.segments.get(segmentId)
+    if (!segment) return ''
+    if (this.wholeFile) {
+      if (!this.buffered || this.buffered.id !== segmentId) {
+        this.buffered = { id: segmentId, data: fs.readFileSync(segment.file) }
+      }
+      return this.buffered.data.toString('utf8', offset, offset + length)
+    }
+    let fd = this.fds.get(segmentId)
+    if (fd === undefined) {
+      fd = fs.openSync(segment.file, 'r')
+      this.fds.set(segmentId, fd)
+    }
+    const buffer = Buffer.alloc(length)
+    const bytesRead = fs.readSync(fd, buffer, 0, length, offset)
+    return buffer.toString('utf8', 0, bytesRead)
+  }
+
+  close(): void {
+    for (const fd of this.fds.values()) {
+      try {
+        fs.closeSync(fd)
+      } catch {
+        // ignore
+      }
+    }
+    this.fds.clear()
+    this.buffered = null
+  }
+}
+
+class ProxyLogStore {
+  private dir: string = ''
+  private segments: Segment[] = []
+  private segmentById = new Map<number, Segment>()
+  private index = new LogIndex()
+  private categories = new StringDictionary()
+  private models = new StringDictionary()
+  private apiKeys = new StringDictionary()
+  private pending: string[] = []  // 尚未落盘的日志行（属于当前段）
+  private pendingBytes = 0
+  private flushTimer: NodeJS.Timeout | null = null
+  private retention: Required<LogRetention> = { maxDays: 0, maxEntries: 1000000 }
+  private listeners: ((entry: LogEntry) => void)[] = []
+
+  initialize(userDataPath: string): void {
+    this.dir = path.join(userDataPath, 'proxy-logs')
+    try {
+      fs.mkdirSync(this.dir, { recursive: true })
+      this.loadSegments()
+      // 迁移旧版 JSON 日志文件
+      this.migrateLegacyFile(path.join(userDataPath, 'proxy-logs.json'))
+      this.applyRetention()
+      console.log(`[ProxyLogStore] Loaded ${this.index.length} logs from ${this.segments.length} segments`)
+    } catch (error) {
+      console.error('[ProxyLogStore] Failed to initialize log store:', error)
+    }
+  }
+
+  // 设置保留策略（超出范围的整段删除，查询时按条过滤）
+  setRetention(retention: LogRetention): void {
+    this.retention = {
+      maxDays: Math.max(0, retention.maxDays ?? 0),
+      maxEntries: Math.max(0, retention.maxEntries ?? 1000000)
+    }
+    this.applyRetention()
+  }
+
+  getRetention(): Required<LogRetention> {
+    return { ...this.retention }
+  }
+
+  add(entry: LogEntry): void {
+    // 通知监听器
+    for (const listener of this.listeners) {
+      try {
+        listener(entry)
+      } catch {
+        // ignore
+      }
+    }
+
+    if (!this.dir) return
+
+    const line = JSON.stringify(entry) + '\n'
+    const length = Buffer.byteLength(line)
+    let segment = this.segments[this.segments.length - 1]
+    if (!segment || segment.count >= SEGMENT_MAX_ENTRIES || segment.size + length > SEGMENT_MAX_BYTES) {
+      segment = this.rotate()
+    }
+    if (!this.indexEntry(entry, segment, segment.size, length - 1)) return
+
+    this.pending.push(line)
+    this.pendingBytes += length
+    segment.size += length
+
+    if (this.pendingBytes >= FLUSH_MAX_BYTES) {
+      this.flush()
+    } else {
+      this.scheduleFlush()
+    }
+  }
+
+  // 将缓冲的日志写入当前段文件
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    const segment = this.segments[this.segments.length - 1]
+    if (!segment || this.pending.length === 0) return
+    try {
+      fs.appendFileSync(segment.file, this.pending.join(''), 'utf-8')
+    } catch (error) {
+      console.error('[ProxyLogStore] Failed to write logs:', error)
+    }
+    this.pending = []
+    this.pendingBytes = 0
+  }
+
+  // 兼容旧接口
+  save(): void {
+    this.flush()
+  }
+
+  query(query: LogQuery = {}): LogQueryResult {
+    this.flush()
+    const offset = Math.max(0, query.offset || 0)
+    const limit = Math.min(Math.max(1, query.limit || DEFAULT_QUERY_LIMIT), MAX_QUERY_LIMIT)
+    const from = Math.max(query.from || 0, this.retentionCutoff())
+    const to = query.to ?? Number.POSITIVE_INFINITY
+    const levels = query.levels && query.levels.length > 0 ? new Set(query.levels.map(l => LEVELS.indexOf(l))) : null
+    const search = query.search?.trim().toLowerCase()
+
+    const result: LogQueryResult = {
+      entries: [],
+      total: 0,
+      categories: this.categories.list(),
+      models: this.models.list(),
+      apiKeyIds: this.apiKeys.list()
+    }
+
+    // 指定的类别 / 模型 / API Key 从未出现过时没有匹配项
+    const category = query.category ? this.categories.lookup(query.category) : 0
+    const model = query.model ? this.models.lookup(query.model) : 0
+    const apiKey = query.apiKeyId ? this.apiKeys.lookup(query.apiKeyId) : 0
+    if (category === undefined || model === undefined || apiKey === undefined) return result
+
+    const idx = this.index
+    const matches: number[] = []
+    const searchReader = search ? new SegmentReader(this.segmentById, true) : null
+    try {
+      for (let i = idx.length - 1; i >= this.firstVisibleIndex(); i--) {
+        const time = idx.times[i]
+        if (time < from || time > to) continue
+        if (levels && !levels.has(idx.levels[i])) continue
+        if (category && idx.categories[i] !== category) continue
+        if (model && idx.models[i] !== model) continue
+        if (apiKey && idx.apiKeys[i] !== apiKey) continue
+        if (searchReader && search && !searchReader.read(idx.segments[i], idx.offsets[i], idx.lengths[i]).toLowerCase().includes(search)) continue
+
+        if (result.total >= offset && matches.length < limit) {
+          matches.push(i)
+        }
+        result.total++
+      }
+    } finally {
+      searchReader?.close()
+    }
+
+    result.entries = this.readEntries(matches)
+    return result
+  }
+
+  // 读取所有日志（最旧的在前）
+  getAll(): LogEntry[] {
+    return this.getLast(this.count())
+  }
+
+  // 读取最近的 count 条日志（最旧的在前）
+  getLast(count: number): LogEntry[] {
+    this.flush()
+    const start = Math.max(this.firstVisibleIndex(), this.index.length - count)
+    const indexes: number[] = []
+    for (let i = start; i < this.index.length; i++) {
+      indexes.push(i)
+    }
+    return this.readEntries(indexes)
+  }
+
+  clear(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    for (const segment of this.segments) {
+      this.deleteSegmentFiles(segment)
+    }
+    this.segments = []
+    this.segmentById.clear()
+    this.index.clear()
+    this.categories.clear()
+    this.models.clear()
+    this.apiKeys.clear()
+    this.pending = []
+    this.pendingBytes = 0
+  }
+
+  count(): number {
+    return this.index.length - this.firstVisibleIndex()
+  }
+
+  onLog(listener: (entry: LogEntry) => void): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index >= 0) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null
+      this.flush()
+    }, FLUSH_DELAY_MS)
+  }
+
+  // 将日志加入索引，返回是否有效（无效的时间戳 / 级别 / 类别会被跳过）
+  private indexEntry(entry: LogEntry, segment: Segment, offset: number, length: number): boolean {
+    const time = new Date(entry.timestamp).getTime()
+    const level = LEVELS.indexOf(entry.level)
+    if (isNaN(time) || level < 0 || !entry.category) return false
+
+    this.index.push(
+      time,
+      level,
+      this.categories.id(entry.category),
+      this.models.id(entry.model),
+      this.apiKeys.id(entry.apiKeyId),
+      segment.id,
+      offset,
+      length
+    )
+    segment.count++
+    segment.minTime = Math.min(segment.minTime, time)
+    segment.maxTime = Math.max(segment.maxTime, time)
+    return true
+  }
+
+  private readEntries(indexes: number[]): LogEntry[] {
+    const reader = new SegmentReader(this.segmentById, false)
+    try {
+      return indexes.map(i => {
+        const line = reader.read(this.index.segments[i], this.index.offsets[i], this.index.lengths[i])
+        try {
+          return JSON.parse(line) as LogEntry
+        } catch {
+          return {
+            timestamp: new Date(this.index.times[i]).toISOString(),
+            level: LEVELS[this.index.levels[i]],
+            category: this.categories.values[this.index.categories[i]],
+            message: '[Corrupted log entry]'
+          }
+        }
+      })
+    } finally {
+      reader.close()
+    }
+  }
+
+  // 超出条数上限的部分（尚未随整段删除）在查询时跳过
+  private firstVisibleIndex(): number {
+    if (!this.retention.maxEntries) return 0
+    return Math.max(0, this.index.length - this.retention.maxEntries)
+  }
+
+  private retentionCutoff(): number {
+    return this.retention.maxDays > 0 ? Date.now() - this.retention.maxDays * DAY_MS : 0
+  }
+
+  private createSegment(id: number): Segment {
+    const segment: Segment = {
+      id,
+      file: path.join(this.dir, `segment-${String(id).padStart(6, '0')}.ndjson`),
+      size: 0,
+      count: 0,
+      minTime: Number.POSITIVE_INFINITY,
+      maxTime: 0
+    }
+    this.segments.push(segment)
+    this.segmentById.set(id, segment)
+    return segment
+  }
+
+  // 当前段写满：落盘并生成索引文件，然后切换到新段
+  private rotate(): Segment {
+    this.flush()
+    const current = this.segments[this.segments.length - 1]
+    if (current) {
+      this.writeSegmentIndex(current)
+    }
+    const segment = this.createSegment(current ? current.id + 1 : 1)
+    this.applyRetention()
+    return segment
+  }
+
+  // 删除超出保留范围的旧段（始终保留当前写入的段）
+  private applyRetention(): void {
+    const cutoff = this.retentionCutoff()
+    while (this.segments.length > 1) {
+      const oldest = this.segments[0]
+      const expired = cutoff > 0 && oldest.maxTime < cutoff
+      const overflow = this.retention.maxEntries > 0 && this.index.length - oldest.count >= this.retention.maxEntries
+      if (!expired && !overflow) break
+
+      this.segments.shift()
+      this.segmentById.delete(oldest.id)
+      this.index.dropFront(oldest.count)
+      this.deleteSegmentFiles(oldest)
+    }
+  }
+
+  private deleteSegmentFiles(segment: Segment): void {
+    for (const file of [segment.file, this.indexFilePath(segment)]) {
+      try {
+        if (fs.existsSync(file)) fs.unlinkSync(file)
+      } catch (error) {
+        console.error('[ProxyLogStore] Failed to delete segment file:', error)
+      }
+    }
+  }
+
+  private indexFilePath(segment: Segment): string {
+    return segment.file.replace(/\.ndjson$/, '.idx.json')
+  }
+
+  // 加载已有的段：有索引文件时直接读取索引，否则扫描日志内容重建
+  private loadSegments(): void {
+    const ids = fs.readdirSync(this.dir)
+      .map(file => SEGMENT_FILE_PATTERN.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => parseInt(match[1], 10))
+      .sort((a, b) => a - b)
+
+    ids.forEach((id, position) => {
+      const segment = this.createSegment(id)
+      const isLast = position === ids.length - 1
+      if (!isLast && this.loadSegmentIndex(segment)) return
+      this.scanSegment(segment)
+      if (!isLast) this.writeSegmentIndex(segment)
+    })
+  }
+
+  private loadSegmentIndex(segment: Segment): boolean {
+    try {
+      const indexFile = this.indexFilePath(segment)
+      if (!fs.existsSync(indexFile)) return false
+      const data = JSON.parse(fs.readFileSync(indexFile, 'utf-8')) as SegmentIndexFile
+      const size = fs.statSync(segment.file).size
+      if (data.version !== INDEX_VERSION || data.size !== size) return false
+
+      for (let i = 0; i < data.times.length; i++) {
+        this.index.push(
+          data.times[i],
+          data.levels[i],
+          this.categories.id(data.categories[i]),
+          this.models.id(data.models[i]),
+          this.apiKeys.id(data.apiKeyIds[i]),
+          segment.id,
+          data.offsets[i],
+          data.lengths[i]
+        )
+        segment.minTime = Math.min(segment.minTime, data.times[i])
+        segment.maxTime = Math.max(segment.maxTime, data.times[i])
+      }
+      segment.count = data.times.length
+      segment.size = size
+      return true
+    } catch (error) {
+      console.error('[ProxyLogStore] Failed to load segment index, rebuilding:', error)
+      return false
+    }
+  }
+
+  private scanSegment(segment: Segment): void {
+    const data = fs.readFileSync(segment.file)
+    let start = 0
+    let end = data.indexOf(10)
+    while (end !== -1) {
+      try {
+        this.indexEntry(JSON.parse(data.toString('utf8', start, end)) as LogEntry, segment, start, end - start)
+      } catch {
+        // 跳过损坏的行
+      }
+      start = end + 1
+      end = data.indexOf(10, start)
+    }
+    // 截断异常退出时写了一半的行，避免后续追加的内容与其拼接
+    if (start < data.length) {
+      fs.truncateSync(segment.file, start)
+    }
+    segment.size = start
+  }
+
+  private writeSegmentIndex(segment: Segment): void {
+    const position = this.segmentStart(segment)
+    const idx = this.index
+    const data: SegmentIndexFile = {
+      version: INDEX_VERSION,
+      size: segment.size,
+      times: [],
+      levels: [],
+      categories: [],
+      models: [],
+      apiKeyIds: [],
+      offsets: [],
+      lengths: []
+    }
+    for (let i = position; i < position + segment.count; i++) {
+      data.times.push(idx.times[i])
+      data.levels.push(idx.levels[i])
+      data.categories.push(this.categories.values[idx.categories[i]])
+      data.models.push(this.models.values[idx.models[i]])
+      data.apiKeyIds.push(this.apiKeys.values[idx.apiKeys[i]])
+      data.offsets.push(idx.offsets[i])
+      data.lengths.push(idx.lengths[i])
+    }
+    try {
+      fs.writeFileSync(this.indexFilePath(segment), JSON.stringify(data), 'utf-8')
+    } catch (error) {
+      console.error('[ProxyLogStore] Failed to write segment index:', error)
+    }
+  }
+
+  // 段在索引中的起始位置（索引按段顺序连续排列）
+  private segmentStart(segment: Segment): number {
+    let position = 0
+    for (const s of this.segments) {
+      if (s === segment) break
+      position += s.count
+    }
+    return position
+  }
+
+  // 导入旧版 proxy-logs.json 后删除该文件
+  private migrateLegacyFile(legacyPath: string): void {
+    if (!fs.existsSync(legacyPath)) return
+    try {
+      const parsed = JSON.parse(fs.readFileSync(legacyPath, 'utf-8'))
+      const entries = Array.isArray(parsed) ? parsed as LogEntry[] : []
+      for (const entry of entries) {
+        if (entry && typeof entry === 'object') this.add(entry)
+      }
+      this.flush()
+      fs.unlinkSync(legacyPath)
+      console.log(`[ProxyLogStore] Migrated ${entries.length} logs from proxy-logs.json`)
+    } catch (error) {
+      console.error('[ProxyLogStore] Failed to migrate legacy logs:', error)
+    }
+  }
+}
+
+export const proxyLogStore = new ProxyLogStore()
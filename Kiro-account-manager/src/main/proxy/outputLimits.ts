@@ -0,0 +1,186 @@
+// 输出限制：停止序列截断与 max_tokens 限制（Kiro 后端不支持这两个参数，由代理在输出端实现）
+import { ProxyError } from './errors'
+import { countTextTokens } from './tokenizer'
+import type { KiroToolUse } from './types'
+
+// OpenAI 最多允许 4 个停止序列
+const MAX_OPENAI_STOP_SEQUENCES = 4
+
+export type OutputStopReason = 'stop_sequence' | 'max_tokens'
+
+export interface OutputLimitOptions {
+  stopSequences?: string[]
+  maxTokens?: number
+}
+
+export interface OutputLimiter {
+  // 处理一段输出文本，返回可以安全发送的部分（可能是某个停止序列前缀的尾部会被暂存）
+  push(text: string): string
+  // 释放暂存的尾部（流结束、切换到思考/工具块前调用）
+  flush(): string
+  readonly stopReason: OutputStopReason | null
+  readonly stopSequence: string | null
+}
+
+// 解析 OpenAI 的 stop 参数（字符串或字符串数组）
+export function normalizeOpenAIStop(stop: unknown, param = 'stop'): string[] {
+  if (stop === undefined || stop === null) return []
+  const sequences = typeof stop === 'string' ? [stop] : stop
+  if (!Array.isArray(sequences) || !sequences.every(s => typeof s === 'string')) {
+    throw new ProxyError('invalid_request', `'${param}' must be a string or an array of strings`, { param })
+  }
+  if (sequences.length > MAX_OPENAI_STOP_SEQUENCES) {
+    throw new ProxyError('invalid_request', `'${param}' may contain at most ${MAX_OPENAI_STOP_SEQUENCES} sequences`, { param })
+  }
+  return sequences.filter(s => s.length > 0)
+}
+
+// 解析 Claude 的 stop_sequences 参数
+export function normalizeClaudeStopSequences(stopSequences: unknown): string[] {
+  if (stopSequences === undefined || stopSequences === null) return []
+  if (!Array.isArray(stopSequences) || !stopSequences.every(s => typeof s === 'string')) {
+    throw new ProxyError('invalid_request', 'stop_sequences: Input should be a valid list of strings')
+  }
+  return stopSequences.filter(s => s.length > 0)
+}
+
+// 校验 max_tokens（未设置时返回 undefined）
+export function normalizeMaxTokens(maxTokens: unknown, param = 'max_tokens'): number | undefined {
+  if (maxTokens === undefined || maxTokens === null) return undefined
+  if (typeof maxTokens !== 'number' || !Number.isInteger(maxTokens) || maxTokens < 1) {
+    throw new ProxyError('invalid_request', `'${param}' must be a positive integer`, { param })
+  }
+  return maxTokens
+}
+
+// 查找文本中最早出现的停止序列
+function findStopSequence(text: string, sequences: string[]): { index: number; sequence: string } | null {
+  let found: { index: number; sequence: string } | null = null
+  for (const sequence of sequences) {
+    const index = text.indexOf(sequence)
+    if (index !== -1 && (!found || index < found.index)) {
+      found = { index, sequence }
+    }
+  }
+  return found
+}
+
+// 文本尾部可能是某个停止序列开头的最大长度
+function partialStopLength(text: string, sequences: string[]): number {
+  let longest = 0
+  for (const sequence of sequences) {
+    for (let length = Math.min(sequence.length - 1, text.length); length > longest; length--) {
+      if (text.endsWith(sequence.slice(0, length))) {
+        longest = length
+        break
+      }
+    }
+  }
+  return longest
+}
+
+export function createOutputLimiter(options: OutputLimitOptions): OutputLimiter {
+  const sequences = options.stopSequences || []
+  const maxTokens = options.maxTokens
+  let pending = ''
+  let emittedTokens = 0
+  let stopReason: OutputStopReason | null = null
+  let stopSequence: string | null = null
+
+  // 按 max_tokens 截断即将发送的文本
+  const limitTokens = (text: string): string => {
+    if (!text || maxTokens === undefined) return text
+    const tokens = countTextTokens(text)
+    if (emittedTokens + tokens <= maxTokens) {
+      emittedTokens += tokens
+      return text
+    }
+
+    // 二分查找不超过剩余额度的最长前缀
+    const budget = maxTokens - emittedTokens
+    let low = 0
+    let high = text.length
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2)
+      if (countTextTokens(text.slice(0, mid)) <= budget) {
+        low = mid
+      } else {
+        high = mid - 1
+      }
+    }
+    emittedTokens = maxTokens
+    stopReason = 'max_tokens'
+    stopSequence = null
+    return text.slice(0, low)
+  }
+
+  return {
+    push(text: string): string {
+      if (stopReason || !text) return ''
+      if (sequences.length === 0) return limitTokens(text)
+
+      pending += text
+      const match = findStopSequence(pending, sequences)
+      if (match) {
+        const before = pending.slice(0, match.index)
+        pending = ''
+        const output = limitTokens(before)
+        if (!stopReason) {
+          stopReason = 'stop_sequence'
+          stopSequence = match.sequence
+        }
+        return output
+      }
+
+      const keep = partialStopLength(pending, sequences)
+      const output = pending.slice(0, pending.length - keep)
+      pending = pending.slice(pending.length - keep)
+      return limitTokens(output)
+    },
+
+    flush(): string {
+      if (stopReason) return ''
+      const output = pending
+      pending = ''
+      return limitTokens(output)
+    },
+
+    get stopReason(): OutputStopReason | null {
+      return stopReason
+    },
+
+    get stopSequence(): string | null {
+      return stopSequence
+    }
+  }
+}
+
+// 非流式输出：一次性应用停止序列与 max_tokens
+export function applyOutputLimits(text: string, options: OutputLimitOptions): { text: string; stopReason: OutputStopReason | null; stopSequence: string | null } {
+  const limiter = createOutputLimiter(options)
+  const output = limiter.push(text) + limiter.flush()
+  return { text: output, stopReason: limiter.stopReason, stopSequence: limiter.stopSequence }
+}
+
+// 非流式 Kiro 结果：截断正文，命中停止条件时丢弃之后的工具调用
+export function limitKiroOutput(
+  content: string,
+  toolUses: KiroToolUse[],
+  options: OutputLimitOptions
+): { content: string; toolUses: KiroToolUse[]; stopReason: OutputStopReason | null; stopSequence: string | null } {
+  if (!hasOutputLimits(options)) {
+    return { content, toolUses, stopReason: null, stopSequence: null }
+  }
+  const limited = applyOutputLimits(content, options)
+  return {
+    content: limited.text,
+    toolUses: limited.stopReason ? [] : toolUses,
+    stopReason: limited.stopReason,
+    stopSequence: limited.stopSequence
+  }
+}
+
+// 是否需要对输出做限制
+export function hasOutputLimits(options: OutputLimitOptions): boolean {
+  return (options.stopSequences?.length || 0) > 0 || options.maxTokens !== undefined
+}
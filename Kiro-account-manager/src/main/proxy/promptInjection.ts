@@ -0,0 +1,134 @@
+// 系统提示注入：按 ProxyConfig.promptInjectionRules 对客户端系统提示做前置/追加/替换，规则可按模型、API Key、端点限定范围
+import { isAgenticRequest } from './kiroApi'
+import type { PromptInjectionRoute, PromptInjectionRule } from './types'
+
+export interface PromptInjectionContext {
+  rules: PromptInjectionRule[]
+  route: PromptInjectionRoute
+  model: string
+  apiKeyId?: string
+}
+
+// 内置规则 ID
+export const BUILTIN_TIMESTAMP_RULE_ID = 'builtin-timestamp'
+export const BUILTIN_EXECUTION_DISCIPLINE_RULE_ID = 'builtin-execution-discipline'
+export const BUILTIN_CHUNKED_WRITE_RULE_ID = 'builtin-chunked-write'
+
+// 执行导向指令（防止 AI 在探索过程中丢失目标）
+const EXECUTION_DISCIPLINE_PROMPT = `<execution_discipline>
+当用户要求执行特定任务时，你必须遵循以下纪律：
+1. **目标锁定**：在整个会话中始终牢记用户的原始目标，不要在代码探索过程中迷失方向
+2. **行动优先**：优先执行任务而非仅分析或总结，除非用户明确只要求分析
+3. **计划执行**：为任务创建明确的步骤计划，逐步执行并标记完成状态
+4. **禁止确认性收尾**：在任务未完成前，禁止输出"需要我继续吗？"、"需要深入分析吗？"等确认性问题
+5. **持续推进**：如果发现部分任务已完成，立即继续执行剩余未完成的任务
+6. **完整交付**：直到所有任务步骤都执行完毕才算完成
+</execution_discipline>`
+
+// Agentic 模式系统提示 - 防止大文件写入超时
+const CHUNKED_WRITE_PROMPT = `# CRITICAL: CHUNKED WRITE PROTOCOL (MANDATORY)
+
+You MUST follow these rules for ALL file operations. Violation causes server timeouts and task failure.
+
+## ABSOLUTE LIMITS
+- **MAXIMUM 350 LINES** per single write/edit operation - NO EXCEPTIONS
+- **RECOMMENDED 300 LINES** or less for optimal performance
+- **NEVER** write entire files in one operation if >300 lines
+
+## MANDATORY CHUNKED WRITE STRATEGY
+
+### For NEW FILES (>300 lines total):
+1. FIRST: Write initial chunk (first 250-300 lines) using write_to_file/fsWrite
+2. THEN: Append remaining content in 250-300 line chunks using file append operations
+3. REPEAT: Continue appending until complete
+
+### For EDITING EXISTING FILES:
+1. Use surgical edits (apply_diff/targeted edits) - change ONLY what's needed
+2. NEVER rewrite entire files - use incremental modifications
+3. Split large refactors into multiple small, focused edits
+
+REMEMBER: When in doubt, write LESS per operation. Multiple small operations > one large operation.`
+
+// 默认规则：与之前硬编码的行为一致（时间戳用于所有端点，执行纪律不用于 Gemini），分块写入协议默认关闭
+export function getDefaultPromptInjectionRules(): PromptInjectionRule[] {
+  return [
+    {
+      id: BUILTIN_TIMESTAMP_RULE_ID,
+      name: 'Current time',
+      enabled: true,
+      action: 'prepend',
+      content: '[Context: Current time is {{timestamp}}]',
+      builtin: true
+    },
+    {
+      id: BUILTIN_EXECUTION_DISCIPLINE_RULE_ID,
+      name: 'Execution discipline',
+      enabled: true,
+      action: 'append',
+      content: EXECUTION_DISCIPLINE_PROMPT,
+      routes: ['openai', 'completions', 'responses', 'claude', 'ollama'],
+      builtin: true
+    },
+    {
+      id: BUILTIN_CHUNKED_WRITE_RULE_ID,
+      name: 'Chunked write protocol',
+      enabled: false,
+      action: 'append',
+      content: CHUNKED_WRITE_PROMPT,
+      agenticOnly: true,
+      builtin: true
+    }
+  ]
+}
+
+// 模型匹配（支持通配符 *，忽略大小写）
+export function matchesModel(patterns: string[], model: string): boolean {
+  return patterns.some(pattern => {
+    const source = pattern.trim().split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')
+    return source !== '' && new RegExp(`^${source}$`, 'i').test(model)
+  })
+}
+
+function ruleMatches(rule: PromptInjectionRule, context: PromptInjectionContext, tools?: unknown[]): boolean {
+  if (!rule.enabled) return false
+  if (rule.routes && rule.routes.length > 0 && !rule.routes.includes(context.route)) return false
+  if (rule.apiKeyIds && rule.apiKeyIds.length > 0 && (!context.apiKeyId || !rule.apiKeyIds.includes(context.apiKeyId))) return false
+  if (rule.models && rule.models.some(m => m.trim()) && !matchesModel(rule.models, context.model)) return false
+  if (rule.agenticOnly && !isAgenticRequest(context.model, tools)) return false
+  return true
+}
+
+// 替换内容中的变量：{{timestamp}}、{{model}}
+function renderContent(content: string, context: PromptInjectionContext): string {
+  return content
+    .replace(/\{\{\s*timestamp\s*\}\}/g, new Date().toISOString())
+    .replace(/\{\{\s*model\s*\}\}/g, context.model)
+}
+
+// 应用注入规则：
+// - disable 规则在匹配范围内关闭 targetRuleIds 指定的规则
+// - replace 替换客户端系统提示（多条匹配时最后一条生效）
+// - prepend / append 按列表顺序排列在系统提示前后
+export function applyPromptInjection(systemPrompt: string, context: PromptInjectionContext | undefined, tools?: unknown[]): string {
+  if (!context || context.rules.length === 0) return systemPrompt
+
+  const matched = context.rules.filter(rule => ruleMatches(rule, context, tools))
+  const disabledIds = new Set(matched.filter(rule => rule.action === 'disable').flatMap(rule => rule.targetRuleIds || []))
+  const active = matched.filter(rule => rule.action !== 'disable' && !disabledIds.has(rule.id))
+
+  let base = systemPrompt
+  const prepends: string[] = []
+  const appends: string[] = []
+  for (const rule of active) {
+    const content = renderContent(rule.content, context)
+    if (rule.action === 'replace') {
+      base = content
+    } else if (rule.action === 'prepend') {
+      prepends.push(content)
+    } else {
+      appends.push(content)
+    }
+  }
+
+  return [...prepends, base, ...appends].filter(part => part.trim()).join('\n\n')
+}
@@ -5,23 +5,71 @@ import fs from 'fs'
 import { v4 as uuidv4 } from 'uuid'
 import type {
   OpenAIChatRequest,
+  OpenAIChatResponse,
+  OpenAIChoice,
+  ClaudeResponse,
+  OpenAICompletionRequest,
+  OpenAIResponsesRequest,
+  OpenAIResponsesInputItem,
+  OpenAIResponsesOutputItem,
   ClaudeRequest,
+  GeminiRequest,
+  OllamaChatRequest,
+  OllamaGenerateRequest,
+  ApiKeyRateLimitStatus,
   ProxyConfig,
+  PromptInjectionRoute,
   ProxyStats,
   ProxyAccount,
+  RequestLog,
+  KiroToolUse,
   TokenRefreshCallback
 } from './types'
 import { AccountPool } from './accountPool'
 import { callKiroApiStream, callKiroApi, fetchKiroModels, type KiroModel } from './kiroApi'
-import { proxyLogger } from './logger'
+import { getLogContext, proxyLogger, proxyLogStore, runWithLogContext } from './logger'
+import { ProxyError, classifyError, buildErrorBody, getErrorFormat, getErrorStatus, getOpenAIErrorCode, type ProxyErrorFormat, type ProxyErrorKind } from './errors'
+import { countClaudeRequestTokens, countKiroPayloadTokens } from './tokenizer'
+import { applyOutputLimits, createOutputLimiter, hasOutputLimits, limitKiroOutput, normalizeClaudeStopSequences, normalizeMaxTokens, normalizeOpenAIStop, type OutputLimitOptions, type OutputLimiter } from './outputLimits'
+import { MAX_STRUCTURED_OUTPUT_ATTEMPTS, buildStructuredOutputRepairPrompt, checkStructuredOutput, getStructuredOutputSpec, type StructuredOutputSpec } from './structuredOutput'
+import { getDefaultPromptInjectionRules, type PromptInjectionContext } from './promptInjection'
+import { METRICS_CONTENT_TYPE, configureTraceExport, recordRequestTelemetry, renderMetrics, runWithTelemetry } from './telemetry'
+import { ApiKeyRateLimiter } from './rateLimiter'
+import { hashPlaintextApiKeys, toPublicApiKey, verifyApiKeySecret } from './apiKeySecrets'
+import { getAdminAccess, getApiKeyRoute, getRestrictedKeyConfigViolation, hasApiKeyRestrictions, isAdminAllowed, isApiKeyExpired, isIpAllowed, isModelAllowed, isRouteAllowed } from './apiKeyScopes'
+import { CAPTURE_ID_HEADER, REPLAY_OF_HEADER, captureRequestBody, getActiveCapture, proxyCaptureStore, runWithCapture } from './capture'
 import { getKProxyService, generateDeviceId } from '../kproxy'
 import {
   openaiToKiro,
   claudeToKiro,
   kiroToOpenaiResponse,
   kiroToClaudeResponse,
+  countClaudeCacheBreakpoints,
+  toClaudeUsage,
+  MAX_CLAUDE_CACHE_BREAKPOINTS,
   createOpenaiStreamChunk,
-  createClaudeStreamEvent
+  createClaudeStreamEvent,
+  completionToKiro,
+  kiroToCompletionResponse,
+  createCompletionStreamChunk,
+  createThinkingTagSplitter,
+  geminiToKiro,
+  kiroToGeminiResponse,
+  createGeminiResponse,
+  normalizeOllamaModelName,
+  ollamaChatToOpenaiRequest,
+  ollamaGenerateToOpenaiRequest,
+  kiroToolUsesToOllama,
+  createOllamaDoneStats,
+  createOllamaChatResponse,
+  createOllamaGenerateResponse,
+  createOllamaModel,
+  responsesToKiro,
+  kiroToResponsesResponse,
+  createResponsesResponse,
+  createResponsesItemId,
+  splitThinkingContent,
+  type OpenAIUsage
 } from './translator'
 
 export interface ProxyServerEvents {
@@ -33,7 +81,7 @@ export interface ProxyServerEvents {
   onTokenRefresh?: TokenRefreshCallback
   onAccountUpdate?: (account: ProxyAccount) => void
   onCreditsUpdate?: (totalCredits: number) => void
-  onTokensUpdate?: (inputTokens: number, outputTokens: number) => void
+  onTokensUpdate?: (inputTokens: number, outputTokens: number, cacheReadTokens: number, cacheWriteTokens: number) => void
   onRequestStatsUpdate?: (totalRequests: number, successRequests: number, failedRequests: number) => void
 }
 
@@ -45,7 +93,42 @@ export class ProxyServer {
   private sessionStats: { totalRequests: number; successRequests: number; failedRequests: number; startTime: number }
   private events: ProxyServerEvents
   private refreshingTokens: Set<string> = new Set() // 防止并发刷新
+  // Responses API 会话历史（response id -> 完整输入输出项，用于 previous_response_id）
+  private responseHistory: Map<string, OpenAIResponsesInputItem[]> = new Map()
+  private readonly MAX_RESPONSE_HISTORY = 100
+  // 仅支持 POST 的生成类端点
+  private readonly POST_ONLY_PATHS = new Set([
+    '/v1/chat/completions', '/chat/completions',
+    '/v1/completions', '/completions',
+    '/v1/responses', '/responses',
+    '/v1/messages', '/messages', '/anthropic/v1/messages',
+    '/v1/messages/count_tokens', '/messages/count_tokens',
+    '/api/chat', '/api/generate', '/api/show'
+  ])
+  // 不计入 API Key 限流的 POST 端点（本地计算，不消耗 Kiro 额度）
+  private readonly RATE_LIMIT_EXEMPT_PATHS = new Set([
+    '/v1/messages/count_tokens', '/messages/count_tokens', '/api/show'
+  ])
+  // n > 1 时单个请求最多并行的候选数
+  private readonly MAX_CHOICES = 8
+  // Ollama 兼容接口报告的版本号（部分客户端据此判断功能支持）
+  private readonly OLLAMA_COMPAT_VERSION = '0.12.6'
+  // Kiro 不支持的 OpenAI 端点（前缀匹配）
+  private readonly UNSUPPORTED_OPENAI_PATHS = [
+    '/v1/embeddings', '/embeddings',
+    '/v1/moderations', '/v1/images/', '/v1/audio/',
+    '/v1/files', '/v1/fine_tuning/', '/v1/batches'
+  ]
+  // 重放抓包请求时不转发的请求头
+  private readonly REPLAY_SKIPPED_HEADERS = new Set([
+    'host', 'content-length', 'connection', 'keep-alive', 'transfer-encoding', 'accept-encoding', REPLAY_OF_HEADER
+  ])
   private isHttps: boolean = false
+  // 重放请求使用的一次性凭证（token -> API Key ID），配置中不保存明文密钥
+  private replayTokens: Map<string, string> = new Map()
+  private rateLimiter = new ApiKeyRateLimiter()
+  // 请求记录在日志存储中的类别
+  private readonly REQUEST_LOG_CATEGORY = 'Request'
 
   constructor(config: Partial<ProxyConfig> = {}, events: ProxyServerEvents = {}) {
     this.config = {
@@ -71,11 +154,13 @@ export class ProxyServer {
       totalCredits: 0,
       inputTokens: 0,
       outputTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
       startTime: Date.now(),
       accountStats: new Map(),
       endpointStats: new Map(),
       modelStats: new Map(),
-      recentRequests: []
+      recentRequests: this.loadRecentRequests()
     }
     this.sessionStats = {
       totalRequests: 0,
@@ -84,6 +169,9 @@ export class ProxyServer {
       startTime: 0
     }
     this.events = events
+    hashPlaintextApiKeys(this.config.apiKeys)
+    this.applyLogRetention()
+    configureTraceExport(this.config.tracing)
   }
 
   // 启动服务器
@@ -94,8 +182,10 @@ export class ProxyServer {
     }
 
     return new Promise((resolve, reject) => {
-      const requestHandler = (req: http.IncomingMessage, res: http.ServerResponse) => 
-        this.handleRequest(req, res)
+      const requestHandler = (req: http.IncomingMessage, res: http.ServerResponse) =>
+        runWithLogContext({}, () => runWithTelemetry(req, res, () => this.shouldCapture(req)
+          ? runWithCapture(req, res, () => this.handleRequest(req, res))
+          : this.handleRequest(req, res)))
 
       // 检查是否启用 TLS
       if (this.config.tls?.enabled) {
@@ -196,6 +286,17 @@ export class ProxyServer {
   // 更新配置
   updateConfig(config: Partial<ProxyConfig>): void {
     this.config = { ...this.config, ...config }
+    hashPlaintextApiKeys(this.config.apiKeys)
+    this.applyLogRetention()
+    configureTraceExport(this.config.tracing)
+  }
+
+  // 同步日志保留策略到日志存储
+  private applyLogRetention(): void {
+    proxyLogStore.setRetention({
+      maxDays: this.config.logRetentionDays,
+      maxEntries: this.config.logMaxEntries
+    })
   }
 
   // 获取配置
@@ -214,6 +315,8 @@ export class ProxyServer {
       totalCredits: this.stats.totalCredits,
       inputTokens: this.stats.inputTokens,
       outputTokens: this.stats.outputTokens,
+      cacheReadTokens: this.stats.cacheReadTokens,
+      cacheWriteTokens: this.stats.cacheWriteTokens,
       startTime: this.stats.startTime,
       accountStats: this.stats.accountStats,
       endpointStats: this.stats.endpointStats,
@@ -239,10 +342,12 @@ export class ProxyServer {
   }
 
   // 设置初始累计 tokens（用于从持久化存储恢复）
-  setTotalTokens(inputTokens: number, outputTokens: number): void {
+  setTotalTokens(inputTokens: number, outputTokens: number, cacheReadTokens: number = 0, cacheWriteTokens: number = 0): void {
     this.stats.inputTokens = inputTokens
     this.stats.outputTokens = outputTokens
     this.stats.totalTokens = inputTokens + outputTokens
+    this.stats.cacheReadTokens = cacheReadTokens
+    this.stats.cacheWriteTokens = cacheWriteTokens
   }
 
   // 重置累计 tokens
@@ -250,6 +355,8 @@ export class ProxyServer {
     this.stats.inputTokens = 0
     this.stats.outputTokens = 0
     this.stats.totalTokens = 0
+    this.stats.cacheReadTokens = 0
+    this.stats.cacheWriteTokens = 0
   }
 
   // 设置请求统计（用于从持久化存储恢复）
@@ -302,11 +409,94 @@ export class ProxyServer {
     return { ...this.sessionStats }
   }
 
+  // 获取 API Key 当前的限流窗口与预算用量
+  getApiKeyRateLimitStatus(apiKeyId: string): ApiKeyRateLimitStatus | null {
+    const apiKey = this.config.apiKeys?.find(k => k.id === apiKeyId)
+    return apiKey ? this.rateLimiter.getStatus(apiKey) : null
+  }
+
   // 是否运行中
   isRunning(): boolean {
     return this.server !== null
   }
 
+  // 抓包模式只记录 POST 请求；本机发起的重放请求总是记录，便于对比
+  private shouldCapture(req: http.IncomingMessage): boolean {
+    if (req.method !== 'POST' || (req.url || '').startsWith('/api/event_logging/')) return false
+    if (this.config.captureRequests) return true
+    const remote = req.socket.remoteAddress || ''
+    const isLoopback = remote === '::1' || remote.startsWith('127.') || remote.startsWith('::ffff:127.')
+    return isLoopback && typeof req.headers[REPLAY_OF_HEADER] === 'string'
+  }
+
+  // 重放抓包的请求：按当前配置和转换逻辑重新发送到本地代理，返回新抓包的 ID
+  async replayCapture(captureId: string): Promise<{ captureId?: string; status: number }> {
+    const record = proxyCaptureStore.get(captureId)
+    if (!record) {
+      throw new Error(`Capture ${captureId} not found`)
+    }
+    if (!this.server) {
+      throw new Error('Proxy server is not running')
+    }
+
+    const headers: Record<string, string> = {}
+    for (const [name, value] of Object.entries(record.request.headers)) {
+      if (this.REPLAY_SKIPPED_HEADERS.has(name) || value.includes('[REDACTED]')) continue
+      headers[name] = value
+    }
+    // 凭证已脱敏，使用原请求匹配的 API Key 重新认证（多 API Key 只保存哈希，改用一次性凭证）
+    let credential = this.config.apiKey
+    if (record.apiKeyId) {
+      credential = `replay-${uuidv4()}`
+      this.replayTokens.set(credential, record.apiKeyId)
+    }
+    if (credential) {
+      headers['authorization'] = `Bearer ${credential}`
+    }
+    headers[REPLAY_OF_HEADER] = record.id
+
+    const [pathname, query] = record.path.split('?')
+    const params = new URLSearchParams(query || '')
+    params.delete('key')
+    const requestPath = params.toString() ? `${pathname}?${params.toString()}` : pathname
+    const body = record.request.body === null || record.request.body === undefined
+      ? ''
+      : typeof record.request.body === 'string' ? record.request.body : JSON.stringify(record.request.body)
+    // 监听所有地址时通过回环地址访问
+    const host = ['0.0.0.0', '::', ''].includes(this.config.host) ? '127.0.0.1' : this.config.host
+
+    // 一次性凭证在请求结束（包括认证前失败）时作废，避免连接失败后一直有效
+    const revokeCredential = (): void => {
+      if (credential && record.apiKeyId) this.replayTokens.delete(credential)
+    }
+
+    return new Promise((resolve, reject) => {
+      const client = this.isHttps ? https : http
+      const req = client.request({
+        host,
+        port: this.config.port,
+        method: record.method,
+        path: requestPath,
+        headers: { ...headers, 'content-length': String(Buffer.byteLength(body)) },
+        rejectUnauthorized: false
+      }, (res) => {
+        // 收到响应时认证已完成
+        revokeCredential()
+        res.resume()
+        res.on('end', () => {
+          const newCaptureId = res.headers[CAPTURE_ID_HEADER.toLowerCase()]
+          resolve({ captureId: typeof newCaptureId === 'string' ? newCaptureId : undefined, status: res.statusCode || 0 })
+        })
+      })
+      req.on('error', (error) => {
+        revokeCredential()
+        reject(error)
+      })
+      req.on('close', revokeCredential)
+      req.end(body)
+    })
+  }
+
   // 清除模型缓存，强制下次请求重新获取
   clearModelCache(): void {
     this.modelCache = null
@@ -577,15 +767,16 @@ export class ProxyServer {
   }
 
   // 验证 API Key 并返回匹配的 Key（用于统计）
-  private validateApiKey(req: http.IncomingMessage): { valid: boolean; apiKey?: import('./types').ApiKey; reason?: string } {
+  private validateApiKey(req: http.IncomingMessage): { valid: boolean; apiKey?: import('./types').ApiKey; reason?: string; kind?: ProxyErrorKind } {
     // 如果没有配置任何 API Key，则跳过验证
     const hasApiKeys = this.config.apiKeys && this.config.apiKeys.length > 0
     const hasLegacyKey = !!this.config.apiKey
     if (!hasApiKeys && !hasLegacyKey) return { valid: true }
 
-    // 从 Authorization 头或 X-Api-Key 头获取 API Key
+    // 从 Authorization 头、X-Api-Key 头或 Gemini 的 x-goog-api-key 头 / key 查询参数获取 API Key
     const authHeader = req.headers['authorization'] || ''
-    const apiKeyHeader = (req.headers['x-api-key'] as string) || ''
+    const apiKeyHeader = (req.headers['x-api-key'] as string) || (req.headers['x-goog-api-key'] as string) || ''
+    const queryKey = new URLSearchParams((req.url || '').split('?')[1] || '').get('key') || ''
 
     let providedKey = ''
     // Bearer token 格式
@@ -596,16 +787,34 @@ export class ProxyServer {
     if (!providedKey && apiKeyHeader) {
       providedKey = apiKeyHeader
     }
+    if (!providedKey && queryKey) {
+      providedKey = queryKey
+    }
 
     if (!providedKey) return { valid: false }
 
     // 检查多 API Key
     if (hasApiKeys) {
-      const matchedKey = this.config.apiKeys!.find(k => k.enabled && k.key === providedKey)
+      const replayKeyId = this.replayTokens.get(providedKey)
+      if (replayKeyId) this.replayTokens.delete(providedKey)
+      const matchedKey = replayKeyId
+        ? this.config.apiKeys!.find(k => k.enabled && k.id === replayKeyId)
+        : this.config.apiKeys!.find(k => k.enabled && verifyApiKeySecret(k, providedKey))
       if (matchedKey) {
+        if (isApiKeyExpired(matchedKey)) {
+          return { valid: false, reason: 'API key has expired' }
+        }
+        // 轮换后的旧 Key 在宽限期结束后吊销
+        if (matchedKey.revokeAt && matchedKey.revokeAt <= Date.now()) {
+          return { valid: false, reason: 'API key has been revoked' }
+        }
+        // 检查客户端 IP 白名单
+        if (!isIpAllowed(matchedKey, req.socket.remoteAddress)) {
+          return { valid: false, reason: `API key is not allowed from ${req.socket.remoteAddress || 'unknown address'}`, kind: 'permission' }
+        }
         // 检查额度限制
         if (matchedKey.creditsLimit && matchedKey.usage.totalCredits >= matchedKey.creditsLimit) {
-          return { valid: false, reason: 'Credits limit exceeded' }
+          return { valid: false, reason: 'Credits limit exceeded', kind: 'quota' }
         }
         return { valid: true, apiKey: matchedKey }
       }
@@ -620,7 +829,7 @@ export class ProxyServer {
   }
 
   // 记录 API Key 用量
-  recordApiKeyUsage(apiKeyId: string, credits: number, inputTokens: number, outputTokens: number, model?: string, path?: string): void {
+  recordApiKeyUsage(apiKeyId: string, credits: number, inputTokens: number, outputTokens: number, model?: string, path?: string, cacheReadTokens: number = 0, cacheWriteTokens: number = 0): void {
     if (!this.config.apiKeys) return
     const apiKey = this.config.apiKeys.find(k => k.id === apiKeyId)
     if (!apiKey) return
@@ -633,7 +842,10 @@ export class ProxyServer {
     apiKey.usage.totalCredits += credits
     apiKey.usage.totalInputTokens += inputTokens
     apiKey.usage.totalOutputTokens += outputTokens
+    apiKey.usage.totalCacheReadTokens = (apiKey.usage.totalCacheReadTokens || 0) + cacheReadTokens
+    apiKey.usage.totalCacheWriteTokens = (apiKey.usage.totalCacheWriteTokens || 0) + cacheWriteTokens
     apiKey.lastUsedAt = now
+    this.rateLimiter.recordTokens(apiKeyId, inputTokens + outputTokens, now)
 
     // 更新日统计
     if (!apiKey.usage.daily[today]) {
@@ -643,6 +855,8 @@ export class ProxyServer {
     apiKey.usage.daily[today].credits += credits
     apiKey.usage.daily[today].inputTokens += inputTokens
     apiKey.usage.daily[today].outputTokens += outputTokens
+    apiKey.usage.daily[today].cacheReadTokens = (apiKey.usage.daily[today].cacheReadTokens || 0) + cacheReadTokens
+    apiKey.usage.daily[today].cacheWriteTokens = (apiKey.usage.daily[today].cacheWriteTokens || 0) + cacheWriteTokens
 
     // 更新模型统计
     if (model) {
@@ -656,6 +870,8 @@ export class ProxyServer {
       apiKey.usage.byModel[model].credits += credits
       apiKey.usage.byModel[model].inputTokens += inputTokens
       apiKey.usage.byModel[model].outputTokens += outputTokens
+      apiKey.usage.byModel[model].cacheReadTokens = (apiKey.usage.byModel[model].cacheReadTokens || 0) + cacheReadTokens
+      apiKey.usage.byModel[model].cacheWriteTokens = (apiKey.usage.byModel[model].cacheWriteTokens || 0) + cacheWriteTokens
     }
 
     // 添加用量历史记录（保留最近 100 条）
@@ -668,7 +884,9 @@ export class ProxyServer {
       inputTokens,
       outputTokens,
       credits,
-      path: path || 'unknown'
+      path: path || 'unknown',
+      cacheReadTokens,
+      cacheWriteTokens
     })
     if (apiKey.usageHistory.length > 100) {
       apiKey.usageHistory = apiKey.usageHistory.slice(0, 100)
@@ -732,6 +950,25 @@ export class ProxyServer {
     return requestedModel
   }
 
+  // 应用模型映射，并检查 API Key 的模型白名单
+  private resolveRequestModel(requestedModel: string, apiKey?: import('./types').ApiKey): string {
+    const model = this.applyModelMapping(requestedModel, apiKey?.id)
+    if (apiKey && !isModelAllowed(apiKey, requestedModel, model)) {
+      throw new ProxyError('permission', `API key is not allowed to use model '${requestedModel}'`, { param: 'model', code: 'model_not_allowed' })
+    }
+    return model
+  }
+
+  // 构建系统提示注入上下文（未配置规则时使用内置默认规则）
+  private getPromptInjection(route: PromptInjectionRoute, model: string, apiKeyId?: string): PromptInjectionContext {
+    return {
+      rules: this.config.promptInjectionRules ?? getDefaultPromptInjectionRules(),
+      route,
+      model,
+      apiKeyId
+    }
+  }
+
   // 处理请求
   private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
     const path = req.url || '/'
@@ -747,17 +984,24 @@ export class ProxyServer {
 
     this.setCorsHeaders(res)
 
+    // 路由（移除查询参数），并按路由确定错误响应格式
+    const pathWithoutQuery = path.split('?')[0]
+    const errorFormat = getErrorFormat(pathWithoutQuery)
+
     // API Key 验证（健康检查端点除外）
     if (path !== '/health' && path !== '/') {
       const authResult = this.validateApiKey(req)
       if (!authResult.valid) {
         const errorMsg = authResult.reason || 'Invalid or missing API key'
-        const statusCode = authResult.reason === 'Credits limit exceeded' ? 429 : 401
-        this.sendError(res, statusCode, errorMsg)
+        this.sendError(res, new ProxyError(authResult.kind || 'authentication', errorMsg), errorFormat)
         return
       }
       // 将匹配的 API Key 存储到请求对象中，用于后续统计
       ;(req as unknown as { matchedApiKey?: import('./types').ApiKey }).matchedApiKey = authResult.apiKey
+      const capture = getActiveCapture()
+      if (capture) capture.apiKeyId = authResult.apiKey?.id
+      const logContext = getLogContext()
+      if (logContext) logContext.apiKeyId = authResult.apiKey?.id
     }
 
     // 记录请求
@@ -766,47 +1010,125 @@ export class ProxyServer {
     }
 
     try {
-      // 路由（移除查询参数）
-      const pathWithoutQuery = path.split('?')[0]
-      
+      // 仅支持 POST 的生成类端点
+      if (this.POST_ONLY_PATHS.has(pathWithoutQuery) && method !== 'POST') {
+        res.setHeader('Allow', 'POST')
+        this.sendError(res, new ProxyError('method_not_allowed', `Method ${method} is not allowed for ${pathWithoutQuery}. Use POST.`), errorFormat)
+        return
+      }
+
+      // Gemini 路由：/v1beta/models/{model}:generateContent 或 :streamGenerateContent
+      const geminiMatch = pathWithoutQuery.match(/^\/v1(?:beta)?\/models\/([^/:]+):(generateContent|streamGenerateContent)$/)
+
+      // API Key 端点权限
+      const matchedApiKey = (req as unknown as { matchedApiKey?: import('./types').ApiKey }).matchedApiKey
+      const apiKeyRoute = getApiKeyRoute(pathWithoutQuery)
+      if (matchedApiKey && apiKeyRoute && !isRouteAllowed(matchedApiKey, apiKeyRoute)) {
+        this.sendError(res, new ProxyError('permission', `API key is not allowed to access ${pathWithoutQuery}`), errorFormat)
+        return
+      }
+
+      // API Key 限流与 Credits 预算（仅生成类端点）
+      const isGeneration = (this.POST_ONLY_PATHS.has(pathWithoutQuery) && !this.RATE_LIMIT_EXEMPT_PATHS.has(pathWithoutQuery)) || (!!geminiMatch && method === 'POST')
+      if (matchedApiKey && isGeneration) {
+        const decision = this.rateLimiter.acquire(matchedApiKey)
+        for (const [name, value] of Object.entries(decision.headers)) {
+          res.setHeader(name, value)
+        }
+        if (!decision.allowed) {
+          this.sendError(res, new ProxyError(decision.kind || 'rate_limit', decision.reason || 'Rate limit exceeded'), errorFormat)
+          return
+        }
+        res.on('close', decision.release)
+      }
+
       if (pathWithoutQuery === '/v1/models' || pathWithoutQuery === '/models') {
-        await this.handleModels(res)
+        await this.handleModels(res, matchedApiKey)
       } else if (pathWithoutQuery === '/v1/chat/completions' || pathWithoutQuery === '/chat/completions') {
         await this.handleOpenAIChat(req, res)
+      } else if (pathWithoutQuery === '/v1/completions' || pathWithoutQuery === '/completions') {
+        await this.handleOpenAICompletions(req, res)
+      } else if (pathWithoutQuery === '/v1/responses' || pathWithoutQuery === '/responses') {
+        await this.handleOpenAIResponses(req, res)
       } else if (pathWithoutQuery === '/v1/messages' || pathWithoutQuery === '/messages' || pathWithoutQuery === '/anthropic/v1/messages') {
         await this.handleClaudeMessages(req, res)
       } else if (pathWithoutQuery === '/v1/messages/count_tokens' || pathWithoutQuery === '/messages/count_tokens') {
-        // Claude Code token 计数端点 - 返回模拟响应
+        // Claude Code token 计数端点 - 本地 tokenizer 计算
         this.handleCountTokens(req, res)
+      } else if (geminiMatch) {
+        if (method !== 'POST') {
+          res.setHeader('Allow', 'POST')
+          this.sendError(res, new ProxyError('method_not_allowed', `Method ${method} is not allowed for ${pathWithoutQuery}. Use POST.`), 'gemini')
+          return
+        }
+        await this.handleGeminiGenerate(req, res, decodeURIComponent(geminiMatch[1]), geminiMatch[2] === 'streamGenerateContent')
+      } else if (pathWithoutQuery === '/v1beta/models') {
+        await this.handleGeminiModels(res, undefined, matchedApiKey)
+      } else if (pathWithoutQuery.startsWith('/v1beta/models/') && !pathWithoutQuery.includes(':')) {
+        await this.handleGeminiModels(res, decodeURIComponent(pathWithoutQuery.slice('/v1beta/models/'.length)), matchedApiKey)
+      } else if (pathWithoutQuery === '/api/tags') {
+        // Ollama 兼容端点
+        await this.handleOllamaTags(res, matchedApiKey)
+      } else if (pathWithoutQuery === '/api/version') {
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ version: this.OLLAMA_COMPAT_VERSION }))
+      } else if (pathWithoutQuery === '/api/show') {
+        await this.handleOllamaShow(req, res, matchedApiKey)
+      } else if (pathWithoutQuery === '/api/chat' || pathWithoutQuery === '/api/generate') {
+        await this.handleOllama(req, res, pathWithoutQuery === '/api/chat' ? 'chat' : 'generate')
       } else if (pathWithoutQuery === '/api/event_logging/batch') {
         // Claude Code 遥测端点 - 直接返回 200 OK
         res.writeHead(200, { 'Content-Type': 'application/json' })
         res.end(JSON.stringify({ status: 'ok' }))
       } else if (pathWithoutQuery === '/health' || pathWithoutQuery === '/') {
         this.handleHealth(res)
+      } else if (pathWithoutQuery === '/metrics') {
+        // Prometheus 指标（需要管理 API 只读权限）
+        if (matchedApiKey && !isAdminAllowed(matchedApiKey, 'GET')) {
+          this.sendError(res, new ProxyError('permission', 'API key is not allowed to access metrics'), errorFormat)
+          return
+        }
+        this.handleMetrics(res)
       } else if (pathWithoutQuery.startsWith('/admin/')) {
         // 管理 API 端点
-        await this.handleAdminApi(req, res, pathWithoutQuery)
+        await this.handleAdminApi(req, res, pathWithoutQuery, matchedApiKey)
+      } else if (this.UNSUPPORTED_OPENAI_PATHS.some(prefix => pathWithoutQuery.startsWith(prefix))) {
+        // Kiro 不提供 embeddings / 图像 / 音频等能力，返回标准错误而不是未知路径
+        this.sendError(res, new ProxyError('not_found', `The endpoint ${pathWithoutQuery} is not supported by this proxy. Only chat, completions, responses and messages endpoints are available.`, { code: 'unsupported_endpoint' }), errorFormat)
       } else {
         // 记录未知路径以便调试
         console.log(`[ProxyServer] Unknown path: ${path} (method: ${method})`)
-        this.sendError(res, 404, `Not Found: ${pathWithoutQuery}`)
+        this.sendError(res, new ProxyError('not_found', `Invalid URL (${method} ${pathWithoutQuery})`), errorFormat)
       }
     } catch (error) {
-      console.error('[ProxyServer] Request error:', error)
-      this.sendError(res, 500, (error as Error).message)
-      this.events.onError?.(error as Error)
+      const status = this.sendError(res, error as Error, errorFormat)
+      // 客户端请求错误（如 JSON 格式错误、参数缺失）不视为服务端异常
+      if (status >= 500) {
+        console.error('[ProxyServer] Request error:', error)
+        this.events.onError?.(error as Error)
+      }
     }
   }
 
+  // Prometheus 指标端点
+  private handleMetrics(res: http.ServerResponse): void {
+    const accounts = this.accountPool.getAllAccounts()
+    res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE })
+    res.end(renderMetrics({
+      availableAccounts: accounts.filter(acc => acc.isAvailable !== false).length,
+      totalAccounts: accounts.length,
+      uptimeSeconds: this.server ? (Date.now() - this.stats.startTime) / 1000 : 0
+    }))
+  }
+
   // 管理 API 端点
-  private async handleAdminApi(req: http.IncomingMessage, res: http.ServerResponse, path: string): Promise<void> {
+  // 认证已在 handleRequest 中完成（重放请求的一次性凭证只能验证一次），这里只检查管理权限
+  private async handleAdminApi(req: http.IncomingMessage, res: http.ServerResponse, path: string, apiKey?: import('./types').ApiKey): Promise<void> {
     const method = req.method || 'GET'
 
-    // 管理 API 需要 API Key 验证
-    const authResult = this.validateApiKey(req)
-    if (!authResult.valid) {
-      this.sendError(res, 401, 'Admin API requires authentication')
+    if (apiKey && !isAdminAllowed(apiKey, method)) {
+      const message = getAdminAccess(apiKey) === 'read' ? 'API key has read-only access to the admin API' : 'API key is not allowed to access the admin API'
+      this.sendError(res, new ProxyError('permission', message))
       return
     }
 
@@ -822,15 +1144,32 @@ export class ProxyServer {
     } else if (path === '/admin/config' && method === 'POST') {
       // 更新配置
       const body = await this.readBody(req)
-      const newConfig = JSON.parse(body)
+      const newConfig = JSON.parse(body) as Partial<ProxyConfig>
+      // 受限的 Key 不能修改 API Key 配置（否则可新增无限制的 Key 或解除自身限制）
+      if (apiKey && hasApiKeyRestrictions(apiKey)) {
+        const violation = getRestrictedKeyConfigViolation(this.config.apiKeys || [], this.config.apiKey, newConfig)
+        if (violation) {
+          this.sendError(res, new ProxyError('permission', violation))
+          return
+        }
+      }
+      // 管理 API 返回的配置中旧版密钥已脱敏，原样提交时保持不变
+      if (newConfig.apiKey === '***') delete newConfig.apiKey
+      // 管理 API 返回的配置不含密钥哈希，按 id 保留已有密钥（提供 key 时重新设置密钥）
+      if (Array.isArray(newConfig.apiKeys)) {
+        newConfig.apiKeys = newConfig.apiKeys.map(k => {
+          const existing = this.config.apiKeys?.find(e => e.id === k.id)
+          return existing && !k.key ? { ...k, keyHash: existing.keyHash, keyPrefix: existing.keyPrefix } : k
+        })
+      }
       this.updateConfig(newConfig)
       res.writeHead(200, { 'Content-Type': 'application/json' })
-      res.end(JSON.stringify({ success: true, config: this.getConfig() }))
+      res.end(JSON.stringify({ success: true, config: this.getSafeConfig() }))
     } else if (path === '/admin/logs' && method === 'GET') {
       // 获取最近日志
       this.handleAdminLogs(res)
     } else {
-      this.sendError(res, 404, 'Admin endpoint not found')
+      this.sendError(res, new ProxyError('not_found', 'Admin endpoint not found'))
     }
   }
 
@@ -848,6 +1187,8 @@ export class ProxyServer {
       totalTokens: stats.totalTokens,
       inputTokens: stats.inputTokens,
       outputTokens: stats.outputTokens,
+      cacheReadTokens: stats.cacheReadTokens,
+      cacheWriteTokens: stats.cacheWriteTokens,
       uptime: Date.now() - stats.startTime,
       startTime: stats.startTime,
       accountStats,
@@ -878,16 +1219,19 @@ export class ProxyServer {
 
   // 管理 API - 配置
   private handleAdminConfig(res: http.ServerResponse): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(this.getSafeConfig()))
+  }
+
+  // 隐藏敏感信息的配置（管理 API 返回）
+  private getSafeConfig(): Record<string, unknown> {
     const config = this.getConfig()
-    // 隐藏敏感信息
-    const safeConfig = {
+    return {
       ...config,
       apiKey: config.apiKey ? '***' : undefined,
+      apiKeys: config.apiKeys?.map(toPublicApiKey),
       tls: config.tls ? { enabled: config.tls.enabled } : undefined
     }
-
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify(safeConfig))
   }
 
   // 管理 API - 日志
@@ -925,35 +1269,21 @@ export class ProxyServer {
     }))
   }
 
-  // Claude Code token 计数（模拟响应）
+  // Claude Code token 计数（本地 tokenizer）
   private async handleCountTokens(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
     try {
       const body = await this.readBody(req)
-      const request = JSON.parse(body)
-      // 简单估算 token 数量（每4个字符约1个token）
-      let totalChars = 0
-      if (request.messages) {
-        for (const msg of request.messages) {
-          if (typeof msg.content === 'string') {
-            totalChars += msg.content.length
-          } else if (Array.isArray(msg.content)) {
-            for (const part of msg.content) {
-              if (part.type === 'text' && part.text) {
-                totalChars += part.text.length
-              }
-            }
-          }
-        }
+      const request = JSON.parse(body) as ClaudeRequest
+      if (!Array.isArray(request.messages)) {
+        throw new ProxyError('invalid_request', 'messages: Field required')
       }
-      if (request.system) {
-        totalChars += typeof request.system === 'string' ? request.system.length : JSON.stringify(request.system).length
-      }
-      const estimatedTokens = Math.ceil(totalChars / 4)
+      // 使用本地 tokenizer 计算 system、messages、tools 与图片的 token 数
+      const inputTokens = countClaudeRequestTokens(request)
       
       res.writeHead(200, { 'Content-Type': 'application/json' })
-      res.end(JSON.stringify({ input_tokens: estimatedTokens }))
+      res.end(JSON.stringify({ input_tokens: inputTokens }))
     } catch (error) {
-      this.sendError(res, 400, 'Invalid request body')
+      this.sendError(res, error instanceof ProxyError ? error : new ProxyError('invalid_request', 'Invalid request body'), 'anthropic')
     }
   }
 
@@ -961,8 +1291,43 @@ export class ProxyServer {
   private modelCache: { models: KiroModel[]; timestamp: number } | null = null
   private readonly MODEL_CACHE_TTL = 5 * 60 * 1000 // 5 分钟缓存
 
-  // 模型列表
-  private async handleModels(res: http.ServerResponse): Promise<void> {
+  // 模型列表（OpenAI 格式）
+  private async handleModels(res: http.ServerResponse, apiKey?: import('./types').ApiKey): Promise<void> {
+    const allModels = await this.getModelList(apiKey)
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ object: 'list', data: allModels }))
+  }
+
+  // 模型列表（Gemini 格式），指定 modelName 时返回单个模型
+  private async handleGeminiModels(res: http.ServerResponse, modelName?: string, apiKey?: import('./types').ApiKey): Promise<void> {
+    const allModels = await this.getModelList(apiKey)
+    const toGeminiModel = (m: { id: string; description?: string; model_name?: string }): Record<string, unknown> => ({
+      name: `models/${m.id}`,
+      baseModelId: m.id,
+      version: '001',
+      displayName: m.model_name || m.id,
+      description: m.description || '',
+      supportedGenerationMethods: ['generateContent', 'streamGenerateContent']
+    })
+
+    if (modelName) {
+      const model = allModels.find(m => m.id === modelName)
+      if (!model) {
+        this.sendError(res, new ProxyError('not_found', `models/${modelName} is not found`), 'gemini')
+        return
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(toGeminiModel(model)))
+      return
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ models: allModels.map(toGeminiModel) }))
+  }
+
+  // 获取合并后的模型列表（官方模型 + 动态模型 + GPT 兼容别名）
+  // 指定 apiKey 时只返回其模型白名单内的模型
+  private async getModelList(apiKey?: import('./types').ApiKey): Promise<Array<{ id: string; object: string; created: number; owned_by: string; description?: string; model_name?: string }>> {
     const now = Date.now()
     
     // Kiro 官方模型（与 UI 保持一致）
@@ -1042,8 +1407,7 @@ export class ProxyServer {
       }
     }
 
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({ object: 'list', data: allModels }))
+    return apiKey ? allModels.filter(m => isModelAllowed(apiKey, m.id)) : allModels
   }
 
   // 处理 OpenAI Chat Completions 请求
@@ -1051,9 +1415,25 @@ export class ProxyServer {
     const body = await this.readBody(req)
     const request: OpenAIChatRequest = JSON.parse(body)
     const matchedApiKey = (req as unknown as { matchedApiKey?: import('./types').ApiKey }).matchedApiKey
+    this.validateRequiredFields(request.model, request.messages, 'messages')
+    const structuredOutput = getStructuredOutputSpec(request.response_format)
+    const outputLimits: OutputLimitOptions = {
+      stopSequences: normalizeOpenAIStop(request.stop),
+      maxTokens: request.max_completion_tokens !== undefined
+        ? normalizeMaxTokens(request.max_completion_tokens, 'max_completion_tokens')
+        : normalizeMaxTokens(request.max_tokens)
+    }
+    const choiceCount = this.validateChoiceCount(request.n)
+    if (structuredOutput && choiceCount > 1) {
+      throw new ProxyError('invalid_request', "'n' greater than 1 is not supported together with 'response_format'", { param: 'n' })
+    }
+    if (choiceCount > 1 && matchedApiKey) {
+      this.acquireExtraChoiceSlots(res, matchedApiKey, choiceCount)
+    }
 
     // 应用模型映射
-    request.model = this.applyModelMapping(request.model, matchedApiKey?.id)
+    request.model = this.resolveRequestModel(request.model, matchedApiKey)
+    const injection = this.getPromptInjection('openai', request.model, matchedApiKey?.id)
 
     // 检查是否为该模型默认启用思考模式
     const modelThinkingEnabled = this.config.modelThinkingMode?.[request.model]
@@ -1066,8 +1446,8 @@ export class ProxyServer {
     const account = await this.getAvailableAccount()
     if (!account) {
       this.recordRequestFailed()
-      this.sendError(res, 503, 'No available accounts')
-      this.events.onResponse?.({ path: '/v1/chat/completions', model: request.model, status: 503, error: 'No available accounts' })
+      const status = this.sendError(res, new ProxyError('overloaded', 'No available accounts'))
+      this.events.onResponse?.({ path: '/v1/chat/completions', model: request.model, status, error: 'No available accounts' })
       this.recordRequest({ path: '/v1/chat/completions', model: request.model, success: false, error: 'No available accounts' })
       return
     }
@@ -1082,7 +1462,7 @@ export class ProxyServer {
         : request
 
       // 转换为 Kiro 格式
-      let kiroPayload = openaiToKiro(processedRequest, account.profileArn)
+      let kiroPayload = openaiToKiro(processedRequest, account.profileArn, injection)
 
       // 如果启用了 thinking 模式，注入系统提示
       if (thinkingEnabled) {
@@ -1113,21 +1493,33 @@ export class ProxyServer {
         })
       }
 
-      if (request.stream) {
+      if (structuredOutput) {
+        // 结构化输出需要完整结果才能校验，流式请求也先取得完整响应
+        await this.handleOpenAIStructuredOutput(res, account, processedRequest, structuredOutput, injection, startTime, matchedApiKey)
+      } else if (choiceCount > 1) {
+        // n > 1：并行请求多个候选结果
+        await this.handleOpenAIMultipleChoices(res, account, processedRequest, choiceCount, outputLimits, injection, startTime, matchedApiKey)
+      } else if (request.stream) {
         // 流式响应（流式不使用重试机制，错误由流处理）
-        await this.handleOpenAIStream(res, account, kiroPayload, request.model, startTime, 0, undefined, false, matchedApiKey)
+        const limiter = hasOutputLimits(outputLimits) ? createOutputLimiter(outputLimits) : undefined
+        await this.handleOpenAIStream(res, account, kiroPayload, request.model, startTime, 0, undefined, false, matchedApiKey, limiter)
       } else {
         // 非流式响应（带重试机制）
         const { result, account: usedAccount } = await this.callWithRetry(
           account,
-          async (acc) => callKiroApi(acc, openaiToKiro(processedRequest, acc.profileArn)),
+          async (acc) => callKiroApi(acc, openaiToKiro(processedRequest, acc.profileArn, injection)),
           '/v1/chat/completions'
         )
-        const response = kiroToOpenaiResponse(result.content, result.toolUses, result.usage, request.model)
+        const limited = limitKiroOutput(result.content, result.toolUses, outputLimits)
+        const response = kiroToOpenaiResponse(limited.content, limited.toolUses, result.usage, request.model)
+        if (limited.stopReason === 'max_tokens') response.choices[0].finish_reason = 'length'
+        this.addOpenAIReasoning(response.choices[0], result.reasoning)
 
         this.recordRequestSuccess()
         this.stats.totalTokens += result.usage.inputTokens + result.usage.outputTokens
         this.stats.inputTokens += result.usage.inputTokens
+        this.stats.cacheReadTokens += result.usage.cacheReadTokens || 0
+        this.stats.cacheWriteTokens += result.usage.cacheWriteTokens || 0
         this.stats.outputTokens += result.usage.outputTokens
         this.accountPool.recordSuccess(usedAccount.id, result.usage.inputTokens + result.usage.outputTokens)
 
@@ -1137,7 +1529,7 @@ export class ProxyServer {
         this.recordRequest({ path: '/v1/chat/completions', model: request.model, accountId: usedAccount.id, inputTokens: result.usage.inputTokens, outputTokens: result.usage.outputTokens, responseTime: Date.now() - startTime, success: true })
         // 记录 API Key 用量
         if (matchedApiKey) {
-          this.recordApiKeyUsage(matchedApiKey.id, result.usage.credits || 0, result.usage.inputTokens, result.usage.outputTokens, request.model, '/v1/chat/completions')
+          this.recordApiKeyUsage(matchedApiKey.id, result.usage.credits || 0, result.usage.inputTokens, result.usage.outputTokens, request.model, '/v1/chat/completions', result.usage.cacheReadTokens, result.usage.cacheWriteTokens)
         }
       }
     } catch (error) {
@@ -1145,6 +1537,282 @@ export class ProxyServer {
     }
   }
 
+  // 结构化输出的校验与修复循环：模型输出不符合 response_format 时携带错误信息让模型修复，
+  // 返回最后一次结果和所有尝试的累计用量（errors 非空表示超过次数仍未通过）
+  private async runStructuredOutputAttempts(
+    account: ProxyAccount,
+    request: OpenAIChatRequest,
+    spec: StructuredOutputSpec,
+    endpoint: string,
+    buildPayload: (attemptRequest: OpenAIChatRequest, profileArn?: string) => ReturnType<typeof openaiToKiro>,
+    matchedApiKey?: import('./types').ApiKey
+  ): Promise<{ content: string; toolUses: KiroToolUse[]; errors: string[]; usage: { inputTokens: number; outputTokens: number; credits: number; cacheReadTokens: number; cacheWriteTokens: number }; account: ProxyAccount }> {
+    const usage = { inputTokens: 0, outputTokens: 0, credits: 0, cacheReadTokens: 0, cacheWriteTokens: 0 }
+    const messages = [...request.messages]
+    let currentAccount = account
+    let content = ''
+    let toolUses: KiroToolUse[] = []
+    let errors: string[] = []
+
+    try {
+      for (let attempt = 1; attempt <= MAX_STRUCTURED_OUTPUT_ATTEMPTS; attempt++) {
+        const attemptRequest = { ...request, messages: [...messages] }
+        const { result, account: usedAccount } = await this.callWithRetry(
+          currentAccount,
+          async (acc) => callKiroApi(acc, buildPayload(attemptRequest, acc.profileArn)),
+          endpoint
+        )
+        currentAccount = usedAccount
+        usage.inputTokens += result.usage.inputTokens
+        usage.outputTokens += result.usage.outputTokens
+        usage.credits += result.usage.credits || 0
+        usage.cacheReadTokens += result.usage.cacheReadTokens || 0
+        usage.cacheWriteTokens += result.usage.cacheWriteTokens || 0
+
+        // 模型选择调用工具时不做格式校验，直接返回 tool_calls
+        if (result.toolUses.length > 0) {
+          toolUses = result.toolUses
+          errors = []
+          break
+        }
+
+        const check = checkStructuredOutput(result.content, spec)
+        if (check.valid) {
+          content = check.json
+          errors = []
+          break
+        }
+
+        errors = check.errors
+        proxyLogger.warn('ProxyServer', `Structured output attempt ${attempt}/${MAX_STRUCTURED_OUTPUT_ATTEMPTS} failed validation`, errors)
+        messages.push(
+          { role: 'assistant', content: result.content },
+          { role: 'user', content: buildStructuredOutputRepairPrompt(errors) }
+        )
+      }
+    } finally {
+      // 之前的尝试已消耗额度，后续尝试抛出异常时同样需要记录
+      this.stats.totalTokens += usage.inputTokens + usage.outputTokens
+      this.stats.inputTokens += usage.inputTokens
+      this.stats.cacheReadTokens += usage.cacheReadTokens
+      this.stats.cacheWriteTokens += usage.cacheWriteTokens
+      this.stats.outputTokens += usage.outputTokens
+      this.stats.totalCredits += usage.credits
+      this.events.onCreditsUpdate?.(this.stats.totalCredits)
+      this.events.onTokensUpdate?.(this.stats.inputTokens, this.stats.outputTokens, this.stats.cacheReadTokens, this.stats.cacheWriteTokens)
+      // 记录 API Key 用量（校验失败的尝试同样消耗了额度）
+      if (matchedApiKey && (usage.inputTokens > 0 || usage.outputTokens > 0 || usage.credits > 0)) {
+        this.recordApiKeyUsage(matchedApiKey.id, usage.credits, usage.inputTokens, usage.outputTokens, request.model, endpoint, usage.cacheReadTokens, usage.cacheWriteTokens)
+      }
+    }
+
+    return { content, toolUses, errors, usage, account: currentAccount }
+  }
+
+  // 处理结构化输出（response_format）：校验模型输出，不符合时携带错误信息让模型修复，超过次数后返回错误
+  private async handleOpenAIStructuredOutput(
+    res: http.ServerResponse,
+    account: ProxyAccount,
+    request: OpenAIChatRequest,
+    spec: StructuredOutputSpec,
+    injection: PromptInjectionContext,
+    startTime: number,
+    matchedApiKey?: import('./types').ApiKey
+  ): Promise<void> {
+    const { content, toolUses, errors, usage, account: currentAccount } = await this.runStructuredOutputAttempts(
+      account,
+      request,
+      spec,
+      '/v1/chat/completions',
+      (attemptRequest, profileArn) => openaiToKiro(attemptRequest, profileArn, injection),
+      matchedApiKey
+    )
+
+    if (errors.length > 0) {
+      this.recordRequestFailed()
+      const message = `The model output did not match response_format after ${MAX_STRUCTURED_OUTPUT_ATTEMPTS} attempts: ${errors.slice(0, 5).join('; ')}`
+      const status = this.sendError(res, new ProxyError('invalid_request', message, { param: 'response_format', code: 'json_validate_failed' }))
+      this.events.onResponse?.({ path: '/v1/chat/completions', model: request.model, status, error: message })
+      this.recordRequest({ path: '/v1/chat/completions', model: request.model, accountId: currentAccount.id, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits, responseTime: Date.now() - startTime, success: false, error: message })
+      return
+    }
+
+    const response = kiroToOpenaiResponse(content, toolUses, usage, request.model)
+    this.recordRequestSuccess()
+    this.accountPool.recordSuccess(currentAccount.id, usage.inputTokens + usage.outputTokens)
+
+    if (request.stream) {
+      this.writeOpenAIResponseAsStream(res, response)
+    } else {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(response))
+    }
+
+    this.events.onResponse?.({ path: '/v1/chat/completions', model: request.model, status: 200, tokens: usage.inputTokens + usage.outputTokens, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits })
+    this.recordRequest({ path: '/v1/chat/completions', model: request.model, accountId: currentAccount.id, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits, responseTime: Date.now() - startTime, success: true })
+  }
+
+  // n > 1：并行发起 n 个请求模拟多个候选结果，每个候选单独应用停止序列与 max_tokens
+  private async handleOpenAIMultipleChoices(
+    res: http.ServerResponse,
+    account: ProxyAccount,
+    request: OpenAIChatRequest,
+    n: number,
+    outputLimits: OutputLimitOptions,
+    injection: PromptInjectionContext,
+    startTime: number,
+    matchedApiKey?: import('./types').ApiKey
+  ): Promise<void> {
+    const settled = await Promise.allSettled(Array.from({ length: n }, () => this.callWithRetry(
+      account,
+      async (acc) => callKiroApi(acc, openaiToKiro(request, acc.profileArn, injection)),
+      '/v1/chat/completions'
+    )))
+    const results = settled.flatMap(item => item.status === 'fulfilled' ? [item.value] : [])
+
+    const usage = { inputTokens: 0, outputTokens: 0, credits: 0, cacheReadTokens: 0, cacheWriteTokens: 0 }
+    for (const { result, account: usedAccount } of results) {
+      usage.inputTokens += result.usage.inputTokens
+      usage.outputTokens += result.usage.outputTokens
+      usage.credits += result.usage.credits || 0
+      usage.cacheReadTokens += result.usage.cacheReadTokens || 0
+      usage.cacheWriteTokens += result.usage.cacheWriteTokens || 0
+      this.accountPool.recordSuccess(usedAccount.id, result.usage.inputTokens + result.usage.outputTokens)
+    }
+
+    this.stats.totalTokens += usage.inputTokens + usage.outputTokens
+    this.stats.inputTokens += usage.inputTokens
+    this.stats.cacheReadTokens += usage.cacheReadTokens
+    this.stats.cacheWriteTokens += usage.cacheWriteTokens
+    this.stats.outputTokens += usage.outputTokens
+    this.stats.totalCredits += usage.credits
+    this.events.onCreditsUpdate?.(this.stats.totalCredits)
+    this.events.onTokensUpdate?.(this.stats.inputTokens, this.stats.outputTokens, this.stats.cacheReadTokens, this.stats.cacheWriteTokens)
+    // 记录 API Key 用量（部分候选失败时，已完成的候选同样消耗了额度）
+    if (matchedApiKey && results.length > 0) {
+      this.recordApiKeyUsage(matchedApiKey.id, usage.credits, usage.inputTokens, usage.outputTokens, request.model, '/v1/chat/completions', usage.cacheReadTokens, usage.cacheWriteTokens)
+    }
+
+    // 任一候选失败时整体返回错误（由 handleApiError 处理）
+    const failed = settled.find((item): item is PromiseRejectedResult => item.status === 'rejected')
+    if (failed) throw failed.reason
+
+    const choices = results.map(({ result }, index) => {
+      const limited = limitKiroOutput(result.content, result.toolUses, outputLimits)
+      const choice = kiroToOpenaiResponse(limited.content, limited.toolUses, result.usage, request.model).choices[0]
+      choice.index = index
+      this.addOpenAIReasoning(choice, result.reasoning)
+      if (limited.stopReason === 'max_tokens') choice.finish_reason = 'length'
+      return choice
+    })
+
+    // 输入只计一次（与 OpenAI 一致），输出为所有候选之和
+    const promptTokens = results[0].result.usage.inputTokens
+    const response = kiroToOpenaiResponse('', [], { inputTokens: promptTokens, outputTokens: usage.outputTokens }, request.model)
+    response.choices = choices
+
+    this.recordRequestSuccess()
+
+    if (request.stream) {
+      this.writeOpenAIResponseAsStream(res, response)
+    } else {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(response))
+    }
+
+    const lastAccount = results[results.length - 1].account
+    this.events.onResponse?.({ path: '/v1/chat/completions', model: request.model, status: 200, tokens: usage.inputTokens + usage.outputTokens, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits })
+    this.recordRequest({ path: '/v1/chat/completions', model: request.model, accountId: lastAccount.id, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits, responseTime: Date.now() - startTime, success: true })
+  }
+
+  // 非流式响应中的思考内容（reasoningContentEvent）：与流式一致，按 thinkingOutputFormat 输出为 reasoning_content 或内联标签
+  private addOpenAIReasoning(choice: OpenAIChoice, reasoning: string): void {
+    if (!reasoning) return
+    const format = this.config.thinkingOutputFormat || 'reasoning_content'
+    if (format === 'reasoning_content') {
+      choice.message.reasoning_content = reasoning
+    } else {
+      choice.message.content = `<${format}>${reasoning}</${format}>` + (choice.message.content || '')
+    }
+  }
+
+  // Claude 非流式响应：reasoning_content 格式输出为 thinking 块，thinking / think 格式内联到正文开头
+  private addClaudeReasoning(response: ClaudeResponse, reasoning: string): void {
+    if (!reasoning) return
+    const format = this.config.thinkingOutputFormat || 'reasoning_content'
+    if (format === 'reasoning_content') {
+      response.content.unshift({ type: 'thinking', thinking: reasoning })
+      return
+    }
+    const tagged = `<${format}>${reasoning}</${format}>`
+    const textBlock = response.content.find(block => block.type === 'text')
+    if (textBlock) {
+      textBlock.text = tagged + (textBlock.text || '')
+    } else {
+      response.content.unshift({ type: 'text', text: tagged })
+    }
+  }
+
+  // 以完整的 Chat Completions 结果模拟流式输出（结构化输出、n > 1 需要先拿到完整结果）
+  private writeOpenAIResponseAsStream(res: http.ServerResponse, response: OpenAIChatResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    })
+
+    const writeChunk = (index: number, delta: Parameters<typeof createOpenaiStreamChunk>[2], finishReason: OpenAIChoice['finish_reason'] = null, usage?: OpenAIUsage): void => {
+      const chunk = createOpenaiStreamChunk(response.id, response.model, delta, finishReason, usage)
+      chunk.choices[0].index = index
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`)
+    }
+
+    response.choices.forEach((choice, i) => {
+      writeChunk(choice.index, { role: 'assistant' })
+      if (choice.message.reasoning_content) {
+        writeChunk(choice.index, { reasoning_content: choice.message.reasoning_content })
+      }
+      if (choice.message.content) {
+        writeChunk(choice.index, { content: choice.message.content })
+      }
+      if (choice.message.tool_calls) {
+        writeChunk(choice.index, { tool_calls: choice.message.tool_calls.map((tc, index) => ({ index, ...tc })) })
+      }
+      // usage 附带在最后一个 chunk 上
+      writeChunk(choice.index, {}, choice.finish_reason, i === response.choices.length - 1 ? response.usage : undefined)
+    })
+    res.write('data: [DONE]\n\n')
+    res.end()
+  }
+
+  // n > 1 会发起 n 个上游请求：入口已占用一个名额，这里按候选数补足剩余的请求数和并发名额
+  private acquireExtraChoiceSlots(res: http.ServerResponse, apiKey: import('./types').ApiKey, n: number): void {
+    const limits = apiKey.rateLimits
+    for (const [limit, name] of [[limits?.maxConcurrent, 'concurrency limit'], [limits?.requestsPerMinute, 'requests per minute limit']] as const) {
+      if (limit && n > limit) {
+        throw new ProxyError('invalid_request', `'n' (${n}) exceeds the API key ${name} (${limit})`, { param: 'n' })
+      }
+    }
+
+    const decision = this.rateLimiter.acquire(apiKey, Date.now(), n - 1)
+    for (const [name, value] of Object.entries(decision.headers)) {
+      res.setHeader(name, value)
+    }
+    if (!decision.allowed) {
+      throw new ProxyError(decision.kind || 'rate_limit', decision.reason || 'Rate limit exceeded')
+    }
+    res.on('close', decision.release)
+  }
+
+  // 校验 n（候选结果数）
+  private validateChoiceCount(n: unknown): number {
+    if (n === undefined || n === null) return 1
+    if (typeof n !== 'number' || !Number.isInteger(n) || n < 1 || n > this.MAX_CHOICES) {
+      throw new ProxyError('invalid_request', `'n' must be an integer between 1 and ${this.MAX_CHOICES}`, { param: 'n' })
+    }
+    return n
+  }
+
   // 处理 OpenAI 流式响应
   private async handleOpenAIStream(
     res: http.ServerResponse,
@@ -1155,7 +1823,8 @@ export class ProxyServer {
     currentRound: number = 0,
     streamId?: string,
     headersSent: boolean = false,
-    matchedApiKey?: import('./types').ApiKey
+    matchedApiKey?: import('./types').ApiKey,
+    limiter?: OutputLimiter  // 停止序列 / max_tokens 限制（跨自动继续轮次共享）
   ): Promise<void> {
     if (!headersSent) {
       res.writeHead(200, {
@@ -1173,6 +1842,19 @@ export class ProxyServer {
     // 用于检测普通响应中的 <thinking> 标签
     let textBuffer = ''
     let inThinkingBlock = false
+    // 命中停止序列或 max_tokens 时中止上游请求
+    const stopController = new AbortController()
+
+    // 输出正文（经过停止序列 / max_tokens 限制）
+    const writeContent = (text: string, release = false): void => {
+      const output = limiter ? limiter.push(text) + (release ? limiter.flush() : '') : text
+      if (output) {
+        collectedContent += output
+        const chunk = createOpenaiStreamChunk(id, model, { content: output })
+        res.write(`data: ${JSON.stringify(chunk)}\n\n`)
+      }
+      if (limiter?.stopReason) stopController.abort()
+    }
 
     // 发送初始 chunk（仅首轮）
     if (currentRound === 0) {
@@ -1185,17 +1867,14 @@ export class ProxyServer {
       const format = this.config.thinkingOutputFormat || 'reasoning_content'
       textBuffer += text
       
-      while (true) {
+      while (!limiter?.stopReason) {
         if (!inThinkingBlock) {
           // 查找 <thinking> 开始标签
           const thinkingStart = textBuffer.indexOf('<thinking>')
           if (thinkingStart !== -1) {
             // 输出 thinking 标签之前的内容
             if (thinkingStart > 0) {
-              const beforeThinking = textBuffer.substring(0, thinkingStart)
-              collectedContent += beforeThinking
-              const chunk = createOpenaiStreamChunk(id, model, { content: beforeThinking })
-              res.write(`data: ${JSON.stringify(chunk)}\n\n`)
+              writeContent(textBuffer.substring(0, thinkingStart), true)
             }
             textBuffer = textBuffer.substring(thinkingStart + 10) // 移除 <thinking>
             inThinkingBlock = true
@@ -1207,10 +1886,7 @@ export class ProxyServer {
             // 没有找到标签，安全输出（保留可能的部分标签，需要足够长以检测 </thinking>）
             const safeLength = forceFlush ? textBuffer.length : Math.max(0, textBuffer.length - 15)
             if (safeLength > 0) {
-              const safeText = textBuffer.substring(0, safeLength)
-              collectedContent += safeText
-              const chunk = createOpenaiStreamChunk(id, model, { content: safeText })
-              res.write(`data: ${JSON.stringify(chunk)}\n\n`)
+              writeContent(textBuffer.substring(0, safeLength), forceFlush)
               textBuffer = textBuffer.substring(safeLength)
             }
             break
@@ -1265,6 +1941,8 @@ export class ProxyServer {
         account as any,
         kiroPayload,
         (text, toolUse, isThinking) => {
+          // 已命中停止条件，丢弃后续输出
+          if (limiter?.stopReason) return
           if (text) {
             if (isThinking) {
               // reasoningContentEvent 的思考内容
@@ -1289,6 +1967,9 @@ export class ProxyServer {
             }
           }
           if (toolUse) {
+            // 先释放暂存的正文，停止条件可能在此时触发
+            writeContent('', true)
+            if (limiter?.stopReason) return
             const idx = toolCallIndex++
             pendingToolCalls.set(toolUse.toolUseId, {
               index: idx,
@@ -1313,26 +1994,29 @@ export class ProxyServer {
         async (usage) => {
           // 刷新缓冲区中剩余的内容
           processText('', true)
+          writeContent('', true)
           
           this.recordRequestSuccess()
           this.stats.totalTokens += usage.inputTokens + usage.outputTokens
           this.stats.inputTokens += usage.inputTokens
+          this.stats.cacheReadTokens += usage.cacheReadTokens || 0
+          this.stats.cacheWriteTokens += usage.cacheWriteTokens || 0
           this.stats.outputTokens += usage.outputTokens
           this.stats.totalCredits += usage.credits || 0
           this.events.onCreditsUpdate?.(this.stats.totalCredits)
-          this.events.onTokensUpdate?.(this.stats.inputTokens, this.stats.outputTokens)
+          this.events.onTokensUpdate?.(this.stats.inputTokens, this.stats.outputTokens, this.stats.cacheReadTokens, this.stats.cacheWriteTokens)
           this.accountPool.recordSuccess(account.id, usage.inputTokens + usage.outputTokens)
           this.events.onResponse?.({ path: '/v1/chat/completions', model, status: 200, tokens: usage.inputTokens + usage.outputTokens, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits })
           this.recordRequest({ path: '/v1/chat/completions', model, accountId: account.id, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits, responseTime: Date.now() - startTime, success: true })
           // 记录 API Key 用量
           if (matchedApiKey) {
-            this.recordApiKeyUsage(matchedApiKey.id, usage.credits || 0, usage.inputTokens, usage.outputTokens, model, '/v1/chat/completions')
+            this.recordApiKeyUsage(matchedApiKey.id, usage.credits || 0, usage.inputTokens, usage.outputTokens, model, '/v1/chat/completions', usage.cacheReadTokens, usage.cacheWriteTokens)
           }
 
           // 检查是否需要自动继续
           const maxRounds = this.config.autoContinueRounds || 0
           const hasToolCalls = pendingToolCalls.size > 0
-          const shouldContinue = hasToolCalls && maxRounds > 0 && currentRound < maxRounds
+          const shouldContinue = hasToolCalls && !limiter?.stopReason && maxRounds > 0 && currentRound < maxRounds
 
           if (shouldContinue) {
             console.log(`[ProxyServer] Auto-continue round ${currentRound + 1}/${maxRounds}`)
@@ -1393,14 +2077,14 @@ export class ProxyServer {
 
             // 递归调用继续流式输出
             try {
-              await this.handleOpenAIStream(res, account, continuePayload, model, startTime, currentRound + 1, id, true)
+              await this.handleOpenAIStream(res, account, continuePayload, model, startTime, currentRound + 1, id, true, matchedApiKey, limiter)
             } catch (error) {
               console.error('[ProxyServer] Auto-continue error:', error)
             }
             resolve()
           } else {
             // 发送结束 chunk（包含完整 usage 信息）
-            const finishReason = hasToolCalls ? 'tool_calls' : 'stop'
+            const finishReason = limiter?.stopReason === 'max_tokens' ? 'length' : (hasToolCalls && !limiter?.stopReason ? 'tool_calls' : 'stop')
             const usageInfo: {
               prompt_tokens: number
               completion_tokens: number
@@ -1429,132 +2113,1194 @@ export class ProxyServer {
         },
         (error) => {
           console.error('[ProxyServer] Stream error:', error)
-          res.write(`data: ${JSON.stringify({ error: { message: error.message } })}\n\n`)
+          const proxyError = classifyError(error)
+          res.write(`data: ${JSON.stringify(buildErrorBody(proxyError, 'openai'))}\n\n`)
           res.end()
 
           this.recordRequestFailed()
-          const isQuotaError = error.message.includes('429') || error.message.includes('quota')
+          const isQuotaError = proxyError.kind === 'quota' || proxyError.kind === 'rate_limit'
           this.accountPool.recordError(account.id, isQuotaError)
-          this.events.onResponse?.({ path: '/v1/chat/completions', model, status: 500, error: error.message })
+          this.events.onResponse?.({ path: '/v1/chat/completions', model, status: getErrorStatus(proxyError.kind, 'openai'), error: error.message })
           this.recordRequest({ path: '/v1/chat/completions', model, accountId: account.id, responseTime: Date.now() - startTime, success: false, error: error.message })
           resolve()
-        }
+        },
+        stopController.signal
       )
     })
   }
 
-  // 处理 Claude Messages 请求
-  private async handleClaudeMessages(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  // 处理 OpenAI Completions（旧版 prompt 形式）请求
+  private async handleOpenAICompletions(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
     const body = await this.readBody(req)
-    const request: ClaudeRequest = JSON.parse(body)
+    const request: OpenAICompletionRequest = JSON.parse(body)
     const matchedApiKey = (req as unknown as { matchedApiKey?: import('./types').ApiKey }).matchedApiKey
 
-    // 应用模型映射
-    request.model = this.applyModelMapping(request.model, matchedApiKey?.id)
+    if (!request.model) {
+      throw new ProxyError('invalid_request', 'you must provide a model parameter', { param: 'model' })
+    }
+    if (typeof request.prompt !== 'string' && !(Array.isArray(request.prompt) && request.prompt.every(p => typeof p === 'string'))) {
+      throw new ProxyError('invalid_request', "'prompt' must be a string or an array of strings", { param: 'prompt' })
+    }
+    if (Array.isArray(request.prompt) && request.prompt.length > 1) {
+      throw new ProxyError('invalid_request', 'Batched prompts are not supported; send one prompt per request', { param: 'prompt' })
+    }
+    if (request.n !== undefined && request.n !== 1) {
+      throw new ProxyError('invalid_request', "Only 'n' = 1 is supported", { param: 'n' })
+    }
+    const outputLimits: OutputLimitOptions = {
+      stopSequences: normalizeOpenAIStop(request.stop),
+      maxTokens: normalizeMaxTokens(request.max_tokens)
+    }
 
-    // 检查是否为该模型默认启用思考模式
-    const modelThinkingEnabled = this.config.modelThinkingMode?.[request.model]
-    const thinkingEnabled = modelThinkingEnabled || (req.headers['anthropic-beta'] as string || '').toLowerCase().includes('thinking')
+    // 应用模型映射
+    request.model = this.resolveRequestModel(request.model, matchedApiKey)
+    const injection = this.getPromptInjection('completions', request.model, matchedApiKey?.id)
 
     this.recordNewRequest()
-    this.events.onRequest?.({ path: '/v1/messages', method: 'POST' })
+    this.events.onRequest?.({ path: '/v1/completions', method: 'POST' })
 
     // 获取账号（包含 Token 刷新检查）
     const account = await this.getAvailableAccount()
     if (!account) {
       this.recordRequestFailed()
-      this.sendError(res, 503, 'No available accounts')
-      this.events.onResponse?.({ path: '/v1/messages', model: request.model, status: 503, error: 'No available accounts' })
-      this.recordRequest({ path: '/v1/messages', model: request.model, success: false, error: 'No available accounts' })
+      const status = this.sendError(res, new ProxyError('overloaded', 'No available accounts'))
+      this.events.onResponse?.({ path: '/v1/completions', model: request.model, status, error: 'No available accounts' })
+      this.recordRequest({ path: '/v1/completions', model: request.model, success: false, error: 'No available accounts' })
       return
     }
 
-    this.events.onRequest?.({ path: '/v1/messages', method: 'POST', accountId: account.id })
+    this.events.onRequest?.({ path: '/v1/completions', method: 'POST', accountId: account.id })
     const startTime = Date.now()
 
     try {
-      // 转换为 Kiro 格式
-      let kiroPayload = claudeToKiro(request, account.profileArn)
-
-      // 如果启用了 thinking 模式，注入系统提示
-      if (thinkingEnabled) {
-        const thinkingPrompt = `<thinking_mode>enabled</thinking_mode>\n<max_thinking_length>200000</max_thinking_length>\n\n`
-        const currentMessage = kiroPayload.conversationState?.currentMessage?.userInputMessage
-        if (currentMessage && typeof currentMessage.content === 'string') {
-          currentMessage.content = thinkingPrompt + currentMessage.content
-        }
-        proxyLogger.info('ProxyServer', 'Thinking mode enabled for Claude request')
-      }
-
-      // 记录请求详情到日志
       if (this.config.logRequests) {
-        const userInput = kiroPayload.conversationState.currentMessage?.userInputMessage
-        const contentLength = typeof userInput?.content === 'string' ? userInput.content.length : 0
-        const toolsCount = userInput?.userInputMessageContext?.tools?.length || 0
-        const historyLength = kiroPayload.conversationState.history?.length || 0
-        const hasImages = (userInput?.images?.length || 0) > 0
-        
-        proxyLogger.info('ProxyServer', `Claude API: ${request.model}`, {
+        proxyLogger.info('ProxyServer', `Completions API: ${request.model}`, {
           model: request.model,
           stream: request.stream,
-          contentLength,
-          toolsCount,
-          historyLength,
-          hasImages,
-          accountId: account.id.substring(0, 8) + '...'
+          accountId: account.id
         })
       }
 
       if (request.stream) {
-        // 流式响应（流式不使用重试机制，错误由流处理）
-        await this.handleClaudeStream(res, account, kiroPayload, request.model, startTime, 0, undefined, false, 0, matchedApiKey)
+        await this.handleCompletionsStream(res, account, completionToKiro(request, account.profileArn, injection), request, outputLimits, startTime, matchedApiKey)
       } else {
-        // 非流式响应（带重试机制）
         const { result, account: usedAccount } = await this.callWithRetry(
           account,
-          async (acc) => callKiroApi(acc, claudeToKiro(request, acc.profileArn)),
-          '/v1/messages'
+          async (acc) => callKiroApi(acc, completionToKiro(request, acc.profileArn, injection)),
+          '/v1/completions'
         )
-        const response = kiroToClaudeResponse(result.content, result.toolUses, result.usage, request.model)
+        // 旧版补全接口没有推理字段，丢弃思考内容
+        const { text } = splitThinkingContent(result.content)
+        const limited = applyOutputLimits(text, outputLimits)
+        const response = kiroToCompletionResponse(limited.text, result.usage, request, limited.stopReason === 'max_tokens' ? 'length' : 'stop')
 
         this.recordRequestSuccess()
         this.stats.totalTokens += result.usage.inputTokens + result.usage.outputTokens
         this.stats.inputTokens += result.usage.inputTokens
+        this.stats.cacheReadTokens += result.usage.cacheReadTokens || 0
+        this.stats.cacheWriteTokens += result.usage.cacheWriteTokens || 0
         this.stats.outputTokens += result.usage.outputTokens
         this.accountPool.recordSuccess(usedAccount.id, result.usage.inputTokens + result.usage.outputTokens)
 
         res.writeHead(200, { 'Content-Type': 'application/json' })
         res.end(JSON.stringify(response))
-        this.events.onResponse?.({ path: '/v1/messages', model: request.model, status: 200, tokens: result.usage.inputTokens + result.usage.outputTokens, inputTokens: result.usage.inputTokens, outputTokens: result.usage.outputTokens })
-        this.recordRequest({ path: '/v1/messages', model: request.model, accountId: usedAccount.id, inputTokens: result.usage.inputTokens, outputTokens: result.usage.outputTokens, responseTime: Date.now() - startTime, success: true })
+        this.events.onResponse?.({ path: '/v1/completions', model: request.model, status: 200, tokens: result.usage.inputTokens + result.usage.outputTokens, inputTokens: result.usage.inputTokens, outputTokens: result.usage.outputTokens })
+        this.recordRequest({ path: '/v1/completions', model: request.model, accountId: usedAccount.id, inputTokens: result.usage.inputTokens, outputTokens: result.usage.outputTokens, responseTime: Date.now() - startTime, success: true })
+        // 记录 API Key 用量
+        if (matchedApiKey) {
+          this.recordApiKeyUsage(matchedApiKey.id, result.usage.credits || 0, result.usage.inputTokens, result.usage.outputTokens, request.model, '/v1/completions', result.usage.cacheReadTokens, result.usage.cacheWriteTokens)
+        }
       }
     } catch (error) {
-      this.handleApiError(res, account, error as Error, '/v1/messages', request.model, startTime)
+      this.handleApiError(res, account, error as Error, '/v1/completions', request.model, startTime)
     }
   }
 
-  // 处理 Claude 流式响应
-  private async handleClaudeStream(
+  // 处理 OpenAI Completions 流式响应
+  private async handleCompletionsStream(
     res: http.ServerResponse,
-    account: { id: string; accessToken: string; profileArn?: string },
-    kiroPayload: ReturnType<typeof claudeToKiro>,
-    model: string,
+    account: ProxyAccount,
+    kiroPayload: ReturnType<typeof completionToKiro>,
+    request: OpenAICompletionRequest,
+    outputLimits: OutputLimitOptions,
     startTime: number,
-    currentRound: number = 0,
-    msgId?: string,
-    headersSent: boolean = false,
-    contentBlockIndex: number = 0,
     matchedApiKey?: import('./types').ApiKey
   ): Promise<void> {
-    if (!headersSent) {
-      res.writeHead(200, {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive'
-      })
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    })
+
+    const id = `cmpl-${uuidv4()}`
+    const model = request.model
+
+    // echo 模式下先输出 prompt
+    if (request.echo) {
+      const prompt = Array.isArray(request.prompt) ? request.prompt.join('') : request.prompt
+      res.write(`data: ${JSON.stringify(createCompletionStreamChunk(id, model, prompt))}\n\n`)
     }
 
-    const id = msgId || `msg_${uuidv4()}`
+    // 命中停止序列或 max_tokens 时中止上游请求
+    const limiter = createOutputLimiter(outputLimits)
+    const stopController = new AbortController()
+    const writeText = (text: string): void => {
+      if (text) res.write(`data: ${JSON.stringify(createCompletionStreamChunk(id, model, text))}\n\n`)
+      if (limiter.stopReason) stopController.abort()
+    }
+
+    // 旧版补全接口只输出正文，<thinking> 块内容直接丢弃
+    const emitText = createThinkingTagSplitter(
+      (text) => writeText(limiter.push(text)),
+      () => {}
+    )
+
+    return new Promise((resolve) => {
+      callKiroApiStream(
+        account,
+        kiroPayload,
+        (text, _toolUse, isThinking) => {
+          // 旧版补全接口只输出正文，忽略思考内容与工具调用
+          if (text && !isThinking && !limiter.stopReason) {
+            emitText(text)
+          }
+        },
+        (usage) => {
+          if (!limiter.stopReason) {
+            emitText('', true)
+            writeText(limiter.flush())
+          }
+          this.recordRequestSuccess()
+          this.stats.totalTokens += usage.inputTokens + usage.outputTokens
+          this.stats.inputTokens += usage.inputTokens
+          this.stats.cacheReadTokens += usage.cacheReadTokens || 0
+          this.stats.cacheWriteTokens += usage.cacheWriteTokens || 0
+          this.stats.outputTokens += usage.outputTokens
+          this.stats.totalCredits += usage.credits || 0
+          this.events.onCreditsUpdate?.(this.stats.totalCredits)
+          this.events.onTokensUpdate?.(this.stats.inputTokens, this.stats.outputTokens, this.stats.cacheReadTokens, this.stats.cacheWriteTokens)
+          this.accountPool.recordSuccess(account.id, usage.inputTokens + usage.outputTokens)
+          this.events.onResponse?.({ path: '/v1/completions', model, status: 200, tokens: usage.inputTokens + usage.outputTokens, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits })
+          this.recordRequest({ path: '/v1/completions', model, accountId: account.id, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits, responseTime: Date.now() - startTime, success: true })
+          // 记录 API Key 用量
+          if (matchedApiKey) {
+            this.recordApiKeyUsage(matchedApiKey.id, usage.credits || 0, usage.inputTokens, usage.outputTokens, model, '/v1/completions', usage.cacheReadTokens, usage.cacheWriteTokens)
+          }
+
+          const finalChunk = createCompletionStreamChunk(id, model, '', limiter.stopReason === 'max_tokens' ? 'length' : 'stop', {
+            prompt_tokens: usage.inputTokens,
+            completion_tokens: usage.outputTokens,
+            total_tokens: usage.inputTokens + usage.outputTokens
+          })
+          res.write(`data: ${JSON.stringify(finalChunk)}\n\n`)
+          res.write('data: [DONE]\n\n')
+          res.end()
+          resolve()
+        },
+        (error) => {
+          console.error('[ProxyServer] Completions stream error:', error)
+          const proxyError = classifyError(error)
+          res.write(`data: ${JSON.stringify(buildErrorBody(proxyError, 'openai'))}\n\n`)
+          res.end()
+
+          this.recordRequestFailed()
+          const isQuotaError = proxyError.kind === 'quota' || proxyError.kind === 'rate_limit'
+          this.accountPool.recordError(account.id, isQuotaError)
+          this.events.onResponse?.({ path: '/v1/completions', model, status: getErrorStatus(proxyError.kind, 'openai'), error: error.message })
+          this.recordRequest({ path: '/v1/completions', model, accountId: account.id, responseTime: Date.now() - startTime, success: false, error: error.message })
+          resolve()
+        },
+        stopController.signal
+      )
+    })
+  }
+
+  // 处理 OpenAI Responses API 请求
+  private async handleOpenAIResponses(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = await this.readBody(req)
+    const request: OpenAIResponsesRequest = JSON.parse(body)
+    const matchedApiKey = (req as unknown as { matchedApiKey?: import('./types').ApiKey }).matchedApiKey
+    if (!request.model) {
+      throw new ProxyError('invalid_request', 'you must provide a model parameter', { param: 'model' })
+    }
+
+    // 应用模型映射
+    request.model = this.resolveRequestModel(request.model, matchedApiKey)
+
+    // 解析 previous_response_id 对应的历史
+    let previousItems: OpenAIResponsesInputItem[] = []
+    if (request.previous_response_id) {
+      const stored = this.responseHistory.get(request.previous_response_id)
+      if (!stored) {
+        this.sendError(res, new ProxyError('invalid_request', `Previous response with id '${request.previous_response_id}' not found.`, { param: 'previous_response_id' }))
+        return
+      }
+      previousItems = stored
+    }
+
+    const injection = this.getPromptInjection('responses', request.model, matchedApiKey?.id)
+
+    // 检查是否启用思考模式（模型默认配置或 reasoning 参数）
+    const reasoningRequested = !!request.reasoning?.effort && request.reasoning.effort !== 'none'
+    const thinkingEnabled = this.config.modelThinkingMode?.[request.model] || reasoningRequested
+
+    this.recordNewRequest()
+    this.events.onRequest?.({ path: '/v1/responses', method: 'POST' })
+
+    // 获取账号（包含 Token 刷新检查）
+    const account = await this.getAvailableAccount()
+    if (!account) {
+      this.recordRequestFailed()
+      const status = this.sendError(res, new ProxyError('overloaded', 'No available accounts'))
+      this.events.onResponse?.({ path: '/v1/responses', model: request.model, status, error: 'No available accounts' })
+      this.recordRequest({ path: '/v1/responses', model: request.model, success: false, error: 'No available accounts' })
+      return
+    }
+
+    this.events.onRequest?.({ path: '/v1/responses', method: 'POST', accountId: account.id })
+    const startTime = Date.now()
+
+    // 如果启用了禁用工具调用，移除 tools 参数
+    const processedRequest: OpenAIResponsesRequest = this.config.disableTools
+      ? { ...request, tools: undefined, tool_choice: undefined }
+      : request
+
+    const buildPayload = (profileArn?: string): ReturnType<typeof responsesToKiro> => {
+      const payload = responsesToKiro(processedRequest, profileArn, previousItems, injection)
+      if (thinkingEnabled) {
+        const currentMessage = payload.conversationState?.currentMessage?.userInputMessage
+        if (currentMessage && typeof currentMessage.content === 'string') {
+          currentMessage.content = `<thinking_mode>enabled</thinking_mode>\n<max_thinking_length>200000</max_thinking_length>\n\n` + currentMessage.content
+        }
+      }
+      return payload
+    }
+
+    // 本轮输入项（用于后续 previous_response_id）
+    const inputItems: OpenAIResponsesInputItem[] = typeof request.input === 'string'
+      ? [{ type: 'message', role: 'user', content: request.input }]
+      : request.input || []
+
+    try {
+      const kiroPayload = buildPayload(account.profileArn)
+
+      // 记录请求详情到日志
+      if (this.config.logRequests) {
+        const userInput = kiroPayload.conversationState.currentMessage?.userInputMessage
+        proxyLogger.info('ProxyServer', `Responses API: ${request.model}`, {
+          model: request.model,
+          stream: request.stream,
+          contentLength: typeof userInput?.content === 'string' ? userInput.content.length : 0,
+          toolsCount: userInput?.userInputMessageContext?.tools?.length || 0,
+          historyLength: kiroPayload.conversationState.history?.length || 0,
+          inputItems: inputItems.length,
+          previousResponseId: request.previous_response_id,
+          thinkingEnabled,
+          accountId: account.id
+        })
+      }
+
+      if (request.stream) {
+        // 流式响应（流式不使用重试机制，错误由流处理）
+        await this.handleResponsesStream(res, account, kiroPayload, request, startTime, previousItems, inputItems, matchedApiKey)
+      } else {
+        // 非流式响应（带重试机制）
+        const { result, account: usedAccount } = await this.callWithRetry(
+          account,
+          async (acc) => callKiroApi(acc, buildPayload(acc.profileArn)),
+          '/v1/responses'
+        )
+        const { text, reasoning } = splitThinkingContent(result.content)
+        const response = kiroToResponsesResponse(text, result.toolUses, result.usage, request, result.reasoning + reasoning)
+
+        this.recordRequestSuccess()
+        this.stats.totalTokens += result.usage.inputTokens + result.usage.outputTokens
+        this.stats.inputTokens += result.usage.inputTokens
+        this.stats.cacheReadTokens += result.usage.cacheReadTokens || 0
+        this.stats.cacheWriteTokens += result.usage.cacheWriteTokens || 0
+        this.stats.outputTokens += result.usage.outputTokens
+        this.stats.totalCredits += result.usage.credits || 0
+        this.events.onCreditsUpdate?.(this.stats.totalCredits)
+        this.events.onTokensUpdate?.(this.stats.inputTokens, this.stats.outputTokens, this.stats.cacheReadTokens, this.stats.cacheWriteTokens)
+        this.accountPool.recordSuccess(usedAccount.id, result.usage.inputTokens + result.usage.outputTokens)
+
+        if (request.store !== false) {
+          this.storeResponseHistory(response.id, [...previousItems, ...inputItems, ...response.output])
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(response))
+        this.events.onResponse?.({ path: '/v1/responses', model: request.model, status: 200, tokens: result.usage.inputTokens + result.usage.outputTokens, inputTokens: result.usage.inputTokens, outputTokens: result.usage.outputTokens, credits: result.usage.credits })
+        this.recordRequest({ path: '/v1/responses', model: request.model, accountId: usedAccount.id, inputTokens: result.usage.inputTokens, outputTokens: result.usage.outputTokens, credits: result.usage.credits, responseTime: Date.now() - startTime, success: true })
+        // 记录 API Key 用量
+        if (matchedApiKey) {
+          this.recordApiKeyUsage(matchedApiKey.id, result.usage.credits || 0, result.usage.inputTokens, result.usage.outputTokens, request.model, '/v1/responses', result.usage.cacheReadTokens, result.usage.cacheWriteTokens)
+        }
+      }
+    } catch (error) {
+      this.handleApiError(res, account, error as Error, '/v1/responses', request.model, startTime)
+    }
+  }
+
+  // 处理 OpenAI Responses API 流式响应
+  private async handleResponsesStream(
+    res: http.ServerResponse,
+    account: ProxyAccount,
+    kiroPayload: ReturnType<typeof responsesToKiro>,
+    request: OpenAIResponsesRequest,
+    startTime: number,
+    previousItems: OpenAIResponsesInputItem[],
+    inputItems: OpenAIResponsesInputItem[],
+    matchedApiKey?: import('./types').ApiKey
+  ): Promise<void> {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    })
+
+    const responseId = createResponsesItemId('resp')
+    const model = request.model
+    const output: OpenAIResponsesOutputItem[] = []
+    let sequenceNumber = 0
+
+    const sendEvent = (type: string, data: Record<string, unknown>): void => {
+      res.write(`event: ${type}\ndata: ${JSON.stringify({ type, sequence_number: sequenceNumber++, ...data })}\n\n`)
+    }
+
+    // 当前打开的输出项
+    let reasoningItem: { id: string; index: number; text: string } | null = null
+    let messageItem: { id: string; index: number; text: string } | null = null
+
+    const closeReasoning = (): void => {
+      if (!reasoningItem) return
+      const { id, index, text } = reasoningItem
+      const part = { type: 'summary_text' as const, text }
+      sendEvent('response.reasoning_summary_text.done', { item_id: id, output_index: index, summary_index: 0, text })
+      sendEvent('response.reasoning_summary_part.done', { item_id: id, output_index: index, summary_index: 0, part })
+      output[index] = { type: 'reasoning', id, summary: [part] }
+      sendEvent('response.output_item.done', { output_index: index, item: output[index] })
+      reasoningItem = null
+    }
+
+    const closeMessage = (): void => {
+      if (!messageItem) return
+      const { id, index, text } = messageItem
+      const part = { type: 'output_text' as const, text, annotations: [] }
+      sendEvent('response.output_text.done', { item_id: id, output_index: index, content_index: 0, text })
+      sendEvent('response.content_part.done', { item_id: id, output_index: index, content_index: 0, part })
+      output[index] = { type: 'message', id, status: 'completed', role: 'assistant', content: [part] }
+      sendEvent('response.output_item.done', { output_index: index, item: output[index] })
+      messageItem = null
+    }
+
+    const emitReasoning = (text: string): void => {
+      if (!text) return
+      closeMessage()
+      if (!reasoningItem) {
+        reasoningItem = { id: createResponsesItemId('rs'), index: output.length, text: '' }
+        output.push({ type: 'reasoning', id: reasoningItem.id, summary: [] })
+        sendEvent('response.output_item.added', { output_index: reasoningItem.index, item: output[reasoningItem.index] })
+        sendEvent('response.reasoning_summary_part.added', { item_id: reasoningItem.id, output_index: reasoningItem.index, summary_index: 0, part: { type: 'summary_text', text: '' } })
+      }
+      reasoningItem.text += text
+      sendEvent('response.reasoning_summary_text.delta', { item_id: reasoningItem.id, output_index: reasoningItem.index, summary_index: 0, delta: text })
+    }
+
+    const emitText = (text: string): void => {
+      if (!text) return
+      closeReasoning()
+      if (!messageItem) {
+        messageItem = { id: createResponsesItemId('msg'), index: output.length, text: '' }
+        output.push({ type: 'message', id: messageItem.id, status: 'in_progress', role: 'assistant', content: [] })
+        sendEvent('response.output_item.added', { output_index: messageItem.index, item: output[messageItem.index] })
+        sendEvent('response.content_part.added', { item_id: messageItem.id, output_index: messageItem.index, content_index: 0, part: { type: 'output_text', text: '', annotations: [] } })
+      }
+      messageItem.text += text
+      sendEvent('response.output_text.delta', { item_id: messageItem.id, output_index: messageItem.index, content_index: 0, delta: text })
+    }
+
+    // 处理文本输出，将 <thinking> 标签内容转换为 reasoning 项
+    const processText = createThinkingTagSplitter(emitText, emitReasoning)
+
+    sendEvent('response.created', { response: createResponsesResponse(responseId, request, 'in_progress') })
+    sendEvent('response.in_progress', { response: createResponsesResponse(responseId, request, 'in_progress') })
+
+    return new Promise((resolve) => {
+      callKiroApiStream(
+        account,
+        kiroPayload,
+        (text, toolUse, isThinking) => {
+          if (text) {
+            if (isThinking) {
+              emitReasoning(text)
+            } else {
+              processText(text)
+            }
+          }
+          if (toolUse) {
+            processText('', true)
+            closeReasoning()
+            closeMessage()
+            const args = JSON.stringify(toolUse.input)
+            const itemId = createResponsesItemId('fc')
+            const index = output.length
+            output.push({ type: 'function_call', id: itemId, call_id: toolUse.toolUseId, name: toolUse.name, arguments: '', status: 'in_progress' })
+            sendEvent('response.output_item.added', { output_index: index, item: output[index] })
+            sendEvent('response.function_call_arguments.delta', { item_id: itemId, output_index: index, delta: args })
+            sendEvent('response.function_call_arguments.done', { item_id: itemId, output_index: index, arguments: args })
+            output[index] = { type: 'function_call', id: itemId, call_id: toolUse.toolUseId, name: toolUse.name, arguments: args, status: 'completed' }
+            sendEvent('response.output_item.done', { output_index: index, item: output[index] })
+          }
+        },
+        (usage) => {
+          // 刷新缓冲区并关闭所有打开的输出项
+          processText('', true)
+          closeReasoning()
+          closeMessage()
+
+          this.recordRequestSuccess()
+          this.stats.totalTokens += usage.inputTokens + usage.outputTokens
+          this.stats.inputTokens += usage.inputTokens
+          this.stats.cacheReadTokens += usage.cacheReadTokens || 0
+          this.stats.cacheWriteTokens += usage.cacheWriteTokens || 0
+          this.stats.outputTokens += usage.outputTokens
+          this.stats.totalCredits += usage.credits || 0
+          this.events.onCreditsUpdate?.(this.stats.totalCredits)
+          this.events.onTokensUpdate?.(this.stats.inputTokens, this.stats.outputTokens, this.stats.cacheReadTokens, this.stats.cacheWriteTokens)
+          this.accountPool.recordSuccess(account.id, usage.inputTokens + usage.outputTokens)
+          this.events.onResponse?.({ path: '/v1/responses', model, status: 200, tokens: usage.inputTokens + usage.outputTokens, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits })
+          this.recordRequest({ path: '/v1/responses', model, accountId: account.id, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits, responseTime: Date.now() - startTime, success: true })
+          // 记录 API Key 用量
+          if (matchedApiKey) {
+            this.recordApiKeyUsage(matchedApiKey.id, usage.credits || 0, usage.inputTokens, usage.outputTokens, model, '/v1/responses', usage.cacheReadTokens, usage.cacheWriteTokens)
+          }
+
+          if (request.store !== false) {
+            this.storeResponseHistory(responseId, [...previousItems, ...inputItems, ...output])
+          }
+
+          const response = createResponsesResponse(responseId, request, 'completed', output, {
+            input_tokens: usage.inputTokens,
+            output_tokens: usage.outputTokens,
+            total_tokens: usage.inputTokens + usage.outputTokens,
+            input_tokens_details: { cached_tokens: usage.cacheReadTokens || 0 },
+            output_tokens_details: { reasoning_tokens: usage.reasoningTokens || 0 }
+          })
+          sendEvent('response.completed', { response })
+          res.end()
+          resolve()
+        },
+        (error) => {
+          console.error('[ProxyServer] Responses stream error:', error)
+          const proxyError = classifyError(error)
+          const failed = createResponsesResponse(responseId, request, 'failed', output)
+          failed.error = { code: getOpenAIErrorCode(proxyError), message: error.message }
+          sendEvent('response.failed', { response: failed })
+          res.end()
+
+          this.recordRequestFailed()
+          const isQuotaError = proxyError.kind === 'quota' || proxyError.kind === 'rate_limit'
+          this.accountPool.recordError(account.id, isQuotaError)
+          this.events.onResponse?.({ path: '/v1/responses', model, status: getErrorStatus(proxyError.kind, 'openai'), error: error.message })
+          this.recordRequest({ path: '/v1/responses', model, accountId: account.id, responseTime: Date.now() - startTime, success: false, error: error.message })
+          resolve()
+        }
+      )
+    })
+  }
+
+  // 保存 Responses API 会话历史（超出上限时淘汰最早的记录）
+  private storeResponseHistory(responseId: string, items: OpenAIResponsesInputItem[]): void {
+    this.responseHistory.set(responseId, items)
+    while (this.responseHistory.size > this.MAX_RESPONSE_HISTORY) {
+      const oldestId = this.responseHistory.keys().next().value
+      if (oldestId === undefined) break
+      this.responseHistory.delete(oldestId)
+    }
+  }
+
+  // 处理 Gemini generateContent / streamGenerateContent 请求
+  private async handleGeminiGenerate(req: http.IncomingMessage, res: http.ServerResponse, modelName: string, stream: boolean): Promise<void> {
+    const body = await this.readBody(req)
+    const request: GeminiRequest = JSON.parse(body)
+    const matchedApiKey = (req as unknown as { matchedApiKey?: import('./types').ApiKey }).matchedApiKey
+
+    if (!Array.isArray(request.contents) || request.contents.length === 0) {
+      throw new ProxyError('invalid_request', 'contents is not specified', { param: 'contents' })
+    }
+
+    // 应用模型映射
+    const model = this.resolveRequestModel(modelName, matchedApiKey)
+    const injection = this.getPromptInjection('gemini', model, matchedApiKey?.id)
+    const endpoint = stream ? '/v1beta/streamGenerateContent' : '/v1beta/generateContent'
+    // alt=sse 时使用 SSE，否则按 Gemini 默认格式输出 JSON 数组流
+    const useSse = new URLSearchParams((req.url || '').split('?')[1] || '').get('alt') === 'sse'
+
+    // 检查是否启用思考模式（模型默认配置或 thinkingConfig，thinkingBudget 为 0 表示关闭）
+    const thinkingConfig = request.generationConfig?.thinkingConfig
+    const thinkingBudget = thinkingConfig?.thinkingBudget
+    const thinkingEnabled = thinkingBudget !== 0 &&
+      (!!this.config.modelThinkingMode?.[model] || thinkingBudget !== undefined || !!thinkingConfig?.includeThoughts)
+    // 仅在客户端要求时输出思考内容
+    const includeThoughts = !!thinkingConfig?.includeThoughts
+
+    this.recordNewRequest()
+    this.events.onRequest?.({ path: endpoint, method: 'POST' })
+
+    // 获取账号（包含 Token 刷新检查）
+    const account = await this.getAvailableAccount()
+    if (!account) {
+      this.recordRequestFailed()
+      const status = this.sendError(res, new ProxyError('overloaded', 'No available accounts'), 'gemini')
+      this.events.onResponse?.({ path: endpoint, model, status, error: 'No available accounts' })
+      this.recordRequest({ path: endpoint, model, success: false, error: 'No available accounts' })
+      return
+    }
+
+    this.events.onRequest?.({ path: endpoint, method: 'POST', accountId: account.id })
+    const startTime = Date.now()
+
+    // 如果启用了禁用工具调用，移除 tools 参数
+    const processedRequest: GeminiRequest = this.config.disableTools
+      ? { ...request, tools: undefined, toolConfig: undefined }
+      : request
+
+    const buildPayload = (profileArn?: string): ReturnType<typeof geminiToKiro> => {
+      const payload = geminiToKiro(processedRequest, model, profileArn, injection)
+      if (thinkingEnabled) {
+        const currentMessage = payload.conversationState?.currentMessage?.userInputMessage
+        if (currentMessage && typeof currentMessage.content === 'string') {
+          currentMessage.content = `<thinking_mode>enabled</thinking_mode>\n<max_thinking_length>200000</max_thinking_length>\n\n` + currentMessage.content
+        }
+      }
+      return payload
+    }
+
+    try {
+      const kiroPayload = buildPayload(account.profileArn)
+
+      // 记录请求详情到日志
+      if (this.config.logRequests) {
+        const userInput = kiroPayload.conversationState.currentMessage?.userInputMessage
+        proxyLogger.info('ProxyServer', `Gemini API: ${model}`, {
+          model,
+          stream,
+          contentLength: typeof userInput?.content === 'string' ? userInput.content.length : 0,
+          toolsCount: userInput?.userInputMessageContext?.tools?.length || 0,
+          historyLength: kiroPayload.conversationState.history?.length || 0,
+          thinkingEnabled,
+          accountId: account.id
+        })
+      }
+
+      if (stream) {
+        // 流式响应（流式不使用重试机制，错误由流处理）
+        await this.handleGeminiStream(res, account, kiroPayload, model, endpoint, useSse, includeThoughts, startTime, matchedApiKey)
+      } else {
+        // 非流式响应（带重试机制）
+        const { result, account: usedAccount } = await this.callWithRetry(
+          account,
+          async (acc) => callKiroApi(acc, buildPayload(acc.profileArn)),
+          endpoint
+        )
+        const { text, reasoning: tagReasoning } = splitThinkingContent(result.content)
+        const reasoning = includeThoughts ? result.reasoning + tagReasoning : ''
+        const response = kiroToGeminiResponse(text, result.toolUses, result.usage, model, reasoning)
+
+        this.recordRequestSuccess()
+        this.stats.totalTokens += result.usage.inputTokens + result.usage.outputTokens
+        this.stats.inputTokens += result.usage.inputTokens
+        this.stats.cacheReadTokens += result.usage.cacheReadTokens || 0
+        this.stats.cacheWriteTokens += result.usage.cacheWriteTokens || 0
+        this.stats.outputTokens += result.usage.outputTokens
+        this.accountPool.recordSuccess(usedAccount.id, result.usage.inputTokens + result.usage.outputTokens)
+
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(response))
+        this.events.onResponse?.({ path: endpoint, model, status: 200, tokens: result.usage.inputTokens + result.usage.outputTokens, inputTokens: result.usage.inputTokens, outputTokens: result.usage.outputTokens })
+        this.recordRequest({ path: endpoint, model, accountId: usedAccount.id, inputTokens: result.usage.inputTokens, outputTokens: result.usage.outputTokens, responseTime: Date.now() - startTime, success: true })
+        // 记录 API Key 用量
+        if (matchedApiKey) {
+          this.recordApiKeyUsage(matchedApiKey.id, result.usage.credits || 0, result.usage.inputTokens, result.usage.outputTokens, model, endpoint, result.usage.cacheReadTokens, result.usage.cacheWriteTokens)
+        }
+      }
+    } catch (error) {
+      this.handleApiError(res, account, error as Error, endpoint, model, startTime)
+    }
+  }
+
+  // 处理 Gemini 流式响应（SSE 或 JSON 数组流）
+  private async handleGeminiStream(
+    res: http.ServerResponse,
+    account: ProxyAccount,
+    kiroPayload: ReturnType<typeof geminiToKiro>,
+    model: string,
+    endpoint: string,
+    useSse: boolean,
+    includeThoughts: boolean,
+    startTime: number,
+    matchedApiKey?: import('./types').ApiKey
+  ): Promise<void> {
+    res.writeHead(200, {
+      'Content-Type': useSse ? 'text/event-stream' : 'application/json',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    })
+
+    const responseId = `resp-${uuidv4()}`
+    let chunkCount = 0
+
+    const sendChunk = (chunk: object): void => {
+      if (useSse) {
+        res.write(`data: ${JSON.stringify(chunk)}\r\n\r\n`)
+      } else {
+        res.write((chunkCount === 0 ? '[' : ',\r\n') + JSON.stringify(chunk))
+      }
+      chunkCount++
+    }
+
+    const finish = (): void => {
+      if (!useSse) {
+        res.write(chunkCount === 0 ? '[]' : ']')
+      }
+      res.end()
+    }
+
+    const emitThought = (text: string): void => {
+      if (includeThoughts) {
+        sendChunk(createGeminiResponse(responseId, model, [{ text, thought: true }]))
+      }
+    }
+
+    // 处理文本输出，将 <thinking> 标签内容转换为 thought part
+    const processText = createThinkingTagSplitter(
+      (text) => sendChunk(createGeminiResponse(responseId, model, [{ text }])),
+      emitThought
+    )
+
+    return new Promise((resolve) => {
+      callKiroApiStream(
+        account,
+        kiroPayload,
+        (text, toolUse, isThinking) => {
+          if (text) {
+            if (isThinking) {
+              emitThought(text)
+            } else {
+              processText(text)
+            }
+          }
+          if (toolUse) {
+            processText('', true)
+            sendChunk(createGeminiResponse(responseId, model, [{
+              functionCall: { id: toolUse.toolUseId, name: toolUse.name, args: toolUse.input as Record<string, unknown> }
+            }]))
+          }
+        },
+        (usage) => {
+          processText('', true)
+
+          this.recordRequestSuccess()
+          this.stats.totalTokens += usage.inputTokens + usage.outputTokens
+          this.stats.inputTokens += usage.inputTokens
+          this.stats.cacheReadTokens += usage.cacheReadTokens || 0
+          this.stats.cacheWriteTokens += usage.cacheWriteTokens || 0
+          this.stats.outputTokens += usage.outputTokens
+          this.stats.totalCredits += usage.credits || 0
+          this.events.onCreditsUpdate?.(this.stats.totalCredits)
+          this.events.onTokensUpdate?.(this.stats.inputTokens, this.stats.outputTokens, this.stats.cacheReadTokens, this.stats.cacheWriteTokens)
+          this.accountPool.recordSuccess(account.id, usage.inputTokens + usage.outputTokens)
+          this.events.onResponse?.({ path: endpoint, model, status: 200, tokens: usage.inputTokens + usage.outputTokens, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits })
+          this.recordRequest({ path: endpoint, model, accountId: account.id, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits, responseTime: Date.now() - startTime, success: true })
+          // 记录 API Key 用量
+          if (matchedApiKey) {
+            this.recordApiKeyUsage(matchedApiKey.id, usage.credits || 0, usage.inputTokens, usage.outputTokens, model, endpoint, usage.cacheReadTokens, usage.cacheWriteTokens)
+          }
+
+          // 最后一个 chunk 携带 finishReason 与 usageMetadata
+          sendChunk(createGeminiResponse(responseId, model, [{ text: '' }], 'STOP', usage))
+          finish()
+          resolve()
+        },
+        (error) => {
+          console.error('[ProxyServer] Gemini stream error:', error)
+          const proxyError = classifyError(error)
+          sendChunk(buildErrorBody(proxyError, 'gemini'))
+          finish()
+
+          this.recordRequestFailed()
+          const isQuotaError = proxyError.kind === 'quota' || proxyError.kind === 'rate_limit'
+          this.accountPool.recordError(account.id, isQuotaError)
+          this.events.onResponse?.({ path: endpoint, model, status: getErrorStatus(proxyError.kind, 'gemini'), error: error.message })
+          this.recordRequest({ path: endpoint, model, accountId: account.id, responseTime: Date.now() - startTime, success: false, error: error.message })
+          resolve()
+        }
+      )
+    })
+  }
+
+  // Ollama 模型列表
+  private async handleOllamaTags(res: http.ServerResponse, apiKey?: import('./types').ApiKey): Promise<void> {
+    const allModels = await this.getModelList(apiKey)
+    const modifiedAt = new Date(this.stats.startTime).toISOString()
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ models: allModels.map(m => createOllamaModel(m.id, modifiedAt)) }))
+  }
+
+  // Ollama 模型详情（不在 API Key 模型范围内的模型视为不存在）
+  private async handleOllamaShow(req: http.IncomingMessage, res: http.ServerResponse, apiKey?: import('./types').ApiKey): Promise<void> {
+    const body = await this.readBody(req)
+    const request: { model?: string; name?: string } = JSON.parse(body || '{}')
+    const requested = request.model || request.name || ''
+    const modelId = normalizeOllamaModelName(requested)
+
+    const allModels = await this.getModelList(apiKey)
+    const model = allModels.find(m => m.id === modelId)
+    if (!model) {
+      this.sendError(res, new ProxyError('not_found', `model '${requested}' not found`), 'ollama')
+      return
+    }
+
+    const modifiedAt = new Date(this.stats.startTime).toISOString()
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({
+      modelfile: `FROM ${model.id}`,
+      parameters: '',
+      template: '{{ .Prompt }}',
+      details: createOllamaModel(model.id, modifiedAt).details,
+      model_info: { 'general.architecture': 'kiro', 'general.basename': model.id },
+      capabilities: ['completion', 'tools', 'thinking', 'vision'],
+      modified_at: modifiedAt
+    }))
+  }
+
+  // 处理 Ollama /api/chat 与 /api/generate 请求
+  private async handleOllama(req: http.IncomingMessage, res: http.ServerResponse, mode: 'chat' | 'generate'): Promise<void> {
+    const body = await this.readBody(req)
+    const ollamaRequest: OllamaChatRequest & OllamaGenerateRequest = JSON.parse(body)
+    const matchedApiKey = (req as unknown as { matchedApiKey?: import('./types').ApiKey }).matchedApiKey
+
+    if (!ollamaRequest.model) {
+      throw new ProxyError('invalid_request', 'model is required', { param: 'model' })
+    }
+
+    const endpoint = `/api/${mode}`
+    // Ollama 客户端按请求中的模型名匹配响应
+    const responseModel = ollamaRequest.model
+
+    // 空 messages / prompt 是 Ollama 客户端的“加载模型”请求，直接返回完成
+    const isLoadRequest = mode === 'chat' ? !ollamaRequest.messages?.length : !ollamaRequest.prompt
+    if (isLoadRequest) {
+      const stats = createOllamaDoneStats({ inputTokens: 0, outputTokens: 0 }, Date.now(), 'load')
+      const response = mode === 'chat'
+        ? createOllamaChatResponse(responseModel, {}, true, stats)
+        : createOllamaGenerateResponse(responseModel, '', true, stats)
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(response))
+      return
+    }
+
+    const request = mode === 'chat' ? ollamaChatToOpenaiRequest(ollamaRequest) : ollamaGenerateToOpenaiRequest(ollamaRequest)
+    // format（json / JSON Schema）与 OpenAI response_format 一样经过校验和修复
+    const structuredOutput = getStructuredOutputSpec(request.response_format)
+
+    // 应用模型映射
+    request.model = this.resolveRequestModel(request.model, matchedApiKey)
+    const injection = this.getPromptInjection('ollama', request.model, matchedApiKey?.id)
+
+    // 检查是否启用思考模式（think 参数或模型默认配置）
+    const thinkRequested = ollamaRequest.think !== undefined && ollamaRequest.think !== false
+    const thinkingEnabled = thinkRequested || !!this.config.modelThinkingMode?.[request.model]
+
+    this.recordNewRequest()
+    this.events.onRequest?.({ path: endpoint, method: 'POST' })
+
+    // 获取账号（包含 Token 刷新检查）
+    const account = await this.getAvailableAccount()
+    if (!account) {
+      this.recordRequestFailed()
+      const status = this.sendError(res, new ProxyError('overloaded', 'No available accounts'), 'ollama')
+      this.events.onResponse?.({ path: endpoint, model: request.model, status, error: 'No available accounts' })
+      this.recordRequest({ path: endpoint, model: request.model, success: false, error: 'No available accounts' })
+      return
+    }
+
+    this.events.onRequest?.({ path: endpoint, method: 'POST', accountId: account.id })
+    const startTime = Date.now()
+
+    // 如果启用了禁用工具调用，移除 tools 参数
+    const processedRequest = this.config.disableTools
+      ? { ...request, tools: undefined, tool_choice: undefined }
+      : request
+
+    const buildPayload = (profileArn?: string, attemptRequest: OpenAIChatRequest = processedRequest): ReturnType<typeof openaiToKiro> => {
+      const payload = openaiToKiro(attemptRequest, profileArn, injection)
+      if (thinkingEnabled) {
+        const currentMessage = payload.conversationState?.currentMessage?.userInputMessage
+        if (currentMessage && typeof currentMessage.content === 'string') {
+          currentMessage.content = `<thinking_mode>enabled</thinking_mode>\n<max_thinking_length>200000</max_thinking_length>\n\n` + currentMessage.content
+        }
+      }
+      return payload
+    }
+
+    try {
+      const kiroPayload = buildPayload(account.profileArn)
+
+      // 记录请求详情到日志
+      if (this.config.logRequests) {
+        const userInput = kiroPayload.conversationState.currentMessage?.userInputMessage
+        proxyLogger.info('ProxyServer', `Ollama API (${mode}): ${request.model}`, {
+          model: request.model,
+          stream: request.stream,
+          contentLength: typeof userInput?.content === 'string' ? userInput.content.length : 0,
+          toolsCount: userInput?.userInputMessageContext?.tools?.length || 0,
+          historyLength: kiroPayload.conversationState.history?.length || 0,
+          thinkingEnabled,
+          accountId: account.id
+        })
+      }
+
+      if (structuredOutput) {
+        // 结构化输出需要完整结果才能校验，流式请求也先取得完整响应
+        await this.handleOllamaStructuredOutput(res, account, processedRequest, structuredOutput, mode, responseModel, endpoint, buildPayload, startTime, matchedApiKey)
+      } else if (request.stream) {
+        // 流式响应（流式不使用重试机制，错误由流处理）
+        await this.handleOllamaStream(res, account, kiroPayload, mode, responseModel, request.model, endpoint, thinkingEnabled, startTime, matchedApiKey)
+      } else {
+        // 非流式响应（带重试机制）
+        const { result, account: usedAccount } = await this.callWithRetry(
+          account,
+          async (acc) => callKiroApi(acc, buildPayload(acc.profileArn)),
+          endpoint
+        )
+        const { text, reasoning: tagReasoning } = splitThinkingContent(result.content)
+        const reasoning = thinkingEnabled ? result.reasoning + tagReasoning : ''
+        const stats = createOllamaDoneStats(result.usage, startTime)
+        const response = mode === 'chat'
+          ? createOllamaChatResponse(responseModel, {
+            content: text,
+            thinking: reasoning || undefined,
+            tool_calls: result.toolUses.length > 0 ? kiroToolUsesToOllama(result.toolUses) : undefined
+          }, true, stats)
+          : createOllamaGenerateResponse(responseModel, text, true, stats, reasoning)
+
+        this.recordRequestSuccess()
+        this.stats.totalTokens += result.usage.inputTokens + result.usage.outputTokens
+        this.stats.inputTokens += result.usage.inputTokens
+        this.stats.cacheReadTokens += result.usage.cacheReadTokens || 0
+        this.stats.cacheWriteTokens += result.usage.cacheWriteTokens || 0
+        this.stats.outputTokens += result.usage.outputTokens
+        this.accountPool.recordSuccess(usedAccount.id, result.usage.inputTokens + result.usage.outputTokens)
+
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(response))
+        this.events.onResponse?.({ path: endpoint, model: request.model, status: 200, tokens: result.usage.inputTokens + result.usage.outputTokens, inputTokens: result.usage.inputTokens, outputTokens: result.usage.outputTokens })
+        this.recordRequest({ path: endpoint, model: request.model, accountId: usedAccount.id, inputTokens: result.usage.inputTokens, outputTokens: result.usage.outputTokens, responseTime: Date.now() - startTime, success: true })
+        // 记录 API Key 用量
+        if (matchedApiKey) {
+          this.recordApiKeyUsage(matchedApiKey.id, result.usage.credits || 0, result.usage.inputTokens, result.usage.outputTokens, request.model, endpoint, result.usage.cacheReadTokens, result.usage.cacheWriteTokens)
+        }
+      }
+    } catch (error) {
+      this.handleApiError(res, account, error as Error, endpoint, request.model, startTime)
+    }
+  }
+
+  // 处理 Ollama 结构化输出（format）：与 OpenAI response_format 共用校验与修复循环
+  private async handleOllamaStructuredOutput(
+    res: http.ServerResponse,
+    account: ProxyAccount,
+    request: OpenAIChatRequest,
+    spec: StructuredOutputSpec,
+    mode: 'chat' | 'generate',
+    responseModel: string,
+    endpoint: string,
+    buildPayload: (profileArn?: string, attemptRequest?: OpenAIChatRequest) => ReturnType<typeof openaiToKiro>,
+    startTime: number,
+    matchedApiKey?: import('./types').ApiKey
+  ): Promise<void> {
+    const { content, toolUses, errors, usage, account: currentAccount } = await this.runStructuredOutputAttempts(
+      account,
+      request,
+      spec,
+      endpoint,
+      (attemptRequest, profileArn) => buildPayload(profileArn, attemptRequest),
+      matchedApiKey
+    )
+
+    if (errors.length > 0) {
+      this.recordRequestFailed()
+      const message = `The model output did not match format after ${MAX_STRUCTURED_OUTPUT_ATTEMPTS} attempts: ${errors.slice(0, 5).join('; ')}`
+      const status = this.sendError(res, new ProxyError('invalid_request', message, { param: 'format', code: 'json_validate_failed' }), 'ollama')
+      this.events.onResponse?.({ path: endpoint, model: request.model, status, error: message })
+      this.recordRequest({ path: endpoint, model: request.model, accountId: currentAccount.id, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits, responseTime: Date.now() - startTime, success: false, error: message })
+      return
+    }
+
+    const stats = createOllamaDoneStats(usage, startTime)
+    const toolCalls = mode === 'chat' && toolUses.length > 0 ? kiroToolUsesToOllama(toolUses) : undefined
+    this.recordRequestSuccess()
+    this.accountPool.recordSuccess(currentAccount.id, usage.inputTokens + usage.outputTokens)
+
+    if (request.stream) {
+      // 流式请求：一行完整内容加最后的 done 行
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' })
+      res.write(JSON.stringify(mode === 'chat'
+        ? createOllamaChatResponse(responseModel, { content, tool_calls: toolCalls })
+        : createOllamaGenerateResponse(responseModel, content)) + '\n')
+      res.end(JSON.stringify(mode === 'chat'
+        ? createOllamaChatResponse(responseModel, {}, true, stats)
+        : createOllamaGenerateResponse(responseModel, '', true, stats)) + '\n')
+    } else {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(mode === 'chat'
+        ? createOllamaChatResponse(responseModel, { content, tool_calls: toolCalls }, true, stats)
+        : createOllamaGenerateResponse(responseModel, content, true, stats)))
+    }
+
+    this.events.onResponse?.({ path: endpoint, model: request.model, status: 200, tokens: usage.inputTokens + usage.outputTokens, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits })
+    this.recordRequest({ path: endpoint, model: request.model, accountId: currentAccount.id, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits, responseTime: Date.now() - startTime, success: true })
+  }
+
+  // 处理 Ollama 流式响应（NDJSON，每行一个 JSON 对象）
+  private async handleOllamaStream(
+    res: http.ServerResponse,
+    account: ProxyAccount,
+    kiroPayload: ReturnType<typeof openaiToKiro>,
+    mode: 'chat' | 'generate',
+    responseModel: string,
+    model: string,
+    endpoint: string,
+    thinkingEnabled: boolean,
+    startTime: number,
+    matchedApiKey?: import('./types').ApiKey
+  ): Promise<void> {
+    res.writeHead(200, {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    })
+
+    const writeLine = (data: object): void => {
+      res.write(JSON.stringify(data) + '\n')
+    }
+
+    const emitText = (text: string): void => {
+      writeLine(mode === 'chat'
+        ? createOllamaChatResponse(responseModel, { content: text })
+        : createOllamaGenerateResponse(responseModel, text))
+    }
+
+    const emitThinking = (text: string): void => {
+      if (!thinkingEnabled) return
+      writeLine(mode === 'chat'
+        ? createOllamaChatResponse(responseModel, { thinking: text })
+        : createOllamaGenerateResponse(responseModel, '', false, undefined, text))
+    }
+
+    // 处理文本输出，将 <thinking> 标签内容转换为 thinking 字段
+    const processText = createThinkingTagSplitter(emitText, emitThinking)
+
+    return new Promise((resolve) => {
+      callKiroApiStream(
+        account,
+        kiroPayload,
+        (text, toolUse, isThinking) => {
+          if (text) {
+            if (isThinking) {
+              emitThinking(text)
+            } else {
+              processText(text)
+            }
+          }
+          if (toolUse && mode === 'chat') {
+            processText('', true)
+            writeLine(createOllamaChatResponse(responseModel, { tool_calls: kiroToolUsesToOllama([toolUse]) }))
+          }
+        },
+        (usage) => {
+          processText('', true)
+
+          this.recordRequestSuccess()
+          this.stats.totalTokens += usage.inputTokens + usage.outputTokens
+          this.stats.inputTokens += usage.inputTokens
+          this.stats.cacheReadTokens += usage.cacheReadTokens || 0
+          this.stats.cacheWriteTokens += usage.cacheWriteTokens || 0
+          this.stats.outputTokens += usage.outputTokens
+          this.stats.totalCredits += usage.credits || 0
+          this.events.onCreditsUpdate?.(this.stats.totalCredits)
+          this.events.onTokensUpdate?.(this.stats.inputTokens, this.stats.outputTokens, this.stats.cacheReadTokens, this.stats.cacheWriteTokens)
+          this.accountPool.recordSuccess(account.id, usage.inputTokens + usage.outputTokens)
+          this.events.onResponse?.({ path: endpoint, model, status: 200, tokens: usage.inputTokens + usage.outputTokens, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits })
+          this.recordRequest({ path: endpoint, model, accountId: account.id, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits, responseTime: Date.now() - startTime, success: true })
+          // 记录 API Key 用量
+          if (matchedApiKey) {
+            this.recordApiKeyUsage(matchedApiKey.id, usage.credits || 0, usage.inputTokens, usage.outputTokens, model, endpoint, usage.cacheReadTokens, usage.cacheWriteTokens)
+          }
+
+          // 最后一行 done: true，附带 token 统计
+          const stats = createOllamaDoneStats(usage, startTime)
+          writeLine(mode === 'chat'
+            ? createOllamaChatResponse(responseModel, {}, true, stats)
+            : createOllamaGenerateResponse(responseModel, '', true, stats))
+          res.end()
+          resolve()
+        },
+        (error) => {
+          console.error('[ProxyServer] Ollama stream error:', error)
+          const proxyError = classifyError(error)
+          writeLine(buildErrorBody(proxyError, 'ollama'))
+          res.end()
+
+          this.recordRequestFailed()
+          const isQuotaError = proxyError.kind === 'quota' || proxyError.kind === 'rate_limit'
+          this.accountPool.recordError(account.id, isQuotaError)
+          this.events.onResponse?.({ path: endpoint, model, status: getErrorStatus(proxyError.kind, 'ollama'), error: error.message })
+          this.recordRequest({ path: endpoint, model, accountId: account.id, responseTime: Date.now() - startTime, success: false, error: error.message })
+          resolve()
+        }
+      )
+    })
+  }
+
+  // 处理 Claude Messages 请求
+  private async handleClaudeMessages(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = await this.readBody(req)
+    const request: ClaudeRequest = JSON.parse(body)
+    const matchedApiKey = (req as unknown as { matchedApiKey?: import('./types').ApiKey }).matchedApiKey
+    this.validateRequiredFields(request.model, request.messages, 'messages')
+    const cacheBreakpoints = countClaudeCacheBreakpoints(request)
+    if (cacheBreakpoints > MAX_CLAUDE_CACHE_BREAKPOINTS) {
+      throw new ProxyError('invalid_request', `A maximum of ${MAX_CLAUDE_CACHE_BREAKPOINTS} blocks with cache_control may be provided. Found ${cacheBreakpoints}.`)
+    }
+    const outputLimits: OutputLimitOptions = {
+      stopSequences: normalizeClaudeStopSequences(request.stop_sequences),
+      maxTokens: normalizeMaxTokens(request.max_tokens)
+    }
+
+    // 应用模型映射
+    request.model = this.resolveRequestModel(request.model, matchedApiKey)
+    const injection = this.getPromptInjection('claude', request.model, matchedApiKey?.id)
+
+    // 检查是否为该模型默认启用思考模式
+    const modelThinkingEnabled = this.config.modelThinkingMode?.[request.model]
+    const thinkingEnabled = modelThinkingEnabled || (req.headers['anthropic-beta'] as string || '').toLowerCase().includes('thinking')
+
+    this.recordNewRequest()
+    this.events.onRequest?.({ path: '/v1/messages', method: 'POST' })
+
+    // 获取账号（包含 Token 刷新检查）
+    const account = await this.getAvailableAccount()
+    if (!account) {
+      this.recordRequestFailed()
+      const status = this.sendError(res, new ProxyError('overloaded', 'No available accounts'), 'anthropic')
+      this.events.onResponse?.({ path: '/v1/messages', model: request.model, status, error: 'No available accounts' })
+      this.recordRequest({ path: '/v1/messages', model: request.model, success: false, error: 'No available accounts' })
+      return
+    }
+
+    this.events.onRequest?.({ path: '/v1/messages', method: 'POST', accountId: account.id })
+    const startTime = Date.now()
+
+    try {
+      // 转换为 Kiro 格式
+      let kiroPayload = claudeToKiro(request, account.profileArn, injection)
+
+      // 如果启用了 thinking 模式，注入系统提示
+      if (thinkingEnabled) {
+        const thinkingPrompt = `<thinking_mode>enabled</thinking_mode>\n<max_thinking_length>200000</max_thinking_length>\n\n`
+        const currentMessage = kiroPayload.conversationState?.currentMessage?.userInputMessage
+        if (currentMessage && typeof currentMessage.content === 'string') {
+          currentMessage.content = thinkingPrompt + currentMessage.content
+        }
+        proxyLogger.info('ProxyServer', 'Thinking mode enabled for Claude request')
+      }
+
+      // 记录请求详情到日志
+      if (this.config.logRequests) {
+        const userInput = kiroPayload.conversationState.currentMessage?.userInputMessage
+        const contentLength = typeof userInput?.content === 'string' ? userInput.content.length : 0
+        const toolsCount = userInput?.userInputMessageContext?.tools?.length || 0
+        const historyLength = kiroPayload.conversationState.history?.length || 0
+        const hasImages = (userInput?.images?.length || 0) > 0
+        
+        proxyLogger.info('ProxyServer', `Claude API: ${request.model}`, {
+          model: request.model,
+          stream: request.stream,
+          contentLength,
+          toolsCount,
+          historyLength,
+          hasImages,
+          accountId: account.id.substring(0, 8) + '...'
+        })
+      }
+
+      if (request.stream) {
+        // 流式响应（流式不使用重试机制，错误由流处理）
+        const limiter = hasOutputLimits(outputLimits) ? createOutputLimiter(outputLimits) : undefined
+        await this.handleClaudeStream(res, account, kiroPayload, request.model, startTime, 0, undefined, false, 0, matchedApiKey, limiter)
+      } else {
+        // 非流式响应（带重试机制）
+        const { result, account: usedAccount } = await this.callWithRetry(
+          account,
+          async (acc) => callKiroApi(acc, claudeToKiro(request, acc.profileArn, injection)),
+          '/v1/messages'
+        )
+        const limited = limitKiroOutput(result.content, result.toolUses, outputLimits)
+        const response = kiroToClaudeResponse(limited.content, limited.toolUses, result.usage, request.model)
+        this.addClaudeReasoning(response, result.reasoning)
+        if (limited.stopReason) {
+          response.stop_reason = limited.stopReason
+          response.stop_sequence = limited.stopSequence
+        }
+
+        this.recordRequestSuccess()
+        this.stats.totalTokens += result.usage.inputTokens + result.usage.outputTokens
+        this.stats.inputTokens += result.usage.inputTokens
+        this.stats.cacheReadTokens += result.usage.cacheReadTokens || 0
+        this.stats.cacheWriteTokens += result.usage.cacheWriteTokens || 0
+        this.stats.outputTokens += result.usage.outputTokens
+        this.accountPool.recordSuccess(usedAccount.id, result.usage.inputTokens + result.usage.outputTokens)
+
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(response))
+        this.events.onResponse?.({ path: '/v1/messages', model: request.model, status: 200, tokens: result.usage.inputTokens + result.usage.outputTokens, inputTokens: result.usage.inputTokens, outputTokens: result.usage.outputTokens })
+        this.recordRequest({ path: '/v1/messages', model: request.model, accountId: usedAccount.id, inputTokens: result.usage.inputTokens, outputTokens: result.usage.outputTokens, responseTime: Date.now() - startTime, success: true })
+        // 记录 API Key 用量
+        if (matchedApiKey) {
+          this.recordApiKeyUsage(matchedApiKey.id, result.usage.credits || 0, result.usage.inputTokens, result.usage.outputTokens, request.model, '/v1/messages', result.usage.cacheReadTokens, result.usage.cacheWriteTokens)
+        }
+      }
+    } catch (error) {
+      this.handleApiError(res, account, error as Error, '/v1/messages', request.model, startTime)
+    }
+  }
+
+  // 处理 Claude 流式响应
+  private async handleClaudeStream(
+    res: http.ServerResponse,
+    account: { id: string; accessToken: string; profileArn?: string },
+    kiroPayload: ReturnType<typeof claudeToKiro>,
+    model: string,
+    startTime: number,
+    currentRound: number = 0,
+    msgId?: string,
+    headersSent: boolean = false,
+    contentBlockIndex: number = 0,
+    matchedApiKey?: import('./types').ApiKey,
+    limiter?: OutputLimiter  // 停止序列 / max_tokens 限制（跨自动继续轮次共享）
+  ): Promise<void> {
+    if (!headersSent) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      })
+    }
+
+    const id = msgId || `msg_${uuidv4()}`
     let currentBlockIndex = contentBlockIndex
     let hasStartedTextBlock = false
     let collectedContent = ''
@@ -1564,36 +3310,46 @@ export class ProxyServer {
     let textBuffer = ''
     let inThinkingBlock = false
 
-    // 估算输入 tokens（基于 payload 大小）
-    const estimatedInputTokens = Math.max(1, Math.round(JSON.stringify(kiroPayload).length / 3))
+    // 计算输入 tokens（message_start 时上游尚未返回用量）
+    const estimatedInputTokens = Math.max(1, countKiroPayloadTokens(kiroPayload))
+    // 命中停止序列或 max_tokens 时中止上游请求
+    const stopController = new AbortController()
+
+    // 输出正文（经过停止序列 / max_tokens 限制），必要时开启文本块
+    const writeClaudeText = (text: string, release = false): void => {
+      const output = limiter ? limiter.push(text) + (release ? limiter.flush() : '') : text
+      if (output) {
+        collectedContent += output
+        if (!hasStartedTextBlock) {
+          const blockStart = createClaudeStreamEvent('content_block_start', {
+            index: currentBlockIndex,
+            content_block: { type: 'text', text: '' }
+          })
+          res.write(`event: content_block_start\ndata: ${JSON.stringify(blockStart)}\n\n`)
+          hasStartedTextBlock = true
+        }
+        const delta = createClaudeStreamEvent('content_block_delta', {
+          index: currentBlockIndex,
+          delta: { type: 'text_delta', text: output }
+        })
+        res.write(`event: content_block_delta\ndata: ${JSON.stringify(delta)}\n\n`)
+      }
+      if (limiter?.stopReason) stopController.abort()
+    }
 
     // 处理文本输出，检测并转换 <thinking> 标签
     const processClaudeText = (text: string, forceFlush = false) => {
       const format = this.config.thinkingOutputFormat || 'reasoning_content'
       textBuffer += text
       
-      while (true) {
+      while (!limiter?.stopReason) {
         if (!inThinkingBlock) {
           // 查找 <thinking> 开始标签
           const thinkingStart = textBuffer.indexOf('<thinking>')
           if (thinkingStart !== -1) {
             // 输出 thinking 标签之前的内容
             if (thinkingStart > 0) {
-              const beforeThinking = textBuffer.substring(0, thinkingStart)
-              collectedContent += beforeThinking
-              if (!hasStartedTextBlock) {
-                const blockStart = createClaudeStreamEvent('content_block_start', {
-                  index: currentBlockIndex,
-                  content_block: { type: 'text', text: '' }
-                })
-                res.write(`event: content_block_start\ndata: ${JSON.stringify(blockStart)}\n\n`)
-                hasStartedTextBlock = true
-              }
-              const delta = createClaudeStreamEvent('content_block_delta', {
-                index: currentBlockIndex,
-                delta: { type: 'text_delta', text: beforeThinking }
-              })
-              res.write(`event: content_block_delta\ndata: ${JSON.stringify(delta)}\n\n`)
+              writeClaudeText(textBuffer.substring(0, thinkingStart), true)
             }
             textBuffer = textBuffer.substring(thinkingStart + 10) // 移除 <thinking>
             inThinkingBlock = true
@@ -1605,21 +3361,7 @@ export class ProxyServer {
             // 没有找到标签，安全输出
             const safeLength = forceFlush ? textBuffer.length : Math.max(0, textBuffer.length - 15)
             if (safeLength > 0) {
-              const safeText = textBuffer.substring(0, safeLength)
-              collectedContent += safeText
-              if (!hasStartedTextBlock) {
-                const blockStart = createClaudeStreamEvent('content_block_start', {
-                  index: currentBlockIndex,
-                  content_block: { type: 'text', text: '' }
-                })
-                res.write(`event: content_block_start\ndata: ${JSON.stringify(blockStart)}\n\n`)
-                hasStartedTextBlock = true
-              }
-              const delta = createClaudeStreamEvent('content_block_delta', {
-                index: currentBlockIndex,
-                delta: { type: 'text_delta', text: safeText }
-              })
-              res.write(`event: content_block_delta\ndata: ${JSON.stringify(delta)}\n\n`)
+              writeClaudeText(textBuffer.substring(0, safeLength), forceFlush)
               textBuffer = textBuffer.substring(safeLength)
             }
             break
@@ -1697,7 +3439,8 @@ export class ProxyServer {
           model,
           stop_reason: null,
           stop_sequence: null,
-          usage: { input_tokens: estimatedInputTokens, output_tokens: 0 }
+          // 缓存用量由上游在流结束时返回，最终值见 message_delta
+          usage: { input_tokens: estimatedInputTokens, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 }
         }
       })
       res.write(`event: message_start\ndata: ${JSON.stringify(messageStart)}\n\n`)
@@ -1708,6 +3451,8 @@ export class ProxyServer {
         account as any,
         kiroPayload,
         (text, toolUse, isThinking) => {
+          // 已命中停止条件，丢弃后续输出
+          if (limiter?.stopReason) return
           if (text) {
             if (isThinking) {
               // reasoningContentEvent 的思考内容
@@ -1739,6 +3484,9 @@ export class ProxyServer {
             }
           }
           if (toolUse) {
+            // 先释放暂存的正文，停止条件可能在此时触发
+            writeClaudeText('', true)
+            if (limiter?.stopReason) return
             // 结束之前的文本块
             if (hasStartedTextBlock) {
               const blockStop = createClaudeStreamEvent('content_block_stop', { index: currentBlockIndex })
@@ -1769,6 +3517,7 @@ export class ProxyServer {
         async (usage) => {
           // 刷新缓冲区中剩余的内容
           processClaudeText('', true)
+          writeClaudeText('', true)
           
           // 结束最后的文本块
           if (hasStartedTextBlock) {
@@ -1780,22 +3529,24 @@ export class ProxyServer {
           this.recordRequestSuccess()
           this.stats.totalTokens += usage.inputTokens + usage.outputTokens
           this.stats.inputTokens += usage.inputTokens
+          this.stats.cacheReadTokens += usage.cacheReadTokens || 0
+          this.stats.cacheWriteTokens += usage.cacheWriteTokens || 0
           this.stats.outputTokens += usage.outputTokens
           this.stats.totalCredits += usage.credits || 0
           this.events.onCreditsUpdate?.(this.stats.totalCredits)
-          this.events.onTokensUpdate?.(this.stats.inputTokens, this.stats.outputTokens)
+          this.events.onTokensUpdate?.(this.stats.inputTokens, this.stats.outputTokens, this.stats.cacheReadTokens, this.stats.cacheWriteTokens)
           this.accountPool.recordSuccess(account.id, usage.inputTokens + usage.outputTokens)
           this.events.onResponse?.({ path: '/v1/messages', model, status: 200, tokens: usage.inputTokens + usage.outputTokens, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits })
           this.recordRequest({ path: '/v1/messages', model, accountId: account.id, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, credits: usage.credits, responseTime: Date.now() - startTime, success: true })
           // 记录 API Key 用量
           if (matchedApiKey) {
-            this.recordApiKeyUsage(matchedApiKey.id, usage.credits || 0, usage.inputTokens, usage.outputTokens, model, '/v1/messages')
+            this.recordApiKeyUsage(matchedApiKey.id, usage.credits || 0, usage.inputTokens, usage.outputTokens, model, '/v1/messages', usage.cacheReadTokens, usage.cacheWriteTokens)
           }
 
           // 检查是否需要自动继续
           const maxRounds = this.config.autoContinueRounds || 0
           const hasToolCalls = pendingToolCalls.size > 0
-          const shouldContinue = hasToolCalls && maxRounds > 0 && currentRound < maxRounds
+          const shouldContinue = hasToolCalls && !limiter?.stopReason && maxRounds > 0 && currentRound < maxRounds
 
           if (shouldContinue) {
             console.log(`[ProxyServer] Claude auto-continue round ${currentRound + 1}/${maxRounds}`)
@@ -1844,17 +3595,17 @@ export class ProxyServer {
             } as typeof kiroPayload
 
             try {
-              await this.handleClaudeStream(res, account, continuePayload, model, startTime, currentRound + 1, id, true, currentBlockIndex, matchedApiKey)
+              await this.handleClaudeStream(res, account, continuePayload, model, startTime, currentRound + 1, id, true, currentBlockIndex, matchedApiKey, limiter)
             } catch (error) {
               console.error('[ProxyServer] Claude auto-continue error:', error)
             }
             resolve()
           } else {
             // 发送 message_delta（包含完整 usage 信息）
-            const stopReason = hasToolCalls ? 'tool_use' : 'end_turn'
+            const stopReason = limiter?.stopReason || (hasToolCalls ? 'tool_use' : 'end_turn')
             const messageDelta = createClaudeStreamEvent('message_delta', {
-              delta: { stop_reason: stopReason, stop_sequence: null } as any,
-              usage: { input_tokens: usage.inputTokens, output_tokens: usage.outputTokens }
+              delta: { stop_reason: stopReason, stop_sequence: limiter?.stopSequence ?? null } as any,
+              usage: toClaudeUsage(usage)
             })
             res.write(`event: message_delta\ndata: ${JSON.stringify(messageDelta)}\n\n`)
             // 发送 message_stop
@@ -1866,19 +3617,18 @@ export class ProxyServer {
         },
         (error) => {
           console.error('[ProxyServer] Stream error:', error)
-          const errorEvent = createClaudeStreamEvent('error', {
-            error: { type: 'api_error', message: error.message }
-          })
-          res.write(`event: error\ndata: ${JSON.stringify(errorEvent)}\n\n`)
+          const proxyError = classifyError(error)
+          res.write(`event: error\ndata: ${JSON.stringify(buildErrorBody(proxyError, 'anthropic'))}\n\n`)
           res.end()
 
           this.recordRequestFailed()
-          const isQuotaError = error.message.includes('429') || error.message.includes('quota')
+          const isQuotaError = proxyError.kind === 'quota' || proxyError.kind === 'rate_limit'
           this.accountPool.recordError(account.id, isQuotaError)
-          this.events.onResponse?.({ path: '/v1/messages', model, status: 500, error: error.message })
+          this.events.onResponse?.({ path: '/v1/messages', model, status: getErrorStatus(proxyError.kind, 'anthropic'), error: error.message })
           this.recordRequest({ path: '/v1/messages', model, accountId: account.id, responseTime: Date.now() - startTime, success: false, error: error.message })
           resolve()
-        }
+        },
+        stopController.signal
       )
     })
   }
@@ -1886,37 +3636,54 @@ export class ProxyServer {
   // 处理 API 错误
   private handleApiError(res: http.ServerResponse, account: { id: string }, error: Error, path: string, model?: string, startTime?: number): void {
     this.recordRequestFailed()
-    const isQuotaError = error.message.includes('429') || error.message.includes('quota')
-    const isAuthError = error.message.includes('401') || error.message.includes('403') || error.message.includes('Auth')
+    const proxyError = classifyError(error)
+    const isQuotaError = proxyError.kind === 'quota' || proxyError.kind === 'rate_limit'
 
     this.accountPool.recordError(account.id, isQuotaError)
 
-    let statusCode = 500
-    if (isQuotaError) statusCode = 429
-    if (isAuthError) statusCode = 401
-
-    this.sendError(res, statusCode, error.message)
+    const statusCode = this.sendError(res, proxyError, getErrorFormat(path))
     this.events.onResponse?.({ path, status: statusCode, error: error.message })
     this.recordRequest({ path, model, accountId: account.id, responseTime: startTime ? Date.now() - startTime : 0, success: false, error: error.message })
   }
 
+  // 校验必填字段（model 与消息数组），失败时抛出 invalid_request 错误
+  private validateRequiredFields(model: unknown, messages: unknown, param: string): void {
+    if (!model || typeof model !== 'string') {
+      throw new ProxyError('invalid_request', 'you must provide a model parameter', { param: 'model' })
+    }
+    if (!Array.isArray(messages) || messages.length === 0) {
+      throw new ProxyError('invalid_request', `'${param}' must be a non-empty array`, { param })
+    }
+  }
+
   // 读取请求体
-  private readBody(req: http.IncomingMessage): Promise<string> {
-    return new Promise((resolve, reject) => {
-      let body = ''
-      req.on('data', chunk => body += chunk)
-      req.on('end', () => resolve(body))
+  private async readBody(req: http.IncomingMessage): Promise<string> {
+    const body = await new Promise<string>((resolve, reject) => {
+      let data = ''
+      req.on('data', chunk => data += chunk)
+      req.on('end', () => resolve(data))
       req.on('error', reject)
     })
+    // 事件回调不在抓包上下文中，等 Promise 返回后再记录
+    captureRequestBody(body)
+    return body
   }
 
-  // 发送错误响应
-  private sendError(res: http.ServerResponse, status: number, message: string): void {
+  // 发送错误响应（按协议生成 OpenAI / Anthropic 格式的错误体），返回 HTTP 状态码
+  private sendError(res: http.ServerResponse, error: Error, format: ProxyErrorFormat = 'openai'): number {
+    const proxyError = classifyError(error)
+    const status = getErrorStatus(proxyError.kind, format)
+    // 流式响应已开始时无法再修改状态码，只能结束连接
+    if (res.headersSent) {
+      if (!res.writableEnded) res.end()
+      return status
+    }
     res.writeHead(status, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({ error: { message, type: 'error', code: status } }))
+    res.end(JSON.stringify(buildErrorBody(proxyError, format)))
+    return status
   }
 
-  // 记录请求到 recentRequests
+  // 记录请求到 recentRequests，并写入日志存储（用于按模型 / API Key 查询请求历史）和 Prometheus 指标
   private recordRequest(log: {
     path: string
     model?: string
@@ -1928,21 +3695,44 @@ export class ProxyServer {
     success: boolean
     error?: string
   }): void {
-    this.stats.recentRequests.push({
+    const entry: RequestLog = {
       timestamp: Date.now(),
       path: log.path,
       model: log.model || 'unknown',
       accountId: log.accountId || 'unknown',
+      apiKeyId: getLogContext()?.apiKeyId,
       inputTokens: log.inputTokens || 0,
       outputTokens: log.outputTokens || 0,
       credits: log.credits,
       responseTime: log.responseTime || 0,
       success: log.success,
       error: log.error
-    })
+    }
+    this.stats.recentRequests.push(entry)
+    recordRequestTelemetry(entry)
     // 只保留最近 100 条
     if (this.stats.recentRequests.length > 100) {
       this.stats.recentRequests = this.stats.recentRequests.slice(-100)
     }
+
+    const message = `${entry.path} ${entry.model} ${entry.success ? 'OK' : 'FAILED'} (${entry.responseTime}ms)`
+    if (entry.success) {
+      proxyLogger.info(this.REQUEST_LOG_CATEGORY, message, entry)
+    } else {
+      proxyLogger.error(this.REQUEST_LOG_CATEGORY, message, entry)
+    }
+  }
+
+  // 从日志存储恢复最近的请求记录（重启后统计页面仍可看到请求历史）
+  private loadRecentRequests(): RequestLog[] {
+    try {
+      return proxyLogStore.query({ category: this.REQUEST_LOG_CATEGORY, limit: 100 }).entries
+        .map(entry => entry.data as RequestLog)
+        .filter(log => log && typeof log.timestamp === 'number')
+        .reverse()
+    } catch (error) {
+      console.error('[ProxyServer] Failed to load recent requests:', error)
+      return []
+    }
   }
 }
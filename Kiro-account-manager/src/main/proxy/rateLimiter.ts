@@ -0,0 +1,175 @@
+// API Key 限流：每分钟请求数 / tokens 和并发数（滑动窗口，进程内状态），以及按天 / 按月重置的 Credits 预算
+import type { ApiKey, ApiKeyRateLimitStatus } from './types'
+
+const WINDOW_MS = 60 * 1000
+
+export interface RateLimitDecision {
+  allowed: boolean
+  kind?: 'rate_limit' | 'quota'
+  reason?: string
+  headers: Record<string, string>  // x-ratelimit-* 和 Retry-After
+  release: () => void  // 请求结束时调用，释放并发名额
+}
+
+interface KeyState {
+  requests: number[]  // 最近一分钟内的请求时间
+  tokens: Array<{ time: number; tokens: number }>  // 最近一分钟内完成的请求用量
+  active: number
+}
+
+// 距下一个 UTC 0 点 / 下个月 1 日的时间（与 usage.daily 的 UTC 日期键一致）
+function getNextDayStart(now: number): number {
+  const date = new Date(now)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+}
+
+function getNextMonthStart(now: number): number {
+  const date = new Date(now)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)
+}
+
+// 重置时间格式与 OpenAI 一致：如 20ms、1s、6m0s
+function formatReset(ms: number): string {
+  if (ms <= 0) return '0s'
+  if (ms < 1000) return `${Math.ceil(ms)}ms`
+  const totalSeconds = Math.ceil(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  if (hours > 0) return `${hours}h${minutes}m${seconds}s`
+  if (minutes > 0) return `${minutes}m${seconds}s`
+  return `${seconds}s`
+}
+
+// 今天和本月已使用的 Credits
+function getBudgetUsage(apiKey: ApiKey, now: number): { daily: number; monthly: number } {
+  const today = new Date(now).toISOString().split('T')[0]
+  const month = today.slice(0, 7)
+  let monthly = 0
+  for (const [date, stats] of Object.entries(apiKey.usage.daily)) {
+    if (date.startsWith(month)) monthly += stats.credits
+  }
+  return { daily: apiKey.usage.daily[today]?.credits || 0, monthly }
+}
+
+function hasLimits(apiKey: ApiKey): boolean {
+  const limits = apiKey.rateLimits
+  return !!limits && Object.values(limits).some(value => typeof value === 'number' && value > 0)
+}
+
+export class ApiKeyRateLimiter {
+  private states = new Map<string, KeyState>()
+
+  // 检查并占用请求名额，cost 为占用的请求数和并发数（如 n > 1 的多候选请求）
+  acquire(apiKey: ApiKey, now: number = Date.now(), cost: number = 1): RateLimitDecision {
+    const noop = (): void => {}
+    if (!hasLimits(apiKey)) return { allowed: true, headers: {}, release: noop }
+
+    const limits = apiKey.rateLimits!
+    const state = this.getState(apiKey.id, now)
+    const headers: Record<string, string> = {}
+    const deny = (kind: 'rate_limit' | 'quota', reason: string, retryAfterMs: number): RateLimitDecision => {
+      headers['Retry-After'] = String(Math.max(1, Math.ceil(retryAfterMs / 1000)))
+      return { allowed: false, kind, reason, headers, release: noop }
+    }
+
+    // 每分钟请求数（当前请求通过后计入）
+    const rpm = limits.requestsPerMinute || 0
+    const requestsReset = state.requests.length > 0 ? state.requests[0] + WINDOW_MS - now : 0
+    if (rpm > 0) {
+      headers['x-ratelimit-limit-requests'] = String(rpm)
+      headers['x-ratelimit-remaining-requests'] = String(Math.max(0, rpm - state.requests.length - cost))
+      headers['x-ratelimit-reset-requests'] = formatReset(requestsReset)
+    }
+
+    // 每分钟 tokens（请求完成后才计入）
+    const tpm = limits.tokensPerMinute || 0
+    const usedTokens = state.tokens.reduce((sum, item) => sum + item.tokens, 0)
+    if (tpm > 0) {
+      let tokensReset = 0
+      let excess = usedTokens - tpm
+      for (const item of state.tokens) {
+        if (excess < 0) break
+        excess -= item.tokens
+        tokensReset = item.time + WINDOW_MS - now
+      }
+      headers['x-ratelimit-limit-tokens'] = String(tpm)
+      headers['x-ratelimit-remaining-tokens'] = String(Math.max(0, tpm - usedTokens))
+      headers['x-ratelimit-reset-tokens'] = formatReset(tokensReset)
+      if (usedTokens >= tpm) {
+        return deny('rate_limit', `Rate limit reached for API key: ${tpm} tokens per minute`, tokensReset)
+      }
+    }
+
+    if (rpm > 0 && state.requests.length + cost > rpm) {
+      headers['x-ratelimit-remaining-requests'] = '0'
+      return deny('rate_limit', `Rate limit reached for API key: ${rpm} requests per minute`, requestsReset)
+    }
+
+    const maxConcurrent = limits.maxConcurrent || 0
+    if (maxConcurrent > 0 && state.active + cost > maxConcurrent) {
+      return deny('rate_limit', `Too many concurrent requests for API key (limit ${maxConcurrent})`, 1000)
+    }
+
+    // Credits 预算
+    if (limits.dailyCreditsBudget || limits.monthlyCreditsBudget) {
+      const usage = getBudgetUsage(apiKey, now)
+      if (limits.dailyCreditsBudget && usage.daily >= limits.dailyCreditsBudget) {
+        return deny('quota', `Daily credits budget exceeded (${limits.dailyCreditsBudget})`, getNextDayStart(now) - now)
+      }
+      if (limits.monthlyCreditsBudget && usage.monthly >= limits.monthlyCreditsBudget) {
+        return deny('quota', `Monthly credits budget exceeded (${limits.monthlyCreditsBudget})`, getNextMonthStart(now) - now)
+      }
+    }
+
+    for (let i = 0; i < cost; i++) state.requests.push(now)
+    state.active += cost
+    let released = false
+    return {
+      allowed: true,
+      headers,
+      release: (): void => {
+        if (released) return
+        released = true
+        state.active = Math.max(0, state.active - cost)
+      }
+    }
+  }
+
+  // 请求完成后记录 tokens 用量
+  recordTokens(apiKeyId: string, tokens: number, now: number = Date.now()): void {
+    if (tokens <= 0) return
+    this.getState(apiKeyId, now).tokens.push({ time: now, tokens })
+  }
+
+  getStatus(apiKey: ApiKey, now: number = Date.now()): ApiKeyRateLimitStatus {
+    const state = this.getState(apiKey.id, now)
+    const usage = getBudgetUsage(apiKey, now)
+    return {
+      requestsLastMinute: state.requests.length,
+      tokensLastMinute: state.tokens.reduce((sum, item) => sum + item.tokens, 0),
+      activeRequests: state.active,
+      dailyCredits: usage.daily,
+      monthlyCredits: usage.monthly,
+      dailyResetAt: getNextDayStart(now),
+      monthlyResetAt: getNextMonthStart(now)
+    }
+  }
+
+  // 获取状态并清理滑动窗口外的记录
+  private getState(apiKeyId: string, now: number): KeyState {
+    let state = this.states.get(apiKeyId)
+    if (!state) {
+      state = { requests: [], tokens: [], active: 0 }
+      this.states.set(apiKeyId, state)
+    }
+    const windowStart = now - WINDOW_MS
+    while (state.requests.length > 0 && state.requests[0] <= windowStart) {
+      state.requests.shift()
+    }
+    while (state.tokens.length > 0 && state.tokens[0].time <= windowStart) {
+      state.tokens.shift()
+    }
+    return state
+  }
+}
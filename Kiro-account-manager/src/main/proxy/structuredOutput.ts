@@ -0,0 +1,265 @@
+// 结构化输出：OpenAI response_format（json_object / json_schema）的提示注入、输出解析与 Schema 校验
+import { ProxyError } from './errors'
+import type { JsonSchema, OpenAIResponseFormat } from './types'
+
+// 校验失败时的最大尝试次数（含首次请求）
+export const MAX_STRUCTURED_OUTPUT_ATTEMPTS = 3
+
+// 单次返回给模型/客户端的最大错误条数
+const MAX_REPORTED_ERRORS = 10
+
+export interface StructuredOutputSpec {
+  type: 'json_object' | 'json_schema'
+  name?: string
+  description?: string
+  schema?: JsonSchema
+}
+
+export type StructuredOutputCheck =
+  | { valid: true; json: string }
+  | { valid: false; errors: string[] }
+
+// 解析 response_format，type 为 text 或未设置时返回 null，非法参数抛出 invalid_request
+export function getStructuredOutputSpec(format?: OpenAIResponseFormat): StructuredOutputSpec | null {
+  if (!format || !format.type || format.type === 'text') return null
+
+  if (format.type === 'json_object') {
+    return { type: 'json_object' }
+  }
+
+  if (format.type === 'json_schema') {
+    const jsonSchema = format.json_schema
+    if (!jsonSchema || !jsonSchema.schema || typeof jsonSchema.schema !== 'object') {
+      throw new ProxyError('invalid_request', "Missing required parameter: 'response_format.json_schema.schema'.", { param: 'response_format.json_schema.schema' })
+    }
+    return {
+      type: 'json_schema',
+      name: jsonSchema.name,
+      description: jsonSchema.description,
+      schema: jsonSchema.schema
+    }
+  }
+
+  throw new ProxyError('invalid_request', `Invalid value: '${format.type}'. Supported values are: 'text', 'json_object' and 'json_schema'.`, { param: 'response_format.type' })
+}
+
+// 生成注入到用户消息末尾的格式约束提示
+export function buildStructuredOutputPrompt(spec: StructuredOutputSpec): string {
+  if (spec.type === 'json_object') {
+    return `<response_format>
+Respond with a single valid JSON object and nothing else.
+Do not wrap it in markdown code fences and do not add any explanation before or after it.
+</response_format>`
+  }
+
+  const lines = [
+    '<response_format>',
+    `Respond with a single JSON value that strictly conforms to the following JSON Schema${spec.name ? ` ("${spec.name}")` : ''}.`
+  ]
+  if (spec.description) {
+    lines.push(`Purpose: ${spec.description}`)
+  }
+  lines.push(
+    'Include every required property, use the exact property names and types, and do not add properties the schema does not allow.',
+    'Do not wrap it in markdown code fences and do not add any explanation before or after it.',
+    '',
+    JSON.stringify(spec.schema, null, 2),
+    '</response_format>'
+  )
+  return lines.join('\n')
+}
+
+// 生成校验失败后的修复提示
+export function buildStructuredOutputRepairPrompt(errors: string[]): string {
+  return `Your previous response did not satisfy the required response format:
+${errors.slice(0, MAX_REPORTED_ERRORS).map(e => `- ${e}`).join('\n')}
+
+Reply again with only the corrected JSON.`
+}
+
+// 从模型输出中提取 JSON 并按 response_format 校验
+export function checkStructuredOutput(text: string, spec: StructuredOutputSpec): StructuredOutputCheck {
+  const json = extractJsonText(text)
+  if (json === null) {
+    return { valid: false, errors: ['response is not valid JSON'] }
+  }
+
+  const value: unknown = JSON.parse(json)
+  if (spec.type === 'json_object') {
+    if (!isPlainObject(value)) {
+      return { valid: false, errors: [`$: expected a JSON object, got ${describeType(value)}`] }
+    }
+    return { valid: true, json }
+  }
+
+  const errors = validateJsonSchema(value, spec.schema || {})
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, json }
+}
+
+// 提取输出中的 JSON 文本（去掉思考内容与 markdown 代码块），无法解析时返回 null
+function extractJsonText(text: string): string | null {
+  const cleaned = text.replace(/<thinking>[\s\S]*?<\/thinking>/g, '').trim()
+  const candidates = [cleaned]
+
+  const fenced = cleaned.match(/```(?:json)?\s*\n?([\s\S]*?)```/)
+  if (fenced) candidates.push(fenced[1].trim())
+
+  // 模型在 JSON 前后附带说明文字时，截取第一个 { / [ 到最后一个 } / ]
+  const start = cleaned.search(/[{[]/)
+  const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'))
+  if (start !== -1 && end > start) candidates.push(cleaned.slice(start, end + 1))
+
+  for (const candidate of candidates) {
+    try {
+      JSON.parse(candidate)
+      return candidate
+    } catch { /* 尝试下一个候选 */ }
+  }
+  return null
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null': return value === null
+    case 'boolean': return typeof value === 'boolean'
+    case 'string': return typeof value === 'string'
+    case 'number': return typeof value === 'number' && Number.isFinite(value)
+    case 'integer': return typeof value === 'number' && Number.isInteger(value)
+    case 'array': return Array.isArray(value)
+    case 'object': return isPlainObject(value)
+    default: return true
+  }
+}
+
+// 解析本地 $ref（#/$defs/... 或 #/definitions/...）
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | null {
+  if (!ref.startsWith('#')) return null
+  let node: unknown = root
+  for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    if (!isPlainObject(node)) return null
+    node = node[key]
+  }
+  return isPlainObject(node) ? (node as JsonSchema) : null
+}
+
+// 按 JSON Schema 校验，返回错误列表（空数组表示通过）
+export function validateJsonSchema(value: unknown, schema: JsonSchema, root: JsonSchema = schema, path = '$'): string[] {
+  if (schema.$ref) {
+    const resolved = resolveRef(schema.$ref, root)
+    if (!resolved) return [`${path}: unresolvable $ref '${schema.$ref}'`]
+    return validateJsonSchema(value, resolved, root, path)
+  }
+
+  if (value === null && schema.nullable) return []
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`]
+    }
+  }
+
+  const errors: string[] = []
+
+  if (schema.enum && !schema.enum.some(item => deepEqual(item, value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`)
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`)
+  }
+
+  if (schema.allOf) {
+    for (const sub of schema.allOf) errors.push(...validateJsonSchema(value, sub, root, path))
+  }
+  if (schema.anyOf && !schema.anyOf.some(sub => validateJsonSchema(value, sub, root, path).length === 0)) {
+    errors.push(`${path}: does not match any of the allowed schemas (anyOf)`)
+  }
+  if (schema.oneOf) {
+    const matched = schema.oneOf.filter(sub => validateJsonSchema(value, sub, root, path).length === 0).length
+    if (matched !== 1) errors.push(`${path}: must match exactly one schema in oneOf (matched ${matched})`)
+  }
+  if (schema.not && validateJsonSchema(value, schema.not, root, path).length === 0) {
+    errors.push(`${path}: must not match the schema in 'not'`)
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path}: must be at least ${schema.minLength} characters`)
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path}: must be at most ${schema.maxLength} characters`)
+    if (schema.pattern) {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) errors.push(`${path}: must match pattern ${schema.pattern}`)
+      } catch { /* 忽略无法编译的正则 */ }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`)
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`)
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) errors.push(`${path}: must be > ${schema.exclusiveMinimum}`)
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) errors.push(`${path}: must be < ${schema.exclusiveMaximum}`)
+    if (schema.multipleOf && Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-9) {
+      errors.push(`${path}: must be a multiple of ${schema.multipleOf}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: must have at least ${schema.minItems} items`)
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: must have at most ${schema.maxItems} items`)
+    if (schema.uniqueItems && value.some((item, i) => value.findIndex(other => deepEqual(other, item)) !== i)) {
+      errors.push(`${path}: items must be unique`)
+    }
+
+    const tupleSchemas = schema.prefixItems || (Array.isArray(schema.items) ? schema.items : [])
+    value.forEach((item, i) => {
+      const itemSchema = i < tupleSchemas.length
+        ? tupleSchemas[i]
+        : (!Array.isArray(schema.items) ? schema.items : undefined)
+      if (itemSchema) errors.push(...validateJsonSchema(item, itemSchema, root, `${path}[${i}]`))
+    })
+  }
+
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value)
+    if (schema.minProperties !== undefined && keys.length < schema.minProperties) errors.push(`${path}: must have at least ${schema.minProperties} properties`)
+    if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) errors.push(`${path}: must have at most ${schema.maxProperties} properties`)
+
+    for (const key of schema.required || []) {
+      if (!(key in value)) errors.push(`${path}: missing required property '${key}'`)
+    }
+
+    const properties = schema.properties || {}
+    for (const key of keys) {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(value[key], properties[key], root, `${path}.${key}`))
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property '${key}'`)
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(value[key], schema.additionalProperties, root, `${path}.${key}`))
+      }
+    }
+  }
+
+  return errors
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  const aKeys = Object.keys(a)
+  const bKeys = Object.keys(b)
+  if (aKeys.length !== bKeys.length) return false
+  return aKeys.every(key => deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+}
@@ -0,0 +1,438 @@
+// 代理可观测性：Prometheus 指标（/metrics）和 OpenTelemetry 链路追踪（OTLP/HTTP JSON 导出）
+import * as http from 'http'
+import { randomBytes } from 'crypto'
+import { AsyncLocalStorage } from 'async_hooks'
+import type { TracingConfig } from './types'
+
+type Labels = Record<string, string>
+type AttributeValue = string | number | boolean
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+export const DEFAULT_OTLP_TRACES_ENDPOINT = 'http://127.0.0.1:4318/v1/traces'
+
+// 延迟直方图的桶（秒）：覆盖从快速失败到长时间的流式生成
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300]
+// 会被当作独立路由统计的路径，其余归为 other（避免未知路径导致标签爆炸）
+const KNOWN_ROUTES = new Set([
+  '/', '/health', '/metrics', '/v1/models', '/models', '/v1/chat/completions', '/chat/completions',
+  '/v1/completions', '/completions', '/v1/responses', '/responses', '/v1/messages', '/messages',
+  '/anthropic/v1/messages', '/v1/messages/count_tokens', '/messages/count_tokens', '/v1beta/models',
+  '/v1beta/generateContent', '/v1beta/streamGenerateContent', '/api/tags', '/api/version', '/api/show',
+  '/api/chat', '/api/generate', '/api/event_logging/batch',
+  '/admin/stats', '/admin/accounts', '/admin/config', '/admin/logs'
+])
+
+// 路由标签：去掉查询参数，Gemini 路径中的模型名替换为占位符
+function normalizeRoute(path: string): string {
+  const pathname = path.split('?')[0]
+  const geminiMatch = pathname.match(/^\/v1(?:beta)?\/models\/[^/:]+(?::(generateContent|streamGenerateContent))?$/)
+  if (geminiMatch) {
+    return geminiMatch[1] ? `/v1beta/models/{model}:${geminiMatch[1]}` : '/v1beta/models/{model}'
+  }
+  return KNOWN_ROUTES.has(pathname) ? pathname : 'other'
+}
+
+// ============ Prometheus 指标 ============
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatLabels(names: string[], values: string[], extra?: string): string {
+  const pairs = names.map((name, i) => `${name}="${escapeLabelValue(values[i])}"`)
+  if (extra) pairs.push(extra)
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+function formatValue(value: number): string {
+  if (value === Number.POSITIVE_INFINITY) return '+Inf'
+  return Number.isInteger(value) ? String(value) : value.toPrecision(12).replace(/\.?0+$/, '')
+}
+
+class Counter {
+  private series = new Map<string, { values: string[]; value: number }>()
+
+  constructor(readonly name: string, readonly help: string, readonly labelNames: string[], private type: 'counter' | 'gauge' = 'counter') {}
+
+  inc(labels: Labels, value: number = 1): void {
+    if (!Number.isFinite(value) || value <= 0) return
+    this.getSeries(labels).value += value
+  }
+
+  set(labels: Labels, value: number): void {
+    this.getSeries(labels).value = value
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`]
+    for (const series of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(this.labelNames, series.values)} ${formatValue(series.value)}`)
+    }
+    return lines
+  }
+
+  private getSeries(labels: Labels): { values: string[]; value: number } {
+    const values = this.labelNames.map(name => labels[name] || '')
+    const key = values.join('\u0000')
+    let series = this.series.get(key)
+    if (!series) {
+      series = { values, value: 0 }
+      this.series.set(key, series)
+    }
+    return series
+  }
+}
+
+class Histogram {
+  private series = new Map<string, { values: string[]; counts: number[]; sum: number; count: number }>()
+
+  constructor(readonly name: string, readonly help: string, readonly labelNames: string[], private buckets: number[] = DURATION_BUCKETS) {}
+
+  observe(labels: Labels, value: number): void {
+    if (!Number.isFinite(value) || value < 0) return
+    const values = this.labelNames.map(name => labels[name] || '')
+    const key = values.join('\u0000')
+    let series = this.series.get(key)
+    if (!series) {
+      series = { values, counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, series)
+    }
+    this.buckets.forEach((bucket, i) => {
+      if (value <= bucket) series!.counts[i]++
+    })
+    series.sum += value
+    series.count++
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`]
+    for (const series of this.series.values()) {
+      this.buckets.forEach((bucket, i) => {
+        lines.push(`${this.name}_bucket${formatLabels(this.labelNames, series.values, `le="${formatValue(bucket)}"`)} ${series.counts[i]}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels(this.labelNames, series.values, 'le="+Inf"')} ${series.count}`)
+      lines.push(`${this.name}_sum${formatLabels(this.labelNames, series.values)} ${formatValue(series.sum)}`)
+      lines.push(`${this.name}_count${formatLabels(this.labelNames, series.values)} ${series.count}`)
+    }
+    return lines
+  }
+}
+
+// 代理的全部指标（进程内累计，不随统计重置清零）
+const metrics = {
+  httpRequests: new Counter('kiro_proxy_http_requests_total', 'HTTP requests handled by the proxy', ['route', 'method', 'status']),
+  httpDuration: new Histogram('kiro_proxy_http_request_duration_seconds', 'HTTP request duration in seconds', ['route']),
+  requests: new Counter('kiro_proxy_requests_total', 'Model requests by result', ['route', 'model', 'endpoint', 'api_key', 'account', 'result']),
+  requestDuration: new Histogram('kiro_proxy_request_duration_seconds', 'Model request duration in seconds', ['route', 'model', 'endpoint']),
+  tokens: new Counter('kiro_proxy_tokens_total', 'Tokens processed', ['type', 'model', 'endpoint', 'api_key', 'account']),
+  credits: new Counter('kiro_proxy_credits_total', 'Kiro credits consumed', ['model', 'endpoint', 'api_key', 'account']),
+  upstreamRequests: new Counter('kiro_proxy_upstream_requests_total', 'Upstream Kiro API calls', ['endpoint', 'status']),
+  upstreamDuration: new Histogram('kiro_proxy_upstream_request_duration_seconds', 'Upstream Kiro API call duration in seconds', ['endpoint']),
+  activeRequests: new Counter('kiro_proxy_active_requests', 'HTTP requests currently in progress', [], 'gauge'),
+  accounts: new Counter('kiro_proxy_accounts', 'Accounts in the pool by availability', ['state'], 'gauge'),
+  uptime: new Counter('kiro_proxy_uptime_seconds', 'Seconds since the proxy server started', [], 'gauge')
+}
+let activeRequests = 0
+
+// 输出 Prometheus 文本格式（账号和运行时间由调用方在输出前更新）
+export function renderMetrics(snapshot: { availableAccounts: number; totalAccounts: number; uptimeSeconds: number }): string {
+  metrics.accounts.set({ state: 'available' }, snapshot.availableAccounts)
+  metrics.accounts.set({ state: 'unavailable' }, snapshot.totalAccounts - snapshot.availableAccounts)
+  metrics.uptime.set({}, snapshot.uptimeSeconds)
+  metrics.activeRequests.set({}, activeRequests)
+  return Object.values(metrics).flatMap(metric => metric.render()).join('\n') + '\n'
+}
+
+// ============ 链路追踪 ============
+
+interface SpanData {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  name: string
+  kind: number  // 2 = SERVER, 3 = CLIENT
+  startTime: number
+  endTime: number
+  attributes: Record<string, AttributeValue>
+  error?: string
+}
+
+interface TelemetryContext {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  startTime: number
+  endpoint?: string  // 最近一次成功的上游端点（CodeWhisperer / AmazonQ）
+  failed?: string  // 请求失败原因（recordRequestTelemetry 记录）
+  attributes: Record<string, AttributeValue>
+  children: SpanData[] | null  // 未开启追踪时为 null
+}
+
+const SPAN_KIND_SERVER = 2
+const SPAN_KIND_CLIENT = 3
+// 导出批次大小、间隔和队列上限（collector 不可用时丢弃最旧的 Span）
+const EXPORT_BATCH_SIZE = 256
+const EXPORT_DELAY_MS = 2000
+const EXPORT_TIMEOUT_MS = 5000
+const MAX_QUEUED_SPANS = 4096
+
+const telemetryStorage = new AsyncLocalStorage<TelemetryContext>()
+
+function randomId(bytes: number): string {
+  return randomBytes(bytes).toString('hex')
+}
+
+// 解析 W3C traceparent，接入客户端已有的链路
+function parseTraceparent(header: string | string[] | undefined): { traceId: string; parentSpanId: string } | null {
+  if (typeof header !== 'string') return null
+  const match = header.trim().match(/^[\da-f]{2}-([\da-f]{32})-([\da-f]{16})-[\da-f]{2}$/)
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return null
+  return { traceId: match[1], parentSpanId: match[2] }
+}
+
+function toOtlpAttributes(attributes: Record<string, AttributeValue>): Array<{ key: string; value: Record<string, AttributeValue> }> {
+  return Object.entries(attributes).map(([key, value]): { key: string; value: Record<string, AttributeValue> } => {
+    if (typeof value === 'boolean') return { key, value: { boolValue: value } }
+    if (typeof value === 'number') {
+      return { key, value: Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value } }
+    }
+    return { key, value: { stringValue: value } }
+  })
+}
+
+// 毫秒时间戳转为纳秒字符串
+function toUnixNano(ms: number): string {
+  return `${Math.round(ms)}000000`
+}
+
+class TraceExporter {
+  private config: TracingConfig | undefined
+  private queue: SpanData[] = []
+  private timer: NodeJS.Timeout | null = null
+  private lastErrorLogAt = 0
+
+  configure(config: TracingConfig | undefined): void {
+    this.config = config
+    if (!this.enabled) {
+      this.queue = []
+    }
+  }
+
+  get enabled(): boolean {
+    return this.config?.enabled === true
+  }
+
+  add(spans: SpanData[]): void {
+    if (!this.enabled) return
+    this.queue.push(...spans)
+    if (this.queue.length > MAX_QUEUED_SPANS) {
+      this.queue = this.queue.slice(-MAX_QUEUED_SPANS)
+    }
+    if (this.queue.length >= EXPORT_BATCH_SIZE) {
+      void this.flush()
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), EXPORT_DELAY_MS)
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    const config = this.config
+    if (!config?.enabled || this.queue.length === 0) return
+
+    const spans = this.queue.splice(0, EXPORT_BATCH_SIZE)
+    try {
+      const response = await fetch(config.endpoint || DEFAULT_OTLP_TRACES_ENDPOINT, {
+        method: 'POST',
+        headers: { ...config.headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify(this.buildPayload(spans, config.serviceName || 'kiro-proxy')),
+        signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS)
+      })
+      if (!response.ok) {
+        throw new Error(`Collector responded with ${response.status}`)
+      }
+    } catch (error) {
+      // collector 不可用时每分钟最多输出一次错误
+      if (Date.now() - this.lastErrorLogAt > 60000) {
+        this.lastErrorLogAt = Date.now()
+        console.warn('[Telemetry] Failed to export traces:', (error as Error).message)
+      }
+    }
+    if (this.queue.length > 0 && !this.timer) {
+      this.timer = setTimeout(() => void this.flush(), EXPORT_DELAY_MS)
+    }
+  }
+
+  private buildPayload(spans: SpanData[], serviceName: string): unknown {
+    return {
+      resourceSpans: [{
+        resource: { attributes: toOtlpAttributes({ 'service.name': serviceName }) },
+        scopeSpans: [{
+          scope: { name: 'kiro-account-manager/proxy' },
+          spans: spans.map(span => ({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            parentSpanId: span.parentSpanId || '',
+            name: span.name,
+            kind: span.kind,
+            startTimeUnixNano: toUnixNano(span.startTime),
+            endTimeUnixNano: toUnixNano(span.endTime),
+            attributes: toOtlpAttributes(span.attributes),
+            status: span.error ? { code: 2, message: span.error } : { code: 1 }
+          }))
+        }]
+      }]
+    }
+  }
+}
+
+const traceExporter = new TraceExporter()
+
+// 更新追踪导出配置
+export function configureTraceExport(config: TracingConfig | undefined): void {
+  traceExporter.configure(config)
+}
+
+// 立即导出队列中的 Span（退出前调用）
+export function flushTraces(): Promise<void> {
+  return traceExporter.flush()
+}
+
+// ============ 请求遥测 ============
+
+// 在遥测上下文中处理请求：请求结束时记录 HTTP 指标，开启追踪时导出请求 Span 和上游调用 Span
+export function runWithTelemetry(req: http.IncomingMessage, res: http.ServerResponse, handler: () => Promise<void>): Promise<void> {
+  const method = req.method || 'GET'
+  const route = normalizeRoute(req.url || '/')
+  const parent = parseTraceparent(req.headers['traceparent'])
+  const context: TelemetryContext = {
+    traceId: parent?.traceId || randomId(16),
+    spanId: randomId(8),
+    parentSpanId: parent?.parentSpanId,
+    startTime: Date.now(),
+    attributes: {
+      'http.request.method': method,
+      'http.route': route
+    },
+    children: traceExporter.enabled ? [] : null
+  }
+  activeRequests++
+
+  res.on('close', () => {
+    activeRequests--
+    const endTime = Date.now()
+    const status = res.statusCode
+    metrics.httpRequests.inc({ route, method, status: String(status) })
+    metrics.httpDuration.observe({ route }, (endTime - context.startTime) / 1000)
+
+    if (context.children) {
+      context.attributes['http.response.status_code'] = status
+      if (context.endpoint) context.attributes['kiro.endpoint'] = context.endpoint
+      const error = status >= 500 ? context.failed || `HTTP ${status}` : context.failed
+      traceExporter.add([
+        {
+          traceId: context.traceId,
+          spanId: context.spanId,
+          parentSpanId: context.parentSpanId,
+          name: `${method} ${route}`,
+          kind: SPAN_KIND_SERVER,
+          startTime: context.startTime,
+          endTime,
+          attributes: context.attributes,
+          error
+        },
+        ...context.children
+      ])
+    }
+  })
+
+  return telemetryStorage.run(context, handler)
+}
+
+// 记录一次模型请求的结果（模型、账号、API Key、Token、Credits），同时写入当前请求的 Span 属性
+export function recordRequestTelemetry(log: {
+  path: string
+  model: string
+  accountId: string
+  apiKeyId?: string
+  inputTokens: number
+  outputTokens: number
+  credits?: number
+  responseTime: number
+  success: boolean
+  error?: string
+}): void {
+  const context = telemetryStorage.getStore()
+  const route = normalizeRoute(log.path)
+  const endpoint = context?.endpoint || 'none'
+  const apiKey = log.apiKeyId || 'none'
+  const labels = { model: log.model, endpoint, api_key: apiKey, account: log.accountId }
+
+  metrics.requests.inc({ ...labels, route, result: log.success ? 'success' : 'error' })
+  metrics.requestDuration.observe({ route, model: log.model, endpoint }, log.responseTime / 1000)
+  metrics.tokens.inc({ ...labels, type: 'input' }, log.inputTokens)
+  metrics.tokens.inc({ ...labels, type: 'output' }, log.outputTokens)
+  metrics.credits.inc(labels, log.credits || 0)
+
+  if (context?.children) {
+    Object.assign(context.attributes, {
+      'gen_ai.request.model': log.model,
+      'gen_ai.usage.input_tokens': log.inputTokens,
+      'gen_ai.usage.output_tokens': log.outputTokens,
+      'kiro.account_id': log.accountId,
+      'kiro.credits': log.credits || 0
+    })
+    if (log.apiKeyId) context.attributes['kiro.api_key_id'] = log.apiKeyId
+    if (!log.success) context.failed = log.error || 'Request failed'
+  }
+}
+
+export interface UpstreamSpan {
+  setStatus(status: number): void
+  end(error?: string): void
+}
+
+// 开始一次上游 Kiro API 调用（每个端点尝试一次），结束时记录上游指标和子 Span
+export function startUpstreamSpan(endpoint: string, url: string): UpstreamSpan {
+  const context = telemetryStorage.getStore()
+  const startTime = Date.now()
+  let status: number | undefined
+  let ended = false
+
+  return {
+    setStatus(value: number): void {
+      status = value
+    },
+    end(error?: string): void {
+      if (ended) return
+      ended = true
+      const endTime = Date.now()
+      metrics.upstreamRequests.inc({ endpoint, status: status !== undefined ? String(status) : 'error' })
+      metrics.upstreamDuration.observe({ endpoint }, (endTime - startTime) / 1000)
+      if (!context) return
+      if (!error) context.endpoint = endpoint
+      if (!context.children) return
+
+      const attributes: Record<string, AttributeValue> = {
+        'http.request.method': 'POST',
+        'server.address': new URL(url).host,
+        'kiro.endpoint': endpoint
+      }
+      if (status !== undefined) attributes['http.response.status_code'] = status
+      context.children.push({
+        traceId: context.traceId,
+        spanId: randomId(8),
+        parentSpanId: context.spanId,
+        name: `${endpoint} generateAssistantResponse`,
+        kind: SPAN_KIND_CLIENT,
+        startTime,
+        endTime,
+        attributes,
+        error
+      })
+    }
+  }
+}
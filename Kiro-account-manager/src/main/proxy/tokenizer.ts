@@ -0,0 +1,290 @@
+// 本地 Token 计数：基于 Claude BPE 词表（data/claude-tokenizer.json，来自 @anthropic-ai/tokenizer，MIT 许可）
+// 该词表对应旧版 Claude 模型，对新模型是近似值，但远比按字符数估算准确
+import tokenizerData from './data/claude-tokenizer.json'
+import type {
+  ClaudeRequest,
+  ClaudeContentBlock,
+  ClaudeTool,
+  KiroPayload,
+  KiroUserInputMessage,
+  KiroToolUse
+} from './types'
+
+// 每条消息的角色/分隔符开销（近似值）
+const MESSAGE_OVERHEAD_TOKENS = 3
+// 每次请求的固定开销（对话起止标记）
+const REQUEST_OVERHEAD_TOKENS = 3
+// 启用工具时 Anthropic 注入的工具使用系统提示开销
+const TOOL_USE_SYSTEM_PROMPT_TOKENS = 346
+// 每个工具定义的额外开销
+const TOOL_OVERHEAD_TOKENS = 8
+// 图片：长边缩放到 1568 像素以内，约 750 像素 = 1 token，上限约 1600 token
+const IMAGE_MAX_EDGE = 1568
+const IMAGE_PIXELS_PER_TOKEN = 750
+const IMAGE_MAX_TOKENS = 1600
+// 单个预分词片段的最大字节数，过长的片段分段合并，避免 BPE 退化为 O(n²)
+const MAX_PIECE_BYTES = 256
+// 片段计数缓存上限
+const PIECE_CACHE_LIMIT = 20000
+
+interface BpeState {
+  ranks: Map<string, number>
+  pattern: RegExp
+}
+
+let bpeState: BpeState | null = null
+const pieceCache = new Map<string, number>()
+
+// 词表格式："<占位符> <起始 rank> <base64 token>..."，rank 依次递增
+// 首次使用时才解析，避免拖慢启动
+function getBpeState(): BpeState {
+  if (bpeState) return bpeState
+
+  const parts = tokenizerData.bpe_ranks.split(' ')
+  const startRank = parseInt(parts[1], 10)
+  const ranks = new Map<string, number>()
+  for (let i = 2; i < parts.length; i++) {
+    // 以 latin1 字符串表示字节序列，便于作为 Map 的 key
+    ranks.set(Buffer.from(parts[i], 'base64').toString('latin1'), startRank + i - 2)
+  }
+
+  bpeState = { ranks, pattern: new RegExp(tokenizerData.pat_str, 'gu') }
+  return bpeState
+}
+
+// 对单个字节序列执行 BPE 合并，返回 token 数
+function bytePairCount(bytes: string, ranks: Map<string, number>): number {
+  if (bytes.length <= 1 || ranks.has(bytes)) return 1
+
+  // boundaries[i] 为第 i 个 part 的起始位置
+  const boundaries: number[] = []
+  for (let i = 0; i <= bytes.length; i++) boundaries.push(i)
+
+  while (boundaries.length > 2) {
+    let minRank = Infinity
+    let minIndex = -1
+    for (let i = 0; i < boundaries.length - 2; i++) {
+      const rank = ranks.get(bytes.slice(boundaries[i], boundaries[i + 2]))
+      if (rank !== undefined && rank < minRank) {
+        minRank = rank
+        minIndex = i
+      }
+    }
+    if (minIndex === -1) break
+    boundaries.splice(minIndex + 1, 1)
+  }
+
+  return boundaries.length - 1
+}
+
+function countPieceTokens(piece: string, ranks: Map<string, number>): number {
+  const cached = pieceCache.get(piece)
+  if (cached !== undefined) return cached
+
+  const bytes = Buffer.from(piece, 'utf8').toString('latin1')
+  let count = 0
+  for (let offset = 0; offset < bytes.length; offset += MAX_PIECE_BYTES) {
+    count += bytePairCount(bytes.slice(offset, offset + MAX_PIECE_BYTES), ranks)
+  }
+
+  if (pieceCache.size >= PIECE_CACHE_LIMIT) pieceCache.clear()
+  pieceCache.set(piece, count)
+  return count
+}
+
+// 计算文本的 token 数
+export function countTextTokens(text: string | undefined | null): number {
+  if (!text) return 0
+
+  const { ranks, pattern } = getBpeState()
+  const normalized = text.normalize('NFKC')
+  let count = 0
+  for (const match of normalized.matchAll(pattern)) {
+    count += countPieceTokens(match[0], ranks)
+  }
+  return count
+}
+
+// 计算任意 JSON 值（工具参数、Schema 等）的 token 数
+function countJsonTokens(value: unknown): number {
+  if (value === undefined || value === null) return 0
+  return countTextTokens(typeof value === 'string' ? value : JSON.stringify(value))
+}
+
+// 从图片头部读取宽高（支持 PNG / JPEG / GIF / WebP）
+function readImageSize(data: Buffer): { width: number; height: number } | null {
+  // PNG: IHDR 中的宽高
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) }
+  }
+
+  // GIF: 逻辑屏幕宽高（小端）
+  if (data.length >= 10 && data.toString('ascii', 0, 3) === 'GIF') {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) }
+  }
+
+  // WebP: VP8 / VP8L / VP8X
+  if (data.length >= 30 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    const chunk = data.toString('ascii', 12, 16)
+    if (chunk === 'VP8 ') {
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff }
+    }
+    if (chunk === 'VP8L') {
+      const bits = data.readUInt32LE(21)
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+    }
+    if (chunk === 'VP8X') {
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 }
+    }
+    return null
+  }
+
+  // JPEG: 扫描 SOF 段
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) {
+        offset++
+        continue
+      }
+      const marker = data[offset + 1]
+      // 填充字节
+      if (marker === 0xff) {
+        offset++
+        continue
+      }
+      const isSof = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc
+      if (isSof) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) }
+      }
+      offset += 2 + data.readUInt16BE(offset + 2)
+    }
+  }
+
+  return null
+}
+
+// 计算图片的 token 数（base64 数据），无法识别尺寸时按上限计
+export function countImageTokens(base64Data: string | undefined): number {
+  if (!base64Data) return IMAGE_MAX_TOKENS
+
+  const size = readImageSize(Buffer.from(base64Data, 'base64'))
+  if (!size || size.width <= 0 || size.height <= 0) return IMAGE_MAX_TOKENS
+
+  const scale = Math.min(1, IMAGE_MAX_EDGE / Math.max(size.width, size.height))
+  const width = Math.round(size.width * scale)
+  const height = Math.round(size.height * scale)
+  return Math.min(IMAGE_MAX_TOKENS, Math.max(1, Math.ceil((width * height) / IMAGE_PIXELS_PER_TOKEN)))
+}
+
+// ============ Claude 请求计数 ============
+
+function countClaudeBlockTokens(block: ClaudeContentBlock): number {
+  switch (block.type) {
+    case 'text':
+      return countTextTokens(block.text)
+    case 'thinking':
+      return countTextTokens(block.thinking)
+    case 'image':
+      return block.source?.type === 'base64' ? countImageTokens(block.source.data) : IMAGE_MAX_TOKENS
+    case 'tool_use':
+      return countTextTokens(block.name) + countJsonTokens(block.input)
+    case 'tool_result':
+      return countClaudeContentTokens(block.content)
+    default:
+      return countJsonTokens(block)
+  }
+}
+
+function countClaudeContentTokens(content: string | ClaudeContentBlock[] | undefined): number {
+  if (!content) return 0
+  if (typeof content === 'string') return countTextTokens(content)
+  return content.reduce((sum, block) => sum + countClaudeBlockTokens(block), 0)
+}
+
+function countClaudeToolsTokens(tools: ClaudeTool[] | undefined): number {
+  if (!tools || tools.length === 0) return 0
+  let count = TOOL_USE_SYSTEM_PROMPT_TOKENS
+  for (const tool of tools) {
+    count += TOOL_OVERHEAD_TOKENS + countTextTokens(tool.name) + countTextTokens(tool.description) + countJsonTokens(tool.input_schema)
+  }
+  return count
+}
+
+// 计算 Claude Messages 请求的输入 token 数（system、messages、tools、图片）
+export function countClaudeRequestTokens(request: Pick<ClaudeRequest, 'messages' | 'system' | 'tools'>): number {
+  let count = REQUEST_OVERHEAD_TOKENS
+
+  if (typeof request.system === 'string') {
+    count += countTextTokens(request.system)
+  } else if (Array.isArray(request.system)) {
+    for (const block of request.system) {
+      count += countTextTokens(block.text)
+    }
+  }
+
+  for (const message of request.messages || []) {
+    count += MESSAGE_OVERHEAD_TOKENS + countClaudeContentTokens(message.content)
+  }
+
+  return count + countClaudeToolsTokens(request.tools)
+}
+
+// ============ Kiro 请求计数 ============
+
+function countKiroUserMessageTokens(message: KiroUserInputMessage): number {
+  let count = MESSAGE_OVERHEAD_TOKENS + countTextTokens(message.content)
+
+  for (const image of message.images || []) {
+    count += countImageTokens(image.source?.bytes)
+  }
+
+  for (const result of message.userInputMessageContext?.toolResults || []) {
+    for (const item of result.content || []) {
+      count += countTextTokens(item.text)
+    }
+  }
+
+  return count
+}
+
+function countKiroToolUsesTokens(toolUses: KiroToolUse[] | undefined): number {
+  if (!toolUses) return 0
+  return toolUses.reduce((sum, toolUse) => sum + countTextTokens(toolUse.name) + countJsonTokens(toolUse.input), 0)
+}
+
+// 计算发送给 Kiro 的 payload 的输入 token 数（用于上游未返回用量时的回退）
+export function countKiroPayloadTokens(payload: KiroPayload): number {
+  const state = payload.conversationState
+  const current = state.currentMessage.userInputMessage
+  let count = REQUEST_OVERHEAD_TOKENS
+
+  for (const message of state.history || []) {
+    if (message.userInputMessage) {
+      count += countKiroUserMessageTokens(message.userInputMessage)
+    }
+    if (message.assistantResponseMessage) {
+      count += MESSAGE_OVERHEAD_TOKENS
+        + countTextTokens(message.assistantResponseMessage.content)
+        + countKiroToolUsesTokens(message.assistantResponseMessage.toolUses)
+    }
+  }
+
+  count += countKiroUserMessageTokens(current)
+
+  const tools = current.userInputMessageContext?.tools
+  if (tools && tools.length > 0) {
+    count += TOOL_USE_SYSTEM_PROMPT_TOKENS
+    for (const tool of tools) {
+      const spec = tool.toolSpecification
+      count += TOOL_OVERHEAD_TOKENS + countTextTokens(spec.name) + countTextTokens(spec.description) + countJsonTokens(spec.inputSchema?.json)
+    }
+  }
+
+  return count
+}
+
+// 计算模型输出的 token 数（文本 + 工具调用）
+export function countOutputTokens(text: string, toolUses?: KiroToolUse[]): number {
+  return countTextTokens(text) + countKiroToolUsesTokens(toolUses)
+}
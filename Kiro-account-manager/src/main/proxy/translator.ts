@@ -1,4 +1,5 @@
 // OpenAI/Claude 格式与 Kiro 格式转换器
+import { createHash } from 'crypto'
 import { v4 as uuidv4 } from 'uuid'
 import type {
   OpenAIChatRequest,
@@ -6,11 +7,34 @@ import type {
   OpenAITool,
   OpenAIChatResponse,
   OpenAIStreamChunk,
+  OpenAICompletionRequest,
+  OpenAICompletionResponse,
+  OpenAIResponsesRequest,
+  OpenAIResponsesInputItem,
+  OpenAIResponsesContentPart,
+  OpenAIResponsesOutputItem,
+  OpenAIResponsesResponse,
+  OpenAIToolCall,
   ClaudeRequest,
   ClaudeMessage,
   ClaudeResponse,
   ClaudeStreamEvent,
   ClaudeContentBlock,
+  ClaudeUsage,
+  GeminiRequest,
+  GeminiContent,
+  GeminiPart,
+  GeminiTool,
+  GeminiResponse,
+  OllamaChatRequest,
+  OllamaGenerateRequest,
+  OllamaOptions,
+  OllamaMessage,
+  OllamaToolCall,
+  OllamaChatResponse,
+  OllamaGenerateResponse,
+  OllamaDoneStats,
+  OllamaModel,
   KiroPayload,
   KiroHistoryMessage,
   KiroToolWrapper,
@@ -20,12 +44,15 @@ import type {
   KiroUserInputMessage
 } from './types'
 import { buildKiroPayload, mapModelId } from './kiroApi'
+import { buildStructuredOutputPrompt, getStructuredOutputSpec } from './structuredOutput'
+import { applyPromptInjection, type PromptInjectionContext } from './promptInjection'
 
 // ============ OpenAI -> Kiro 转换 ============
 
 export function openaiToKiro(
   request: OpenAIChatRequest,
-  profileArn?: string
+  profileArn?: string,
+  injection?: PromptInjectionContext
 ): KiroPayload {
   const modelId = mapModelId(request.model)
   const origin = 'AI_EDITOR'
@@ -50,23 +77,8 @@ export function openaiToKiro(
     }
   }
 
-  // 注入时间戳
-  const timestamp = new Date().toISOString()
-  systemPrompt = `[Context: Current time is ${timestamp}]\n\n${systemPrompt}`
-
-  // 注入执行导向指令（防止 AI 在探索过程中丢失目标）
-  const executionDirective = `
-<execution_discipline>
-当用户要求执行特定任务时，你必须遵循以下纪律：
-1. **目标锁定**：在整个会话中始终牢记用户的原始目标，不要在代码探索过程中迷失方向
-2. **行动优先**：优先执行任务而非仅分析或总结，除非用户明确只要求分析
-3. **计划执行**：为任务创建明确的步骤计划，逐步执行并标记完成状态
-4. **禁止确认性收尾**：在任务未完成前，禁止输出"需要我继续吗？"、"需要深入分析吗？"等确认性问题
-5. **持续推进**：如果发现部分任务已完成，立即继续执行剩余未完成的任务
-6. **完整交付**：直到所有任务步骤都执行完毕才算完成
-</execution_discipline>
-`
-  systemPrompt = systemPrompt + '\n\n' + executionDirective
+  // 应用系统提示注入规则
+  systemPrompt = applyPromptInjection(systemPrompt, injection, request.tools)
 
   // 构建历史消息（参考 Proxycast 实现）
   const history: KiroHistoryMessage[] = []
@@ -182,6 +194,12 @@ export function openaiToKiro(
     finalContent = `${systemPrompt}\n\n${finalContent}`
   }
 
+  // 结构化输出（response_format）：在最新一条用户消息末尾注入格式约束
+  const structuredOutput = getStructuredOutputSpec(request.response_format)
+  if (structuredOutput) {
+    finalContent = `${finalContent}\n\n${buildStructuredOutputPrompt(structuredOutput)}`
+  }
+
   // 转换工具定义
   const kiroTools = convertOpenAITools(request.tools)
 
@@ -350,7 +368,7 @@ export function createOpenaiStreamChunk(
   id: string,
   model: string,
   delta: { role?: 'assistant'; content?: string; reasoning_content?: string; tool_calls?: { index: number; id?: string; type?: 'function'; function?: { name?: string; arguments?: string } }[] },
-  finishReason: 'stop' | 'tool_calls' | null = null,
+  finishReason: 'stop' | 'length' | 'tool_calls' | null = null,
   usage?: OpenAIUsage
 ): OpenAIStreamChunk & { usage?: OpenAIUsage } {
   const chunk: OpenAIStreamChunk & { usage?: OpenAIUsage } = {
@@ -370,16 +388,322 @@ export function createOpenaiStreamChunk(
   return chunk
 }
 
+// ============ OpenAI Completions（旧版）-> Kiro 转换 ============
+
+// 将 prompt 形式的请求包装为单条 user 消息的 Chat 请求
+export function completionToOpenaiRequest(request: OpenAICompletionRequest): OpenAIChatRequest {
+  const prompt = Array.isArray(request.prompt) ? request.prompt.join('') : request.prompt
+  return {
+    model: request.model,
+    messages: [{ role: 'user', content: prompt || '' }],
+    temperature: request.temperature,
+    top_p: request.top_p,
+    max_tokens: request.max_tokens,
+    stream: request.stream
+  }
+}
+
+export function completionToKiro(
+  request: OpenAICompletionRequest,
+  profileArn?: string,
+  injection?: PromptInjectionContext
+): KiroPayload {
+  return openaiToKiro(completionToOpenaiRequest(request), profileArn, injection)
+}
+
+// ============ Kiro -> OpenAI Completions（旧版）转换 ============
+
+export function kiroToCompletionResponse(
+  content: string,
+  usage: { inputTokens: number; outputTokens: number },
+  request: OpenAICompletionRequest,
+  finishReason: 'stop' | 'length' = 'stop'
+): OpenAICompletionResponse {
+  // echo 模式下将 prompt 拼接到输出前
+  const prompt = Array.isArray(request.prompt) ? request.prompt.join('') : request.prompt
+  const text = request.echo ? (prompt || '') + content : content
+
+  return {
+    id: `cmpl-${uuidv4()}`,
+    object: 'text_completion',
+    created: Math.floor(Date.now() / 1000),
+    model: request.model,
+    choices: [{
+      text,
+      index: 0,
+      logprobs: null,
+      finish_reason: finishReason
+    }],
+    usage: {
+      prompt_tokens: usage.inputTokens,
+      completion_tokens: usage.outputTokens,
+      total_tokens: usage.inputTokens + usage.outputTokens
+    }
+  }
+}
+
+export function createCompletionStreamChunk(
+  id: string,
+  model: string,
+  text: string,
+  finishReason: 'stop' | 'length' | null = null,
+  usage?: OpenAIUsage
+): OpenAICompletionResponse {
+  const chunk: OpenAICompletionResponse = {
+    id,
+    object: 'text_completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{
+      text,
+      index: 0,
+      logprobs: null,
+      finish_reason: finishReason
+    }]
+  }
+  if (usage) {
+    chunk.usage = usage
+  }
+  return chunk
+}
+
+// ============ OpenAI Responses API -> Kiro 转换 ============
+
+// Responses API 请求转换为 Chat Completions 请求（复用 openaiToKiro 的历史消息构建逻辑）
+export function responsesToOpenaiRequest(
+  request: OpenAIResponsesRequest,
+  previousItems: OpenAIResponsesInputItem[] = []
+): OpenAIChatRequest {
+  const messages: OpenAIMessage[] = []
+
+  if (request.instructions) {
+    messages.push({ role: 'system', content: request.instructions })
+  }
+
+  const inputItems: OpenAIResponsesInputItem[] = typeof request.input === 'string'
+    ? [{ role: 'user', content: request.input }]
+    : request.input || []
+
+  for (const item of [...previousItems, ...inputItems]) {
+    if (item.type === 'function_call') {
+      const toolCall: OpenAIToolCall = {
+        id: item.call_id,
+        type: 'function',
+        function: { name: item.name, arguments: item.arguments || '{}' }
+      }
+      // 连续的 function_call 合并到同一条 assistant 消息
+      const last = messages[messages.length - 1]
+      if (last && last.role === 'assistant') {
+        last.tool_calls = [...(last.tool_calls || []), toolCall]
+      } else {
+        messages.push({ role: 'assistant', content: '', tool_calls: [toolCall] })
+      }
+    } else if (item.type === 'function_call_output') {
+      messages.push({
+        role: 'tool',
+        tool_call_id: item.call_id,
+        content: typeof item.output === 'string' ? item.output : responsesPartsToText(item.output)
+      })
+    } else if (item.type === 'reasoning') {
+      // 推理摘要无法回传给 Kiro，直接跳过
+      continue
+    } else {
+      const role = item.role === 'developer' ? 'system' : item.role
+      if (typeof item.content === 'string') {
+        messages.push({ role, content: item.content })
+      } else if (role === 'user') {
+        messages.push({
+          role,
+          content: (item.content || []).map(part =>
+            part.type === 'input_image' && part.image_url
+              ? { type: 'image_url' as const, image_url: { url: part.image_url } }
+              : { type: 'text' as const, text: part.text || part.refusal || '' }
+          )
+        })
+      } else {
+        messages.push({ role, content: responsesPartsToText(item.content || []) })
+      }
+    }
+  }
+
+  // 仅保留函数工具（web_search 等内置工具 Kiro 不支持）
+  const tools = (request.tools || [])
+    .filter(tool => tool.type === 'function' && tool.name)
+    .map(tool => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name!,
+        description: tool.description || '',
+        parameters: tool.parameters || { type: 'object', properties: {} }
+      }
+    }))
+
+  return {
+    model: request.model,
+    messages,
+    max_tokens: request.max_output_tokens,
+    temperature: request.temperature,
+    top_p: request.top_p,
+    stream: request.stream,
+    tools: tools.length > 0 ? tools : undefined
+  }
+}
+
+export function responsesToKiro(
+  request: OpenAIResponsesRequest,
+  profileArn?: string,
+  previousItems: OpenAIResponsesInputItem[] = [],
+  injection?: PromptInjectionContext
+): KiroPayload {
+  return openaiToKiro(responsesToOpenaiRequest(request, previousItems), profileArn, injection)
+}
+
+function responsesPartsToText(parts: OpenAIResponsesContentPart[]): string {
+  return parts.map(part => part.text || part.refusal || '').join('')
+}
+
+// 分离文本中的 <thinking> 块
+export function splitThinkingContent(content: string): { text: string; reasoning: string } {
+  let reasoning = ''
+  const text = content.replace(/<thinking>([\s\S]*?)(<\/thinking>|$)/g, (_match, inner: string) => {
+    reasoning += inner
+    return ''
+  })
+  return { text: text.trim() ? text : '', reasoning }
+}
+
+// 流式拆分正文中的 <thinking> 块，末尾可能被截断的标签留在缓冲区等待后续文本
+export function createThinkingTagSplitter(
+  onText: (text: string) => void,
+  onThinking: (text: string) => void
+): (text: string, flush?: boolean) => void {
+  let buffer = ''
+  let inThinkingBlock = false
+  const emit = (segment: string): void => {
+    if (!segment) return
+    if (inThinkingBlock) onThinking(segment)
+    else onText(segment)
+  }
+
+  return (text: string, flush = false): void => {
+    buffer += text
+    while (buffer) {
+      const tag = inThinkingBlock ? '</thinking>' : '<thinking>'
+      const tagIndex = buffer.indexOf(tag)
+      if (tagIndex !== -1) {
+        emit(buffer.substring(0, tagIndex))
+        buffer = buffer.substring(tagIndex + tag.length)
+        inThinkingBlock = !inThinkingBlock
+        continue
+      }
+      const keep = flush ? 0 : Math.min(buffer.length, tag.length - 1)
+      emit(buffer.substring(0, buffer.length - keep))
+      buffer = buffer.substring(buffer.length - keep)
+      break
+    }
+  }
+}
+
+export function createResponsesItemId(prefix: 'resp' | 'msg' | 'fc' | 'rs'): string {
+  return `${prefix}_${uuidv4().replace(/-/g, '')}`
+}
+
+// ============ Kiro -> OpenAI Responses API 转换 ============
+
+export function kiroToResponsesResponse(
+  content: string,
+  toolUses: KiroToolUse[],
+  usage: { inputTokens: number; outputTokens: number; cacheReadTokens?: number; reasoningTokens?: number },
+  request: OpenAIResponsesRequest,
+  reasoning: string = '',
+  responseId: string = createResponsesItemId('resp')
+): OpenAIResponsesResponse {
+  const output: OpenAIResponsesOutputItem[] = []
+
+  if (reasoning) {
+    output.push({
+      type: 'reasoning',
+      id: createResponsesItemId('rs'),
+      summary: [{ type: 'summary_text', text: reasoning }]
+    })
+  }
+
+  if (content) {
+    output.push({
+      type: 'message',
+      id: createResponsesItemId('msg'),
+      status: 'completed',
+      role: 'assistant',
+      content: [{ type: 'output_text', text: content, annotations: [] }]
+    })
+  }
+
+  for (const tu of toolUses) {
+    output.push({
+      type: 'function_call',
+      id: createResponsesItemId('fc'),
+      call_id: tu.toolUseId,
+      name: tu.name,
+      arguments: JSON.stringify(tu.input),
+      status: 'completed'
+    })
+  }
+
+  return createResponsesResponse(responseId, request, 'completed', output, {
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    total_tokens: usage.inputTokens + usage.outputTokens,
+    input_tokens_details: { cached_tokens: usage.cacheReadTokens || 0 },
+    output_tokens_details: { reasoning_tokens: usage.reasoningTokens || 0 }
+  })
+}
+
+export function createResponsesResponse(
+  id: string,
+  request: OpenAIResponsesRequest,
+  status: OpenAIResponsesResponse['status'],
+  output: OpenAIResponsesOutputItem[] = [],
+  usage?: OpenAIResponsesResponse['usage']
+): OpenAIResponsesResponse {
+  const outputText = output
+    .filter(item => item.type === 'message')
+    .map(item => responsesPartsToText(item.content as OpenAIResponsesContentPart[]))
+    .join('')
+
+  return {
+    id,
+    object: 'response',
+    created_at: Math.floor(Date.now() / 1000),
+    status,
+    model: request.model,
+    output,
+    output_text: outputText,
+    instructions: request.instructions ?? null,
+    previous_response_id: request.previous_response_id ?? null,
+    max_output_tokens: request.max_output_tokens ?? null,
+    temperature: request.temperature ?? null,
+    top_p: request.top_p ?? null,
+    tools: request.tools || [],
+    tool_choice: request.tool_choice || 'auto',
+    parallel_tool_calls: true,
+    metadata: request.metadata || {},
+    error: null,
+    incomplete_details: null,
+    usage
+  }
+}
+
 // ============ Claude -> Kiro 转换 ============
 
 export function claudeToKiro(
   request: ClaudeRequest,
-  profileArn?: string
+  profileArn?: string,
+  injection?: PromptInjectionContext
 ): KiroPayload {
   const modelId = mapModelId(request.model)
   const origin = 'AI_EDITOR'
 
-  // 提取系统提示
+  // 提取系统提示（cache_control 断点由 Kiro 后端自动缓存，转换时忽略）
   let systemPrompt = ''
   if (typeof request.system === 'string') {
     systemPrompt = request.system
@@ -387,23 +711,8 @@ export function claudeToKiro(
     systemPrompt = request.system.map(b => b.text).join('\n')
   }
 
-  // 注入时间戳
-  const timestamp = new Date().toISOString()
-  systemPrompt = `[Context: Current time is ${timestamp}]\n\n${systemPrompt}`
-
-  // 注入执行导向指令（防止 AI 在探索过程中丢失目标）
-  const executionDirective = `
-<execution_discipline>
-当用户要求执行特定任务时，你必须遵循以下纪律：
-1. **目标锁定**：在整个会话中始终牢记用户的原始目标，不要在代码探索过程中迷失方向
-2. **行动优先**：优先执行任务而非仅分析或总结，除非用户明确只要求分析
-3. **计划执行**：为任务创建明确的步骤计划，逐步执行并标记完成状态
-4. **禁止确认性收尾**：在任务未完成前，禁止输出"需要我继续吗？"、"需要深入分析吗？"等确认性问题
-5. **持续推进**：如果发现部分任务已完成，立即继续执行剩余未完成的任务
-6. **完整交付**：直到所有任务步骤都执行完毕才算完成
-</execution_discipline>
-`
-  systemPrompt = systemPrompt + '\n\n' + executionDirective
+  // 应用系统提示注入规则
+  systemPrompt = applyPromptInjection(systemPrompt, injection, request.tools)
 
   // 构建历史消息 - Kiro API 要求严格的 user -> assistant 交替
   const history: KiroHistoryMessage[] = []
@@ -626,10 +935,41 @@ function convertClaudeTools(tools?: { name: string; description: string; input_s
 
 // ============ Kiro -> Claude 转换 ============
 
+// Claude 最多允许 4 个 cache_control 断点
+export const MAX_CLAUDE_CACHE_BREAKPOINTS = 4
+
+// 统计请求中 cache_control 断点的数量（system、tools、消息内容块及 tool_result 内的块）
+export function countClaudeCacheBreakpoints(request: ClaudeRequest): number {
+  const countBlocks = (blocks: ClaudeContentBlock[]): number => blocks.reduce((sum, block) =>
+    sum + (block.cache_control ? 1 : 0) + (Array.isArray(block.content) ? countBlocks(block.content) : 0), 0)
+
+  let count = 0
+  if (Array.isArray(request.system)) {
+    count += request.system.filter(b => b.cache_control).length
+  }
+  count += (request.tools || []).filter(t => t.cache_control).length
+  for (const msg of request.messages || []) {
+    if (Array.isArray(msg.content)) count += countBlocks(msg.content)
+  }
+  return count
+}
+
+// Kiro 的 inputTokens 包含缓存命中和写入的部分，Claude 格式中 input_tokens 只计未缓存的部分
+export function toClaudeUsage(usage: { inputTokens: number; outputTokens: number; cacheReadTokens?: number; cacheWriteTokens?: number }): ClaudeUsage {
+  const cacheRead = usage.cacheReadTokens || 0
+  const cacheWrite = usage.cacheWriteTokens || 0
+  return {
+    input_tokens: Math.max(0, usage.inputTokens - cacheRead - cacheWrite),
+    output_tokens: usage.outputTokens,
+    cache_creation_input_tokens: cacheWrite,
+    cache_read_input_tokens: cacheRead
+  }
+}
+
 export function kiroToClaudeResponse(
   content: string,
   toolUses: KiroToolUse[],
-  usage: { inputTokens: number; outputTokens: number },
+  usage: { inputTokens: number; outputTokens: number; cacheReadTokens?: number; cacheWriteTokens?: number },
   model: string
 ): ClaudeResponse {
   const contentBlocks: ClaudeContentBlock[] = []
@@ -655,10 +995,7 @@ export function kiroToClaudeResponse(
     model,
     stop_reason: toolUses.length > 0 ? 'tool_use' : 'end_turn',
     stop_sequence: null,
-    usage: {
-      input_tokens: usage.inputTokens,
-      output_tokens: usage.outputTokens
-    }
+    usage: toClaudeUsage(usage)
   }
 }
 
@@ -668,3 +1005,445 @@ export function createClaudeStreamEvent(
 ): ClaudeStreamEvent {
   return { type, ...data } as ClaudeStreamEvent
 }
+
+// ============ Gemini -> Kiro 转换 ============
+
+export function geminiToKiro(
+  request: GeminiRequest,
+  model: string,
+  profileArn?: string,
+  injection?: PromptInjectionContext
+): KiroPayload {
+  const modelId = mapModelId(model)
+  const origin = 'AI_EDITOR'
+
+  // 提取系统提示（REST 接口同时接受 systemInstruction 与 system_instruction）
+  const systemInstruction = request.systemInstruction || request.system_instruction
+  let systemPrompt = (systemInstruction?.parts || []).map(p => p.text || '').filter(Boolean).join('\n')
+
+  // 应用系统提示注入规则
+  const functionDeclarations = (request.tools || []).flatMap(t => t.functionDeclarations || [])
+  systemPrompt = applyPromptInjection(systemPrompt, injection, functionDeclarations)
+
+  // Gemini 的 functionCall 不一定带 id，按名称顺序为调用与结果配对生成 toolUseId
+  const pendingCalls: { name: string; id: string }[] = []
+  let callCounter = 0
+  const nextCallId = (): string => `call_gemini_${++callCounter}`
+
+  // 构建历史消息 - 连续的 user/function 消息合并为一条 user 消息
+  const history: KiroHistoryMessage[] = []
+  const pendingUserTurns: { content: string; images: KiroImage[]; toolResults: KiroToolResult[] }[] = []
+
+  const mergePendingUserTurns = (): { content: string; images: KiroImage[]; toolResults: KiroToolResult[] } => {
+    const merged = {
+      content: pendingUserTurns.map(t => t.content).filter(Boolean).join('\n'),
+      images: pendingUserTurns.flatMap(t => t.images),
+      toolResults: pendingUserTurns.flatMap(t => t.toolResults)
+    }
+    pendingUserTurns.length = 0
+    return merged
+  }
+
+  const flushPendingUser = (): void => {
+    if (pendingUserTurns.length === 0) return
+    const { content, images, toolResults } = mergePendingUserTurns()
+    const userInputMessage: KiroUserInputMessage = {
+      content: content || (toolResults.length > 0 ? 'Tool results provided.' : 'Continue'),
+      modelId,
+      origin,
+      images: images.length > 0 ? images : undefined
+    }
+    if (toolResults.length > 0) {
+      userInputMessage.userInputMessageContext = { toolResults }
+    }
+    history.push({ userInputMessage })
+  }
+
+  for (const item of request.contents || []) {
+    if (item.role === 'model') {
+      flushPendingUser()
+      const { content, toolUses } = extractGeminiModelContent(item, nextCallId)
+      for (const tu of toolUses) {
+        pendingCalls.push({ name: tu.name, id: tu.toolUseId })
+      }
+      history.push({
+        assistantResponseMessage: {
+          content,
+          toolUses: toolUses.length > 0 ? toolUses : undefined
+        }
+      })
+    } else {
+      // user / function 角色
+      pendingUserTurns.push(extractGeminiUserContent(item, (name) => {
+        const index = pendingCalls.findIndex(c => c.name === name)
+        return index !== -1 ? pendingCalls.splice(index, 1)[0].id : nextCallId()
+      }))
+    }
+  }
+
+  // 最后的 user 内容作为 currentMessage
+  const { content: currentContent, images, toolResults } = mergePendingUserTurns()
+
+  // 确保 history 以 user 开始（Kiro API 要求）
+  if (history.length > 0 && history[0].assistantResponseMessage) {
+    history.unshift({
+      userInputMessage: {
+        content: 'Begin conversation',
+        modelId,
+        origin
+      }
+    })
+  }
+
+  // 构建最终内容
+  let finalContent = ''
+  if (systemPrompt) {
+    finalContent = `--- SYSTEM PROMPT ---\n${systemPrompt}\n--- END SYSTEM PROMPT ---\n\n`
+  }
+  finalContent += currentContent || (toolResults.length > 0 ? 'Tool results provided.' : 'Continue')
+
+  const generationConfig = request.generationConfig || {}
+
+  return buildKiroPayload(
+    finalContent,
+    modelId,
+    origin,
+    history,
+    convertGeminiTools(request.tools),
+    toolResults,
+    images,
+    profileArn,
+    {
+      maxTokens: generationConfig.maxOutputTokens,
+      temperature: generationConfig.temperature,
+      topP: generationConfig.topP
+    }
+  )
+}
+
+function extractGeminiUserContent(
+  item: GeminiContent,
+  resolveCallId: (name: string) => string
+): { content: string; images: KiroImage[]; toolResults: KiroToolResult[] } {
+  const images: KiroImage[] = []
+  const toolResults: KiroToolResult[] = []
+  let content = ''
+
+  for (const part of item.parts || []) {
+    if (part.text && !part.thought) {
+      content += part.text
+    } else if (part.inlineData?.mimeType?.startsWith('image/')) {
+      images.push({
+        format: normalizeImageFormat(part.inlineData.mimeType.split('/')[1]),
+        source: { bytes: part.inlineData.data }
+      })
+    } else if (part.functionResponse) {
+      const response = part.functionResponse.response
+      toolResults.push({
+        toolUseId: part.functionResponse.id || resolveCallId(part.functionResponse.name),
+        content: [{ text: typeof response === 'string' ? response : JSON.stringify(response ?? {}) }],
+        status: 'success'
+      })
+    }
+  }
+
+  return { content, images, toolResults }
+}
+
+function extractGeminiModelContent(
+  item: GeminiContent,
+  nextCallId: () => string
+): { content: string; toolUses: KiroToolUse[] } {
+  const toolUses: KiroToolUse[] = []
+  let content = ''
+
+  for (const part of item.parts || []) {
+    // 思考内容不回传给 Kiro
+    if (part.text && !part.thought) {
+      content += part.text
+    } else if (part.functionCall) {
+      toolUses.push({
+        toolUseId: part.functionCall.id || nextCallId(),
+        name: part.functionCall.name,
+        input: part.functionCall.args || {}
+      })
+    }
+  }
+
+  // Kiro API 要求 content 非空
+  if (!content.trim() && toolUses.length > 0) {
+    content = 'Using tools.'
+  }
+
+  return { content, toolUses }
+}
+
+function convertGeminiTools(tools?: GeminiTool[]): KiroToolWrapper[] {
+  if (!tools) return []
+
+  const declarations = tools.flatMap(tool => tool.functionDeclarations || [])
+  return declarations.map(decl => {
+    let description = decl.description || `Tool: ${decl.name}`
+    // 截断过长的描述
+    if (description.length > KIRO_MAX_TOOL_DESC_LEN) {
+      description = description.substring(0, KIRO_MAX_TOOL_DESC_LEN) + '...'
+    }
+    const schema = decl.parametersJsonSchema || normalizeGeminiSchema(decl.parameters) || { type: 'object', properties: {} }
+    return {
+      toolSpecification: {
+        name: shortenToolName(decl.name),
+        description,
+        inputSchema: { json: schema }
+      }
+    }
+  })
+}
+
+// Gemini Schema 的类型使用大写枚举（OBJECT / STRING 等），转换为 JSON Schema 的小写类型
+function normalizeGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(normalizeGeminiSchema)
+  if (!schema || typeof schema !== 'object') return schema
+
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(schema as Record<string, unknown>)) {
+    result[key] = key === 'type' && typeof value === 'string' ? value.toLowerCase() : normalizeGeminiSchema(value)
+  }
+  return result
+}
+
+// ============ Kiro -> Gemini 转换 ============
+
+export function kiroToGeminiResponse(
+  content: string,
+  toolUses: KiroToolUse[],
+  usage: { inputTokens: number; outputTokens: number; cacheReadTokens?: number; reasoningTokens?: number },
+  model: string,
+  reasoning = ''
+): GeminiResponse {
+  const parts: GeminiPart[] = []
+  if (reasoning) {
+    parts.push({ text: reasoning, thought: true })
+  }
+  if (content) {
+    parts.push({ text: content })
+  }
+  for (const tu of toolUses) {
+    parts.push({ functionCall: { id: tu.toolUseId, name: tu.name, args: tu.input } })
+  }
+
+  return createGeminiResponse(`resp-${uuidv4()}`, model, parts, 'STOP', usage)
+}
+
+export function createGeminiResponse(
+  responseId: string,
+  model: string,
+  parts: GeminiPart[],
+  finishReason?: 'STOP' | 'MAX_TOKENS',
+  usage?: { inputTokens: number; outputTokens: number; cacheReadTokens?: number; reasoningTokens?: number }
+): GeminiResponse {
+  const response: GeminiResponse = {
+    candidates: [{
+      // Gemini 要求候选内容至少包含一个 part
+      content: { role: 'model', parts: parts.length > 0 ? parts : [{ text: '' }] },
+      index: 0
+    }],
+    modelVersion: model,
+    responseId
+  }
+  if (finishReason) {
+    response.candidates[0].finishReason = finishReason
+  }
+  if (usage) {
+    response.usageMetadata = {
+      promptTokenCount: usage.inputTokens,
+      candidatesTokenCount: usage.outputTokens,
+      totalTokenCount: usage.inputTokens + usage.outputTokens
+    }
+    if (usage.cacheReadTokens) {
+      response.usageMetadata.cachedContentTokenCount = usage.cacheReadTokens
+    }
+    if (usage.reasoningTokens) {
+      response.usageMetadata.thoughtsTokenCount = usage.reasoningTokens
+    }
+  }
+  return response
+}
+
+// ============ Ollama -> Kiro 转换 ============
+
+// Ollama 模型名带 tag（如 claude-sonnet-4.5:latest），转发前去掉默认 tag
+export function normalizeOllamaModelName(model: string): string {
+  return model.endsWith(':latest') ? model.slice(0, -':latest'.length) : model
+}
+
+export function ollamaChatToOpenaiRequest(request: OllamaChatRequest): OpenAIChatRequest {
+  const messages: OpenAIMessage[] = []
+  // Ollama 的 tool_calls 没有 id，按工具名（或调用顺序）为调用与结果配对生成 tool_call_id
+  const pendingCalls: { name: string; id: string }[] = []
+  let callCounter = 0
+
+  for (const msg of request.messages || []) {
+    if (msg.role === 'tool') {
+      let index = msg.tool_name ? pendingCalls.findIndex(c => c.name === msg.tool_name) : -1
+      if (index === -1 && pendingCalls.length > 0) index = 0
+      const call = index !== -1 ? pendingCalls.splice(index, 1)[0] : undefined
+      messages.push({ role: 'tool', content: msg.content || '', tool_call_id: call?.id || `call_ollama_${++callCounter}` })
+    } else if (msg.role === 'assistant' && msg.tool_calls && msg.tool_calls.length > 0) {
+      const toolCalls = msg.tool_calls.map(tc => {
+        const id = `call_ollama_${++callCounter}`
+        pendingCalls.push({ name: tc.function.name, id })
+        return {
+          id,
+          type: 'function' as const,
+          function: { name: tc.function.name, arguments: JSON.stringify(tc.function.arguments || {}) }
+        }
+      })
+      messages.push({ role: 'assistant', content: msg.content || '', tool_calls: toolCalls })
+    } else {
+      messages.push({ role: msg.role, content: ollamaContentToOpenai(msg.content || '', msg.images) })
+    }
+  }
+
+  return {
+    model: normalizeOllamaModelName(request.model),
+    messages,
+    tools: request.tools,
+    stream: request.stream !== false,
+    response_format: ollamaFormatToOpenai(request.format),
+    ...ollamaOptionsToOpenai(request.options)
+  }
+}
+
+export function ollamaGenerateToOpenaiRequest(request: OllamaGenerateRequest): OpenAIChatRequest {
+  const messages: OpenAIMessage[] = []
+  if (request.system) {
+    messages.push({ role: 'system', content: request.system })
+  }
+  messages.push({ role: 'user', content: ollamaContentToOpenai(request.prompt || '', request.images) })
+
+  return {
+    model: normalizeOllamaModelName(request.model),
+    messages,
+    stream: request.stream !== false,
+    response_format: ollamaFormatToOpenai(request.format),
+    ...ollamaOptionsToOpenai(request.options)
+  }
+}
+
+// Ollama 的 format：'json' 对应 JSON 模式，对象为 JSON Schema
+function ollamaFormatToOpenai(format?: string | Record<string, unknown>): OpenAIChatRequest['response_format'] {
+  if (format === 'json') return { type: 'json_object' }
+  if (format && typeof format === 'object') return { type: 'json_schema', json_schema: { name: 'response', schema: format } }
+  return undefined
+}
+
+// Ollama 的图片是不带前缀的 base64，转换为 data URL 形式的 image_url
+function ollamaContentToOpenai(content: string, images?: string[]): OpenAIMessage['content'] {
+  if (!images || images.length === 0) return content
+
+  return [
+    { type: 'text', text: content },
+    ...images.map(image => ({
+      type: 'image_url' as const,
+      image_url: {
+        url: image.startsWith('data:') ? image : `data:image/${detectBase64ImageFormat(image)};base64,${image}`
+      }
+    }))
+  ]
+}
+
+// 根据 base64 文件头识别图片格式
+function detectBase64ImageFormat(data: string): string {
+  if (data.startsWith('/9j/')) return 'jpeg'
+  if (data.startsWith('R0lGOD')) return 'gif'
+  if (data.startsWith('UklGR')) return 'webp'
+  return 'png'
+}
+
+function ollamaOptionsToOpenai(options?: OllamaOptions): Pick<OpenAIChatRequest, 'temperature' | 'top_p' | 'max_tokens'> {
+  if (!options) return {}
+  return {
+    temperature: options.temperature,
+    top_p: options.top_p,
+    // num_predict 为 -1 / -2 表示不限制
+    max_tokens: options.num_predict && options.num_predict > 0 ? options.num_predict : undefined
+  }
+}
+
+// ============ Kiro -> Ollama 转换 ============
+
+export function kiroToolUsesToOllama(toolUses: KiroToolUse[]): OllamaToolCall[] {
+  return toolUses.map(tu => ({
+    function: { name: tu.name, arguments: (tu.input as Record<string, unknown>) || {} }
+  }))
+}
+
+export function createOllamaDoneStats(
+  usage: { inputTokens: number; outputTokens: number },
+  startTime: number,
+  doneReason: OllamaDoneStats['done_reason'] = 'stop'
+): OllamaDoneStats {
+  const totalDuration = (Date.now() - startTime) * 1e6
+  return {
+    done_reason: doneReason,
+    total_duration: totalDuration,
+    load_duration: 0,
+    prompt_eval_count: usage.inputTokens,
+    prompt_eval_duration: 0,
+    eval_count: usage.outputTokens,
+    eval_duration: totalDuration
+  }
+}
+
+export function createOllamaChatResponse(
+  model: string,
+  message: Partial<OllamaMessage>,
+  done = false,
+  stats?: OllamaDoneStats
+): OllamaChatResponse {
+  return {
+    model,
+    created_at: new Date().toISOString(),
+    message: { role: 'assistant', content: '', ...message },
+    done,
+    ...stats
+  }
+}
+
+export function createOllamaGenerateResponse(
+  model: string,
+  response: string,
+  done = false,
+  stats?: OllamaDoneStats,
+  thinking?: string
+): OllamaGenerateResponse {
+  const result: OllamaGenerateResponse = {
+    model,
+    created_at: new Date().toISOString(),
+    response,
+    done,
+    ...stats
+  }
+  if (thinking) {
+    result.thinking = thinking
+  }
+  return result
+}
+
+export function createOllamaModel(id: string, modifiedAt: string): OllamaModel {
+  return {
+    name: `${id}:latest`,
+    model: `${id}:latest`,
+    modified_at: modifiedAt,
+    size: 0,
+    digest: createHash('sha256').update(id).digest('hex'),
+    details: {
+      parent_model: '',
+      format: 'kiro',
+      family: 'kiro',
+      families: ['kiro'],
+      parameter_size: '',
+      quantization_level: ''
+    }
+  }
+}
@@ -7,10 +7,58 @@ export interface OpenAIChatRequest {
   temperature?: number
   top_p?: number
   max_tokens?: number
+  max_completion_tokens?: number
   stream?: boolean
   tools?: OpenAITool[]
   tool_choice?: string | { type: string; function: { name: string } }
-  response_format?: { type: string; json_schema?: unknown }
+  response_format?: OpenAIResponseFormat
+  stop?: string | string[]
+  n?: number
+}
+
+// 结构化输出格式（text / json_object / json_schema）
+export interface OpenAIResponseFormat {
+  type: string
+  json_schema?: {
+    name?: string
+    description?: string
+    schema?: JsonSchema
+    strict?: boolean
+  }
+}
+
+// JSON Schema（结构化输出校验支持的关键字子集）
+export interface JsonSchema {
+  type?: string | string[]
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema | JsonSchema[]
+  prefixItems?: JsonSchema[]
+  enum?: unknown[]
+  const?: unknown
+  anyOf?: JsonSchema[]
+  oneOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+  not?: JsonSchema
+  $ref?: string
+  $defs?: Record<string, JsonSchema>
+  definitions?: Record<string, JsonSchema>
+  nullable?: boolean
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  multipleOf?: number
+  minItems?: number
+  maxItems?: number
+  uniqueItems?: boolean
+  minProperties?: number
+  maxProperties?: number
 }
 
 export interface OpenAIMessage {
@@ -63,6 +111,7 @@ export interface OpenAIChoice {
   message: {
     role: 'assistant'
     content: string | null
+    reasoning_content?: string
     tool_calls?: OpenAIToolCall[]
   }
   finish_reason: 'stop' | 'length' | 'tool_calls' | null
@@ -84,6 +133,145 @@ export interface OpenAIStreamChunk {
   }[]
 }
 
+// ============ OpenAI Completions（旧版）格式 ============
+export interface OpenAICompletionRequest {
+  model: string
+  prompt: string | string[]
+  suffix?: string
+  temperature?: number
+  top_p?: number
+  max_tokens?: number
+  stream?: boolean
+  echo?: boolean
+  stop?: string | string[]
+  n?: number
+  user?: string
+}
+
+export interface OpenAICompletionChoice {
+  text: string
+  index: number
+  logprobs: null
+  finish_reason: 'stop' | 'length' | null
+}
+
+export interface OpenAICompletionResponse {
+  id: string
+  object: 'text_completion'
+  created: number
+  model: string
+  choices: OpenAICompletionChoice[]
+  usage?: {
+    prompt_tokens: number
+    completion_tokens: number
+    total_tokens: number
+  }
+}
+
+// ============ OpenAI Responses API 格式 ============
+export interface OpenAIResponsesRequest {
+  model: string
+  input: string | OpenAIResponsesInputItem[]
+  instructions?: string
+  previous_response_id?: string
+  max_output_tokens?: number
+  temperature?: number
+  top_p?: number
+  stream?: boolean
+  tools?: OpenAIResponsesTool[]
+  tool_choice?: string | { type: string; name?: string }
+  reasoning?: { effort?: string; summary?: string }
+  store?: boolean
+  metadata?: Record<string, string>
+}
+
+export type OpenAIResponsesInputItem =
+  | OpenAIResponsesMessageItem
+  | OpenAIResponsesFunctionCallItem
+  | OpenAIResponsesFunctionCallOutputItem
+  | OpenAIResponsesReasoningItem
+
+export interface OpenAIResponsesMessageItem {
+  type?: 'message'
+  id?: string
+  role: 'user' | 'assistant' | 'system' | 'developer'
+  content: string | OpenAIResponsesContentPart[]
+  status?: string
+}
+
+export interface OpenAIResponsesContentPart {
+  type: 'input_text' | 'output_text' | 'input_image' | 'refusal'
+  text?: string
+  image_url?: string
+  refusal?: string
+  annotations?: unknown[]
+}
+
+export interface OpenAIResponsesFunctionCallItem {
+  type: 'function_call'
+  id?: string
+  call_id: string
+  name: string
+  arguments: string
+  status?: string
+}
+
+export interface OpenAIResponsesFunctionCallOutputItem {
+  type: 'function_call_output'
+  id?: string
+  call_id: string
+  output: string | OpenAIResponsesContentPart[]
+}
+
+export interface OpenAIResponsesReasoningItem {
+  type: 'reasoning'
+  id?: string
+  summary: { type: 'summary_text'; text: string }[]
+}
+
+export interface OpenAIResponsesTool {
+  type: 'function' | string
+  name?: string
+  description?: string
+  parameters?: unknown
+  strict?: boolean
+}
+
+export type OpenAIResponsesOutputItem =
+  | (OpenAIResponsesMessageItem & { type: 'message'; id: string; status: string })
+  | (OpenAIResponsesFunctionCallItem & { id: string; status: string })
+  | (OpenAIResponsesReasoningItem & { id: string })
+
+export interface OpenAIResponsesUsage {
+  input_tokens: number
+  output_tokens: number
+  total_tokens: number
+  input_tokens_details?: { cached_tokens: number }
+  output_tokens_details?: { reasoning_tokens: number }
+}
+
+export interface OpenAIResponsesResponse {
+  id: string
+  object: 'response'
+  created_at: number
+  status: 'in_progress' | 'completed' | 'failed' | 'incomplete'
+  model: string
+  output: OpenAIResponsesOutputItem[]
+  output_text?: string
+  instructions?: string | null
+  previous_response_id?: string | null
+  max_output_tokens?: number | null
+  temperature?: number | null
+  top_p?: number | null
+  tools?: OpenAIResponsesTool[]
+  tool_choice?: OpenAIResponsesRequest['tool_choice']
+  parallel_tool_calls?: boolean
+  metadata?: Record<string, string>
+  error?: { code: string; message: string } | null
+  incomplete_details?: { reason: string } | null
+  usage?: OpenAIResponsesUsage
+}
+
 // ============ Claude 兼容格式 ============
 export interface ClaudeRequest {
   model: string
@@ -95,6 +283,7 @@ export interface ClaudeRequest {
   system?: string | ClaudeSystemBlock[]
   tools?: ClaudeTool[]
   tool_choice?: { type: string; name?: string }
+  stop_sequences?: string[]
 }
 
 export interface ClaudeMessage {
@@ -102,9 +291,16 @@ export interface ClaudeMessage {
   content: string | ClaudeContentBlock[]
 }
 
+// 提示缓存断点（Kiro 后端自动缓存，代理只校验并统计用量）
+export interface ClaudeCacheControl {
+  type: 'ephemeral'
+  ttl?: '5m' | '1h'
+}
+
 export interface ClaudeSystemBlock {
   type: 'text'
   text: string
+  cache_control?: ClaudeCacheControl
 }
 
 export interface ClaudeContentBlock {
@@ -117,12 +313,22 @@ export interface ClaudeContentBlock {
   input?: unknown
   tool_use_id?: string
   content?: string | ClaudeContentBlock[]
+  cache_control?: ClaudeCacheControl
 }
 
 export interface ClaudeTool {
   name: string
   description: string
   input_schema: unknown
+  cache_control?: ClaudeCacheControl
+}
+
+// Claude 格式的 usage：input_tokens 不含缓存命中/写入的 tokens
+export interface ClaudeUsage {
+  input_tokens: number
+  output_tokens: number
+  cache_creation_input_tokens?: number
+  cache_read_input_tokens?: number
 }
 
 export interface ClaudeResponse {
@@ -131,12 +337,9 @@ export interface ClaudeResponse {
   role: 'assistant'
   content: ClaudeContentBlock[]
   model: string
-  stop_reason: 'end_turn' | 'max_tokens' | 'tool_use' | null
+  stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | null
   stop_sequence: string | null
-  usage: {
-    input_tokens: number
-    output_tokens: number
-  }
+  usage: ClaudeUsage
 }
 
 export interface ClaudeStreamEvent {
@@ -145,10 +348,169 @@ export interface ClaudeStreamEvent {
   index?: number
   content_block?: ClaudeContentBlock
   delta?: { type: string; text?: string; thinking?: string; reasoning_content?: string; stop_reason?: string; stop_sequence?: string }
-  usage?: { input_tokens?: number; output_tokens: number }
+  usage?: Partial<ClaudeUsage> & { output_tokens: number }
   error?: { type: string; message: string }
 }
 
+// ============ Gemini 兼容格式 ============
+export interface GeminiRequest {
+  contents: GeminiContent[]
+  systemInstruction?: GeminiContent
+  system_instruction?: GeminiContent
+  tools?: GeminiTool[]
+  toolConfig?: unknown
+  generationConfig?: GeminiGenerationConfig
+  safetySettings?: unknown[]
+}
+
+export interface GeminiContent {
+  role?: 'user' | 'model' | 'function'
+  parts: GeminiPart[]
+}
+
+export interface GeminiPart {
+  text?: string
+  thought?: boolean
+  inlineData?: { mimeType: string; data: string }
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> }
+  functionResponse?: { id?: string; name: string; response?: unknown }
+}
+
+export interface GeminiTool {
+  functionDeclarations?: GeminiFunctionDeclaration[]
+}
+
+export interface GeminiFunctionDeclaration {
+  name: string
+  description?: string
+  parameters?: unknown
+  parametersJsonSchema?: unknown
+}
+
+export interface GeminiGenerationConfig {
+  temperature?: number
+  topP?: number
+  maxOutputTokens?: number
+  stopSequences?: string[]
+  candidateCount?: number
+  responseMimeType?: string
+  thinkingConfig?: { thinkingBudget?: number; includeThoughts?: boolean }
+}
+
+export interface GeminiCandidate {
+  content: GeminiContent
+  finishReason?: 'STOP' | 'MAX_TOKENS' | 'SAFETY' | 'OTHER'
+  index: number
+}
+
+export interface GeminiUsageMetadata {
+  promptTokenCount: number
+  candidatesTokenCount: number
+  totalTokenCount: number
+  thoughtsTokenCount?: number
+  cachedContentTokenCount?: number
+}
+
+export interface GeminiResponse {
+  candidates: GeminiCandidate[]
+  usageMetadata?: GeminiUsageMetadata
+  modelVersion: string
+  responseId?: string
+}
+
+// ============ Ollama 兼容格式 ============
+export interface OllamaOptions {
+  temperature?: number
+  top_p?: number
+  num_predict?: number
+  stop?: string[]
+  [key: string]: unknown
+}
+
+export interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string
+  thinking?: string
+  images?: string[]
+  tool_calls?: OllamaToolCall[]
+  tool_name?: string
+}
+
+export interface OllamaToolCall {
+  function: {
+    name: string
+    arguments: Record<string, unknown>
+  }
+}
+
+export interface OllamaChatRequest {
+  model: string
+  messages?: OllamaMessage[]
+  tools?: OpenAITool[]
+  stream?: boolean
+  format?: string | Record<string, unknown>
+  options?: OllamaOptions
+  think?: boolean | string
+  keep_alive?: string | number
+}
+
+export interface OllamaGenerateRequest {
+  model: string
+  prompt?: string
+  system?: string
+  images?: string[]
+  stream?: boolean
+  raw?: boolean
+  format?: string | Record<string, unknown>
+  options?: OllamaOptions
+  think?: boolean | string
+  keep_alive?: string | number
+}
+
+// 最后一条（done: true）响应附带的统计信息，时长单位为纳秒
+export interface OllamaDoneStats {
+  done_reason: 'stop' | 'length' | 'load'
+  total_duration: number
+  load_duration: number
+  prompt_eval_count: number
+  prompt_eval_duration: number
+  eval_count: number
+  eval_duration: number
+}
+
+export interface OllamaChatResponse extends Partial<OllamaDoneStats> {
+  model: string
+  created_at: string
+  message: OllamaMessage
+  done: boolean
+}
+
+export interface OllamaGenerateResponse extends Partial<OllamaDoneStats> {
+  model: string
+  created_at: string
+  response: string
+  thinking?: string
+  done: boolean
+}
+
+export interface OllamaModelDetails {
+  parent_model: string
+  format: string
+  family: string
+  families: string[]
+  parameter_size: string
+  quantization_level: string
+}
+
+export interface OllamaModel {
+  name: string
+  model: string
+  modified_at: string
+  size: number
+  digest: string
+  details: OllamaModelDetails
+}
+
 // ============ Kiro API 格式 ============
 export interface KiroPayload {
   conversationState: KiroConversationState
@@ -254,31 +616,51 @@ export interface ApiKeyUsageRecord {
   outputTokens: number
   credits: number
   path: string
+  cacheReadTokens?: number
+  cacheWriteTokens?: number
 }
 
 // API Key 类型
 export interface ApiKey {
   id: string
   name: string
-  key: string
+  // 密钥只保存加盐哈希（sha256$盐$哈希）和用于识别的前缀，明文仅在创建 / 轮换时返回一次
+  keyHash?: string
+  keyPrefix?: string
+  key?: string  // 旧版明文密钥，加载配置时自动转换为 keyHash
   format: ApiKeyFormat  // 密钥格式
   enabled: boolean
   createdAt: number
   lastUsedAt?: number
+  // 密钥轮换：新 Key 记录来源，旧 Key 记录继任者和宽限期结束（吊销）时间
+  rotatedFrom?: string
+  replacedBy?: string
+  revokeAt?: number
   // 额度限制
   creditsLimit?: number  // Credits 上限（undefined 表示无限制）
+  // 限流与预算
+  rateLimits?: ApiKeyRateLimits
+  // 访问范围（未设置表示不限制）
+  scopes?: ApiKeyScopes
+  expiresAt?: number  // 过期时间（毫秒时间戳）
+  allowedIps?: string[]  // 允许的客户端 IP / CIDR（如 192.168.1.0/24、::1），空表示不限制
   // 用量统计
   usage: {
     totalRequests: number
     totalCredits: number
     totalInputTokens: number
     totalOutputTokens: number
+    // 缓存命中 / 写入的输入 tokens（包含在 totalInputTokens 中）
+    totalCacheReadTokens?: number
+    totalCacheWriteTokens?: number
     // 按日期统计（YYYY-MM-DD -> usage）
     daily: Record<string, {
       requests: number
       credits: number
       inputTokens: number
       outputTokens: number
+      cacheReadTokens?: number
+      cacheWriteTokens?: number
     }>
     // 按模型统计
     byModel?: Record<string, {
@@ -286,12 +668,46 @@ export interface ApiKey {
       credits: number
       inputTokens: number
       outputTokens: number
+      cacheReadTokens?: number
+      cacheWriteTokens?: number
     }>
   }
   // 用量历史记录（最近 100 条）
   usageHistory?: ApiKeyUsageRecord[]
 }
 
+// API Key 限流与预算（未设置或为 0 表示不限制）
+export interface ApiKeyRateLimits {
+  requestsPerMinute?: number
+  tokensPerMinute?: number  // 输入 + 输出 tokens
+  maxConcurrent?: number
+  dailyCreditsBudget?: number  // 每天 UTC 0 点重置
+  monthlyCreditsBudget?: number  // 每月 1 日 UTC 0 点重置
+}
+
+// API Key 当前的限流状态（用于 UI 展示）
+// API Key 可调用的生成端点
+export type ApiKeyRouteScope = PromptInjectionRoute
+
+// API Key 访问范围
+export interface ApiKeyScopes {
+  models?: string[]  // 允许的模型（支持通配符 *，按请求的模型名或映射后的模型匹配），空表示全部
+  routes?: ApiKeyRouteScope[]  // 允许的生成端点，空表示全部
+  // 管理 API（/admin/*、/metrics）权限：none 禁止，read 仅 GET，write 全部
+  // 未设置时，限制了 models / routes 的 Key 为 none，其余为 write
+  admin?: 'none' | 'read' | 'write'
+}
+
+export interface ApiKeyRateLimitStatus {
+  requestsLastMinute: number
+  tokensLastMinute: number
+  activeRequests: number
+  dailyCredits: number
+  monthlyCredits: number
+  dailyResetAt: number
+  monthlyResetAt: number
+}
+
 // 模型映射规则
 export interface ModelMappingRule {
   id: string
@@ -311,6 +727,32 @@ export interface ModelMappingRule {
   apiKeyIds?: string[]
 }
 
+// 系统提示注入适用的端点：OpenAI Chat / Completions / Responses、Claude Messages、Gemini、Ollama
+export type PromptInjectionRoute = 'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'
+
+// 系统提示注入规则
+export interface PromptInjectionRule {
+  id: string
+  name: string  // 规则名称
+  enabled: boolean
+  // 注入方式：prepend(前置), append(追加), replace(替换客户端系统提示), disable(在匹配范围内禁用其他规则)
+  action: 'prepend' | 'append' | 'replace' | 'disable'
+  // 注入内容，支持 {{timestamp}}、{{model}} 变量（disable 时忽略）
+  content: string
+  // disable 时要禁用的规则 ID 列表
+  targetRuleIds?: string[]
+  // 适用的模型（支持通配符 *，空表示全部）
+  models?: string[]
+  // 适用的 API Key ID 列表（空表示全局）
+  apiKeyIds?: string[]
+  // 适用的端点（空表示全部）
+  routes?: PromptInjectionRoute[]
+  // 仅对 Agentic 请求生效（带工具或模型名包含 agentic）
+  agenticOnly?: boolean
+  // 内置规则（可关闭，不可删除）
+  builtin?: boolean
+}
+
 export interface ProxyConfig {
   enabled: boolean
   port: number
@@ -344,6 +786,22 @@ export interface ProxyConfig {
   thinkingOutputFormat?: 'reasoning_content' | 'thinking' | 'think'
   // 模型映射规则
   modelMappings?: ModelMappingRule[]
+  // 系统提示注入规则（未设置时使用内置默认规则）
+  promptInjectionRules?: PromptInjectionRule[]
+  // 抓包模式：保存完整的请求/响应内容（已脱敏），用于调试和重放
+  captureRequests?: boolean
+  // 日志保留策略：保留天数（0 或未设置表示不限）和最多保留条数（默认 100 万）
+  logRetentionDays?: number
+  logMaxEntries?: number
+  // OpenTelemetry 链路追踪：每个请求导出一个 Span（OTLP/HTTP）
+  tracing?: TracingConfig
+}
+
+export interface TracingConfig {
+  enabled: boolean
+  endpoint?: string // OTLP/HTTP traces 地址，默认 http://127.0.0.1:4318/v1/traces
+  serviceName?: string // resource 中的 service.name，默认 kiro-proxy
+  headers?: Record<string, string> // 导出时附加的请求头（如 collector 的认证头）
 }
 
 export interface TlsConfig {
@@ -372,6 +830,8 @@ export interface ProxyStats {
   totalCredits: number // 累计总 credits（所有请求）
   inputTokens: number
   outputTokens: number
+  cacheReadTokens: number  // 缓存命中的输入 tokens（包含在 inputTokens 中）
+  cacheWriteTokens: number  // 写入缓存的输入 tokens（包含在 inputTokens 中）
   startTime: number
   accountStats: Map<string, AccountStats>
   // 按端点统计
@@ -412,6 +872,7 @@ export interface RequestLog {
   path: string
   model: string
   accountId: string
+  apiKeyId?: string
   inputTokens: number
   outputTokens: number
   credits?: number // Kiro API 返回的 credit 使用量
@@ -0,0 +1,342 @@
+/**
+ * 账号数据快照备份 - 主进程
+ * 每次保存时按时间间隔生成带时间戳的快照文件（保留最近 1 小时全部、24 小时内每小时一份、30 天内每天一份），
+ * 手动快照一直保留到用户删除，恢复前自动创建的快照保留 30 天，
+ * 使用 SHA-256 校验完整性，支持预览差异和恢复全部或部分账号 / 分组 / 标签
+ */
+
+import * as crypto from 'crypto'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+
+const SNAPSHOT_PREFIX = 'snapshot-'
+const SNAPSHOT_EXT = '.json'
+// 自动快照最小间隔
+const SNAPSHOT_MIN_INTERVAL_MS = 10 * 60 * 1000
+// 保留策略
+const KEEP_ALL_MS = 60 * 60 * 1000
+const HOURLY_RETENTION_MS = 24 * 60 * 60 * 1000
+const DAILY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type SnapshotReason = 'auto' | 'manual' | 'pre-restore'
+
+// 快照保存的内容：账号数据（启用主密码时为密文）和钥匙串凭证密文
+export interface SnapshotPayload {
+  data: unknown
+  credentials?: Record<string, string>
+}
+
+export interface SnapshotSummary {
+  accounts: number
+  groups: number
+  tags: number
+}
+
+interface SnapshotFile {
+  format: 'kiro-snapshot'
+  version: 1
+  id: string
+  createdAt: number
+  reason: SnapshotReason
+  encrypted: boolean
+  summary: SnapshotSummary
+  checksum: string  // payload 的 SHA-256
+  payload: SnapshotPayload
+}
+
+export interface SnapshotInfo {
+  id: string
+  createdAt: number
+  reason: SnapshotReason
+  encrypted: boolean
+  summary: SnapshotSummary
+  size: number
+  valid: boolean
+}
+
+export interface DiffItem {
+  id: string
+  name: string
+  fields?: string[]
+}
+
+export interface DiffSection {
+  added: DiffItem[]    // 快照中有、当前没有（恢复后会加回）
+  removed: DiffItem[]  // 当前有、快照中没有（完整恢复后会移除）
+  changed: DiffItem[]
+}
+
+export interface SnapshotDiff {
+  accounts: DiffSection
+  groups: DiffSection
+  tags: DiffSection
+}
+
+export interface RestoreSelection {
+  accounts?: string[]
+  groups?: string[]
+  tags?: string[]
+}
+
+type Collection = Record<string, Record<string, unknown>>
+
+interface AccountDataShape {
+  accounts?: Collection
+  groups?: Collection
+  tags?: Collection
+  [key: string]: unknown
+}
+
+function checksum(payload: SnapshotPayload): string {
+  return crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex')
+}
+
+function isSnapshotFile(value: unknown): value is SnapshotFile {
+  if (!value || typeof value !== 'object') return false
+  const file = value as Partial<SnapshotFile>
+  return file.format === 'kiro-snapshot' && typeof file.id === 'string' && typeof file.checksum === 'string' && !!file.payload
+}
+
+function snapshotPath(dir: string, id: string): string {
+  // id 只允许时间戳格式，防止路径穿越
+  if (!/^[\w-]+$/.test(id)) throw new Error('Invalid snapshot id')
+  return path.join(dir, `${SNAPSHOT_PREFIX}${id}${SNAPSHOT_EXT}`)
+}
+
+export function summarizeAccountData(data: unknown): SnapshotSummary {
+  const shape = (data && typeof data === 'object' ? data : {}) as AccountDataShape
+  return {
+    accounts: Object.keys(shape.accounts ?? {}).length,
+    groups: Object.keys(shape.groups ?? {}).length,
+    tags: Object.keys(shape.tags ?? {}).length
+  }
+}
+
+// 最近一次快照的明文哈希，内容未变化时不重复生成快照
+let lastSnapshotHash: string | null = null
+let lastSnapshotAt = 0
+
+/**
+ * 写入快照
+ * plainData 用于去重和统计，payload 为实际写入文件的内容（可能已加密）
+ * 自动快照距上次不足最小间隔或内容未变化时跳过，返回 null
+ */
+export async function createSnapshot(
+  dir: string,
+  plainData: unknown,
+  payload: SnapshotPayload,
+  options: { reason: SnapshotReason; encrypted: boolean; now?: number }
+): Promise<SnapshotInfo | null> {
+  const now = options.now ?? Date.now()
+  const hash = crypto.createHash('sha256').update(JSON.stringify(plainData ?? null)).digest('hex')
+  if (options.reason === 'auto') {
+    if (hash === lastSnapshotHash) return null
+    if (lastSnapshotAt === 0) {
+      // 启动后首次保存时以磁盘上最新快照的时间为准
+      lastSnapshotAt = (await listSnapshots(dir))[0]?.createdAt ?? 0
+    }
+    if (now - lastSnapshotAt < SNAPSHOT_MIN_INTERVAL_MS) return null
+  }
+
+  await fs.mkdir(dir, { recursive: true })
+  const id = new Date(now).toISOString().replace(/[:.]/g, '-')
+  const file: SnapshotFile = {
+    format: 'kiro-snapshot',
+    version: 1,
+    id,
+    createdAt: now,
+    reason: options.reason,
+    encrypted: options.encrypted,
+    summary: summarizeAccountData(plainData),
+    checksum: checksum(payload),
+    payload
+  }
+  const content = JSON.stringify(file)
+  const target = snapshotPath(dir, id)
+  // 先写临时文件再重命名，避免写入中断留下损坏的快照
+  await fs.writeFile(`${target}.tmp`, content, 'utf-8')
+  await fs.rename(`${target}.tmp`, target)
+  lastSnapshotHash = hash
+  lastSnapshotAt = now
+
+  await pruneSnapshots(dir, now)
+  return {
+    id,
+    createdAt: now,
+    reason: file.reason,
+    encrypted: file.encrypted,
+    summary: file.summary,
+    size: Buffer.byteLength(content),
+    valid: true
+  }
+}
+
+async function readSnapshotFile(dir: string, id: string): Promise<{ file: SnapshotFile; size: number; valid: boolean }> {
+  const content = await fs.readFile(snapshotPath(dir, id), 'utf-8')
+  const file = JSON.parse(content)
+  if (!isSnapshotFile(file)) throw new Error('Invalid snapshot file')
+  return { file, size: Buffer.byteLength(content), valid: checksum(file.payload) === file.checksum }
+}
+
+/**
+ * 列出所有快照（按时间倒序），损坏或校验失败的快照 valid 为 false
+ */
+export async function listSnapshots(dir: string): Promise<SnapshotInfo[]> {
+  let names: string[]
+  try {
+    names = await fs.readdir(dir)
+  } catch {
+    return []
+  }
+
+  const snapshots: SnapshotInfo[] = []
+  for (const name of names) {
+    if (!name.startsWith(SNAPSHOT_PREFIX) || !name.endsWith(SNAPSHOT_EXT)) continue
+    const id = name.slice(SNAPSHOT_PREFIX.length, -SNAPSHOT_EXT.length)
+    try {
+      const { file, size, valid } = await readSnapshotFile(dir, id)
+      snapshots.push({ id, createdAt: file.createdAt, reason: file.reason, encrypted: file.encrypted, summary: file.summary, size, valid })
+    } catch {
+      const stat = await fs.stat(path.join(dir, name)).catch(() => null)
+      snapshots.push({
+        id,
+        createdAt: stat?.mtimeMs ?? 0,
+        reason: 'auto',
+        encrypted: false,
+        summary: { accounts: 0, groups: 0, tags: 0 },
+        size: stat?.size ?? 0,
+        valid: false
+      })
+    }
+  }
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * 读取快照内容，校验失败时抛出异常
+ */
+export async function readSnapshot(dir: string, id: string): Promise<{ payload: SnapshotPayload; encrypted: boolean }> {
+  const { file, valid } = await readSnapshotFile(dir, id)
+  if (!valid) throw new Error('Snapshot integrity check failed')
+  return { payload: file.payload, encrypted: file.encrypted }
+}
+
+export async function deleteSnapshot(dir: string, id: string): Promise<void> {
+  await fs.unlink(snapshotPath(dir, id))
+}
+
+/**
+ * 使用新的内容重写所有快照（设置 / 修改 / 移除主密码时重新加密），无法转换的快照保持原样
+ */
+export async function rewriteSnapshots(
+  dir: string,
+  transform: (payload: SnapshotPayload, encrypted: boolean) => { payload: SnapshotPayload; encrypted: boolean }
+): Promise<void> {
+  for (const snapshot of await listSnapshots(dir)) {
+    if (!snapshot.valid) continue
+    try {
+      const { file } = await readSnapshotFile(dir, snapshot.id)
+      const next = transform(file.payload, file.encrypted)
+      const updated: SnapshotFile = { ...file, payload: next.payload, encrypted: next.encrypted, checksum: checksum(next.payload) }
+      const target = snapshotPath(dir, snapshot.id)
+      await fs.writeFile(`${target}.tmp`, JSON.stringify(updated), 'utf-8')
+      await fs.rename(`${target}.tmp`, target)
+    } catch (error) {
+      console.error(`[Snapshot] Failed to rewrite snapshot ${snapshot.id}:`, error)
+    }
+  }
+}
+
+/**
+ * 按保留策略清理快照：最近 1 小时全部保留，24 小时内每小时保留最新一份，30 天内每天保留最新一份
+ * 手动快照和恢复前快照不参与按时间段清理，避免被同一时间段内更新的自动快照替换
+ */
+export async function pruneSnapshots(dir: string, now: number = Date.now()): Promise<void> {
+  const snapshots = (await listSnapshots(dir)).filter(s => s.valid)
+  const keptBuckets = new Set<string>()
+  for (const snapshot of snapshots) {
+    const age = now - snapshot.createdAt
+    if (snapshot.reason === 'manual') continue
+    if (snapshot.reason === 'pre-restore') {
+      if (age >= DAILY_RETENTION_MS) await deleteSnapshot(dir, snapshot.id).catch(() => undefined)
+      continue
+    }
+    let bucket: string | null
+    if (age < KEEP_ALL_MS) {
+      continue
+    } else if (age < HOURLY_RETENTION_MS) {
+      bucket = `h${Math.floor(snapshot.createdAt / HOUR_MS)}`
+    } else if (age < DAILY_RETENTION_MS) {
+      bucket = `d${Math.floor(snapshot.createdAt / DAY_MS)}`
+    } else {
+      bucket = null
+    }
+    // 列表按时间倒序，每个时间段第一个即为最新
+    if (bucket && !keptBuckets.has(bucket)) {
+      keptBuckets.add(bucket)
+      continue
+    }
+    await deleteSnapshot(dir, snapshot.id).catch(() => undefined)
+  }
+}
+
+// ============ 差异与恢复 ============
+
+function diffCollection(current: Collection | undefined, snapshot: Collection | undefined, nameOf: (item: Record<string, unknown>, id: string) => string): DiffSection {
+  const section: DiffSection = { added: [], removed: [], changed: [] }
+  const currentItems = current ?? {}
+  const snapshotItems = snapshot ?? {}
+  for (const [id, item] of Object.entries(snapshotItems)) {
+    const existing = currentItems[id]
+    if (!existing) {
+      section.added.push({ id, name: nameOf(item, id) })
+      continue
+    }
+    const fields = Array.from(new Set([...Object.keys(existing), ...Object.keys(item)]))
+      .filter(key => JSON.stringify(existing[key]) !== JSON.stringify(item[key]))
+    if (fields.length > 0) {
+      section.changed.push({ id, name: nameOf(item, id), fields })
+    }
+  }
+  for (const [id, item] of Object.entries(currentItems)) {
+    if (!snapshotItems[id]) section.removed.push({ id, name: nameOf(item, id) })
+  }
+  return section
+}
+
+/**
+ * 比较当前数据和快照数据（两者都应已去掉钥匙串中的凭证字段）
+ */
+export function diffAccountData(current: unknown, snapshot: unknown): SnapshotDiff {
+  const currentData = (current ?? {}) as AccountDataShape
+  const snapshotData = (snapshot ?? {}) as AccountDataShape
+  const nameOf = (item: Record<string, unknown>, id: string): string =>
+    String(item.email ?? item.name ?? id)
+  return {
+    accounts: diffCollection(currentData.accounts, snapshotData.accounts, nameOf),
+    groups: diffCollection(currentData.groups, snapshotData.groups, nameOf),
+    tags: diffCollection(currentData.tags, snapshotData.tags, nameOf)
+  }
+}
+
+/**
+ * 将快照中选中的账号 / 分组 / 标签合并到当前数据，快照中不存在的条目会从当前数据中移除
+ */
+export function mergeSnapshotSelection(current: unknown, snapshot: unknown, selection: RestoreSelection): AccountDataShape {
+  const currentData = { ...((current ?? {}) as AccountDataShape) }
+  const snapshotData = (snapshot ?? {}) as AccountDataShape
+  for (const key of ['accounts', 'groups', 'tags'] as const) {
+    const ids = selection[key]
+    if (!ids || ids.length === 0) continue
+    const merged: Collection = { ...(currentData[key] ?? {}) }
+    for (const id of ids) {
+      const item = snapshotData[key]?.[id]
+      if (item) merged[id] = item
+      else delete merged[id]
+    }
+    currentData[key] = merged
+  }
+  return currentData
+}
@@ -0,0 +1,148 @@
+/**
+ * 主密码保险库 - 主进程
+ * 使用 scrypt 从主密码派生密钥，以 AES-256-GCM 加密账号数据和备份
+ * 解锁后密钥只保存在内存中，手动锁定或空闲超时后清除
+ */
+
+import * as crypto from 'crypto'
+import { powerMonitor } from 'electron'
+
+// scrypt 参数（N = 2^15 约需 32 MB 内存）
+const SCRYPT_N = 32768
+const SCRYPT_R = 8
+const SCRYPT_P = 1
+const SCRYPT_MAXMEM = 64 * 1024 * 1024
+const KEY_LENGTH = 32
+const SALT_LENGTH = 16
+const IV_LENGTH = 12
+// GCM 认证标签固定 16 字节，解密时拒绝被截断的标签
+const AUTH_TAG_LENGTH = 16
+// 空闲检查间隔
+const IDLE_CHECK_INTERVAL_MS = 30 * 1000
+
+export interface VaultKdfParams {
+  name: 'scrypt'
+  salt: string  // base64
+  N: number
+  r: number
+  p: number
+}
+
+// 加密后保存到 store / 备份文件中的数据
+export interface VaultPayload {
+  vault: 1
+  kdf: VaultKdfParams
+  iv: string  // base64
+  tag: string  // base64
+  data: string  // base64 密文
+}
+
+export interface VaultKey {
+  key: Buffer
+  kdf: VaultKdfParams
+}
+
+export function isVaultPayload(value: unknown): value is VaultPayload {
+  if (!value || typeof value !== 'object') return false
+  const payload = value as Partial<VaultPayload>
+  return payload.vault === 1 && !!payload.kdf && typeof payload.iv === 'string' && typeof payload.tag === 'string' && typeof payload.data === 'string'
+}
+
+/**
+ * 按 KDF 参数从密码派生 AES-256 密钥
+ */
+export function deriveKey(password: string, kdf: VaultKdfParams): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, Buffer.from(kdf.salt, 'base64'), KEY_LENGTH, { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: SCRYPT_MAXMEM }, (err, key) => {
+      if (err) reject(err)
+      else resolve(key)
+    })
+  })
+}
+
+/**
+ * 为新密码生成随机盐并派生密钥（启用保险库或修改密码时使用）
+ */
+export async function createVaultKey(password: string): Promise<VaultKey> {
+  const kdf: VaultKdfParams = {
+    name: 'scrypt',
+    salt: crypto.randomBytes(SALT_LENGTH).toString('base64'),
+    N: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P
+  }
+  return { key: await deriveKey(password, kdf), kdf }
+}
+
+/**
+ * 按密文中记录的参数派生密钥，并通过解密校验密码是否正确
+ * 密码错误时抛出异常
+ */
+export async function deriveVaultKey(password: string, payload: VaultPayload): Promise<{ vaultKey: VaultKey; data: unknown }> {
+  const vaultKey = { key: await deriveKey(password, payload.kdf), kdf: payload.kdf }
+  return { vaultKey, data: openVault(vaultKey, payload) }
+}
+
+export function sealVault(vaultKey: VaultKey, data: unknown): VaultPayload {
+  const iv = crypto.randomBytes(IV_LENGTH)
+  const cipher = crypto.createCipheriv('aes-256-gcm', vaultKey.key, iv, { authTagLength: AUTH_TAG_LENGTH })
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(data ?? null), 'utf-8'), cipher.final()])
+  return {
+    vault: 1,
+    kdf: vaultKey.kdf,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: encrypted.toString('base64')
+  }
+}
+
+export function openVault(vaultKey: VaultKey, payload: VaultPayload): unknown {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', vaultKey.key, Buffer.from(payload.iv, 'base64'), { authTagLength: AUTH_TAG_LENGTH })
+  decipher.setAuthTag(Buffer.from(payload.tag, 'base64'))
+  const decrypted = Buffer.concat([decipher.update(Buffer.from(payload.data, 'base64')), decipher.final()])
+  return JSON.parse(decrypted.toString('utf-8'))
+}
+
+// ============ 解锁状态 ============
+
+let unlockedKey: VaultKey | null = null
+let idleTimer: ReturnType<typeof setInterval> | null = null
+
+export function getUnlockedVaultKey(): VaultKey | null {
+  return unlockedKey
+}
+
+export function setUnlockedVaultKey(vaultKey: VaultKey): void {
+  if (unlockedKey && unlockedKey.key !== vaultKey.key) unlockedKey.key.fill(0)
+  unlockedKey = vaultKey
+}
+
+/**
+ * 锁定保险库：清除内存中的密钥
+ */
+export function lockVault(): void {
+  if (unlockedKey) unlockedKey.key.fill(0)
+  unlockedKey = null
+}
+
+/**
+ * 启动空闲自动锁定：系统空闲时间超过设定分钟数时锁定（0 表示不自动锁定）
+ */
+export function startVaultAutoLock(getAutoLockMinutes: () => number, onLock: () => void): void {
+  if (idleTimer) return
+  idleTimer = setInterval(() => {
+    const minutes = getAutoLockMinutes()
+    if (!unlockedKey || minutes <= 0) return
+    if (powerMonitor.getSystemIdleTime() >= minutes * 60) {
+      lockVault()
+      onLock()
+    }
+  }, IDLE_CHECK_INTERVAL_MS)
+}
+
+export function stopVaultAutoLock(): void {
+  if (idleTimer) {
+    clearInterval(idleTimer)
+    idleTimer = null
+  }
+}
@@ -113,9 +113,79 @@ interface StatusResult {
   error?: { message: string }
 }
 
+// 可编辑的 Kiro settings.json（安装的用户设置、Profile 或工作区）
+interface KiroSettingsTarget {
+  id: string
+  kind: 'user' | 'profile' | 'workspace'
+  name: string
+  installation: { kind: 'default' | 'portable' | 'custom'; label: string; userDataDir: string }
+  settingsPath: string
+  exists: boolean
+  workspaces?: string[]
+}
+
+// MCP 服务器配置（Kiro mcp.json 中 mcpServers 的值）
+interface McpServerConfig {
+  command?: string
+  args?: string[]
+  env?: Record<string, string>
+  url?: string
+  headers?: Record<string, string>
+  disabled?: boolean
+  autoApprove?: string[]
+  disabledTools?: string[]
+  timeout?: number
+  [key: string]: unknown
+}
+
+// MCP 配置文件，workspace 为 null 时表示用户级配置
+interface McpConfigFile {
+  workspace: string | null
+  path: string
+  exists: boolean
+  servers: Record<string, McpServerConfig>
+  error?: string
+}
+
+// MCP 服务器测试结果（握手、工具 / 资源 / 提示词列表、stderr 和耗时）
+interface McpProbeResult {
+  success: boolean
+  transport?: 'stdio' | 'http' | 'sse'
+  serverInfo?: { name?: string; version?: string }
+  protocolVersion?: string
+  tools?: { name: string; description?: string }[]
+  resources?: { name: string; description?: string }[]
+  prompts?: { name: string; description?: string }[]
+  stderr?: string
+  timings?: { initializeMs?: number; listMs?: number; totalMs: number }
+  error?: string
+}
+
 interface KiroApi {
   openExternal: (url: string, usePrivateMode?: boolean) => void
   getAppVersion: () => Promise<string>
+
+  // 快照备份
+  backupListSnapshots: () => Promise<Array<{ id: string; createdAt: number; reason: 'auto' | 'manual' | 'pre-restore'; encrypted: boolean; summary: { accounts: number; groups: number; tags: number }; size: number; valid: boolean }>>
+  backupCreateSnapshot: () => Promise<{ success: boolean; error?: string }>
+  backupPreviewSnapshot: (id: string) => Promise<{
+    success: boolean
+    diff?: Record<'accounts' | 'groups' | 'tags', { added: Array<{ id: string; name: string }>; removed: Array<{ id: string; name: string }>; changed: Array<{ id: string; name: string; fields?: string[] }> }>
+    error?: string
+  }>
+  backupRestoreSnapshot: (id: string, selection?: { accounts?: string[]; groups?: string[]; tags?: string[] }) => Promise<{ success: boolean; error?: string }>
+  backupDeleteSnapshot: (id: string) => Promise<{ success: boolean; error?: string }>
+
+  // 主密码保险库
+  vaultGetStatus: () => Promise<{ enabled: boolean; locked: boolean; autoLockMinutes: number }>
+  vaultUnlock: (password: string) => Promise<{ success: boolean; error?: string }>
+  vaultLock: () => Promise<{ success: boolean; error?: string }>
+  vaultEnable: (password: string) => Promise<{ success: boolean; error?: string }>
+  vaultChangePassword: (currentPassword: string, newPassword: string) => Promise<{ success: boolean; error?: string }>
+  vaultDisable: (password: string) => Promise<{ success: boolean; error?: string }>
+  vaultSetAutoLock: (minutes: number) => Promise<{ success: boolean }>
+  getCredentialStorage: () => Promise<{ keychain: boolean; backend: string }>
+  onVaultLocked: (callback: () => void) => () => void
   onAuthCallback: (callback: (data: { code: string; state: string }) => void) => () => void
 
   // 账号管理
@@ -180,6 +250,8 @@ interface KiroApi {
   // 文件操作
   exportToFile: (data: string, filename: string) => Promise<boolean>
   importFromFile: () => Promise<{ content: string; format: string } | null>
+  exportEncryptBundle: (content: string, passphrase: string) => Promise<{ success: boolean; content?: string; error?: string }>
+  importDecryptBundle: (content: string, passphrase: string) => Promise<{ success: boolean; content?: string; error?: string }>
 
   // 验证凭证并获取账号信息
   verifyAccountCredentials: (credentials: {
@@ -473,11 +545,29 @@ interface KiroApi {
 
   // ============ Kiro 设置管理 API ============
 
+  // 获取可编辑的 Kiro 设置目标
+  getKiroSettingsTargets: () => Promise<{
+    targets: KiroSettingsTarget[]
+    selectedId: string | null
+    customDirs: string[]
+    error?: string
+  }>
+
+  // 记住当前编辑的设置目标
+  setKiroSettingsTarget: (targetId: string) => Promise<{ success: boolean }>
+
+  // 添加便携版或自定义位置的 Kiro 安装目录
+  addKiroInstallDir: () => Promise<{ success: boolean; error?: string }>
+
+  // 移除手动添加的 Kiro 安装目录
+  removeKiroInstallDir: (dir: string) => Promise<{ success: boolean }>
+
   // 获取 Kiro 设置
-  getKiroSettings: () => Promise<{
+  getKiroSettings: (targetId?: string) => Promise<{
     settings?: Record<string, unknown>
     mcpConfig?: { mcpServers: Record<string, unknown> }
     steeringFiles?: string[]
+    target?: KiroSettingsTarget
     error?: string
   }>
 
@@ -488,16 +578,16 @@ interface KiroApi {
   }>
 
   // 保存 Kiro 设置
-  saveKiroSettings: (settings: Record<string, unknown>) => Promise<{ success: boolean; error?: string }>
+  saveKiroSettings: (settings: Record<string, unknown>, targetId?: string) => Promise<{ success: boolean; error?: string }>
 
   // 打开 Kiro MCP 配置文件
-  openKiroMcpConfig: (type: 'user' | 'workspace') => Promise<{ success: boolean; error?: string }>
+  openKiroMcpConfig: (type: 'user' | 'workspace', workspace?: string) => Promise<{ success: boolean; error?: string }>
 
   // 打开 Kiro Steering 目录
   openKiroSteeringFolder: () => Promise<{ success: boolean; error?: string }>
 
   // 打开 Kiro settings.json 文件
-  openKiroSettingsFile: () => Promise<{ success: boolean; error?: string }>
+  openKiroSettingsFile: (targetId?: string) => Promise<{ success: boolean; error?: string }>
 
   // 打开指定的 Steering 文件
   openKiroSteeringFile: (filename: string) => Promise<{ success: boolean; error?: string }>
@@ -516,11 +606,32 @@ interface KiroApi {
 
   // ============ MCP 服务器管理 ============
 
-  // 保存 MCP 服务器配置
-  saveMcpServer: (name: string, config: { command: string; args?: string[]; env?: Record<string, string> }, oldName?: string) => Promise<{ success: boolean; error?: string }>
+  // 获取用户级和各工作区的 MCP 配置
+  getMcpConfigs: () => Promise<{
+    user: McpConfigFile
+    workspaces: McpConfigFile[]
+  }>
+
+  // 添加 MCP 工作区目录
+  addMcpWorkspace: () => Promise<{ success: boolean; workspace?: string; error?: string }>
+
+  // 移除 MCP 工作区目录
+  removeMcpWorkspace: (workspace: string) => Promise<{ success: boolean }>
+
+  // 保存 MCP 服务器配置（workspace 为空时保存到用户级配置）
+  saveMcpServer: (name: string, config: McpServerConfig, oldName?: string, workspace?: string | null) => Promise<{ success: boolean; error?: string }>
 
   // 删除 MCP 服务器
-  deleteMcpServer: (name: string) => Promise<{ success: boolean; error?: string }>
+  deleteMcpServer: (name: string, workspace?: string | null) => Promise<{ success: boolean; error?: string }>
+
+  // 启用 / 禁用 MCP 服务器
+  setMcpServerDisabled: (name: string, disabled: boolean, workspace?: string | null) => Promise<{ success: boolean; error?: string }>
+
+  // 在用户级和工作区之间复制 MCP 服务器
+  copyMcpServer: (name: string, from: string | null, to: string | null, overwrite?: boolean) => Promise<{ success: boolean; exists?: boolean; error?: string }>
+
+  // 测试 MCP 服务器（握手并列出工具 / 资源 / 提示词）
+  testMcpServer: (name: string, workspace?: string | null) => Promise<McpProbeResult>
 
   // ============ Kiro API 反代服务器 ============
 
@@ -543,7 +654,10 @@ interface KiroApi {
   proxyResetRequestStats: () => Promise<{ success: boolean }>
 
   // 获取反代详细日志
-  proxyGetLogs: (count?: number) => Promise<Array<{ timestamp: string; level: string; category: string; message: string; data?: unknown }>>
+  proxyGetLogs: (count?: number) => Promise<Array<{ timestamp: string; level: string; category: string; message: string; data?: unknown; model?: string; apiKeyId?: string }>>
+
+  // 按条件分页查询反代日志（最新的在前）
+  proxyQueryLogs: (query?: { from?: number; to?: number; levels?: Array<'DEBUG' | 'INFO' | 'WARN' | 'ERROR'>; category?: string; model?: string; apiKeyId?: string; search?: string; offset?: number; limit?: number }) => Promise<{ entries: Array<{ timestamp: string; level: string; category: string; message: string; data?: unknown; model?: string; apiKeyId?: string }>; total: number; categories: string[]; models: string[]; apiKeyIds: string[] }>
 
   // 清除反代详细日志
   proxyClearLogs: () => Promise<{ success: boolean }>
@@ -551,8 +665,23 @@ interface KiroApi {
   // 获取反代日志数量
   proxyGetLogsCount: () => Promise<number>
 
+  // 获取抓包列表
+  proxyGetCaptures: () => Promise<Array<{ id: string; timestamp: string; method: string; path: string; model?: string; status?: number; durationMs?: number; replayOf?: string; frameCount: number }>>
+
+  // 获取抓包详情
+  proxyGetCapture: (id: string) => Promise<{ id: string; timestamp: string; method: string; path: string; apiKeyId?: string; replayOf?: string; request: { headers: Record<string, string>; body: unknown }; kiroPayloads: unknown[]; frames: Array<{ call: number; eventType: string; payload: unknown }>; response: { status?: number; headers?: Record<string, string>; body: string }; durationMs?: number; truncated?: boolean } | null>
+
+  // 删除抓包
+  proxyDeleteCapture: (id: string) => Promise<{ success: boolean }>
+
+  // 清除全部抓包
+  proxyClearCaptures: () => Promise<{ success: boolean }>
+
+  // 重放抓包
+  proxyReplayCapture: (id: string) => Promise<{ success: boolean; captureId?: string; status?: number; error?: string }>
+
   // 更新反代服务器配置
-  proxyUpdateConfig: (config: { port?: number; host?: string; apiKey?: string; enableMultiAccount?: boolean; selectedAccountIds?: string[]; logRequests?: boolean; autoStart?: boolean; maxRetries?: number; preferredEndpoint?: 'codewhisperer' | 'amazonq'; autoContinueRounds?: number; disableTools?: boolean; autoSwitchOnQuotaExhausted?: boolean; modelMappings?: Array<{ id: string; name: string; enabled: boolean; type: 'replace' | 'alias' | 'loadbalance'; sourceModel: string; targetModels: string[]; weights?: number[]; priority: number; apiKeyIds?: string[] }> }) => Promise<{ success: boolean; config?: unknown; error?: string }>
+  proxyUpdateConfig: (config: { port?: number; host?: string; apiKey?: string; enableMultiAccount?: boolean; selectedAccountIds?: string[]; logRequests?: boolean; autoStart?: boolean; maxRetries?: number; preferredEndpoint?: 'codewhisperer' | 'amazonq'; autoContinueRounds?: number; disableTools?: boolean; autoSwitchOnQuotaExhausted?: boolean; modelMappings?: Array<{ id: string; name: string; enabled: boolean; type: 'replace' | 'alias' | 'loadbalance'; sourceModel: string; targetModels: string[]; weights?: number[]; priority: number; apiKeyIds?: string[] }>; promptInjectionRules?: Array<{ id: string; name: string; enabled: boolean; action: 'prepend' | 'append' | 'replace' | 'disable'; content: string; targetRuleIds?: string[]; models?: string[]; apiKeyIds?: string[]; routes?: Array<'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'>; agenticOnly?: boolean; builtin?: boolean }>; captureRequests?: boolean; logRetentionDays?: number; logMaxEntries?: number; tracing?: { enabled: boolean; endpoint?: string; serviceName?: string; headers?: Record<string, string> } }) => Promise<{ success: boolean; config?: unknown; error?: string }>
 
   // 添加账号到反代池
   proxyAddAccount: (account: { id: string; email?: string; accessToken: string; refreshToken?: string; profileArn?: string; expiresAt?: number }) => Promise<{ success: boolean; accountCount?: number; error?: string }>
@@ -572,6 +701,9 @@ interface KiroApi {
   // 刷新模型缓存
   proxyRefreshModels: () => Promise<{ success: boolean; error?: string }>
 
+  // 获取内置的系统提示注入规则
+  proxyGetDefaultPromptRules: () => Promise<Array<{ id: string; name: string; enabled: boolean; action: 'prepend' | 'append' | 'replace' | 'disable'; content: string; targetRuleIds?: string[]; models?: string[]; apiKeyIds?: string[]; routes?: Array<'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'>; agenticOnly?: boolean; builtin?: boolean }>>
+
   // 获取可用模型列表
   proxyGetModels: () => Promise<{ success: boolean; error?: string; models: Array<{ id: string; name: string; description: string; inputTypes?: string[]; maxInputTokens?: number | null; maxOutputTokens?: number | null; rateMultiplier?: number; rateUnit?: string }>; fromCache?: boolean }>
 
@@ -663,13 +795,16 @@ interface KiroApi {
   // ============ API Key 管理 ============
   
   // 获取所有 API Keys
-  proxyGetApiKeys: () => Promise<{ success: boolean; apiKeys: Array<{ id: string; name: string; key: string; enabled: boolean; createdAt: number; lastUsedAt?: number; usage: { totalRequests: number; totalCredits: number; totalInputTokens: number; totalOutputTokens: number; daily: Record<string, { requests: number; credits: number; inputTokens: number; outputTokens: number }> } }>; error?: string }>
+  proxyGetApiKeys: () => Promise<{ success: boolean; apiKeys: Array<{ id: string; name: string; keyPrefix?: string; rotatedFrom?: string; replacedBy?: string; revokeAt?: number; enabled: boolean; createdAt: number; lastUsedAt?: number; usage: { totalRequests: number; totalCredits: number; totalInputTokens: number; totalOutputTokens: number; daily: Record<string, { requests: number; credits: number; inputTokens: number; outputTokens: number }> } }>; error?: string }>
 
   // 添加 API Key
-  proxyAddApiKey: (apiKey: { name: string; key?: string; format?: 'sk' | 'simple' | 'token'; creditsLimit?: number }) => Promise<{ success: boolean; apiKey?: { id: string; name: string; key: string; format?: 'sk' | 'simple' | 'token'; enabled: boolean; createdAt: number; creditsLimit?: number; usage: { totalRequests: number; totalCredits: number; totalInputTokens: number; totalOutputTokens: number; daily: Record<string, { requests: number; credits: number; inputTokens: number; outputTokens: number }> } }; error?: string }>
+  proxyAddApiKey: (apiKey: { name: string; key?: string; format?: 'sk' | 'simple' | 'token'; creditsLimit?: number; rateLimits?: { requestsPerMinute?: number; tokensPerMinute?: number; maxConcurrent?: number; dailyCreditsBudget?: number; monthlyCreditsBudget?: number }; scopes?: { models?: string[]; routes?: Array<'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'>; admin?: 'none' | 'read' | 'write' }; expiresAt?: number; allowedIps?: string[] }) => Promise<{ success: boolean; apiKey?: { id: string; name: string; keyPrefix?: string; rotatedFrom?: string; replacedBy?: string; revokeAt?: number; format?: 'sk' | 'simple' | 'token'; enabled: boolean; createdAt: number; creditsLimit?: number; rateLimits?: { requestsPerMinute?: number; tokensPerMinute?: number; maxConcurrent?: number; dailyCreditsBudget?: number; monthlyCreditsBudget?: number }; scopes?: { models?: string[]; routes?: Array<'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'>; admin?: 'none' | 'read' | 'write' }; expiresAt?: number; allowedIps?: string[]; usage: { totalRequests: number; totalCredits: number; totalInputTokens: number; totalOutputTokens: number; daily: Record<string, { requests: number; credits: number; inputTokens: number; outputTokens: number }> } }; secret?: string; error?: string }>
+
+  // 轮换 API Key（返回继任 Key 的明文，仅此一次）
+  proxyRotateApiKey: (id: string, gracePeriodMinutes: number) => Promise<{ success: boolean; apiKey?: { id: string; name: string; keyPrefix?: string; rotatedFrom?: string; replacedBy?: string; revokeAt?: number; enabled: boolean; createdAt: number }; previous?: { id: string; replacedBy?: string; revokeAt?: number }; secret?: string; error?: string }>
 
   // 更新 API Key
-  proxyUpdateApiKey: (id: string, updates: { name?: string; key?: string; enabled?: boolean; creditsLimit?: number | null }) => Promise<{ success: boolean; apiKey?: { id: string; name: string; key: string; format?: 'sk' | 'simple' | 'token'; enabled: boolean; createdAt: number; creditsLimit?: number; usage: { totalRequests: number; totalCredits: number; totalInputTokens: number; totalOutputTokens: number; daily: Record<string, { requests: number; credits: number; inputTokens: number; outputTokens: number }> } }; error?: string }>
+  proxyUpdateApiKey: (id: string, updates: { name?: string; enabled?: boolean; creditsLimit?: number | null; rateLimits?: { requestsPerMinute?: number; tokensPerMinute?: number; maxConcurrent?: number; dailyCreditsBudget?: number; monthlyCreditsBudget?: number }; scopes?: { models?: string[]; routes?: Array<'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'>; admin?: 'none' | 'read' | 'write' }; expiresAt?: number | null; allowedIps?: string[]; revokeAt?: number | null }) => Promise<{ success: boolean; apiKey?: { id: string; name: string; keyPrefix?: string; rotatedFrom?: string; replacedBy?: string; revokeAt?: number; format?: 'sk' | 'simple' | 'token'; enabled: boolean; createdAt: number; creditsLimit?: number; rateLimits?: { requestsPerMinute?: number; tokensPerMinute?: number; maxConcurrent?: number; dailyCreditsBudget?: number; monthlyCreditsBudget?: number }; scopes?: { models?: string[]; routes?: Array<'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'>; admin?: 'none' | 'read' | 'write' }; expiresAt?: number; allowedIps?: string[]; usage: { totalRequests: number; totalCredits: number; totalInputTokens: number; totalOutputTokens: number; daily: Record<string, { requests: number; credits: number; inputTokens: number; outputTokens: number }> } }; error?: string }>
 
   // 删除 API Key
   proxyDeleteApiKey: (id: string) => Promise<{ success: boolean; error?: string }>
@@ -677,6 +812,9 @@ interface KiroApi {
   // 重置 API Key 用量统计
   proxyResetApiKeyUsage: (id: string) => Promise<{ success: boolean; error?: string }>
 
+  // 获取 API Key 限流状态（滑动窗口与预算用量）
+  proxyGetApiKeyRateLimitStatus: (id: string) => Promise<{ success: boolean; status?: { requestsLastMinute: number; tokensLastMinute: number; activeRequests: number; dailyCredits: number; monthlyCredits: number; dailyResetAt: number; monthlyResetAt: number }; error?: string }>
+
   // 安装 CA 证书到系统信任存储
   kproxyInstallCaCert: () => Promise<{ success: boolean; message?: string; error?: string }>
 
@@ -13,6 +13,90 @@ const api = {
     return ipcRenderer.invoke('get-app-version')
   },
 
+  // ============ 快照备份 ============
+
+  // 列出快照
+  backupListSnapshots: (): Promise<Array<{ id: string; createdAt: number; reason: 'auto' | 'manual' | 'pre-restore'; encrypted: boolean; summary: { accounts: number; groups: number; tags: number }; size: number; valid: boolean }>> => {
+    return ipcRenderer.invoke('backup-list-snapshots')
+  },
+
+  // 立即创建快照
+  backupCreateSnapshot: (): Promise<{ success: boolean; error?: string }> => {
+    return ipcRenderer.invoke('backup-create-snapshot')
+  },
+
+  // 预览快照与当前数据的差异
+  backupPreviewSnapshot: (id: string): Promise<{
+    success: boolean
+    diff?: Record<'accounts' | 'groups' | 'tags', { added: Array<{ id: string; name: string }>; removed: Array<{ id: string; name: string }>; changed: Array<{ id: string; name: string; fields?: string[] }> }>
+    error?: string
+  }> => {
+    return ipcRenderer.invoke('backup-preview-snapshot', id)
+  },
+
+  // 从快照恢复（不指定 selection 时完整恢复）
+  backupRestoreSnapshot: (id: string, selection?: { accounts?: string[]; groups?: string[]; tags?: string[] }): Promise<{ success: boolean; error?: string }> => {
+    return ipcRenderer.invoke('backup-restore-snapshot', id, selection)
+  },
+
+  // 删除快照
+  backupDeleteSnapshot: (id: string): Promise<{ success: boolean; error?: string }> => {
+    return ipcRenderer.invoke('backup-delete-snapshot', id)
+  },
+
+  // ============ 主密码保险库 ============
+
+  // 获取保险库状态
+  vaultGetStatus: (): Promise<{ enabled: boolean; locked: boolean; autoLockMinutes: number }> => {
+    return ipcRenderer.invoke('vault-get-status')
+  },
+
+  // 使用主密码解锁
+  vaultUnlock: (password: string): Promise<{ success: boolean; error?: string }> => {
+    return ipcRenderer.invoke('vault-unlock', password)
+  },
+
+  // 立即锁定
+  vaultLock: (): Promise<{ success: boolean; error?: string }> => {
+    return ipcRenderer.invoke('vault-lock')
+  },
+
+  // 设置主密码
+  vaultEnable: (password: string): Promise<{ success: boolean; error?: string }> => {
+    return ipcRenderer.invoke('vault-enable', password)
+  },
+
+  // 修改主密码
+  vaultChangePassword: (currentPassword: string, newPassword: string): Promise<{ success: boolean; error?: string }> => {
+    return ipcRenderer.invoke('vault-change-password', currentPassword, newPassword)
+  },
+
+  // 移除主密码
+  vaultDisable: (password: string): Promise<{ success: boolean; error?: string }> => {
+    return ipcRenderer.invoke('vault-disable', password)
+  },
+
+  // 获取账号凭证存储方式（系统钥匙串或应用数据文件）
+  getCredentialStorage: (): Promise<{ keychain: boolean; backend: string }> => {
+    return ipcRenderer.invoke('get-credential-storage')
+  },
+
+  // 设置空闲自动锁定时间（分钟，0 表示不自动锁定）
+  vaultSetAutoLock: (minutes: number): Promise<{ success: boolean }> => {
+    return ipcRenderer.invoke('vault-set-auto-lock', minutes)
+  },
+
+  // 监听保险库锁定（空闲超时或手动锁定）
+  onVaultLocked: (callback: () => void): (() => void) => {
+    const handler = (): void => {
+      callback()
+    }
+    ipcRenderer.on('vault-locked', handler)
+    return () => {
+      ipcRenderer.removeListener('vault-locked', handler)
+    }
+  },
+
   // 监听 OAuth 回调
   onAuthCallback: (callback: (data: { code: string; state: string }) => void): (() => void) => {
     const handler = (_event: Electron.IpcRendererEvent, data: { code: string; state: string }): void => {
@@ -155,6 +239,16 @@ const api = {
     return ipcRenderer.invoke('import-from-file')
   },
 
+  // 使用口令加密导出内容（加密导出包）
+  exportEncryptBundle: (content: string, passphrase: string): Promise<{ success: boolean; content?: string; error?: string }> => {
+    return ipcRenderer.invoke('export-encrypt-bundle', content, passphrase)
+  },
+
+  // 使用口令解密加密导出包
+  importDecryptBundle: (content: string, passphrase: string): Promise<{ success: boolean; content?: string; error?: string }> => {
+    return ipcRenderer.invoke('import-decrypt-bundle', content, passphrase)
+  },
+
   // 验证凭证并获取账号信息
   verifyAccountCredentials: (credentials: {
     refreshToken: string
@@ -597,14 +691,56 @@ const api = {
 
   // ============ Kiro 设置管理 ============
 
+  // 获取可编辑的 Kiro 设置目标（各安装的用户设置、Profile、工作区）
+  getKiroSettingsTargets: (): Promise<{
+    targets: Array<{
+      id: string
+      kind: 'user' | 'profile' | 'workspace'
+      name: string
+      installation: { kind: 'default' | 'portable' | 'custom'; label: string; userDataDir: string }
+      settingsPath: string
+      exists: boolean
+      workspaces?: string[]
+    }>
+    selectedId: string | null
+    customDirs: string[]
+    error?: string
+  }> => {
+    return ipcRenderer.invoke('get-kiro-settings-targets')
+  },
+
+  // 记住当前编辑的设置目标
+  setKiroSettingsTarget: (targetId: string): Promise<{ success: boolean }> => {
+    return ipcRenderer.invoke('set-kiro-settings-target', targetId)
+  },
+
+  // 添加便携版或自定义位置的 Kiro 安装目录
+  addKiroInstallDir: (): Promise<{ success: boolean; error?: string }> => {
+    return ipcRenderer.invoke('add-kiro-install-dir')
+  },
+
+  // 移除手动添加的 Kiro 安装目录
+  removeKiroInstallDir: (dir: string): Promise<{ success: boolean }> => {
+    return ipcRenderer.invoke('remove-kiro-install-dir', dir)
+  },
+
   // 获取 Kiro 设置
-  getKiroSettings: (): Promise<{
+  getKiroSettings: (targetId?: string): Promise<{
     settings?: Record<string, unknown>
     mcpConfig?: { mcpServers: Record<string, unknown> }
     steeringFiles?: string[]
+    target?: {
+      id: string
+      kind: 'user' | 'profile' | 'workspace'
+      name: string
+      installation: { kind: 'default' | 'portable' | 'custom'; label: string; userDataDir: string }
+      settingsPath: string
+      exists: boolean
+      workspaces?: string[]
+    }
     error?: string
   }> => {
-    return ipcRenderer.invoke('get-kiro-settings')
+    return ipcRenderer.invoke('get-kiro-settings', targetId)
   },
 
   // 获取 Kiro 可用模型列表
@@ -616,13 +752,13 @@ const api = {
   },
 
   // 保存 Kiro 设置
-  saveKiroSettings: (settings: Record<string, unknown>): Promise<{ success: boolean; error?: string }> => {
-    return ipcRenderer.invoke('save-kiro-settings', settings)
+  saveKiroSettings: (settings: Record<string, unknown>, targetId?: string): Promise<{ success: boolean; error?: string }> => {
+    return ipcRenderer.invoke('save-kiro-settings', settings, targetId)
   },
 
   // 打开 Kiro MCP 配置文件
-  openKiroMcpConfig: (type: 'user' | 'workspace'): Promise<{ success: boolean; error?: string }> => {
-    return ipcRenderer.invoke('open-kiro-mcp-config', type)
+  openKiroMcpConfig: (type: 'user' | 'workspace', workspace?: string): Promise<{ success: boolean; error?: string }> => {
+    return ipcRenderer.invoke('open-kiro-mcp-config', type, workspace)
   },
 
   // 打开 Kiro Steering 目录
@@ -631,8 +767,8 @@ const api = {
   },
 
   // 打开 Kiro settings.json 文件
-  openKiroSettingsFile: (): Promise<{ success: boolean; error?: string }> => {
-    return ipcRenderer.invoke('open-kiro-settings-file')
+  openKiroSettingsFile: (targetId?: string): Promise<{ success: boolean; error?: string }> => {
+    return ipcRenderer.invoke('open-kiro-settings-file', targetId)
   },
 
   // 打开指定的 Steering 文件
@@ -662,14 +798,59 @@ const api = {
 
   // ============ MCP 服务器管理 ============
 
-  // 保存 MCP 服务器配置
-  saveMcpServer: (name: string, config: { command: string; args?: string[]; env?: Record<string, string> }, oldName?: string): Promise<{ success: boolean; error?: string }> => {
-    return ipcRenderer.invoke('save-mcp-server', name, config, oldName)
+  // 获取用户级和各工作区的 MCP 配置
+  getMcpConfigs: (): Promise<{
+    user: {
+      workspace: string | null
+      path: string
+      exists: boolean
+      servers: Record<string, { command?: string; args?: string[]; env?: Record<string, string>; url?: string; headers?: Record<string, string>; disabled?: boolean; autoApprove?: string[]; disabledTools?: string[]; timeout?: number; [key: string]: unknown }>
+      error?: string
+    }
+    workspaces: Array<{
+      workspace: string | null
+      path: string
+      exists: boolean
+      servers: Record<string, { command?: string; args?: string[]; env?: Record<string, string>; url?: string; headers?: Record<string, string>; disabled?: boolean; autoApprove?: string[]; disabledTools?: string[]; timeout?: number; [key: string]: unknown }>
+      error?: string
+    }>
+  }> => {
+    return ipcRenderer.invoke('get-mcp-configs')
+  },
+
+  // 添加 MCP 工作区目录
+  addMcpWorkspace: (): Promise<{ success: boolean; workspace?: string; error?: string }> => {
+    return ipcRenderer.invoke('add-mcp-workspace')
+  },
+
+  // 移除 MCP 工作区目录
+  removeMcpWorkspace: (workspace: string): Promise<{ success: boolean }> => {
+    return ipcRenderer.invoke('remove-mcp-workspace', workspace)
+  },
+
+  // 保存 MCP 服务器配置（workspace 为空时保存到用户级配置）
+  saveMcpServer: (name: string, config: { command?: string; args?: string[]; env?: Record<string, string>; url?: string; headers?: Record<string, string>; disabled?: boolean; autoApprove?: string[]; disabledTools?: string[]; timeout?: number; [key: string]: unknown }, oldName?: string, workspace?: string | null): Promise<{ success: boolean; error?: string }> => {
+    return ipcRenderer.invoke('save-mcp-server', name, config, oldName, workspace)
   },
 
   // 删除 MCP 服务器
-  deleteMcpServer: (name: string): Promise<{ success: boolean; error?: string }> => {
-    return ipcRenderer.invoke('delete-mcp-server', name)
+  deleteMcpServer: (name: string, workspace?: string | null): Promise<{ success: boolean; error?: string }> => {
+    return ipcRenderer.invoke('delete-mcp-server', name, workspace)
+  },
+
+  // 启用 / 禁用 MCP 服务器
+  setMcpServerDisabled: (name: string, disabled: boolean, workspace?: string | null): Promise<{ success: boolean; error?: string }> => {
+    return ipcRenderer.invoke('set-mcp-server-disabled', name, disabled, workspace)
+  },
+
+  // 在用户级和工作区之间复制 MCP 服务器
+  copyMcpServer: (name: string, from: string | null, to: string | null, overwrite?: boolean): Promise<{ success: boolean; exists?: boolean; error?: string }> => {
+    return ipcRenderer.invoke('copy-mcp-server', name, from, to, overwrite)
+  },
+
+  // 测试 MCP 服务器（握手并列出工具 / 资源 / 提示词）
+  testMcpServer: (name: string, workspace?: string | null): Promise<{ success: boolean; transport?: 'stdio' | 'http' | 'sse'; serverInfo?: { name?: string; version?: string }; protocolVersion?: string; tools?: { name: string; description?: string }[]; resources?: { name: string; description?: string }[]; prompts?: { name: string; description?: string }[]; stderr?: string; timings?: { initializeMs?: number; listMs?: number; totalMs: number }; error?: string }> => {
+    return ipcRenderer.invoke('test-mcp-server', name, workspace)
   },
 
   // ============ Kiro API 反代服务器 ============
@@ -705,10 +886,15 @@ const api = {
   },
 
   // 获取反代详细日志
-  proxyGetLogs: (count?: number): Promise<Array<{ timestamp: string; level: string; category: string; message: string; data?: unknown }>> => {
+  proxyGetLogs: (count?: number): Promise<Array<{ timestamp: string; level: string; category: string; message: string; data?: unknown; model?: string; apiKeyId?: string }>> => {
     return ipcRenderer.invoke('proxy-get-logs', count)
   },
 
+  // 按条件分页查询反代日志（最新的在前）
+  proxyQueryLogs: (query?: { from?: number; to?: number; levels?: Array<'DEBUG' | 'INFO' | 'WARN' | 'ERROR'>; category?: string; model?: string; apiKeyId?: string; search?: string; offset?: number; limit?: number }): Promise<{ entries: Array<{ timestamp: string; level: string; category: string; message: string; data?: unknown; model?: string; apiKeyId?: string }>; total: number; categories: string[]; models: string[]; apiKeyIds: string[] }> => {
+    return ipcRenderer.invoke('proxy-query-logs', query)
+  },
+
   // 清除反代详细日志
   proxyClearLogs: (): Promise<{ success: boolean }> => {
     return ipcRenderer.invoke('proxy-clear-logs')
@@ -719,8 +905,33 @@ const api = {
     return ipcRenderer.invoke('proxy-get-logs-count')
   },
 
+  // 获取抓包列表
+  proxyGetCaptures: (): Promise<Array<{ id: string; timestamp: string; method: string; path: string; model?: string; status?: number; durationMs?: number; replayOf?: string; frameCount: number }>> => {
+    return ipcRenderer.invoke('proxy-get-captures')
+  },
+
+  // 获取抓包详情
+  proxyGetCapture: (id: string): Promise<{ id: string; timestamp: string; method: string; path: string; apiKeyId?: string; replayOf?: string; request: { headers: Record<string, string>; body: unknown }; kiroPayloads: unknown[]; frames: Array<{ call: number; eventType: string; payload: unknown }>; response: { status?: number; headers?: Record<string, string>; body: string }; durationMs?: number; truncated?: boolean } | null> => {
+    return ipcRenderer.invoke('proxy-get-capture', id)
+  },
+
+  // 删除抓包
+  proxyDeleteCapture: (id: string): Promise<{ success: boolean }> => {
+    return ipcRenderer.invoke('proxy-delete-capture', id)
+  },
+
+  // 清除全部抓包
+  proxyClearCaptures: (): Promise<{ success: boolean }> => {
+    return ipcRenderer.invoke('proxy-clear-captures')
+  },
+
+  // 重放抓包
+  proxyReplayCapture: (id: string): Promise<{ success: boolean; captureId?: string; status?: number; error?: string }> => {
+    return ipcRenderer.invoke('proxy-replay-capture', id)
+  },
+
   // 更新反代服务器配置
-  proxyUpdateConfig: (config: { port?: number; host?: string; apiKey?: string; enableMultiAccount?: boolean; selectedAccountIds?: string[]; logRequests?: boolean; autoStart?: boolean; maxRetries?: number; preferredEndpoint?: 'codewhisperer' | 'amazonq'; autoContinueRounds?: number; disableTools?: boolean; autoSwitchOnQuotaExhausted?: boolean; modelMappings?: Array<{ id: string; name: string; enabled: boolean; type: 'replace' | 'alias' | 'loadbalance'; sourceModel: string; targetModels: string[]; weights?: number[]; priority: number; apiKeyIds?: string[] }> }): Promise<{ success: boolean; config?: unknown; error?: string }> => {
+  proxyUpdateConfig: (config: { port?: number; host?: string; apiKey?: string; enableMultiAccount?: boolean; selectedAccountIds?: string[]; logRequests?: boolean; autoStart?: boolean; maxRetries?: number; preferredEndpoint?: 'codewhisperer' | 'amazonq'; autoContinueRounds?: number; disableTools?: boolean; autoSwitchOnQuotaExhausted?: boolean; modelMappings?: Array<{ id: string; name: string; enabled: boolean; type: 'replace' | 'alias' | 'loadbalance'; sourceModel: string; targetModels: string[]; weights?: number[]; priority: number; apiKeyIds?: string[] }>; promptInjectionRules?: Array<{ id: string; name: string; enabled: boolean; action: 'prepend' | 'append' | 'replace' | 'disable'; content: string; targetRuleIds?: string[]; models?: string[]; apiKeyIds?: string[]; routes?: Array<'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'>; agenticOnly?: boolean; builtin?: boolean }>; captureRequests?: boolean; logRetentionDays?: number; logMaxEntries?: number; tracing?: { enabled: boolean; endpoint?: string; serviceName?: string; headers?: Record<string, string> } }): Promise<{ success: boolean; config?: unknown; error?: string }> => {
     return ipcRenderer.invoke('proxy-update-config', config)
   },
 
@@ -754,6 +965,11 @@ const api = {
     return ipcRenderer.invoke('proxy-refresh-models')
   },
 
+  // 获取内置的系统提示注入规则
+  proxyGetDefaultPromptRules: (): Promise<Array<{ id: string; name: string; enabled: boolean; action: 'prepend' | 'append' | 'replace' | 'disable'; content: string; targetRuleIds?: string[]; models?: string[]; apiKeyIds?: string[]; routes?: Array<'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'>; agenticOnly?: boolean; builtin?: boolean }>> => {
+    return ipcRenderer.invoke('proxy-get-default-prompt-rules')
+  },
+
   // 获取可用模型列表
   proxyGetModels: (): Promise<{ success: boolean; error?: string; models: Array<{ id: string; name: string; description: string; inputTypes?: string[]; maxInputTokens?: number | null; maxOutputTokens?: number | null; rateMultiplier?: number; rateUnit?: string }>; fromCache?: boolean }> => {
     return ipcRenderer.invoke('proxy-get-models')
@@ -925,17 +1141,22 @@ const api = {
   // ============ API Key 管理 ============
   
   // 获取所有 API Keys
-  proxyGetApiKeys: (): Promise<{ success: boolean; apiKeys: Array<{ id: string; name: string; key: string; enabled: boolean; createdAt: number; lastUsedAt?: number; usage: { totalRequests: number; totalCredits: number; totalInputTokens: number; totalOutputTokens: number; daily: Record<string, { requests: number; credits: number; inputTokens: number; outputTokens: number }> } }>; error?: string }> => {
+  proxyGetApiKeys: (): Promise<{ success: boolean; apiKeys: Array<{ id: string; name: string; keyPrefix?: string; rotatedFrom?: string; replacedBy?: string; revokeAt?: number; enabled: boolean; createdAt: number; lastUsedAt?: number; usage: { totalRequests: number; totalCredits: number; totalInputTokens: number; totalOutputTokens: number; daily: Record<string, { requests: number; credits: number; inputTokens: number; outputTokens: number }> } }>; error?: string }> => {
     return ipcRenderer.invoke('proxy-get-api-keys')
   },
 
   // 添加 API Key
-  proxyAddApiKey: (apiKey: { name: string; key?: string; format?: 'sk' | 'simple' | 'token'; creditsLimit?: number }): Promise<{ success: boolean; apiKey?: { id: string; name: string; key: string; format?: 'sk' | 'simple' | 'token'; enabled: boolean; createdAt: number; creditsLimit?: number; usage: { totalRequests: number; totalCredits: number; totalInputTokens: number; totalOutputTokens: number; daily: Record<string, { requests: number; credits: number; inputTokens: number; outputTokens: number }> } }; error?: string }> => {
+  proxyAddApiKey: (apiKey: { name: string; key?: string; format?: 'sk' | 'simple' | 'token'; creditsLimit?: number; rateLimits?: { requestsPerMinute?: number; tokensPerMinute?: number; maxConcurrent?: number; dailyCreditsBudget?: number; monthlyCreditsBudget?: number }; scopes?: { models?: string[]; routes?: Array<'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'>; admin?: 'none' | 'read' | 'write' }; expiresAt?: number; allowedIps?: string[] }): Promise<{ success: boolean; apiKey?: { id: string; name: string; keyPrefix?: string; rotatedFrom?: string; replacedBy?: string; revokeAt?: number; format?: 'sk' | 'simple' | 'token'; enabled: boolean; createdAt: number; creditsLimit?: number; rateLimits?: { requestsPerMinute?: number; tokensPerMinute?: number; maxConcurrent?: number; dailyCreditsBudget?: number; monthlyCreditsBudget?: number }; scopes?: { models?: string[]; routes?: Array<'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'>; admin?: 'none' | 'read' | 'write' }; expiresAt?: number; allowedIps?: string[]; usage: { totalRequests: number; totalCredits: number; totalInputTokens: number; totalOutputTokens: number; daily: Record<string, { requests: number; credits: number; inputTokens: number; outputTokens: number }> } }; secret?: string; error?: string }> => {
     return ipcRenderer.invoke('proxy-add-api-key', apiKey)
   },
 
+  // 轮换 API Key（返回继任 Key 的明文，仅此一次）
+  proxyRotateApiKey: (id: string, gracePeriodMinutes: number): Promise<{ success: boolean; apiKey?: { id: string; name: string; keyPrefix?: string; rotatedFrom?: string; replacedBy?: string; revokeAt?: number; enabled: boolean; createdAt: number }; previous?: { id: string; replacedBy?: string; revokeAt?: number }; secret?: string; error?: string }> => {
+    return ipcRenderer.invoke('proxy-rotate-api-key', id, gracePeriodMinutes)
+  },
+
   // 更新 API Key
-  proxyUpdateApiKey: (id: string, updates: { name?: string; key?: string; enabled?: boolean; creditsLimit?: number | null }): Promise<{ success: boolean; apiKey?: { id: string; name: string; key: string; format?: 'sk' | 'simple' | 'token'; enabled: boolean; createdAt: number; creditsLimit?: number; usage: { totalRequests: number; totalCredits: number; totalInputTokens: number; totalOutputTokens: number; daily: Record<string, { requests: number; credits: number; inputTokens: number; outputTokens: number }> } }; error?: string }> => {
+  proxyUpdateApiKey: (id: string, updates: { name?: string; enabled?: boolean; creditsLimit?: number | null; rateLimits?: { requestsPerMinute?: number; tokensPerMinute?: number; maxConcurrent?: number; dailyCreditsBudget?: number; monthlyCreditsBudget?: number }; scopes?: { models?: string[]; routes?: Array<'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'>; admin?: 'none' | 'read' | 'write' }; expiresAt?: number | null; allowedIps?: string[]; revokeAt?: number | null }): Promise<{ success: boolean; apiKey?: { id: string; name: string; keyPrefix?: string; rotatedFrom?: string; replacedBy?: string; revokeAt?: number; format?: 'sk' | 'simple' | 'token'; enabled: boolean; createdAt: number; creditsLimit?: number; rateLimits?: { requestsPerMinute?: number; tokensPerMinute?: number; maxConcurrent?: number; dailyCreditsBudget?: number; monthlyCreditsBudget?: number }; scopes?: { models?: string[]; routes?: Array<'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'>; admin?: 'none' | 'read' | 'write' }; expiresAt?: number; allowedIps?: string[]; usage: { totalRequests: number; totalCredits: number; totalInputTokens: number; totalOutputTokens: number; daily: Record<string, { requests: number; credits: number; inputTokens: number; outputTokens: number }> } }; error?: string }> => {
     return ipcRenderer.invoke('proxy-update-api-key', id, updates)
   },
 
@@ -949,6 +1170,11 @@ const api = {
     return ipcRenderer.invoke('proxy-reset-api-key-usage', id)
   },
 
+  // 获取 API Key 限流状态（滑动窗口与预算用量）
+  proxyGetApiKeyRateLimitStatus: (id: string): Promise<{ success: boolean; status?: { requestsLastMinute: number; tokensLastMinute: number; activeRequests: number; dailyCredits: number; monthlyCredits: number; dailyResetAt: number; monthlyResetAt: number }; error?: string }> => {
+    return ipcRenderer.invoke('proxy-get-api-key-rate-limit-status', id)
+  },
+
   // 安装 CA 证书到系统信任存储
   kproxyInstallCaCert: (): Promise<{ success: boolean; message?: string; error?: string }> => {
     return ipcRenderer.invoke('kproxy-install-ca-cert')
@@ -4,11 +4,14 @@ import { Sidebar, type PageType } from './components/layout'
 import { HomePage, AboutPage, SettingsPage, MachineIdPage, KiroSettingsPage, ProxyPage, KProxyPage, AutoRegisterPage } from './components/pages'
 import { UpdateDialog } from './components/UpdateDialog'
 import { CloseConfirmDialog } from './components/CloseConfirmDialog'
+import { UnlockScreen } from './components/UnlockScreen'
 import { useAccountsStore } from './store/accounts'
 
 function App(): React.JSX.Element {
   const [currentPage, setCurrentPage] = useState<PageType>('home')
   const [sidebarCollapsed, setSidebarCollapsed] = useState(true)
+  // 保险库锁定状态（null 表示尚未检查）
+  const [vaultLocked, setVaultLocked] = useState<boolean | null>(null)
   
   const { 
     loadFromStorage, 
@@ -69,8 +72,27 @@ function App(): React.JSX.Element {
     }
   }, [accounts, activeAccountId])
   
-  // 应用启动时加载数据并启动自动刷新
+  // 启动时检查保险库是否需要解锁
   useEffect(() => {
+    window.api.vaultGetStatus().then((status) => {
+      setVaultLocked(status.locked)
+    })
+  }, [])
+
+  // 保险库被锁定（空闲超时或手动锁定）时重新加载界面，清除内存中的账号数据
+  useEffect(() => {
+    const unsubscribe = window.api.onVaultLocked(() => {
+      window.location.reload()
+    })
+    return () => {
+      unsubscribe()
+    }
+  }, [])
+
+  // 应用启动（解锁后）时加载数据并启动自动刷新
+  useEffect(() => {
+    if (vaultLocked !== false) return
+
     loadFromStorage().then(() => {
       startAutoTokenRefresh()
     })
@@ -78,7 +100,7 @@ function App(): React.JSX.Element {
     return () => {
       stopAutoTokenRefresh()
     }
-  }, [loadFromStorage, startAutoTokenRefresh, stopAutoTokenRefresh])
+  }, [vaultLocked, loadFromStorage, startAutoTokenRefresh, stopAutoTokenRefresh])
 
   // 账户变化时更新托盘信息
   useEffect(() => {
@@ -151,6 +173,14 @@ function App(): React.JSX.Element {
     }
   }
 
+  if (vaultLocked === null) {
+    return <div className="h-screen bg-background" />
+  }
+
+  if (vaultLocked) {
+    return <UnlockScreen onUnlocked={() => setVaultLocked(false)} />
+  }
+
   return (
     <div className="h-screen bg-background flex">
       <Sidebar
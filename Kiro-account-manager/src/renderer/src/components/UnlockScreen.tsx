@@ -0,0 +1,75 @@
+import { useState } from 'react'
+import { Lock, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useTranslation } from '../hooks/useTranslation'
+
+interface UnlockScreenProps {
+  onUnlocked: () => void
+}
+
+export function UnlockScreen({ onUnlocked }: UnlockScreenProps): React.JSX.Element {
+  const { t } = useTranslation()
+  const isEn = t('common.unknown') === 'Unknown'
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [unlocking, setUnlocking] = useState(false)
+
+  const handleUnlock = async (): Promise<void> => {
+    if (!password || unlocking) return
+    setUnlocking(true)
+    setError('')
+    try {
+      const result = await window.api.vaultUnlock(password)
+      if (result.success) {
+        setPassword('')
+        onUnlocked()
+      } else {
+        setError(result.error === 'Incorrect password'
+          ? (isEn ? 'Incorrect password' : '密码错误')
+          : (result.error || (isEn ? 'Unlock failed' : '解锁失败')))
+      }
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
+  return (
+    <div className="h-screen bg-background flex items-center justify-center">
+      <div className="w-full max-w-sm m-4 rounded-xl border shadow-2xl overflow-hidden">
+        {/* 头部 */}
+        <div className="bg-gradient-to-r from-blue-500/10 to-purple-500/10 p-6 border-b flex items-center gap-3">
+          <div className="w-12 h-12 rounded-xl bg-primary/20 flex items-center justify-center">
+            <Lock className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold">{isEn ? 'Vault Locked' : '账号数据已锁定'}</h2>
+            <p className="text-sm text-muted-foreground">{isEn ? 'Enter your master password to continue' : '请输入主密码以继续'}</p>
+          </div>
+        </div>
+
+        {/* 内容 */}
+        <form
+          className="p-6 space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleUnlock()
+          }}
+        >
+          <Input
+            type="password"
+            autoFocus
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={isEn ? 'Master password' : '主密码'}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button type="submit" className="w-full" disabled={!password || unlocking}>
+            {unlocking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isEn ? 'Unlock' : '解锁'}
+          </Button>
+        </form>
+      </div>
+    </div>
+  )
+}
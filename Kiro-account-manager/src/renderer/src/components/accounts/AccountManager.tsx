@@ -8,7 +8,10 @@ import { EditAccountDialog } from './EditAccountDialog'
 import { GroupManageDialog } from './GroupManageDialog'
 import { TagManageDialog } from './TagManageDialog'
 import { ExportDialog } from './ExportDialog'
+import { BundlePassphraseDialog } from './BundlePassphraseDialog'
+import { ImportPreviewDialog } from './ImportPreviewDialog'
 import { Button } from '../ui'
+import { parseExportData, parseImportItems, type ParsedImport } from '@/lib/accountImport'
 import type { Account } from '@/types/account'
 import { ArrowLeft, Loader2, Users } from 'lucide-react'
 
@@ -20,8 +23,7 @@ export function AccountManager({ onBack }: AccountManagerProps): React.ReactNode
   const {
     isLoading,
     accounts,
-    importFromExportData,
-    importAccounts,
+    openEncryptedBundle,
     selectedIds
   } = useAccountsStore()
 
@@ -30,6 +32,8 @@ export function AccountManager({ onBack }: AccountManagerProps): React.ReactNode
   const [showGroupDialog, setShowGroupDialog] = useState(false)
   const [showTagDialog, setShowTagDialog] = useState(false)
   const [showExportDialog, setShowExportDialog] = useState(false)
+  const [pendingBundle, setPendingBundle] = useState<string | null>(null)
+  const [importPreview, setImportPreview] = useState<ParsedImport | null>(null)
   const [isFilterExpanded, setIsFilterExpanded] = useState(false)
   const { t } = useTranslation()
   const isEn = t('common.unknown') === 'Unknown'
@@ -83,16 +87,17 @@ export function AccountManager({ onBack }: AccountManagerProps): React.ReactNode
     const { content, format } = fileData
 
     try {
-      if (format === 'json') {
+      if (format === 'kirobundle') {
+        // 加密导出包：输入口令后解密导入
+        setPendingBundle(content)
+      } else if (format === 'json') {
         // JSON 格式：完整导出数据
         const data = JSON.parse(content)
-        if (data.version && data.accounts) {
-          const result = importFromExportData(data)
-          const skippedInfo = result.errors.find(e => e.id === 'skipped')
-          const skippedMsg = skippedInfo ? `，${skippedInfo.error}` : ''
-          alert(`导入完成：成功 ${result.success} 个${skippedMsg}`)
+        if (data.format === 'kiro-account-bundle') {
+          setPendingBundle(content)
         } else {
-          alert('无效的 JSON 文件格式')
+          // 校验并迁移到当前格式版本，确认预览后再导入
+          setImportPreview(parseExportData(data))
         }
       } else if (format === 'csv') {
         // CSV 格式：邮箱,昵称,登录方式,RefreshToken,ClientId,ClientSecret,Region
@@ -121,8 +126,7 @@ export function AccountManager({ onBack }: AccountManagerProps): React.ReactNode
           return
         }
 
-        const result = importAccounts(items)
-        alert(`导入完成：成功 ${result.success} 个，失败 ${result.failed} 个`)
+        setImportPreview(parseImportItems(items))
       } else if (format === 'txt') {
         // TXT 格式：每行一个账号，格式为 邮箱,RefreshToken 或 邮箱|RefreshToken
         const lines = content.split('\n').filter(line => line.trim() && !line.startsWith('#'))
@@ -143,14 +147,28 @@ export function AccountManager({ onBack }: AccountManagerProps): React.ReactNode
           return
         }
 
-        const result = importAccounts(items)
-        alert(`导入完成：成功 ${result.success} 个，失败 ${result.failed} 个`)
+        setImportPreview(parseImportItems(items))
       } else {
         alert(`不支持的文件格式：${format}`)
       }
     } catch (e) {
       console.error('Import error:', e)
-      alert('解析导入文件失败')
+      alert(e instanceof Error && e.message ? `解析导入文件失败：${e.message}` : '解析导入文件失败')
+    }
+  }
+
+  // 解密加密导出包后进入导入预览，返回错误信息时保持口令对话框打开
+  const handleBundleImport = async (passphrase: string): Promise<string | null> => {
+    if (!pendingBundle) return null
+    try {
+      const parsed = parseExportData(await openEncryptedBundle(pendingBundle, passphrase))
+      setPendingBundle(null)
+      setImportPreview(parsed)
+      return null
+    } catch (e) {
+      return e instanceof Error && e.message.startsWith('Incorrect passphrase')
+        ? (isEn ? 'Incorrect passphrase or corrupted bundle' : '口令错误或文件已损坏')
+        : (e instanceof Error ? e.message : '导入失败')
     }
   }
 
@@ -253,6 +271,19 @@ export function AccountManager({ onBack }: AccountManagerProps): React.ReactNode
         accounts={getExportAccounts()}
         selectedCount={selectedIds.size}
       />
+
+      {/* 加密导出包口令对话框 */}
+      <BundlePassphraseDialog
+        open={pendingBundle !== null}
+        onClose={() => setPendingBundle(null)}
+        onSubmit={handleBundleImport}
+      />
+
+      {/* 导入预览对话框 */}
+      <ImportPreviewDialog
+        parsed={importPreview}
+        onClose={() => setImportPreview(null)}
+      />
     </div>
   )
 }
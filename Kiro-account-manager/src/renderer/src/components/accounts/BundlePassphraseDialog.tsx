@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { Button, Input } from '../ui'
+import { X, Lock, Loader2 } from 'lucide-react'
+import { useTranslation } from '@/hooks/useTranslation'
+
+interface BundlePassphraseDialogProps {
+  open: boolean
+  onClose: () => void
+  // 返回错误信息时保持对话框打开
+  onSubmit: (passphrase: string) => Promise<string | null>
+}
+
+export function BundlePassphraseDialog({ open, onClose, onSubmit }: BundlePassphraseDialogProps): React.JSX.Element | null {
+  const { t } = useTranslation()
+  const isEn = t('common.unknown') === 'Unknown'
+  const [passphrase, setPassphrase] = useState('')
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setPassphrase('')
+      setError('')
+    }
+  }, [open])
+
+  if (!open) return null
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!passphrase || submitting) return
+    setSubmitting(true)
+    setError('')
+    try {
+      const message = await onSubmit(passphrase)
+      if (message) setError(message)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* 背景遮罩 */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* 对话框 */}
+      <div className="relative bg-background rounded-xl shadow-2xl w-[400px] animate-in fade-in zoom-in-95 duration-200">
+        {/* 标题栏 */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            <h2 className="text-lg font-semibold">{isEn ? 'Encrypted Bundle' : '加密导出包'}</h2>
+          </div>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleSubmit()
+          }}
+        >
+          <div className="p-6 space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {isEn ? 'Enter the passphrase used when this bundle was exported' : '请输入导出此加密包时设置的口令'}
+            </p>
+            <Input
+              type="password"
+              autoFocus
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder={isEn ? 'Passphrase' : '口令'}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          {/* 底部按钮 */}
+          <div className="flex justify-end gap-3 px-6 py-4 border-t bg-muted/30">
+            <Button type="button" variant="outline" onClick={onClose}>
+              {isEn ? 'Cancel' : '取消'}
+            </Button>
+            <Button type="submit" disabled={!passphrase || submitting}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isEn ? 'Decrypt & Import' : '解密并导入'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>,
+    document.body
+  )
+}
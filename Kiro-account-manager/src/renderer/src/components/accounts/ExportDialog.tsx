@@ -1,13 +1,13 @@
 import { useState } from 'react'
 import { createPortal } from 'react-dom'
-import { Button, Badge } from '../ui'
-import { X, FileJson, FileText, Table, Clipboard, Check, Download } from 'lucide-react'
+import { Button, Badge, Input } from '../ui'
+import { X, FileJson, FileText, Table, Clipboard, Check, Download, Lock } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useAccountsStore } from '@/store/accounts'
 import { useTranslation } from '@/hooks/useTranslation'
 import type { Account } from '@/types/account'
 
-type ExportFormat = 'json' | 'txt' | 'csv' | 'clipboard'
+type ExportFormat = 'json' | 'encrypted' | 'txt' | 'csv' | 'clipboard'
 
 interface ExportDialogProps {
   open: boolean
@@ -20,14 +20,26 @@ export function ExportDialog({ open, onClose, accounts, selectedCount }: ExportD
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('json')
   const [includeCredentials, setIncludeCredentials] = useState(true)
   const [copied, setCopied] = useState(false)
+  // 加密导出包口令
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [passphraseError, setPassphraseError] = useState('')
   const { exportAccounts } = useAccountsStore()
   const { t } = useTranslation()
   const isEn = t('common.unknown') === 'Unknown'
 
   if (!open) return null
 
+  const handleClose = (): void => {
+    setPassphrase('')
+    setConfirmPassphrase('')
+    setPassphraseError('')
+    onClose()
+  }
+
   const formats: { id: ExportFormat; name: string; icon: typeof FileJson; desc: string }[] = [
     { id: 'json', name: 'JSON', icon: FileJson, desc: isEn ? 'Full data, can be imported' : '完整数据，可用于导入' },
+    { id: 'encrypted', name: isEn ? 'Encrypted' : '加密包', icon: Lock, desc: isEn ? 'Passphrase-protected full data' : '口令加密的完整数据，可用于导入' },
     { id: 'txt', name: 'TXT', icon: FileText, desc: isEn ? 'Text format' : (includeCredentials ? '可导入格式：邮箱,Token,昵称,登录方式' : '纯文本格式，每行一个账号') },
     { id: 'csv', name: 'CSV', icon: Table, desc: isEn ? 'Excel compatible' : (includeCredentials ? '可导入格式，Excel 兼容' : 'Excel 兼容格式') },
     { id: 'clipboard', name: isEn ? 'Clipboard' : '剪贴板', icon: Clipboard, desc: isEn ? 'Copy to clipboard' : (includeCredentials ? '可导入格式：邮箱,Token' : '复制到剪贴板') },
@@ -53,6 +65,10 @@ export function ExportDialog({ open, onClose, accounts, selectedCount }: ExportD
         }
         return JSON.stringify(exportData, null, 2)
 
+      case 'encrypted':
+        // 加密导出包始终包含凭证，加密在主进程中完成
+        return JSON.stringify(exportAccounts(accounts.map(a => a.id)), null, 2)
+
       case 'txt':
         if (includeCredentials) {
           // 包含凭证时导出可导入格式：邮箱,RefreshToken,昵称,登录方式
@@ -141,15 +157,35 @@ export function ExportDialog({ open, onClose, accounts, selectedCount }: ExportD
 
     const extensions: Record<string, string> = {
       json: 'json',
+      encrypted: 'kirobundle',
       txt: 'txt',
       csv: 'csv'
     }
     const filename = `kiro-accounts-${new Date().toISOString().slice(0, 10)}.${extensions[selectedFormat]}`
+
+    let fileContent = content
+    if (selectedFormat === 'encrypted') {
+      if (passphrase.length < 8) {
+        setPassphraseError(isEn ? 'Passphrase must be at least 8 characters' : '口令至少需要 8 个字符')
+        return
+      }
+      if (passphrase !== confirmPassphrase) {
+        setPassphraseError(isEn ? 'Passphrases do not match' : '两次输入的口令不一致')
+        return
+      }
+      setPassphraseError('')
+      const encrypted = await window.api.exportEncryptBundle(content, passphrase)
+      if (!encrypted.success || !encrypted.content) {
+        setPassphraseError(encrypted.error || (isEn ? 'Encryption failed' : '加密失败'))
+        return
+      }
+      fileContent = encrypted.content
+    }
     
-    const success = await window.api.exportToFile(content, filename)
+    const success = await window.api.exportToFile(fileContent, filename)
     if (success) {
       alert(isEn ? `Exported ${count} accounts` : `已导出 ${count} 个账号`)
-      onClose()
+      handleClose()
     }
   }
 
@@ -158,7 +194,7 @@ export function ExportDialog({ open, onClose, accounts, selectedCount }: ExportD
       {/* 背景遮罩 */}
       <div 
         className="absolute inset-0 bg-black/50 backdrop-blur-sm"
-        onClick={onClose}
+        onClick={handleClose}
       />
       
       {/* 对话框 */}
@@ -176,7 +212,7 @@ export function ExportDialog({ open, onClose, accounts, selectedCount }: ExportD
             variant="ghost" 
             size="sm" 
             className="h-8 w-8 p-0"
-            onClick={onClose}
+            onClick={handleClose}
           >
             <X className="h-4 w-4" />
           </Button>
@@ -211,6 +247,30 @@ export function ExportDialog({ open, onClose, accounts, selectedCount }: ExportD
             })}
           </div>
 
+          {/* 加密口令 */}
+          {selectedFormat === 'encrypted' && (
+            <div className="space-y-2 p-3 bg-muted rounded-lg">
+              <Input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder={isEn ? 'Passphrase' : '口令'}
+              />
+              <Input
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                placeholder={isEn ? 'Confirm passphrase' : '确认口令'}
+              />
+              <p className="text-xs text-muted-foreground">
+                {isEn
+                  ? 'Includes credentials. Share the passphrase separately from the file; it cannot be recovered.'
+                  : '包含凭证信息。请勿将口令与文件一起发送，口令丢失后无法恢复。'}
+              </p>
+              {passphraseError && <p className="text-sm text-destructive">{passphraseError}</p>}
+            </div>
+          )}
+
           {/* 选项 */}
           {selectedFormat === 'json' && (
             <label className="flex items-center gap-2 p-3 bg-muted rounded-lg cursor-pointer">
@@ -230,7 +290,7 @@ export function ExportDialog({ open, onClose, accounts, selectedCount }: ExportD
 
         {/* 底部按钮 */}
         <div className="flex justify-end gap-3 px-6 py-4 border-t bg-muted/30">
-          <Button variant="outline" onClick={onClose}>
+          <Button variant="outline" onClick={handleClose}>
             {isEn ? 'Cancel' : '取消'}
           </Button>
           <Button onClick={handleExport} disabled={copied}>
@@ -0,0 +1,219 @@
+import { useState, useEffect, useMemo } from 'react'
+import { createPortal } from 'react-dom'
+import { Button, Badge } from '../ui'
+import { X, Upload, CheckCircle2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useAccountsStore } from '@/store/accounts'
+import { useTranslation } from '@/hooks/useTranslation'
+import { EXPORT_SCHEMA_VERSION, planImport, type ParsedImport, type ImportPlanEntry } from '@/lib/accountImport'
+import type { BatchOperationResult, ImportReportEntry, ImportStrategy } from '@/types/account'
+
+interface ImportPreviewDialogProps {
+  parsed: ParsedImport | null
+  onClose: () => void
+}
+
+export function ImportPreviewDialog({ parsed, onClose }: ImportPreviewDialogProps): React.JSX.Element | null {
+  const { t } = useTranslation()
+  const isEn = t('common.unknown') === 'Unknown'
+  const { accounts, applyImportPlan } = useAccountsStore()
+  const [strategy, setStrategy] = useState<ImportStrategy>('skip')
+  const [report, setReport] = useState<BatchOperationResult | null>(null)
+
+  useEffect(() => {
+    if (parsed) {
+      setStrategy('skip')
+      setReport(null)
+    }
+  }, [parsed])
+
+  // 预览（dry-run）：只生成导入计划，不修改数据
+  const plan = useMemo(
+    () => (parsed ? planImport(parsed, accounts, strategy) : null),
+    [parsed, accounts, strategy]
+  )
+
+  if (!parsed || !plan) return null
+
+  const importCount = plan.entries.filter(e => e.action !== 'skip').length
+
+  const handleImport = (): void => {
+    setReport(applyImportPlan(plan))
+  }
+
+  const strategies: { id: ImportStrategy; name: string; desc: string }[] = [
+    { id: 'skip', name: isEn ? 'Skip existing' : '跳过已存在', desc: isEn ? 'Only add new accounts' : '只添加新账号' },
+    { id: 'overwrite', name: isEn ? 'Overwrite' : '覆盖', desc: isEn ? 'Replace existing accounts with imported data' : '用导入数据替换已存在的账号' },
+    { id: 'newest', name: isEn ? 'Keep newest token' : '保留最新 Token', desc: isEn ? 'Update credentials when the imported token is newer' : '导入的 Token 更新时替换凭证' }
+  ]
+
+  const statusBadge = (status: ImportPlanEntry['status']): React.JSX.Element => (
+    <Badge
+      variant="outline"
+      className={cn(
+        'text-xs',
+        status === 'new' && 'text-green-600 border-green-600/30',
+        status === 'duplicate' && 'text-muted-foreground',
+        status === 'conflict' && 'text-amber-600 border-amber-600/30'
+      )}
+    >
+      {status === 'new' ? (isEn ? 'New' : '新账号') : status === 'duplicate' ? (isEn ? 'Duplicate' : '重复') : (isEn ? 'Conflict' : '冲突')}
+    </Badge>
+  )
+
+  const actionLabel = (action: ImportPlanEntry['action'] | ImportReportEntry['action']): string => {
+    switch (action) {
+      case 'add':
+      case 'added':
+        return isEn ? 'Add' : '添加'
+      case 'overwrite':
+      case 'overwritten':
+        return isEn ? 'Overwrite' : '覆盖'
+      case 'update-token':
+      case 'token-updated':
+        return isEn ? 'Update token' : '更新 Token'
+      case 'failed':
+        return isEn ? 'Failed' : '失败'
+      default:
+        return isEn ? 'Skip' : '跳过'
+    }
+  }
+
+  const counts: { label: string; value: number; className: string }[] = [
+    { label: isEn ? 'New' : '新账号', value: plan.counts.new, className: 'text-green-600' },
+    { label: isEn ? 'Duplicate' : '重复', value: plan.counts.duplicate, className: 'text-muted-foreground' },
+    { label: isEn ? 'Conflict' : '冲突', value: plan.counts.conflict, className: 'text-amber-600' },
+    { label: isEn ? 'Invalid' : '无效', value: plan.counts.invalid, className: 'text-destructive' }
+  ]
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* 背景遮罩 */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* 对话框 */}
+      <div className="relative bg-background rounded-xl shadow-2xl w-[600px] max-h-[85vh] flex flex-col animate-in fade-in zoom-in-95 duration-200">
+        {/* 标题栏 */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            <h2 className="text-lg font-semibold">
+              {report ? (isEn ? 'Import Report' : '导入报告') : (isEn ? 'Import Preview' : '导入预览')}
+            </h2>
+            {parsed.sourceVersion < EXPORT_SCHEMA_VERSION && (
+              <Badge variant="secondary">
+                {isEn ? `Migrated from format v${parsed.sourceVersion}` : `已从 v${parsed.sourceVersion} 格式迁移`}
+              </Badge>
+            )}
+          </div>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {report ? (
+          <div className="p-6 space-y-4 overflow-y-auto">
+            <div className="flex items-center gap-3">
+              <CheckCircle2 className="h-6 w-6 text-green-600" />
+              <p className="text-sm">
+                {isEn
+                  ? `${report.success} imported, ${report.details?.filter(d => d.action === 'skipped').length ?? 0} skipped, ${report.failed} failed`
+                  : `成功 ${report.success} 个，跳过 ${report.details?.filter(d => d.action === 'skipped').length ?? 0} 个，失败 ${report.failed} 个`}
+              </p>
+            </div>
+            <div className="border rounded-lg divide-y">
+              {report.details?.map((entry, index) => (
+                <div key={`${entry.id}-${index}`} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                  <span className="truncate">{entry.email}</span>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {entry.reason && <span className="text-xs text-muted-foreground">{entry.reason}</span>}
+                    <Badge variant={entry.action === 'failed' ? 'destructive' : 'secondary'} className="text-xs">
+                      {actionLabel(entry.action)}
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="p-6 space-y-4 overflow-y-auto">
+            {/* 统计 */}
+            <div className="grid grid-cols-4 gap-3">
+              {counts.map(item => (
+                <div key={item.label} className="p-3 rounded-lg bg-muted/50 text-center">
+                  <p className={cn('text-xl font-bold', item.className)}>{item.value}</p>
+                  <p className="text-xs text-muted-foreground">{item.label}</p>
+                </div>
+              ))}
+            </div>
+
+            {/* 冲突处理策略 */}
+            <div className="grid grid-cols-3 gap-2">
+              {strategies.map(item => (
+                <button
+                  key={item.id}
+                  onClick={() => setStrategy(item.id)}
+                  className={cn(
+                    'p-3 rounded-lg border-2 text-left transition-all',
+                    strategy === item.id ? 'border-primary bg-primary/5' : 'border-muted hover:border-muted-foreground/30'
+                  )}
+                >
+                  <p className={cn('text-sm font-medium', strategy === item.id && 'text-primary')}>{item.name}</p>
+                  <p className="text-xs text-muted-foreground">{item.desc}</p>
+                </button>
+              ))}
+            </div>
+
+            {/* 明细 */}
+            <div className="border rounded-lg divide-y">
+              {plan.entries.map((entry, index) => (
+                <div key={`${entry.account.id}-${index}`} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    {statusBadge(entry.status)}
+                    <span className="truncate">{entry.account.email}</span>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {entry.reason && <span className="text-xs text-muted-foreground">{entry.reason}</span>}
+                    <span className={cn('text-xs font-medium', entry.action === 'skip' ? 'text-muted-foreground' : 'text-primary')}>
+                      {actionLabel(entry.action)}
+                    </span>
+                  </div>
+                </div>
+              ))}
+              {plan.issues.map((issue, index) => (
+                <div key={`issue-${index}`} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant="destructive" className="text-xs">{isEn ? 'Invalid' : '无效'}</Badge>
+                    <span className="truncate">{issue.id}</span>
+                  </div>
+                  <span className="text-xs text-muted-foreground shrink-0">{issue.error}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* 底部按钮 */}
+        <div className="flex justify-end gap-3 px-6 py-4 border-t bg-muted/30">
+          {report ? (
+            <Button onClick={onClose}>{isEn ? 'Done' : '完成'}</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>
+                {isEn ? 'Cancel' : '取消'}
+              </Button>
+              <Button onClick={handleImport} disabled={importCount === 0}>
+                <Upload className="h-4 w-4 mr-2" />
+                {isEn ? `Import ${importCount}` : `导入 ${importCount} 个`}
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
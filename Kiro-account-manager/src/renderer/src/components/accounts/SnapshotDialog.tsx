@@ -0,0 +1,311 @@
+import { useState, useEffect, useCallback } from 'react'
+import { createPortal } from 'react-dom'
+import { Button, Badge } from '../ui'
+import { X, History, Plus, Trash2, RotateCcw, Lock, AlertTriangle, Loader2 } from 'lucide-react'
+import { cn, formatBytes } from '@/lib/utils'
+import { useAccountsStore } from '@/store/accounts'
+import { useTranslation } from '@/hooks/useTranslation'
+
+type SnapshotInfo = Awaited<ReturnType<typeof window.api.backupListSnapshots>>[number]
+type SnapshotDiff = NonNullable<Awaited<ReturnType<typeof window.api.backupPreviewSnapshot>>['diff']>
+type DiffKind = 'accounts' | 'groups' | 'tags'
+
+interface SnapshotDialogProps {
+  open: boolean
+  onClose: () => void
+}
+
+export function SnapshotDialog({ open, onClose }: SnapshotDialogProps): React.JSX.Element | null {
+  const { t } = useTranslation()
+  const isEn = t('common.unknown') === 'Unknown'
+  const { saveToStorage, stopAutoSave } = useAccountsStore()
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([])
+  const [loading, setLoading] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null)
+  const [diffError, setDiffError] = useState('')
+  const [selection, setSelection] = useState<Record<DiffKind, Set<string>>>({ accounts: new Set(), groups: new Set(), tags: new Set() })
+  const [busy, setBusy] = useState(false)
+
+  const loadSnapshots = useCallback(async (): Promise<void> => {
+    setLoading(true)
+    try {
+      setSnapshots(await window.api.backupListSnapshots())
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (open) {
+      setSelectedId(null)
+      setDiff(null)
+      loadSnapshots()
+    }
+  }, [open, loadSnapshots])
+
+  // 选中快照时加载差异预览
+  useEffect(() => {
+    if (!selectedId) return
+    setDiff(null)
+    setDiffError('')
+    setSelection({ accounts: new Set(), groups: new Set(), tags: new Set() })
+    window.api.backupPreviewSnapshot(selectedId).then((result) => {
+      if (result.success && result.diff) setDiff(result.diff)
+      else setDiffError(result.error || (isEn ? 'Failed to read snapshot' : '读取快照失败'))
+    })
+  }, [selectedId, isEn])
+
+  if (!open) return null
+
+  const toggleItem = (kind: DiffKind, id: string): void => {
+    setSelection(prev => {
+      const next = new Set(prev[kind])
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return { ...prev, [kind]: next }
+    })
+  }
+
+  const selectedCount = selection.accounts.size + selection.groups.size + selection.tags.size
+  const hasChanges = !!diff && (['accounts', 'groups', 'tags'] as DiffKind[]).some(kind =>
+    diff[kind].added.length + diff[kind].removed.length + diff[kind].changed.length > 0
+  )
+
+  const handleCreate = async (): Promise<void> => {
+    setBusy(true)
+    try {
+      await saveToStorage()
+      const result = await window.api.backupCreateSnapshot()
+      if (!result.success) alert(result.error)
+      await loadSnapshots()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async (id: string): Promise<void> => {
+    if (!confirm(isEn ? 'Delete this snapshot?' : '确定删除此快照？')) return
+    await window.api.backupDeleteSnapshot(id)
+    if (selectedId === id) setSelectedId(null)
+    await loadSnapshots()
+  }
+
+  // 恢复前先保存当前数据并停止自动保存，恢复后重新加载界面
+  const handleRestore = async (partial: boolean): Promise<void> => {
+    if (!selectedId) return
+    const message = partial
+      ? (isEn ? `Restore ${selectedCount} selected item(s) from this snapshot?` : `确定从此快照恢复选中的 ${selectedCount} 项？`)
+      : (isEn ? 'Replace all current data with this snapshot? A snapshot of the current data will be created first.' : '确定用此快照替换当前全部数据？恢复前会先为当前数据创建快照。')
+    if (!confirm(message)) return
+
+    setBusy(true)
+    try {
+      stopAutoSave()
+      await saveToStorage()
+      const result = await window.api.backupRestoreSnapshot(selectedId, partial ? {
+        accounts: Array.from(selection.accounts),
+        groups: Array.from(selection.groups),
+        tags: Array.from(selection.tags)
+      } : undefined)
+      if (result.success) {
+        window.location.reload()
+      } else {
+        alert(`${isEn ? 'Restore failed' : '恢复失败'}: ${result.error}`)
+      }
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const reasonLabel = (reason: SnapshotInfo['reason']): string => {
+    switch (reason) {
+      case 'manual':
+        return isEn ? 'Manual' : '手动'
+      case 'pre-restore':
+        return isEn ? 'Before restore' : '恢复前'
+      default:
+        return isEn ? 'Auto' : '自动'
+    }
+  }
+
+  const kindLabels: Record<DiffKind, string> = {
+    accounts: isEn ? 'Accounts' : '账号',
+    groups: isEn ? 'Groups' : '分组',
+    tags: isEn ? 'Tags' : '标签'
+  }
+
+  const renderDiffSection = (kind: DiffKind): React.JSX.Element | null => {
+    if (!diff) return null
+    const section = diff[kind]
+    const rows = [
+      ...section.added.map(item => ({ ...item, type: 'added' as const })),
+      ...section.removed.map(item => ({ ...item, type: 'removed' as const })),
+      ...section.changed.map(item => ({ ...item, type: 'changed' as const }))
+    ]
+    if (rows.length === 0) return null
+    return (
+      <div key={kind} className="space-y-1">
+        <p className="text-sm font-medium">{kindLabels[kind]}</p>
+        {rows.map(row => (
+          <label key={`${row.type}-${row.id}`} className="flex items-start gap-2 p-2 rounded-md hover:bg-muted cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selection[kind].has(row.id)}
+              onChange={() => toggleItem(kind, row.id)}
+              className="w-4 h-4 mt-0.5 rounded"
+            />
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm truncate">{row.name}</span>
+                <Badge
+                  variant="outline"
+                  className={cn(
+                    'text-xs',
+                    row.type === 'added' && 'text-green-600 border-green-600/30',
+                    row.type === 'removed' && 'text-red-600 border-red-600/30',
+                    row.type === 'changed' && 'text-amber-600 border-amber-600/30'
+                  )}
+                >
+                  {row.type === 'added'
+                    ? (isEn ? 'Only in snapshot' : '仅快照中有')
+                    : row.type === 'removed'
+                      ? (isEn ? 'Not in snapshot' : '快照中没有')
+                      : (isEn ? 'Changed' : '已变化')}
+                </Badge>
+              </div>
+              {'fields' in row && row.fields && (
+                <p className="text-xs text-muted-foreground truncate">{row.fields.join(', ')}</p>
+              )}
+            </div>
+          </label>
+        ))}
+      </div>
+    )
+  }
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* 背景遮罩 */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={busy ? undefined : onClose}
+      />
+
+      {/* 对话框 */}
+      <div className="relative bg-background rounded-xl shadow-2xl w-[820px] max-h-[85vh] flex flex-col animate-in fade-in zoom-in-95 duration-200">
+        {/* 标题栏 */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            <h2 className="text-lg font-semibold">{isEn ? 'Backup Snapshots' : '备份快照'}</h2>
+            <Badge variant="secondary">{snapshots.length}</Badge>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleCreate} disabled={busy}>
+              <Plus className="h-4 w-4 mr-2" />
+              {isEn ? 'Create Snapshot' : '立即创建快照'}
+            </Button>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onClose} disabled={busy}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* 快照列表 */}
+          <div className="w-[300px] border-r overflow-y-auto p-3 space-y-1">
+            {loading && snapshots.length === 0 && (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {!loading && snapshots.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">{isEn ? 'No snapshots yet' : '暂无快照'}</p>
+            )}
+            {snapshots.map(snapshot => (
+              <div
+                key={snapshot.id}
+                onClick={() => snapshot.valid && setSelectedId(snapshot.id)}
+                className={cn(
+                  'group p-3 rounded-lg border transition-colors',
+                  snapshot.valid ? 'cursor-pointer hover:border-muted-foreground/30' : 'opacity-60',
+                  selectedId === snapshot.id ? 'border-primary bg-primary/5' : 'border-transparent'
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">{new Date(snapshot.createdAt).toLocaleString()}</span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleDelete(snapshot.id)
+                    }}
+                    className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+                <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                  <Badge variant="secondary" className="text-xs">{reasonLabel(snapshot.reason)}</Badge>
+                  {snapshot.encrypted && <Lock className="h-3 w-3" />}
+                  {snapshot.valid ? (
+                    <span>
+                      {isEn
+                        ? `${snapshot.summary.accounts} accounts · ${formatBytes(snapshot.size)}`
+                        : `${snapshot.summary.accounts} 个账号 · ${formatBytes(snapshot.size)}`}
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-1 text-destructive">
+                      <AlertTriangle className="h-3 w-3" />
+                      {isEn ? 'Integrity check failed' : '完整性校验失败'}
+                    </span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* 差异预览 */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {!selectedId && (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                {isEn ? 'Select a snapshot to compare it with the current data' : '选择一个快照以查看与当前数据的差异'}
+              </p>
+            )}
+            {selectedId && !diff && !diffError && (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {diffError && <p className="text-sm text-destructive">{diffError}</p>}
+            {diff && !hasChanges && (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                {isEn ? 'No differences from the current accounts, groups and tags' : '与当前账号、分组和标签没有差异'}
+              </p>
+            )}
+            {diff && (['accounts', 'groups', 'tags'] as DiffKind[]).map(renderDiffSection)}
+          </div>
+        </div>
+
+        {/* 底部按钮 */}
+        <div className="flex items-center justify-between gap-3 px-6 py-4 border-t bg-muted/30">
+          <p className="text-xs text-muted-foreground">
+            {isEn
+              ? 'Hourly snapshots are kept for 24 hours and daily snapshots for 30 days; manual snapshots are kept until deleted'
+              : '每小时快照保留 24 小时，每日快照保留 30 天；手动快照保留到删除为止'}
+          </p>
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={() => handleRestore(true)} disabled={busy || !diff || selectedCount === 0}>
+              {isEn ? `Restore Selected (${selectedCount})` : `恢复选中项 (${selectedCount})`}
+            </Button>
+            <Button onClick={() => handleRestore(false)} disabled={busy || !diff}>
+              {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+              {isEn ? 'Restore All' : '完整恢复'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
@@ -1,68 +1,200 @@
 import { useState } from 'react'
 import { createPortal } from 'react-dom'
-import { Button } from '../ui'
+import { Button, Toggle } from '../ui'
 import { useTranslation } from '@/hooks/useTranslation'
-import { X, Save, Plus, Trash2 } from 'lucide-react'
+import { X, Save, Plus, Trash2, Terminal, Globe } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { KNOWN_MCP_SERVER_FIELDS, isRemoteMcpServer, type McpServer } from '@/types/mcp'
 
-interface McpServer {
-  command: string
-  args?: string[]
-  env?: Record<string, string>
+type ServerType = 'local' | 'remote'
+
+interface KeyValuePair {
+  key: string
+  value: string
 }
 
 interface McpServerEditorProps {
   serverName?: string
   server?: McpServer
+  // 所属工作区，null 表示用户级配置
+  workspace?: string | null
   onClose: () => void
   onSaved: () => void
 }
 
-export function McpServerEditor({ serverName, server, onClose, onSaved }: McpServerEditorProps) {
+const toPairs = (record?: Record<string, string>): KeyValuePair[] =>
+  record ? Object.entries(record).map(([key, value]) => ({ key, value })) : []
+
+const fromPairs = (pairs: KeyValuePair[]): Record<string, string> =>
+  pairs.reduce((acc, { key, value }) => {
+    if (key.trim()) {
+      acc[key.trim()] = value
+    }
+    return acc
+  }, {} as Record<string, string>)
+
+// 字符串列表编辑（参数、工具名）
+function StringListEditor({ items, onChange, placeholder }: {
+  items: string[]
+  onChange: (items: string[]) => void
+  placeholder: string
+}): React.JSX.Element {
+  const [newItem, setNewItem] = useState('')
+
+  const addItem = (): void => {
+    if (newItem.trim()) {
+      onChange([...items, newItem.trim()])
+      setNewItem('')
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={index} className="flex gap-2">
+          <code className="flex-1 px-2 py-1 bg-muted rounded text-sm">{item}</code>
+          <Button variant="ghost" size="sm" onClick={() => onChange(items.filter((_, i) => i !== index))}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          placeholder={placeholder}
+          className="flex-1 px-3 py-1.5 rounded-md border bg-background text-sm"
+          onKeyDown={(e) => e.key === 'Enter' && addItem()}
+        />
+        <Button variant="outline" size="sm" onClick={addItem}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// 键值对编辑（环境变量、请求头）
+function KeyValueEditor({ pairs, onChange, addLabel, keyPlaceholder, valuePlaceholder }: {
+  pairs: KeyValuePair[]
+  onChange: (pairs: KeyValuePair[]) => void
+  addLabel: string
+  keyPlaceholder: string
+  valuePlaceholder: string
+}): React.JSX.Element {
+  const updatePair = (index: number, field: 'key' | 'value', value: string): void => {
+    onChange(pairs.map((pair, i) => (i === index ? { ...pair, [field]: value } : pair)))
+  }
+
+  return (
+    <div className="space-y-2">
+      {pairs.map((pair, index) => (
+        <div key={index} className="flex gap-2">
+          <input
+            type="text"
+            value={pair.key}
+            onChange={(e) => updatePair(index, 'key', e.target.value)}
+            placeholder={keyPlaceholder}
+            className="w-1/3 px-2 py-1.5 rounded-md border bg-background text-sm"
+          />
+          <input
+            type="text"
+            value={pair.value}
+            onChange={(e) => updatePair(index, 'value', e.target.value)}
+            placeholder={valuePlaceholder}
+            className="flex-1 px-2 py-1.5 rounded-md border bg-background text-sm"
+          />
+          <Button variant="ghost" size="sm" onClick={() => onChange(pairs.filter((_, i) => i !== index))}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...pairs, { key: '', value: '' }])}>
+        <Plus className="h-4 w-4 mr-1" />
+        {addLabel}
+      </Button>
+    </div>
+  )
+}
+
+export function McpServerEditor({ serverName, server, workspace = null, onClose, onSaved }: McpServerEditorProps) {
   const [name, setName] = useState(serverName || '')
+  const [type, setType] = useState<ServerType>(server && isRemoteMcpServer(server) ? 'remote' : 'local')
   const [command, setCommand] = useState(server?.command || '')
   const [args, setArgs] = useState<string[]>(server?.args || [])
-  const [envVars, setEnvVars] = useState<{ key: string; value: string }[]>(
-    server?.env ? Object.entries(server.env).map(([key, value]) => ({ key, value })) : []
-  )
+  const [envVars, setEnvVars] = useState<KeyValuePair[]>(toPairs(server?.env))
+  const [url, setUrl] = useState(server?.url || '')
+  const [headers, setHeaders] = useState<KeyValuePair[]>(toPairs(server?.headers))
+  const [enabled, setEnabled] = useState(!server?.disabled)
+  const [timeout, setTimeoutValue] = useState(server?.timeout ? String(server.timeout) : '')
+  const [autoApprove, setAutoApprove] = useState<string[]>(server?.autoApprove || [])
+  const [disabledTools, setDisabledTools] = useState<string[]>(server?.disabledTools || [])
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [newArg, setNewArg] = useState('')
 
   const isEdit = !!serverName
   const { t } = useTranslation()
   const isEn = t('common.unknown') === 'Unknown'
 
+  // 编辑器不支持的字段，保存时原样保留
+  const extraFields = Object.keys(server || {}).filter(
+    key => !(KNOWN_MCP_SERVER_FIELDS as readonly string[]).includes(key)
+  )
+
   const handleSave = async () => {
     if (!name.trim()) {
       setError(isEn ? 'Please enter server name' : '请输入服务器名称')
       return
     }
-    if (!command.trim()) {
+    if (type === 'local' && !command.trim()) {
       setError(isEn ? 'Please enter command' : '请输入命令')
       return
     }
+    if (type === 'remote' && !/^https?:\/\//i.test(url.trim())) {
+      setError(isEn ? 'Please enter a valid http:// or https:// URL' : '请输入有效的 http:// 或 https:// 地址')
+      return
+    }
+    const timeoutMs = timeout.trim() ? Number(timeout) : undefined
+    if (timeoutMs !== undefined && (!Number.isInteger(timeoutMs) || timeoutMs <= 0)) {
+      setError(isEn ? 'Timeout must be a positive number of milliseconds' : '超时时间必须是正整数（毫秒）')
+      return
+    }
 
     setSaving(true)
     setError(null)
 
     try {
-      const serverConfig: McpServer = {
-        command: command.trim(),
-        args: args.filter(a => a.trim()),
-        env: envVars.reduce((acc, { key, value }) => {
-          if (key.trim()) {
-            acc[key.trim()] = value
-          }
-          return acc
-        }, {} as Record<string, string>)
+      // 在原配置上就地修改已知字段，保留未知字段和字段顺序；空值不写入
+      const serverConfig: McpServer = { ...server }
+      const setField = (key: string, value: unknown): void => {
+        const empty = value === undefined || value === false ||
+          (Array.isArray(value) && value.length === 0) ||
+          (typeof value === 'object' && value !== null && !Array.isArray(value) && Object.keys(value).length === 0)
+        if (empty) delete serverConfig[key]
+        else serverConfig[key] = value
+      }
+
+      if (type === 'local') {
+        setField('command', command.trim())
+        setField('args', args.filter(a => a.trim()))
+        setField('env', fromPairs(envVars))
+        setField('url', undefined)
+        setField('headers', undefined)
+      } else {
+        setField('command', undefined)
+        setField('args', undefined)
+        setField('env', undefined)
+        setField('url', url.trim())
+        setField('headers', fromPairs(headers))
       }
+      setField('disabled', !enabled)
+      setField('autoApprove', autoApprove)
+      setField('disabledTools', disabledTools)
+      setField('timeout', timeoutMs)
 
-      // 如果没有 args 或 env，不包含这些字段
-      if (serverConfig.args?.length === 0) delete serverConfig.args
-      if (Object.keys(serverConfig.env || {}).length === 0) delete serverConfig.env
+      const result = await window.api.saveMcpServer(name.trim(), serverConfig, isEdit ? serverName : undefined, workspace)
 
-      const result = await window.api.saveMcpServer(name.trim(), serverConfig, isEdit ? serverName : undefined)
-      
       if (result.success) {
         onSaved()
         onClose()
@@ -77,41 +209,26 @@ export function McpServerEditor({ serverName, server, onClose, onSaved }: McpSer
     }
   }
 
-  const addArg = () => {
-    if (newArg.trim()) {
-      setArgs([...args, newArg.trim()])
-      setNewArg('')
-    }
-  }
-
-  const removeArg = (index: number) => {
-    setArgs(args.filter((_, i) => i !== index))
-  }
-
-  const addEnvVar = () => {
-    setEnvVars([...envVars, { key: '', value: '' }])
-  }
-
-  const updateEnvVar = (index: number, field: 'key' | 'value', value: string) => {
-    const updated = [...envVars]
-    updated[index][field] = value
-    setEnvVars(updated)
-  }
-
-  const removeEnvVar = (index: number) => {
-    setEnvVars(envVars.filter((_, i) => i !== index))
-  }
+  const typeOptions: { id: ServerType; label: string; icon: typeof Terminal }[] = [
+    { id: 'local', label: isEn ? 'Local (stdio)' : '本地 (stdio)', icon: Terminal },
+    { id: 'remote', label: isEn ? 'Remote (HTTP / SSE)' : '远程 (HTTP / SSE)', icon: Globe }
+  ]
 
   return createPortal(
     <div className="fixed inset-0 z-50 flex items-center justify-center">
-      <div 
+      <div
         className="absolute inset-0 bg-black/50 backdrop-blur-sm"
         onClick={onClose}
       />
-      
+
       <div className="relative bg-background rounded-lg shadow-xl w-[90vw] max-w-lg max-h-[80vh] flex flex-col">
         <div className="flex items-center justify-between px-4 py-3 border-b">
-          <h2 className="font-semibold">{isEdit ? (isEn ? 'Edit MCP Server' : '编辑 MCP 服务器') : (isEn ? 'Add MCP Server' : '添加 MCP 服务器')}</h2>
+          <div className="min-w-0">
+            <h2 className="font-semibold">{isEdit ? (isEn ? 'Edit MCP Server' : '编辑 MCP 服务器') : (isEn ? 'Add MCP Server' : '添加 MCP 服务器')}</h2>
+            <p className="text-xs text-muted-foreground truncate">
+              {workspace ? `${isEn ? 'Workspace' : '工作区'}: ${workspace}` : (isEn ? 'User config' : '用户级配置')}
+            </p>
+          </div>
           <Button variant="ghost" size="sm" onClick={onClose}>
             <X className="h-4 w-4" />
           </Button>
@@ -137,77 +254,122 @@ export function McpServerEditor({ serverName, server, onClose, onSaved }: McpSer
             />
           </div>
 
-          {/* 命令 */}
-          <div>
-            <label className="block text-sm font-medium mb-1">{isEn ? 'Command' : '命令'}</label>
-            <input
-              type="text"
-              value={command}
-              onChange={(e) => setCommand(e.target.value)}
-              placeholder={isEn ? 'e.g.: uvx, npx, node' : '例如: uvx, npx, node'}
-              className="w-full px-3 py-2 rounded-md border bg-background text-sm"
-            />
+          {/* 服务器类型 */}
+          <div className="grid grid-cols-2 gap-2">
+            {typeOptions.map(option => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => setType(option.id)}
+                className={cn(
+                  'flex items-center gap-2 p-2 rounded-md border-2 text-sm transition-all',
+                  type === option.id ? 'border-primary bg-primary/5 text-primary' : 'border-muted hover:border-muted-foreground/30'
+                )}
+              >
+                <option.icon className="h-4 w-4" />
+                {option.label}
+              </button>
+            ))}
           </div>
 
-          {/* 参数 */}
-          <div>
-            <label className="block text-sm font-medium mb-1">{isEn ? 'Arguments' : '参数'}</label>
-            <div className="space-y-2">
-              {args.map((arg, index) => (
-                <div key={index} className="flex gap-2">
-                  <code className="flex-1 px-2 py-1 bg-muted rounded text-sm">{arg}</code>
-                  <Button variant="ghost" size="sm" onClick={() => removeArg(index)}>
-                    <Trash2 className="h-4 w-4 text-destructive" />
-                  </Button>
-                </div>
-              ))}
-              <div className="flex gap-2">
+          {type === 'local' ? (
+            <>
+              {/* 命令 */}
+              <div>
+                <label className="block text-sm font-medium mb-1">{isEn ? 'Command' : '命令'}</label>
+                <input
+                  type="text"
+                  value={command}
+                  onChange={(e) => setCommand(e.target.value)}
+                  placeholder={isEn ? 'e.g.: uvx, npx, node' : '例如: uvx, npx, node'}
+                  className="w-full px-3 py-2 rounded-md border bg-background text-sm"
+                />
+              </div>
+
+              {/* 参数 */}
+              <div>
+                <label className="block text-sm font-medium mb-1">{isEn ? 'Arguments' : '参数'}</label>
+                <StringListEditor items={args} onChange={setArgs} placeholder={isEn ? 'Add argument' : '添加参数'} />
+              </div>
+
+              {/* 环境变量 */}
+              <div>
+                <label className="block text-sm font-medium mb-1">{isEn ? 'Environment Variables' : '环境变量'}</label>
+                <KeyValueEditor
+                  pairs={envVars}
+                  onChange={setEnvVars}
+                  addLabel={isEn ? 'Add Env Var' : '添加环境变量'}
+                  keyPlaceholder={isEn ? 'Key' : '变量名'}
+                  valuePlaceholder={isEn ? 'Value' : '值'}
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              {/* 远程地址 */}
+              <div>
+                <label className="block text-sm font-medium mb-1">URL</label>
                 <input
                   type="text"
-                  value={newArg}
-                  onChange={(e) => setNewArg(e.target.value)}
-                  placeholder={isEn ? 'Add argument' : '添加参数'}
-                  className="flex-1 px-3 py-1.5 rounded-md border bg-background text-sm"
-                  onKeyDown={(e) => e.key === 'Enter' && addArg()}
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://example.com/mcp"
+                  className="w-full px-3 py-2 rounded-md border bg-background text-sm"
                 />
-                <Button variant="outline" size="sm" onClick={addArg}>
-                  <Plus className="h-4 w-4" />
-                </Button>
               </div>
+
+              {/* 请求头 */}
+              <div>
+                <label className="block text-sm font-medium mb-1">{isEn ? 'Headers' : '请求头'}</label>
+                <KeyValueEditor
+                  pairs={headers}
+                  onChange={setHeaders}
+                  addLabel={isEn ? 'Add Header' : '添加请求头'}
+                  keyPlaceholder={isEn ? 'Header' : '名称'}
+                  valuePlaceholder={isEn ? 'Value' : '值'}
+                />
+              </div>
+            </>
+          )}
+
+          {/* 启用 / 超时 */}
+          <div className="flex items-center justify-between gap-4 border-t pt-4">
+            <div className="flex items-center gap-2">
+              <Toggle checked={enabled} onChange={setEnabled} size="sm" />
+              <span className="text-sm font-medium">{isEn ? 'Enabled' : '启用'}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium">{isEn ? 'Timeout (ms)' : '超时 (毫秒)'}</label>
+              <input
+                type="number"
+                min={1}
+                value={timeout}
+                onChange={(e) => setTimeoutValue(e.target.value)}
+                placeholder={isEn ? 'Default' : '默认'}
+                className="w-28 px-2 py-1.5 rounded-md border bg-background text-sm"
+              />
             </div>
           </div>
 
-          {/* 环境变量 */}
+          {/* 自动批准的工具 */}
           <div>
-            <label className="block text-sm font-medium mb-1">{isEn ? 'Environment Variables' : '环境变量'}</label>
-            <div className="space-y-2">
-              {envVars.map((env, index) => (
-                <div key={index} className="flex gap-2">
-                  <input
-                    type="text"
-                    value={env.key}
-                    onChange={(e) => updateEnvVar(index, 'key', e.target.value)}
-                    placeholder={isEn ? 'Key' : '变量名'}
-                    className="w-1/3 px-2 py-1.5 rounded-md border bg-background text-sm"
-                  />
-                  <input
-                    type="text"
-                    value={env.value}
-                    onChange={(e) => updateEnvVar(index, 'value', e.target.value)}
-                    placeholder={isEn ? 'Value' : '值'}
-                    className="flex-1 px-2 py-1.5 rounded-md border bg-background text-sm"
-                  />
-                  <Button variant="ghost" size="sm" onClick={() => removeEnvVar(index)}>
-                    <Trash2 className="h-4 w-4 text-destructive" />
-                  </Button>
-                </div>
-              ))}
-              <Button variant="outline" size="sm" onClick={addEnvVar}>
-                <Plus className="h-4 w-4 mr-1" />
-                {isEn ? 'Add Env Var' : '添加环境变量'}
-              </Button>
-            </div>
+            <label className="block text-sm font-medium mb-1">{isEn ? 'Auto-approved Tools' : '自动批准的工具'}</label>
+            <p className="text-xs text-muted-foreground mb-2">{isEn ? 'Tools that run without asking for confirmation' : '调用时无需确认的工具'}</p>
+            <StringListEditor items={autoApprove} onChange={setAutoApprove} placeholder={isEn ? 'Tool name' : '工具名称'} />
           </div>
+
+          {/* 禁用的工具 */}
+          <div>
+            <label className="block text-sm font-medium mb-1">{isEn ? 'Disabled Tools' : '禁用的工具'}</label>
+            <StringListEditor items={disabledTools} onChange={setDisabledTools} placeholder={isEn ? 'Tool name' : '工具名称'} />
+          </div>
+
+          {extraFields.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {isEn ? 'Other fields are kept as-is: ' : '以下字段将原样保留：'}
+              <code>{extraFields.join(', ')}</code>
+            </p>
+          )}
         </div>
 
         <div className="flex justify-end gap-2 px-4 py-3 border-t">
@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { Button } from '../ui'
+import { useTranslation } from '@/hooks/useTranslation'
+import { X, Save, RefreshCw, CheckCircle, XCircle, Loader2 } from 'lucide-react'
+import type { McpServer } from '@/types/mcp'
+
+type ProbeResult = Awaited<ReturnType<typeof window.api.testMcpServer>>
+type ProbeItem = { name: string; description?: string }
+
+interface McpTestDialogProps {
+  name: string
+  server: McpServer
+  // 所属工作区，null 表示用户级配置
+  workspace: string | null
+  onClose: () => void
+  onSaved: () => void
+}
+
+// 资源 / 提示词列表
+function ItemList({ title, items }: { title: string; items: ProbeItem[] }): React.JSX.Element | null {
+  if (items.length === 0) return null
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-1">{title} ({items.length})</h3>
+      <div className="space-y-1">
+        {items.map(item => (
+          <div key={item.name} className="px-2 py-1 bg-muted rounded text-sm">
+            <code>{item.name}</code>
+            {item.description && <p className="text-xs text-muted-foreground line-clamp-2">{item.description}</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function McpTestDialog({ name, server, workspace, onClose, onSaved }: McpTestDialogProps): React.JSX.Element {
+  const [testing, setTesting] = useState(true)
+  const [result, setResult] = useState<ProbeResult | null>(null)
+  const [autoApprove, setAutoApprove] = useState<string[]>(server.autoApprove || [])
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  const { t } = useTranslation()
+  const isEn = t('common.unknown') === 'Unknown'
+
+  const runTest = useCallback(async (): Promise<void> => {
+    setTesting(true)
+    try {
+      setResult(await window.api.testMcpServer(name, workspace))
+    } catch (err) {
+      setResult({ success: false, error: err instanceof Error ? err.message : String(err) })
+    } finally {
+      setTesting(false)
+    }
+  }, [name, workspace])
+
+  useEffect(() => {
+    runTest()
+  }, [runTest])
+
+  const tools = result?.tools || []
+  const allSelected = tools.length > 0 && tools.every(tool => autoApprove.includes(tool.name))
+  // 已配置但本次未发现的工具（可能由服务器动态提供），保存时保留
+  const unknownApproved = autoApprove.filter(toolName => !tools.some(tool => tool.name === toolName))
+  const changed = JSON.stringify([...autoApprove].sort()) !== JSON.stringify([...(server.autoApprove || [])].sort())
+
+  const toggleTool = (toolName: string): void => {
+    setAutoApprove(prev => prev.includes(toolName) ? prev.filter(n => n !== toolName) : [...prev, toolName])
+  }
+
+  const toggleAll = (): void => {
+    setAutoApprove(allSelected ? unknownApproved : [...unknownApproved, ...tools.map(tool => tool.name)])
+  }
+
+  const handleSave = async (): Promise<void> => {
+    setSaving(true)
+    setSaveError(null)
+    try {
+      const serverConfig: McpServer = { ...server, autoApprove }
+      if (autoApprove.length === 0) delete serverConfig.autoApprove
+      const res = await window.api.saveMcpServer(name, serverConfig, undefined, workspace)
+      if (res.success) {
+        onSaved()
+        onClose()
+      } else {
+        setSaveError(res.error || (isEn ? 'Save failed' : '保存失败'))
+      }
+    } catch (err) {
+      setSaveError(isEn ? 'Save failed' : '保存失败')
+      console.error(err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const transportLabel = result?.transport === 'sse' ? 'SSE' : result?.transport === 'http' ? 'Streamable HTTP' : 'stdio'
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      <div className="relative bg-background rounded-lg shadow-xl w-[90vw] max-w-2xl max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <div className="min-w-0">
+            <h2 className="font-semibold truncate">{isEn ? 'Test MCP Server' : '测试 MCP 服务器'}: {name}</h2>
+            <p className="text-xs text-muted-foreground truncate">
+              {workspace ? `${isEn ? 'Workspace' : '工作区'}: ${workspace}` : (isEn ? 'User config' : '用户级配置')}
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex-1 p-4 space-y-4 overflow-auto">
+          {/* 测试状态 */}
+          {testing ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {server.url
+                ? (isEn ? 'Connecting to server...' : '正在连接服务器...')
+                : (isEn ? 'Starting server and running handshake...' : '正在启动服务器并握手...')}
+            </div>
+          ) : result && (
+            <div className={`flex items-start gap-2 p-3 rounded-md text-sm ${result.success ? 'bg-green-500/10 text-green-600' : 'bg-destructive/10 text-destructive'}`}>
+              {result.success ? <CheckCircle className="h-4 w-4 shrink-0 mt-0.5" /> : <XCircle className="h-4 w-4 shrink-0 mt-0.5" />}
+              <div className="min-w-0 break-words">
+                {result.success ? (isEn ? 'Server is healthy' : '服务器运行正常') : (result.error || (isEn ? 'Test failed' : '测试失败'))}
+              </div>
+            </div>
+          )}
+
+          {/* 服务器信息与耗时 */}
+          {!testing && result?.timings && (
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              <span className="text-muted-foreground">{isEn ? 'Transport' : '传输方式'}</span>
+              <span>{transportLabel}</span>
+              {result.serverInfo?.name && (
+                <>
+                  <span className="text-muted-foreground">{isEn ? 'Server' : '服务器'}</span>
+                  <span>{result.serverInfo.name}{result.serverInfo.version ? ` ${result.serverInfo.version}` : ''}</span>
+                </>
+              )}
+              {result.protocolVersion && (
+                <>
+                  <span className="text-muted-foreground">{isEn ? 'Protocol' : '协议版本'}</span>
+                  <span>{result.protocolVersion}</span>
+                </>
+              )}
+              {result.timings.initializeMs !== undefined && (
+                <>
+                  <span className="text-muted-foreground">{isEn ? 'Handshake' : '握手耗时'}</span>
+                  <span>{result.timings.initializeMs} ms</span>
+                </>
+              )}
+              {result.timings.listMs !== undefined && (
+                <>
+                  <span className="text-muted-foreground">{isEn ? 'Discovery' : '列表耗时'}</span>
+                  <span>{result.timings.listMs} ms</span>
+                </>
+              )}
+              <span className="text-muted-foreground">{isEn ? 'Total' : '总耗时'}</span>
+              <span>{result.timings.totalMs} ms</span>
+            </div>
+          )}
+
+          {/* 工具列表，勾选的工具自动批准 */}
+          {!testing && tools.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <h3 className="text-sm font-medium">{isEn ? 'Tools' : '工具'} ({tools.length})</h3>
+                <button type="button" className="text-xs text-primary hover:underline" onClick={toggleAll}>
+                  {allSelected ? (isEn ? 'Clear auto-approve' : '取消全部自动批准') : (isEn ? 'Auto-approve all' : '全部自动批准')}
+                </button>
+              </div>
+              <p className="text-xs text-muted-foreground mb-2">{isEn ? 'Checked tools run without asking for confirmation' : '勾选的工具调用时无需确认'}</p>
+              <div className="space-y-1">
+                {tools.map(tool => (
+                  <label key={tool.name} className="flex items-start gap-2 px-2 py-1 bg-muted rounded text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={autoApprove.includes(tool.name)}
+                      onChange={() => toggleTool(tool.name)}
+                    />
+                    <div className="min-w-0">
+                      <code>{tool.name}</code>
+                      {server.disabledTools?.includes(tool.name) && (
+                        <span className="ml-2 text-xs text-muted-foreground">({isEn ? 'disabled' : '已禁用'})</span>
+                      )}
+                      {tool.description && <p className="text-xs text-muted-foreground line-clamp-2">{tool.description}</p>}
+                    </div>
+                  </label>
+                ))}
+              </div>
+              {unknownApproved.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  {isEn ? 'Also auto-approved (not reported by the server): ' : '同时自动批准（服务器未返回）：'}
+                  <code>{unknownApproved.join(', ')}</code>
+                </p>
+              )}
+            </div>
+          )}
+
+          {!testing && result && (
+            <>
+              <ItemList title={isEn ? 'Resources' : '资源'} items={result.resources || []} />
+              <ItemList title={isEn ? 'Prompts' : '提示词'} items={result.prompts || []} />
+            </>
+          )}
+
+          {/* stderr 输出 */}
+          {!testing && result?.stderr && (
+            <div>
+              <h3 className="text-sm font-medium mb-1">stderr</h3>
+              <pre className="p-2 bg-muted rounded text-xs max-h-48 overflow-auto whitespace-pre-wrap break-all">{result.stderr}</pre>
+            </div>
+          )}
+        </div>
+
+        {saveError && (
+          <div className="px-4 py-2 bg-destructive/10 text-destructive text-sm">
+            {saveError}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t">
+          <Button variant="outline" onClick={runTest} disabled={testing}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${testing ? 'animate-spin' : ''}`} />
+            {isEn ? 'Retest' : '重新测试'}
+          </Button>
+          <Button onClick={handleSave} disabled={saving || testing || !changed}>
+            <Save className="h-4 w-4 mr-1" />
+            {saving ? (isEn ? 'Saving...' : '保存中...') : (isEn ? 'Save Auto-approve' : '保存自动批准')}
+          </Button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
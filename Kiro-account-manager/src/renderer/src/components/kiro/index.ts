@@ -1,2 +1,3 @@
 export { SteeringEditor } from './SteeringEditor'
 export { McpServerEditor } from './McpServerEditor'
+export { McpTestDialog } from './McpTestDialog'
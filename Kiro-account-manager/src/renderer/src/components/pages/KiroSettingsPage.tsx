@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react'
 import { Card, CardContent, CardHeader, CardTitle, Button, Toggle, Select } from '../ui'
 import { useTranslation } from '@/hooks/useTranslation'
-import { SteeringEditor, McpServerEditor } from '../kiro'
+import { SteeringEditor, McpServerEditor, McpTestDialog } from '../kiro'
+import { isRemoteMcpServer, type McpConfigFile, type McpServer } from '@/types/mcp'
 import { 
   FileText, 
   ChevronDown, 
@@ -18,7 +19,10 @@ import {
   Shield,
   Zap,
   Settings2,
-  Terminal
+  Terminal,
+  FolderPlus,
+  FileCog,
+  Activity
 } from 'lucide-react'
 
 interface KiroSettings {
@@ -42,15 +46,18 @@ interface KiroSettings {
   notificationsBilling: boolean
 }
 
-interface McpServer {
-  command: string
-  args?: string[]
-  env?: Record<string, string>
+// 可编辑的 settings.json（安装的用户设置、Profile 或工作区）
+interface KiroSettingsTarget {
+  id: string
+  kind: 'user' | 'profile' | 'workspace'
+  name: string
+  installation: { kind: 'default' | 'portable' | 'custom'; label: string; userDataDir: string }
+  settingsPath: string
+  exists: boolean
+  workspaces?: string[]
 }
 
-interface McpConfig {
-  mcpServers: Record<string, McpServer>
-}
+const folderName = (folder: string): string => folder.split(/[\\/]/).filter(Boolean).pop() || folder
 
 // 默认禁止的危险命令
 const defaultDenyCommands = [
@@ -116,13 +123,15 @@ const mcpOptionsEn = [
 
 export function KiroSettingsPage() {
   const [settings, setSettings] = useState<KiroSettings>(defaultSettings)
-  const [mcpConfig, setMcpConfig] = useState<McpConfig>({ mcpServers: {} })
+  const [mcpFiles, setMcpFiles] = useState<McpConfigFile[]>([])
   const [steeringFiles, setSteeringFiles] = useState<string[]>([])
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [availableModels, setAvailableModels] = useState<Array<{ id: string; name: string; description: string }>>([])
   const [loadingModels, setLoadingModels] = useState(false)
+  const [targets, setTargets] = useState<KiroSettingsTarget[]>([])
+  const [targetId, setTargetId] = useState<string | null>(null)
   
   const [expandedSections, setExpandedSections] = useState({
     agent: true,
@@ -135,17 +144,66 @@ export function KiroSettingsPage() {
   const [newTrustedToolName, setNewTrustedToolName] = useState('')
   const [newDenyCommand, setNewDenyCommand] = useState('')
   const [editingFile, setEditingFile] = useState<string | null>(null)
-  const [editingMcp, setEditingMcp] = useState<{ name?: string; server?: McpServer } | null>(null)
+  const [editingMcp, setEditingMcp] = useState<{ name?: string; server?: McpServer; workspace: string | null } | null>(null)
+  const [testingMcp, setTestingMcp] = useState<{ name: string; server: McpServer; workspace: string | null } | null>(null)
   const { t } = useTranslation()
   const isEn = t('common.unknown') === 'Unknown'
   const autonomyOptions = isEn ? autonomyOptionsEn : autonomyOptionsZh
   const mcpOptions = isEn ? mcpOptionsEn : mcpOptionsZh
 
   useEffect(() => {
-    loadKiroSettings()
+    loadTargets()
+    loadMcpConfigs()
     loadAvailableModels()
   }, [])
 
+  // 切换设置目标后重新加载
+  useEffect(() => {
+    if (targetId) loadKiroSettings()
+  }, [targetId])
+
+  const loadTargets = async (): Promise<void> => {
+    try {
+      const result = await window.api.getKiroSettingsTargets()
+      setTargets(result.targets)
+      if (!result.selectedId) {
+        await loadKiroSettings()
+        return
+      }
+      setTargetId(prev => (prev && result.targets.some(t => t.id === prev) ? prev : result.selectedId))
+    } catch (err) {
+      console.error('Failed to load settings targets:', err)
+      await loadKiroSettings()
+    }
+  }
+
+  const selectTarget = (id: string): void => {
+    setTargetId(id)
+    window.api.setKiroSettingsTarget(id)
+  }
+
+  const addInstallDir = async (): Promise<void> => {
+    const result = await window.api.addKiroInstallDir()
+    if (result.success) await loadTargets()
+  }
+
+  const removeInstallDir = async (dir: string): Promise<void> => {
+    await window.api.removeKiroInstallDir(dir)
+    setTargetId(null)
+    await loadTargets()
+  }
+
+  const currentTarget = targets.find(t => t.id === targetId)
+
+  const targetLabel = (target: KiroSettingsTarget): string => {
+    const name = target.kind === 'user'
+      ? (isEn ? 'User Settings' : '用户设置')
+      : target.kind === 'profile'
+        ? `${isEn ? 'Profile' : '配置文件'}: ${target.name}`
+        : `${isEn ? 'Workspace' : '工作区'}: ${target.name}`
+    return target.installation.kind === 'default' ? name : `${name} (${target.installation.label})`
+  }
+
   const loadAvailableModels = async () => {
     setLoadingModels(true)
     try {
@@ -164,7 +222,7 @@ export function KiroSettingsPage() {
     setLoading(true)
     setError(null)
     try {
-      const result = await window.api.getKiroSettings()
+      const result = await window.api.getKiroSettings(targetId ?? undefined)
       if (result.settings) {
         // 过滤掉 undefined 值，避免覆盖默认值
         const filteredSettings = Object.fromEntries(
@@ -172,12 +230,12 @@ export function KiroSettingsPage() {
         ) as Partial<KiroSettings>
         setSettings({ ...defaultSettings, ...filteredSettings })
       }
-      if (result.mcpConfig) {
-        setMcpConfig(result.mcpConfig as McpConfig)
-      }
       if (result.steeringFiles) {
         setSteeringFiles(result.steeringFiles)
       }
+      if (result.error) {
+        setError(result.error)
+      }
     } catch (err) {
       setError(isEn ? 'Failed to load Kiro settings' : '加载 Kiro 设置失败')
       console.error(err)
@@ -190,7 +248,13 @@ export function KiroSettingsPage() {
     setSaving(true)
     setError(null)
     try {
-      await window.api.saveKiroSettings(settings as unknown as Record<string, unknown>)
+      const result = await window.api.saveKiroSettings(settings as unknown as Record<string, unknown>, targetId ?? undefined)
+      if (!result.success) {
+        setError(result.error || (isEn ? 'Failed to save settings' : '保存设置失败'))
+        return
+      }
+      // 首次保存会创建文件，刷新目标状态
+      if (currentTarget && !currentTarget.exists) await loadTargets()
     } catch (err) {
       setError(isEn ? 'Failed to save settings' : '保存设置失败')
       console.error(err)
@@ -206,20 +270,66 @@ export function KiroSettingsPage() {
   const openKiroSettingsFile = async () => {
     // 打开 Kiro settings.json 文件
     try {
-      await window.api.openKiroSettingsFile()
+      await window.api.openKiroSettingsFile(targetId ?? undefined)
     } catch (err) {
       console.error(err)
     }
   }
 
-  const openMcpConfig = async (type: 'user' | 'workspace') => {
+  const loadMcpConfigs = async (): Promise<void> => {
+    try {
+      const result = await window.api.getMcpConfigs()
+      setMcpFiles([result.user, ...result.workspaces])
+    } catch (err) {
+      console.error('Failed to load MCP configs:', err)
+    }
+  }
+
+  const openMcpConfig = async (workspace: string | null) => {
     try {
-      await window.api.openKiroMcpConfig(type)
+      await window.api.openKiroMcpConfig(workspace ? 'workspace' : 'user', workspace ?? undefined)
+      await loadMcpConfigs()
     } catch (err) {
       console.error(err)
     }
   }
 
+  const addMcpWorkspace = async (): Promise<void> => {
+    const result = await window.api.addMcpWorkspace()
+    if (result.success) await loadMcpConfigs()
+  }
+
+  const removeMcpWorkspace = async (workspace: string): Promise<void> => {
+    if (!confirm(isEn ? `Remove workspace "${workspace}" from the list? Its mcp.json is kept.` : `从列表中移除工作区 "${workspace}"？其 mcp.json 文件会保留。`)) {
+      return
+    }
+    await window.api.removeMcpWorkspace(workspace)
+    await loadMcpConfigs()
+  }
+
+  const toggleMcpServer = async (name: string, server: McpServer, workspace: string | null): Promise<void> => {
+    const result = await window.api.setMcpServerDisabled(name, !server.disabled, workspace)
+    if (result.success) {
+      await loadMcpConfigs()
+    } else {
+      setError(result.error || (isEn ? 'Failed to update server' : '更新服务器失败'))
+    }
+  }
+
+  const copyMcpServer = async (name: string, from: string | null, to: string | null): Promise<void> => {
+    let result = await window.api.copyMcpServer(name, from, to)
+    if (!result.success && result.exists) {
+      const target = to ? folderName(to) : (isEn ? 'user config' : '用户级配置')
+      if (!confirm(isEn ? `"${name}" already exists in ${target}. Overwrite?` : `${target} 中已存在 "${name}"，是否覆盖？`)) return
+      result = await window.api.copyMcpServer(name, from, to, true)
+    }
+    if (result.success) {
+      await loadMcpConfigs()
+    } else {
+      setError(result.error || (isEn ? 'Failed to copy server' : '复制服务器失败'))
+    }
+  }
+
   const openSteeringFolder = async () => {
     try {
       await window.api.openKiroSteeringFolder()
@@ -269,14 +379,14 @@ export function KiroSettingsPage() {
     }
   }
 
-  const deleteMcpServer = async (name: string) => {
+  const deleteMcpServer = async (name: string, workspace: string | null) => {
     if (!confirm(isEn ? `Delete MCP server "${name}"?` : `确定要删除 MCP 服务器 "${name}" 吗？`)) {
       return
     }
     try {
-      const result = await window.api.deleteMcpServer(name)
+      const result = await window.api.deleteMcpServer(name, workspace)
       if (result.success) {
-        await loadKiroSettings()
+        await loadMcpConfigs()
       } else {
         setError(result.error || (isEn ? 'Failed to delete server' : '删除服务器失败'))
       }
@@ -358,7 +468,7 @@ export function KiroSettingsPage() {
             </div>
           </div>
           <div className="flex gap-2">
-            <Button variant="outline" size="sm" onClick={loadKiroSettings} className="bg-background/50 backdrop-blur-sm">
+            <Button variant="outline" size="sm" onClick={() => { loadTargets(); loadKiroSettings(); loadMcpConfigs() }} className="bg-background/50 backdrop-blur-sm">
               <RefreshCw className="h-4 w-4 mr-2" />
               {isEn ? 'Refresh' : '刷新'}
             </Button>
@@ -374,6 +484,51 @@ export function KiroSettingsPage() {
         </div>
       </div>
 
+      {/* 设置文件选择（安装 / Profile / 工作区） */}
+      {targets.length > 0 && (
+        <Card className="border-0 shadow-sm">
+          <CardContent className="py-4 space-y-2">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <FileCog className="h-4 w-4 text-primary" />
+              </div>
+              <span className="font-medium shrink-0">{isEn ? 'Settings File' : '设置文件'}</span>
+              <Select
+                value={targetId || ''}
+                options={targets.map(target => ({
+                  value: target.id,
+                  label: targetLabel(target),
+                  description: target.exists ? target.settingsPath : `${target.settingsPath} (${isEn ? 'not created yet' : '尚未创建'})`
+                }))}
+                onChange={selectTarget}
+                className="flex-1 min-w-0"
+              />
+              <Button variant="outline" size="sm" onClick={addInstallDir} title={isEn ? 'Add portable or custom Kiro installation' : '添加便携版或自定义位置的 Kiro 安装'}>
+                <FolderPlus className="h-4 w-4" />
+              </Button>
+              {currentTarget?.installation.kind === 'custom' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeInstallDir(currentTarget.installation.label)}
+                  title={isEn ? 'Remove this installation' : '移除此安装'}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              )}
+            </div>
+            {currentTarget && (
+              <p className="text-xs text-muted-foreground break-all pl-11">
+                {currentTarget.settingsPath}
+                {!currentTarget.exists && ` · ${isEn ? 'will be created on save' : '保存时创建'}`}
+                {currentTarget.workspaces && currentTarget.workspaces.length > 0 &&
+                  ` · ${isEn ? 'Used by' : '使用的工作区'}: ${currentTarget.workspaces.join(', ')}`}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {error && (
         <div className="flex items-center gap-2 p-3 bg-destructive/10 text-destructive rounded-lg">
           <AlertCircle className="h-4 w-4" />
@@ -567,7 +722,7 @@ export function KiroSettingsPage() {
               </div>
               <span>{isEn ? 'MCP Servers' : 'MCP 服务器'}</span>
               <span className="px-2 py-0.5 text-xs rounded-full bg-primary/10 text-primary">
-                {Object.keys(mcpConfig.mcpServers).length}
+                {mcpFiles.reduce((sum, file) => sum + Object.keys(file.servers).length, 0)}
               </span>
             </div>
             {expandedSections.mcp ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
@@ -587,52 +742,121 @@ export function KiroSettingsPage() {
               />
             </div>
 
-            <div className="border-t pt-4">
-              <p className="font-medium mb-2">{isEn ? 'Configured MCP Servers' : '已配置的 MCP 服务器'}</p>
-              {Object.keys(mcpConfig.mcpServers).length === 0 ? (
-                <p className="text-sm text-muted-foreground">{isEn ? 'No MCP servers configured' : '暂无配置的 MCP 服务器'}</p>
-              ) : (
-                <div className="space-y-2">
-                  {Object.entries(mcpConfig.mcpServers).map(([name, server]) => (
-                    <div key={name} className="flex items-center justify-between p-2 bg-muted rounded-md">
-                      <div className="flex-1">
-                        <p className="font-medium text-sm">{name}</p>
-                        <p className="text-xs text-muted-foreground font-mono">{server.command}</p>
-                      </div>
-                      <div className="flex gap-1">
-                        <button
-                          className="p-1 hover:bg-background rounded transition-colors"
-                          onClick={() => setEditingMcp({ name, server })}
-                          title={isEn ? 'Edit' : '编辑'}
-                        >
-                          <Edit className="h-4 w-4 text-primary" />
-                        </button>
-                        <button
-                          className="p-1 hover:bg-background rounded transition-colors"
-                          onClick={() => deleteMcpServer(name)}
-                          title={isEn ? 'Delete' : '删除'}
-                        >
+            {mcpFiles.map((file) => {
+              const userFile = mcpFiles[0]
+              const scopeName = file.workspace ? folderName(file.workspace) : (isEn ? 'User' : '用户级')
+              return (
+                <div key={file.workspace ?? 'user'} className="border-t pt-4 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium">
+                        {file.workspace ? `${isEn ? 'Workspace' : '工作区'}: ${scopeName}` : (isEn ? 'User MCP Servers' : '用户级 MCP 服务器')}
+                      </p>
+                      <p className="text-xs text-muted-foreground font-mono truncate" title={file.path}>{file.path}</p>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <Button variant="ghost" size="sm" onClick={() => setEditingMcp({ workspace: file.workspace })} title={isEn ? 'Add MCP Server' : '添加 MCP 服务器'}>
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => openMcpConfig(file.workspace)} title={isEn ? 'Open mcp.json' : '打开 mcp.json'}>
+                        <FolderOpen className="h-4 w-4" />
+                      </Button>
+                      {file.workspace && (
+                        <Button variant="ghost" size="sm" onClick={() => file.workspace && removeMcpWorkspace(file.workspace)} title={isEn ? 'Remove workspace' : '移除工作区'}>
                           <Trash2 className="h-4 w-4 text-destructive" />
-                        </button>
-                      </div>
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {file.error && <p className="text-sm text-destructive">{file.error}</p>}
+                  {Object.keys(file.servers).length === 0 ? (
+                    <p className="text-sm text-muted-foreground">{isEn ? 'No MCP servers configured' : '暂无配置的 MCP 服务器'}</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {Object.entries(file.servers).map(([name, server]) => {
+                        // 工作区中的同名服务器优先于用户级配置
+                        const overriddenIn = file.workspace ? [] : mcpFiles.filter(f => f.workspace && f.servers[name]).map(f => folderName(f.workspace || ''))
+                        const overridesUser = !!file.workspace && !!userFile?.servers[name]
+                        const copyTargets = mcpFiles.filter(f => f.workspace !== file.workspace)
+                        return (
+                          <div key={name} className={`flex items-center justify-between gap-2 p-2 bg-muted rounded-md ${server.disabled ? 'opacity-60' : ''}`}>
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2 flex-wrap">
+                                <p className="font-medium text-sm">{name}</p>
+                                {isRemoteMcpServer(server) && (
+                                  <span className="px-1.5 py-0.5 text-[10px] rounded bg-blue-500/10 text-blue-600">{isEn ? 'Remote' : '远程'}</span>
+                                )}
+                                {server.disabled && (
+                                  <span className="px-1.5 py-0.5 text-[10px] rounded bg-background text-muted-foreground">{isEn ? 'Disabled' : '已禁用'}</span>
+                                )}
+                                {overridesUser && (
+                                  <span className="px-1.5 py-0.5 text-[10px] rounded bg-primary/10 text-primary">{isEn ? 'Overrides user' : '覆盖用户级'}</span>
+                                )}
+                                {overriddenIn.length > 0 && (
+                                  <span className="px-1.5 py-0.5 text-[10px] rounded bg-amber-500/10 text-amber-600" title={overriddenIn.join(', ')}>
+                                    {isEn ? `Overridden in ${overriddenIn.join(', ')}` : `被工作区覆盖: ${overriddenIn.join(', ')}`}
+                                  </span>
+                                )}
+                              </div>
+                              <p className="text-xs text-muted-foreground font-mono truncate">{isRemoteMcpServer(server) ? server.url : server.command}</p>
+                            </div>
+                            <div className="flex items-center gap-1 shrink-0">
+                              <Toggle
+                                size="sm"
+                                checked={!server.disabled}
+                                onChange={() => toggleMcpServer(name, server, file.workspace)}
+                              />
+                              {copyTargets.length > 0 && (
+                                <Select
+                                  value=""
+                                  placeholder={isEn ? 'Copy to...' : '复制到...'}
+                                  options={copyTargets.map(f => ({
+                                    value: f.workspace ?? '',
+                                    label: f.workspace ? folderName(f.workspace) : (isEn ? 'User' : '用户级')
+                                  }))}
+                                  onChange={(value) => copyMcpServer(name, file.workspace, value || null)}
+                                  className="w-[130px]"
+                                />
+                              )}
+                              <button
+                                className="p-1 hover:bg-background rounded transition-colors"
+                                onClick={() => setTestingMcp({ name, server, workspace: file.workspace })}
+                                title={isEn ? 'Test' : '测试'}
+                              >
+                                <Activity className="h-4 w-4 text-green-600" />
+                              </button>
+                              <button
+                                className="p-1 hover:bg-background rounded transition-colors"
+                                onClick={() => setEditingMcp({ name, server, workspace: file.workspace })}
+                                title={isEn ? 'Edit' : '编辑'}
+                              >
+                                <Edit className="h-4 w-4 text-primary" />
+                              </button>
+                              <button
+                                className="p-1 hover:bg-background rounded transition-colors"
+                                onClick={() => deleteMcpServer(name, file.workspace)}
+                                title={isEn ? 'Delete' : '删除'}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </button>
+                            </div>
+                          </div>
+                        )
+                      })}
                     </div>
-                  ))}
+                  )}
                 </div>
-              )}
-            </div>
+              )
+            })}
 
             <div className="flex gap-2 pt-2">
-              <Button variant="outline" size="sm" onClick={() => setEditingMcp({})}>
+              <Button variant="outline" size="sm" onClick={() => setEditingMcp({ workspace: null })}>
                 <Plus className="h-4 w-4 mr-2" />
                 {isEn ? 'Add MCP Server' : '添加 MCP 服务器'}
               </Button>
-              <Button variant="outline" size="sm" onClick={() => openMcpConfig('user')}>
-                <FolderOpen className="h-4 w-4 mr-2" />
-                {isEn ? 'User MCP Config' : '用户 MCP 配置'}
-              </Button>
-              <Button variant="outline" size="sm" onClick={() => openMcpConfig('workspace')}>
-                <FolderOpen className="h-4 w-4 mr-2" />
-                {isEn ? 'Workspace MCP Config' : '工作区 MCP 配置'}
+              <Button variant="outline" size="sm" onClick={addMcpWorkspace}>
+                <FolderPlus className="h-4 w-4 mr-2" />
+                {isEn ? 'Add Workspace' : '添加工作区'}
               </Button>
             </div>
           </CardContent>
@@ -878,8 +1102,20 @@ export function KiroSettingsPage() {
         <McpServerEditor
           serverName={editingMcp.name}
           server={editingMcp.server}
+          workspace={editingMcp.workspace}
           onClose={() => setEditingMcp(null)}
-          onSaved={loadKiroSettings}
+          onSaved={loadMcpConfigs}
+        />
+      )}
+
+      {/* MCP 服务器测试 */}
+      {testingMcp && (
+        <McpTestDialog
+          name={testingMcp.name}
+          server={testingMcp.server}
+          workspace={testingMcp.workspace}
+          onClose={() => setTestingMcp(null)}
+          onSaved={loadMcpConfigs}
         />
       )}
     </div>
@@ -1,8 +1,12 @@
 import { useAccountsStore } from '@/store/accounts'
-import { Card, CardContent, CardHeader, CardTitle, Button } from '../ui'
-import { Eye, EyeOff, RefreshCw, Clock, Trash2, Download, Upload, Globe, Repeat, Palette, Moon, Sun, Fingerprint, Info, ChevronDown, ChevronUp, Settings, Database, Layers, UserX, Monitor } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle, Button, Input } from '../ui'
+import { Eye, EyeOff, RefreshCw, Clock, Trash2, Download, Upload, Globe, Repeat, Palette, Moon, Sun, Fingerprint, Info, ChevronDown, ChevronUp, Settings, Database, Layers, UserX, Monitor, Lock, KeyRound, History } from 'lucide-react'
 import { useState, useEffect } from 'react'
 import { ExportDialog } from '../accounts/ExportDialog'
+import { SnapshotDialog } from '../accounts/SnapshotDialog'
+import { BundlePassphraseDialog } from '../accounts/BundlePassphraseDialog'
+import { ImportPreviewDialog } from '../accounts/ImportPreviewDialog'
+import { parseExportData, type ParsedImport } from '@/lib/accountImport'
 import { useTranslation } from '@/hooks/useTranslation'
 
 // 主题配置 - 按色系分组
@@ -136,13 +140,16 @@ export function SettingsPage() {
     language,
     setLanguage,
     accounts,
-    importFromExportData
+    openEncryptedBundle
   } = useAccountsStore()
 
   const { t } = useTranslation()
   const isEn = t('common.unknown') === 'Unknown'
   const [showExportDialog, setShowExportDialog] = useState(false)
+  const [showSnapshotDialog, setShowSnapshotDialog] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
+  const [pendingBundle, setPendingBundle] = useState<string | null>(null)
+  const [importPreview, setImportPreview] = useState<ParsedImport | null>(null)
   const [tempProxyUrl, setTempProxyUrl] = useState(proxyUrl)
   const [themeExpanded, setThemeExpanded] = useState(false)
   const [isManualRefreshing, setIsManualRefreshing] = useState(false)
@@ -288,6 +295,74 @@ export function SettingsPage() {
     loadTraySettings()
   }, [])
 
+  // 主密码保险库状态
+  const [vaultStatus, setVaultStatus] = useState<{ enabled: boolean; locked: boolean; autoLockMinutes: number } | null>(null)
+  const [vaultMode, setVaultMode] = useState<'enable' | 'change' | 'disable' | null>(null)
+  const [vaultForm, setVaultForm] = useState({ current: '', next: '', confirm: '' })
+  const [vaultError, setVaultError] = useState('')
+  const [vaultBusy, setVaultBusy] = useState(false)
+
+  // 账号凭证存储方式
+  const [credentialStorage, setCredentialStorage] = useState<{ keychain: boolean; backend: string } | null>(null)
+
+  // 加载保险库状态和凭证存储方式
+  useEffect(() => {
+    window.api.vaultGetStatus().then(setVaultStatus).catch((error) => {
+      console.error('Failed to load vault status:', error)
+    })
+    window.api.getCredentialStorage().then(setCredentialStorage).catch((error) => {
+      console.error('Failed to load credential storage:', error)
+    })
+  }, [])
+
+  const openVaultForm = (mode: 'enable' | 'change' | 'disable' | null): void => {
+    setVaultMode(mode)
+    setVaultForm({ current: '', next: '', confirm: '' })
+    setVaultError('')
+  }
+
+  // 提交设置 / 修改 / 移除主密码
+  const handleVaultSubmit = async (): Promise<void> => {
+    if (!vaultMode) return
+    if (vaultMode !== 'disable') {
+      if (vaultForm.next.length < 8) {
+        setVaultError(isEn ? 'Password must be at least 8 characters' : '密码至少需要 8 个字符')
+        return
+      }
+      if (vaultForm.next !== vaultForm.confirm) {
+        setVaultError(isEn ? 'Passwords do not match' : '两次输入的密码不一致')
+        return
+      }
+    }
+    setVaultBusy(true)
+    setVaultError('')
+    try {
+      const result = vaultMode === 'enable'
+        ? await window.api.vaultEnable(vaultForm.next)
+        : vaultMode === 'change'
+          ? await window.api.vaultChangePassword(vaultForm.current, vaultForm.next)
+          : await window.api.vaultDisable(vaultForm.current)
+      if (!result.success) {
+        setVaultError(result.error === 'Incorrect password' ? (isEn ? 'Incorrect password' : '密码错误') : (result.error || (isEn ? 'Operation failed' : '操作失败')))
+        return
+      }
+      openVaultForm(null)
+      setVaultStatus(await window.api.vaultGetStatus())
+    } finally {
+      setVaultBusy(false)
+    }
+  }
+
+  // 保存自动锁定时间
+  const handleVaultAutoLockChange = async (minutes: number): Promise<void> => {
+    setVaultStatus(prev => prev ? { ...prev, autoLockMinutes: minutes } : prev)
+    try {
+      await window.api.vaultSetAutoLock(minutes)
+    } catch (error) {
+      console.error('Failed to save auto-lock setting:', error)
+    }
+  }
+
   // 保存托盘设置
   const handleTraySettingChange = async (key: keyof typeof traySettings, value: boolean | string) => {
     const newSettings = { ...traySettings, [key]: value }
@@ -317,10 +392,15 @@ export function SettingsPage() {
     setIsImporting(true)
     try {
       const fileData = await window.api.importFromFile()
-      if (fileData && fileData.format === 'json') {
+      if (fileData && fileData.format === 'kirobundle') {
+        setPendingBundle(fileData.content)
+      } else if (fileData && fileData.format === 'json') {
         const data = JSON.parse(fileData.content)
-        const importResult = importFromExportData(data)
-        alert(`导入完成：成功 ${importResult.success} 个，失败 ${importResult.failed} 个`)
+        if (data.format === 'kiro-account-bundle') {
+          setPendingBundle(fileData.content)
+          return
+        }
+        setImportPreview(parseExportData(data))
       } else if (fileData) {
         alert('设置页面仅支持 JSON 格式导入，请使用账号管理页面导入 CSV/TXT')
       }
@@ -331,6 +411,21 @@ export function SettingsPage() {
     }
   }
 
+  // 解密加密导出包后进入导入预览，返回错误信息时保持口令对话框打开
+  const handleBundleImport = async (passphrase: string): Promise<string | null> => {
+    if (!pendingBundle) return null
+    try {
+      const parsed = parseExportData(await openEncryptedBundle(pendingBundle, passphrase))
+      setPendingBundle(null)
+      setImportPreview(parsed)
+      return null
+    } catch (e) {
+      return e instanceof Error && e.message.startsWith('Incorrect passphrase')
+        ? (isEn ? 'Incorrect passphrase or corrupted bundle' : '口令错误或文件已损坏')
+        : (e instanceof Error ? e.message : '导入失败')
+    }
+  }
+
   const handleClearData = () => {
     if (confirm('确定要清除所有账号数据吗？此操作不可恢复！')) {
       if (confirm('再次确认：这将删除所有账号、分组和标签数据！')) {
@@ -965,6 +1060,145 @@ export function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* 主密码 */}
+      <Card className="border-0 shadow-sm hover:shadow-md transition-shadow duration-200">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <KeyRound className="h-4 w-4 text-primary" />
+            </div>
+            {isEn ? 'Master Password' : '主密码'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="font-medium">{isEn ? 'Encrypt Account Data' : '加密账号数据'}</p>
+              <p className="text-sm text-muted-foreground">
+                {vaultStatus?.enabled
+                  ? (isEn ? 'Account data and backups are encrypted with your master password' : '账号数据和备份已使用主密码加密')
+                  : (isEn ? 'Require a master password to unlock accounts on launch' : '启动时需要输入主密码才能解锁账号数据')}
+              </p>
+            </div>
+            {vaultStatus?.enabled ? (
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => openVaultForm('change')}>
+                  {isEn ? 'Change' : '修改'}
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => openVaultForm('disable')}>
+                  {isEn ? 'Remove' : '移除'}
+                </Button>
+              </div>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => openVaultForm('enable')} disabled={!vaultStatus}>
+                <KeyRound className="h-4 w-4 mr-2" />
+                {isEn ? 'Set Password' : '设置密码'}
+              </Button>
+            )}
+          </div>
+
+          {credentialStorage && (
+            <div className="flex items-center justify-between pt-2 border-t">
+              <div>
+                <p className="font-medium">{isEn ? 'Credential Storage' : '凭证存储'}</p>
+                <p className="text-sm text-muted-foreground">
+                  {credentialStorage.keychain
+                    ? (isEn ? 'Access tokens, refresh tokens and client secrets are kept in the OS keychain' : 'Access Token、Refresh Token 和 Client Secret 保存在系统钥匙串中')
+                    : (isEn ? 'No OS keychain available, credentials are kept in the app data file' : '系统钥匙串不可用，凭证保存在应用数据文件中')}
+                </p>
+              </div>
+              <span className="text-sm text-muted-foreground">
+                {credentialStorage.keychain ? credentialStorage.backend : (isEn ? 'App store' : '应用数据')}
+              </span>
+            </div>
+          )}
+
+          {vaultMode && (
+            <div className="space-y-2 p-3 rounded-lg bg-muted/50">
+              {vaultMode !== 'enable' && (
+                <Input
+                  type="password"
+                  value={vaultForm.current}
+                  onChange={(e) => setVaultForm({ ...vaultForm, current: e.target.value })}
+                  placeholder={isEn ? 'Current password' : '当前密码'}
+                />
+              )}
+              {vaultMode !== 'disable' && (
+                <>
+                  <Input
+                    type="password"
+                    value={vaultForm.next}
+                    onChange={(e) => setVaultForm({ ...vaultForm, next: e.target.value })}
+                    placeholder={isEn ? 'New password' : '新密码'}
+                  />
+                  <Input
+                    type="password"
+                    value={vaultForm.confirm}
+                    onChange={(e) => setVaultForm({ ...vaultForm, confirm: e.target.value })}
+                    placeholder={isEn ? 'Confirm new password' : '确认新密码'}
+                  />
+                </>
+              )}
+              {vaultMode === 'enable' && (
+                <p className="text-xs text-amber-600">
+                  {isEn ? 'The master password cannot be recovered. If you forget it, your account data cannot be decrypted.' : '主密码无法找回，忘记后账号数据将无法解密。'}
+                </p>
+              )}
+              {vaultError && <p className="text-sm text-destructive">{vaultError}</p>}
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => openVaultForm(null)} disabled={vaultBusy}>
+                  {isEn ? 'Cancel' : '取消'}
+                </Button>
+                <Button
+                  variant={vaultMode === 'disable' ? 'destructive' : 'default'}
+                  size="sm"
+                  onClick={handleVaultSubmit}
+                  disabled={vaultBusy || (vaultMode !== 'enable' && !vaultForm.current)}
+                >
+                  {vaultBusy
+                    ? (isEn ? 'Processing...' : '处理中...')
+                    : vaultMode === 'enable' ? (isEn ? 'Set Password' : '设置密码')
+                      : vaultMode === 'change' ? (isEn ? 'Change Password' : '修改密码')
+                        : (isEn ? 'Remove Password' : '移除密码')}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {vaultStatus?.enabled && (
+            <>
+              <div className="flex items-center justify-between pt-2 border-t">
+                <div>
+                  <p className="font-medium">{isEn ? 'Auto-Lock' : '自动锁定'}</p>
+                  <p className="text-sm text-muted-foreground">{isEn ? 'Lock after the system has been idle' : '系统空闲一段时间后自动锁定'}</p>
+                </div>
+                <select
+                  className="w-[160px] h-9 px-3 rounded-lg border bg-background text-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary"
+                  value={vaultStatus.autoLockMinutes}
+                  onChange={(e) => handleVaultAutoLockChange(Number(e.target.value))}
+                >
+                  <option value={0}>{isEn ? 'Never' : '从不'}</option>
+                  <option value={5}>{isEn ? '5 minutes' : '5 分钟'}</option>
+                  <option value={15}>{isEn ? '15 minutes' : '15 分钟'}</option>
+                  <option value={30}>{isEn ? '30 minutes' : '30 分钟'}</option>
+                  <option value={60}>{isEn ? '1 hour' : '1 小时'}</option>
+                </select>
+              </div>
+              <div className="flex items-center justify-between pt-2 border-t">
+                <div>
+                  <p className="font-medium">{isEn ? 'Lock Now' : '立即锁定'}</p>
+                  <p className="text-sm text-muted-foreground">{isEn ? 'Clear the key from memory and return to the unlock screen' : '清除内存中的密钥并返回解锁界面'}</p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => window.api.vaultLock()}>
+                  <Lock className="h-4 w-4 mr-2" />
+                  {isEn ? 'Lock' : '锁定'}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
       {/* 数据管理 */}
       <Card className="border-0 shadow-sm hover:shadow-md transition-shadow duration-200">
         <CardHeader className="pb-2">
@@ -990,7 +1224,7 @@ export function SettingsPage() {
           <div className="flex items-center justify-between pt-2 border-t">
             <div>
               <p className="font-medium">{isEn ? 'Import Data' : '导入数据'}</p>
-              <p className="text-sm text-muted-foreground">{isEn ? 'Import accounts from JSON file' : '从 JSON 文件导入账号数据'}</p>
+              <p className="text-sm text-muted-foreground">{isEn ? 'Import accounts from JSON file or encrypted bundle' : '从 JSON 文件或加密导出包导入账号数据'}</p>
             </div>
             <Button variant="outline" size="sm" onClick={handleImport} disabled={isImporting}>
               <Upload className="h-4 w-4 mr-2" />
@@ -998,6 +1232,17 @@ export function SettingsPage() {
             </Button>
           </div>
 
+          <div className="flex items-center justify-between pt-2 border-t">
+            <div>
+              <p className="font-medium">{isEn ? 'Backup Snapshots' : '备份快照'}</p>
+              <p className="text-sm text-muted-foreground">{isEn ? 'Browse, compare and restore automatic snapshots' : '浏览、对比并恢复自动备份快照'}</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setShowSnapshotDialog(true)}>
+              <History className="h-4 w-4 mr-2" />
+              {isEn ? 'Restore' : '恢复'}
+            </Button>
+          </div>
+
           <div className="flex items-center justify-between pt-2 border-t">
             <div>
               <p className="font-medium text-destructive">{isEn ? 'Clear All Data' : '清除所有数据'}</p>
@@ -1018,6 +1263,25 @@ export function SettingsPage() {
         accounts={Array.from(accounts.values())}
         selectedCount={0}
       />
+
+      {/* 快照恢复对话框 */}
+      <SnapshotDialog
+        open={showSnapshotDialog}
+        onClose={() => setShowSnapshotDialog(false)}
+      />
+
+      {/* 加密导出包口令对话框 */}
+      <BundlePassphraseDialog
+        open={pendingBundle !== null}
+        onClose={() => setPendingBundle(null)}
+        onSubmit={handleBundleImport}
+      />
+
+      {/* 导入预览对话框 */}
+      <ImportPreviewDialog
+        parsed={importPreview}
+        onClose={() => setImportPreview(null)}
+      />
     </div>
   )
 }
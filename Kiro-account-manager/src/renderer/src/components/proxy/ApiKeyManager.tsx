@@ -4,7 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input'
 import { Switch } from '@/components/ui/switch'
 import { 
-  Key, Plus, Trash2, Copy, Check, RefreshCw, Eye, EyeOff, 
+  Key, Plus, Trash2, Copy, Check, RefreshCw, RotateCw, 
   BarChart3, Clock, Zap, MessageSquare, ExternalLink
 } from 'lucide-react'
 import { Select } from '@/components/ui'
@@ -23,15 +23,38 @@ interface UsageRecord {
   path: string
 }
 
+interface ApiKeyRateLimits {
+  requestsPerMinute?: number
+  tokensPerMinute?: number
+  maxConcurrent?: number
+  dailyCreditsBudget?: number
+  monthlyCreditsBudget?: number
+}
+
+type ApiKeyRouteScope = 'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'
+
+interface ApiKeyScopes {
+  models?: string[]
+  routes?: ApiKeyRouteScope[]
+  admin?: 'none' | 'read' | 'write'
+}
+
 interface ApiKey {
   id: string
   name: string
-  key: string
+  keyPrefix?: string
   format?: ApiKeyFormat
   enabled: boolean
   createdAt: number
   lastUsedAt?: number
+  rotatedFrom?: string
+  replacedBy?: string
+  revokeAt?: number
   creditsLimit?: number
+  rateLimits?: ApiKeyRateLimits
+  scopes?: ApiKeyScopes
+  expiresAt?: number
+  allowedIps?: string[]
   usage: {
     totalRequests: number
     totalCredits: number
@@ -53,6 +76,13 @@ interface ApiKey {
   usageHistory?: UsageRecord[]
 }
 
+// 管理 API 的实际权限（与主进程 getAdminAccess 一致）：未设置时，限制了模型或端点的 Key 为 none，其余为 write
+function getAdminAccess(apiKey: ApiKey): NonNullable<ApiKeyScopes['admin']> {
+  if (apiKey.scopes?.admin) return apiKey.scopes.admin
+  const restricted = !!apiKey.scopes?.models?.some(m => m.trim()) || !!apiKey.scopes?.routes?.length
+  return restricted ? 'none' : 'write'
+}
+
 export function ApiKeyManager() {
   const { language } = useAccountsStore()
   const isEn = language === 'en'
@@ -62,8 +92,10 @@ export function ApiKeyManager() {
   const [newKeyName, setNewKeyName] = useState('')
   const [newKeyFormat, setNewKeyFormat] = useState<ApiKeyFormat>('sk')
   const [newKeyCreditsLimit, setNewKeyCreditsLimit] = useState<string>('')
-  const [copiedId, setCopiedId] = useState<string | null>(null)
-  const [showKeys, setShowKeys] = useState<Set<string>>(new Set())
+  const [copied, setCopied] = useState(false)
+  // 新建 / 轮换后的明文密钥，只在这里显示一次
+  const [revealedKey, setRevealedKey] = useState<{ name: string; secret: string } | null>(null)
+  const [rotationGraceMinutes, setRotationGraceMinutes] = useState('60')
   const [selectedKey, setSelectedKey] = useState<string | null>(null)
   const [showUsageDialog, setShowUsageDialog] = useState(false)
 
@@ -92,10 +124,13 @@ export function ApiKeyManager() {
       const result = await window.api.proxyAddApiKey({ 
         name: newKeyName.trim(),
         format: newKeyFormat,
-        creditsLimit: creditsLimit && creditsLimit > 0 ? creditsLimit : undefined
+        creditsLimit: creditsLimit && creditsLimit > 0 ? creditsLimit : undefined,
+        // 新 Key 默认不能访问管理 API，需要时手动开启
+        scopes: { admin: 'none' }
       })
       if (result.success && result.apiKey) {
         setApiKeys(prev => [...prev, result.apiKey!])
+        if (result.secret) setRevealedKey({ name: result.apiKey.name, secret: result.secret })
         setNewKeyName('')
         setNewKeyCreditsLimit('')
       }
@@ -145,19 +180,85 @@ export function ApiKeyManager() {
     }
   }
 
-  const copyToClipboard = (id: string, key: string) => {
-    navigator.clipboard.writeText(key)
-    setCopiedId(id)
-    setTimeout(() => setCopiedId(null), 2000)
+  // 更新限流配置（空值或 0 表示不限制）
+  const handleRateLimitChange = async (apiKey: ApiKey, field: keyof ApiKeyRateLimits, value: string): Promise<void> => {
+    const parsed = value ? parseFloat(value) : 0
+    const rateLimits: ApiKeyRateLimits = { ...apiKey.rateLimits, [field]: parsed > 0 ? parsed : undefined }
+    try {
+      const result = await window.api.proxyUpdateApiKey(apiKey.id, { rateLimits })
+      if (result.success) {
+        setApiKeys(prev => prev.map(k => k.id === apiKey.id ? { ...k, rateLimits } : k))
+      }
+    } catch (error) {
+      console.error('Failed to update rate limits:', error)
+    }
+  }
+
+  // 更新访问范围（模型、端点、管理 API 权限、过期时间、IP 白名单）
+  const handleAccessChange = async (apiKey: ApiKey, updates: { scopes?: ApiKeyScopes; expiresAt?: number | null; allowedIps?: string[] }): Promise<void> => {
+    try {
+      const result = await window.api.proxyUpdateApiKey(apiKey.id, updates)
+      if (result.success) {
+        setApiKeys(prev => prev.map(k => k.id === apiKey.id ? {
+          ...k,
+          ...(updates.scopes !== undefined && { scopes: updates.scopes }),
+          ...(updates.expiresAt !== undefined && { expiresAt: updates.expiresAt ?? undefined }),
+          ...(updates.allowedIps !== undefined && { allowedIps: updates.allowedIps })
+        } : k))
+      }
+    } catch (error) {
+      console.error('Failed to update API key access:', error)
+    }
+  }
+
+  const parseList = (value: string): string[] => value.split(/[,\n]/).map(item => item.trim()).filter(Boolean)
+
+  // datetime-local 输入框使用本地时间
+  const toDateTimeLocal = (timestamp: number): string => {
+    const date = new Date(timestamp - new Date(timestamp).getTimezoneOffset() * 60000)
+    return date.toISOString().slice(0, 16)
   }
 
-  const toggleShowKey = (id: string) => {
-    setShowKeys(prev => {
-      const next = new Set(prev)
-      if (next.has(id)) next.delete(id)
-      else next.add(id)
-      return next
-    })
+  // 轮换：创建继任 Key，旧 Key 在宽限期结束后吊销
+  const handleRotateKey = async (apiKey: ApiKey): Promise<void> => {
+    const minutes = parseInt(rotationGraceMinutes, 10) || 0
+    const message = minutes > 0
+      ? (isEn ? `Create a new key and revoke this one in ${minutes} minutes?` : `创建新密钥，并在 ${minutes} 分钟后吊销当前密钥？`)
+      : (isEn ? 'Create a new key and revoke this one immediately?' : '创建新密钥，并立即吊销当前密钥？')
+    if (!confirm(message)) return
+
+    try {
+      const result = await window.api.proxyRotateApiKey(apiKey.id, minutes)
+      if (result.success && result.apiKey) {
+        await loadApiKeys()
+        setSelectedKey(result.apiKey.id)
+        if (result.secret) setRevealedKey({ name: result.apiKey.name, secret: result.secret })
+      } else if (result.error) {
+        alert(result.error)
+      }
+    } catch (error) {
+      console.error('Failed to rotate API key:', error)
+    }
+  }
+
+  // 立即吊销（结束轮换宽限期）
+  const handleRevokeNow = async (apiKey: ApiKey): Promise<void> => {
+    if (!confirm(isEn ? 'Revoke this key now? Clients still using it will be rejected.' : '立即吊销此密钥？仍在使用它的客户端将被拒绝。')) return
+    const revokeAt = Date.now()
+    try {
+      const result = await window.api.proxyUpdateApiKey(apiKey.id, { revokeAt })
+      if (result.success) {
+        setApiKeys(prev => prev.map(k => k.id === apiKey.id ? { ...k, revokeAt } : k))
+      }
+    } catch (error) {
+      console.error('Failed to revoke API key:', error)
+    }
+  }
+
+  const copyToClipboard = (text: string): void => {
+    navigator.clipboard.writeText(text)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
   }
 
   const formatDate = (timestamp: number) => {
@@ -165,9 +266,7 @@ export function ApiKeyManager() {
     return `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`
   }
 
-  const maskKey = (key: string) => {
-    return key.substring(0, 8) + '...' + key.substring(key.length - 4)
-  }
+  const isRevoked = (apiKey: ApiKey): boolean => !!apiKey.revokeAt && apiKey.revokeAt <= Date.now()
 
   const selectedKeyData = apiKeys.find(k => k.id === selectedKey)
 
@@ -235,6 +334,29 @@ export function ApiKeyManager() {
             </div>
           </div>
 
+          {revealedKey && (
+            <div className="rounded-lg border border-amber-500/50 bg-amber-500/10 p-3 space-y-2">
+              <div className="text-sm font-medium">
+                {isEn ? `New key for "${revealedKey.name}"` : `「${revealedKey.name}」的新密钥`}
+              </div>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 bg-background px-2 py-1 rounded text-xs break-all select-all">{revealedKey.secret}</code>
+                <Button variant="outline" size="sm" onClick={() => copyToClipboard(revealedKey.secret)}>
+                  {copied ? <Check className="h-3 w-3 mr-1 text-green-500" /> : <Copy className="h-3 w-3 mr-1" />}
+                  {isEn ? 'Copy' : '复制'}
+                </Button>
+                <Button size="sm" onClick={() => { setRevealedKey(null); setCopied(false) }}>
+                  {isEn ? 'Done' : '完成'}
+                </Button>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {isEn
+                  ? 'Copy this key now. Only a salted hash is stored, so it cannot be shown again.'
+                  : '请立即复制此密钥。应用只保存加盐哈希，关闭后无法再次查看。'}
+              </div>
+            </div>
+          )}
+
           {apiKeys.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               {isEn ? 'No API keys yet' : '暂无 API 密钥'}
@@ -259,23 +381,23 @@ export function ApiKeyManager() {
                   </div>
                   
                   <div className="flex-1 min-w-0 overflow-hidden">
-                    <div className="font-medium truncate">{apiKey.name}</div>
+                    <div className="font-medium truncate flex items-center gap-2">
+                      <span className="truncate">{apiKey.name}</span>
+                      {apiKey.expiresAt && apiKey.expiresAt <= Date.now() && (
+                        <span className="text-[10px] px-1.5 rounded bg-destructive/10 text-destructive shrink-0">{isEn ? 'Expired' : '已过期'}</span>
+                      )}
+                    </div>
                     <div className="flex items-center gap-2 text-xs text-muted-foreground">
                       <code className="bg-muted px-1 rounded">
-                        {showKeys.has(apiKey.id) ? apiKey.key : maskKey(apiKey.key)}
+                        {apiKey.keyPrefix ? `${apiKey.keyPrefix}…` : '••••••••'}
                       </code>
-                      <button
-                        className="hover:text-foreground"
-                        onClick={e => { e.stopPropagation(); toggleShowKey(apiKey.id) }}
-                      >
-                        {showKeys.has(apiKey.id) ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
-                      </button>
-                      <button
-                        className="hover:text-foreground"
-                        onClick={e => { e.stopPropagation(); copyToClipboard(apiKey.id, apiKey.key) }}
-                      >
-                        {copiedId === apiKey.id ? <Check className="h-3 w-3 text-green-500" /> : <Copy className="h-3 w-3" />}
-                      </button>
+                      {apiKey.replacedBy && apiKey.revokeAt && (
+                        <span className={isRevoked(apiKey) ? 'text-destructive' : 'text-amber-600'}>
+                          {isRevoked(apiKey)
+                            ? (isEn ? 'Revoked (rotated)' : '已吊销（已轮换）')
+                            : `${isEn ? 'Rotating, revoked at' : '轮换中，吊销于'} ${formatDate(apiKey.revokeAt)}`}
+                        </span>
+                      )}
                     </div>
                   </div>
 
@@ -359,6 +481,47 @@ export function ApiKeyManager() {
             </div>
 
             <div className="mt-4 space-y-3">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-sm text-muted-foreground">{isEn ? 'Key Rotation:' : '密钥轮换:'}</span>
+                {selectedKeyData.replacedBy ? (
+                  <>
+                    <span className="text-xs text-muted-foreground">
+                      {isRevoked(selectedKeyData)
+                        ? (isEn ? 'Rotated and revoked' : '已轮换并吊销')
+                        : `${isEn ? 'Rotated, old key accepted until' : '已轮换，旧密钥有效至'} ${formatDate(selectedKeyData.revokeAt || Date.now())}`}
+                    </span>
+                    {!isRevoked(selectedKeyData) && (
+                      <Button variant="outline" size="sm" className="h-8 text-destructive" onClick={() => handleRevokeNow(selectedKeyData)}>
+                        {isEn ? 'Revoke Now' : '立即吊销'}
+                      </Button>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <Select
+                      value={rotationGraceMinutes}
+                      options={[
+                        { value: '0', label: isEn ? 'Revoke old key immediately' : '立即吊销旧密钥' },
+                        { value: '15', label: isEn ? 'Grace period: 15 min' : '宽限期 15 分钟' },
+                        { value: '60', label: isEn ? 'Grace period: 1 hour' : '宽限期 1 小时' },
+                        { value: '1440', label: isEn ? 'Grace period: 1 day' : '宽限期 1 天' },
+                        { value: '10080', label: isEn ? 'Grace period: 7 days' : '宽限期 7 天' }
+                      ]}
+                      onChange={setRotationGraceMinutes}
+                      className="w-[200px]"
+                    />
+                    <Button variant="outline" size="sm" className="h-8" onClick={() => handleRotateKey(selectedKeyData)}>
+                      <RotateCw className="h-3 w-3 mr-1" />
+                      {isEn ? 'Rotate Key' : '轮换密钥'}
+                    </Button>
+                  </>
+                )}
+                {selectedKeyData.rotatedFrom && (
+                  <span className="text-xs text-muted-foreground">
+                    {isEn ? 'Successor of' : '继任自'} {apiKeys.find(k => k.id === selectedKeyData.rotatedFrom)?.keyPrefix || selectedKeyData.rotatedFrom.slice(0, 8)}…
+                  </span>
+                )}
+              </div>
               <div className="flex items-center gap-2">
                 <span className="text-sm text-muted-foreground">{isEn ? 'Credits Limit:' : 'Credits 额度限制:'}</span>
                 <Input
@@ -378,6 +541,108 @@ export function ApiKeyManager() {
                 />
                 <span className="text-xs text-muted-foreground">{isEn ? '(0 = unlimited)' : '(0 = 无限制)'}</span>
               </div>
+              <div className="space-y-2">
+                <span className="text-sm text-muted-foreground">{isEn ? 'Rate Limits & Budgets:' : '限流与预算:'}</span>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                  {([
+                    { field: 'requestsPerMinute', label: isEn ? 'Requests / min' : '每分钟请求数' },
+                    { field: 'tokensPerMinute', label: isEn ? 'Tokens / min' : '每分钟 Tokens' },
+                    { field: 'maxConcurrent', label: isEn ? 'Max concurrent' : '最大并发' },
+                    { field: 'dailyCreditsBudget', label: isEn ? 'Daily credits' : '每日 Credits' },
+                    { field: 'monthlyCreditsBudget', label: isEn ? 'Monthly credits' : '每月 Credits' }
+                  ] as Array<{ field: keyof ApiKeyRateLimits; label: string }>).map(({ field, label }) => (
+                    <div key={field} className="space-y-1">
+                      <span className="text-xs text-muted-foreground">{label}</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        placeholder={isEn ? 'Unlimited' : '无限制'}
+                        value={selectedKeyData.rateLimits?.[field] || ''}
+                        onChange={(e) => handleRateLimitChange(selectedKeyData, field, e.target.value)}
+                        className="h-8"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {isEn
+                    ? 'Exceeding a limit returns 429 with x-ratelimit-* headers. Daily/monthly budgets reset at 00:00 UTC.'
+                    : '超出限制时返回 429 及 x-ratelimit-* 响应头；每日 / 每月预算在 UTC 0 点重置。'}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <span className="text-sm text-muted-foreground">{isEn ? 'Access Scope:' : '访问范围:'}</span>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <span className="text-xs text-muted-foreground">{isEn ? 'Allowed models (comma separated, * wildcard)' : '允许的模型（逗号分隔，支持 * 通配符）'}</span>
+                    <Input
+                      key={`models-${selectedKeyData.id}`}
+                      placeholder={isEn ? 'All models' : '全部模型'}
+                      defaultValue={(selectedKeyData.scopes?.models || []).join(', ')}
+                      onBlur={(e) => handleAccessChange(selectedKeyData, { scopes: { ...selectedKeyData.scopes, models: parseList(e.target.value) } })}
+                      className="h-8"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <span className="text-xs text-muted-foreground">{isEn ? 'Allowed IPs / CIDR (comma separated)' : '允许的 IP / CIDR（逗号分隔）'}</span>
+                    <Input
+                      key={`ips-${selectedKeyData.id}`}
+                      placeholder={isEn ? 'Any address, e.g. 127.0.0.1, 192.168.1.0/24' : '不限，如 127.0.0.1, 192.168.1.0/24'}
+                      defaultValue={(selectedKeyData.allowedIps || []).join(', ')}
+                      onBlur={(e) => handleAccessChange(selectedKeyData, { allowedIps: parseList(e.target.value) })}
+                      className="h-8"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <span className="text-xs text-muted-foreground">{isEn ? 'Expires at' : '过期时间'}</span>
+                    <Input
+                      type="datetime-local"
+                      value={selectedKeyData.expiresAt ? toDateTimeLocal(selectedKeyData.expiresAt) : ''}
+                      onChange={(e) => handleAccessChange(selectedKeyData, { expiresAt: e.target.value ? new Date(e.target.value).getTime() : null })}
+                      className="h-8"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <span className="text-xs text-muted-foreground">{isEn ? 'Admin API & metrics' : '管理 API 与指标'}</span>
+                    <Select
+                      value={getAdminAccess(selectedKeyData)}
+                      options={[
+                        { value: 'write', label: isEn ? 'Full access' : '完全访问' },
+                        { value: 'read', label: isEn ? 'Read only' : '只读' },
+                        { value: 'none', label: isEn ? 'No access' : '禁止访问' }
+                      ]}
+                      onChange={v => handleAccessChange(selectedKeyData, { scopes: { ...selectedKeyData.scopes, admin: v as ApiKeyScopes['admin'] } })}
+                    />
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-muted-foreground">{isEn ? 'Endpoints (none selected = all):' : '可用端点（不选 = 全部）:'}</span>
+                  {([
+                    { value: 'openai', label: 'OpenAI Chat' },
+                    { value: 'completions', label: 'Completions' },
+                    { value: 'responses', label: 'Responses' },
+                    { value: 'claude', label: 'Claude' },
+                    { value: 'gemini', label: 'Gemini' },
+                    { value: 'ollama', label: 'Ollama' }
+                  ] as Array<{ value: ApiKeyRouteScope; label: string }>).map(route => {
+                    const routes = selectedKeyData.scopes?.routes || []
+                    const active = routes.includes(route.value)
+                    return (
+                      <Button
+                        key={route.value}
+                        variant={active ? 'default' : 'outline'}
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => handleAccessChange(selectedKeyData, {
+                          scopes: { ...selectedKeyData.scopes, routes: active ? routes.filter(r => r !== route.value) : [...routes, route.value] }
+                        })}
+                      >
+                        {route.label}
+                      </Button>
+                    )
+                  })}
+                </div>
+              </div>
               <div className="text-xs text-muted-foreground space-y-1">
                 <div className="flex items-center gap-2">
                   <Clock className="h-3 w-3" />
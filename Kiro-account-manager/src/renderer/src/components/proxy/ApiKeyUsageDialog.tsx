@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
 import { X, BarChart3, Clock, Cpu, Coins, TrendingUp } from 'lucide-react'
 import { Button, Card, CardContent, CardHeader, CardTitle, Badge } from '../ui'
 import { useTranslation } from '../../hooks/useTranslation'
@@ -26,17 +26,36 @@ interface DailyStats {
   outputTokens: number
 }
 
+interface RateLimitStatus {
+  requestsLastMinute: number
+  tokensLastMinute: number
+  activeRequests: number
+  dailyCredits: number
+  monthlyCredits: number
+  dailyResetAt: number
+  monthlyResetAt: number
+}
+
 interface ApiKeyUsageDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   apiKey: {
     id: string
     name: string
+    rateLimits?: {
+      requestsPerMinute?: number
+      tokensPerMinute?: number
+      maxConcurrent?: number
+      dailyCreditsBudget?: number
+      monthlyCreditsBudget?: number
+    }
     usage: {
       totalRequests: number
       totalCredits: number
       totalInputTokens: number
       totalOutputTokens: number
+      totalCacheReadTokens?: number
+      totalCacheWriteTokens?: number
       daily: Record<string, DailyStats>
       byModel?: Record<string, ModelStats>
     }
@@ -48,6 +67,28 @@ export function ApiKeyUsageDialog({ open, onOpenChange, apiKey }: ApiKeyUsageDia
   const { t } = useTranslation()
   const isEn = t('common.unknown') === 'Unknown'
   const [activeTab, setActiveTab] = useState<'history' | 'model' | 'daily'>('history')
+  const [rateLimitStatus, setRateLimitStatus] = useState<RateLimitStatus | null>(null)
+
+  // 打开时每 2 秒刷新限流窗口与预算用量
+  useEffect(() => {
+    if (!open || !apiKey?.id) return
+    const keyId = apiKey.id
+    let cancelled = false
+    const refresh = async (): Promise<void> => {
+      try {
+        const result = await window.api.proxyGetApiKeyRateLimitStatus(keyId)
+        if (!cancelled && result.success && result.status) setRateLimitStatus(result.status)
+      } catch (error) {
+        console.error('Failed to get rate limit status:', error)
+      }
+    }
+    refresh()
+    const timer = setInterval(refresh, 2000)
+    return (): void => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [open, apiKey?.id])
 
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp)
@@ -121,6 +162,11 @@ export function ApiKeyUsageDialog({ open, onOpenChange, apiKey }: ApiKeyUsageDia
             <div className="bg-blue-500/10 rounded-lg p-3">
               <div className="text-xs text-muted-foreground mb-1">{isEn ? 'Input Tokens' : '输入 Tokens'}</div>
               <div className="text-xl font-bold text-blue-600">{apiKey.usage.totalInputTokens.toLocaleString()}</div>
+              {((apiKey.usage.totalCacheReadTokens || 0) > 0 || (apiKey.usage.totalCacheWriteTokens || 0) > 0) && (
+                <div className="text-[11px] text-muted-foreground mt-0.5">
+                  {isEn ? 'Cache read' : '缓存命中'} {(apiKey.usage.totalCacheReadTokens || 0).toLocaleString()} · {isEn ? 'write' : '写入'} {(apiKey.usage.totalCacheWriteTokens || 0).toLocaleString()}
+                </div>
+              )}
             </div>
             <div className="bg-purple-500/10 rounded-lg p-3">
               <div className="text-xs text-muted-foreground mb-1">{isEn ? 'Output Tokens' : '输出 Tokens'}</div>
@@ -128,6 +174,42 @@ export function ApiKeyUsageDialog({ open, onOpenChange, apiKey }: ApiKeyUsageDia
             </div>
           </div>
 
+          {/* 限流与预算 */}
+          {rateLimitStatus && (() => {
+            const limits = apiKey.rateLimits || {}
+            const items = [
+              { label: isEn ? 'Requests / min' : '每分钟请求', used: rateLimitStatus.requestsLastMinute, limit: limits.requestsPerMinute },
+              { label: isEn ? 'Tokens / min' : '每分钟 Tokens', used: rateLimitStatus.tokensLastMinute, limit: limits.tokensPerMinute },
+              { label: isEn ? 'Concurrent' : '并发', used: rateLimitStatus.activeRequests, limit: limits.maxConcurrent },
+              { label: isEn ? 'Credits today' : '今日 Credits', used: rateLimitStatus.dailyCredits, limit: limits.dailyCreditsBudget, resetAt: rateLimitStatus.dailyResetAt, decimals: true },
+              { label: isEn ? 'Credits this month' : '本月 Credits', used: rateLimitStatus.monthlyCredits, limit: limits.monthlyCreditsBudget, resetAt: rateLimitStatus.monthlyResetAt, decimals: true }
+            ]
+            return (
+              <div className="grid grid-cols-5 gap-2 mt-3">
+                {items.map(item => {
+                  const ratio = item.limit ? Math.min(1, item.used / item.limit) : 0
+                  return (
+                    <div key={item.label} className="rounded-lg border p-2">
+                      <div className="text-[11px] text-muted-foreground">{item.label}</div>
+                      <div className={`text-sm font-semibold ${ratio >= 1 ? 'text-destructive' : ''}`}>
+                        {item.decimals ? item.used.toFixed(2) : item.used.toLocaleString()}
+                        <span className="text-muted-foreground font-normal"> / {item.limit ? item.limit.toLocaleString() : '∞'}</span>
+                      </div>
+                      {item.limit ? (
+                        <div className="h-1 bg-muted rounded mt-1 overflow-hidden">
+                          <div className={`h-full ${ratio >= 1 ? 'bg-destructive' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-primary'}`} style={{ width: `${ratio * 100}%` }} />
+                        </div>
+                      ) : null}
+                      {item.resetAt && item.limit ? (
+                        <div className="text-[10px] text-muted-foreground mt-1">{isEn ? 'Resets' : '重置于'} {formatTime(item.resetAt)}</div>
+                      ) : null}
+                    </div>
+                  )
+                })}
+              </div>
+            )
+          })()}
+
           {/* Tab 切换 */}
           <div className="flex gap-2 mt-4">
             <Button
@@ -0,0 +1,434 @@
+import { useState, useEffect } from 'react'
+import { X, Plus, Trash2, GripVertical, MessageSquareText, ArrowUpToLine, ArrowDownToLine, Replace, Ban, Loader2, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react'
+import { Button, Card, CardContent, CardHeader, CardTitle, Badge, Input, Label, Switch } from '../ui'
+import { cn } from '@/lib/utils'
+
+type PromptInjectionRoute = 'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'
+
+interface PromptInjectionRule {
+  id: string
+  name: string
+  enabled: boolean
+  action: 'prepend' | 'append' | 'replace' | 'disable'
+  content: string
+  targetRuleIds?: string[]
+  models?: string[]
+  apiKeyIds?: string[]
+  routes?: PromptInjectionRoute[]
+  agenticOnly?: boolean
+  builtin?: boolean
+}
+
+interface ApiKey {
+  id: string
+  name: string
+}
+
+interface PromptInjectionDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  isEn: boolean
+  // 未设置时使用内置默认规则
+  rules?: PromptInjectionRule[]
+  onRulesChange: (rules: PromptInjectionRule[]) => void
+  apiKeys: ApiKey[]
+}
+
+const ROUTES: Array<{ value: PromptInjectionRoute; label: string }> = [
+  { value: 'openai', label: 'OpenAI Chat' },
+  { value: 'completions', label: 'Completions' },
+  { value: 'responses', label: 'Responses' },
+  { value: 'claude', label: 'Claude' },
+  { value: 'gemini', label: 'Gemini' },
+  { value: 'ollama', label: 'Ollama' }
+]
+
+export function PromptInjectionDialog({
+  open,
+  onOpenChange,
+  isEn,
+  rules,
+  onRulesChange,
+  apiKeys
+}: PromptInjectionDialogProps): React.ReactNode {
+  const [localRules, setLocalRules] = useState<PromptInjectionRule[]>(rules || [])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    if (rules) {
+      setLocalRules(rules)
+    } else {
+      window.api.proxyGetDefaultPromptRules().then(setLocalRules).catch(() => setLocalRules([]))
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open])
+
+  const generateId = (): string => `prompt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+  const addRule = (): void => {
+    const newRule: PromptInjectionRule = {
+      id: generateId(),
+      name: isEn ? 'New Rule' : '新规则',
+      enabled: true,
+      action: 'append',
+      content: '',
+      models: [],
+      apiKeyIds: [],
+      routes: []
+    }
+    setLocalRules([...localRules, newRule])
+    setExpandedId(newRule.id)
+  }
+
+  const updateRule = (id: string, updates: Partial<PromptInjectionRule>): void => {
+    setLocalRules(localRules.map(rule =>
+      rule.id === id ? { ...rule, ...updates } : rule
+    ))
+  }
+
+  const deleteRule = (id: string): void => {
+    setLocalRules(localRules.filter(rule => rule.id !== id))
+    if (expandedId === id) setExpandedId(null)
+  }
+
+  const moveRule = (id: string, direction: 'up' | 'down'): void => {
+    const index = localRules.findIndex(r => r.id === id)
+    if ((direction === 'up' && index === 0) || (direction === 'down' && index === localRules.length - 1)) return
+
+    const newRules = [...localRules]
+    const newIndex = direction === 'up' ? index - 1 : index + 1
+    ;[newRules[index], newRules[newIndex]] = [newRules[newIndex], newRules[index]]
+    setLocalRules(newRules)
+  }
+
+  // 切换数组字段中的某一项（端点 / API Key / 目标规则）
+  const toggleItem = <K extends 'routes' | 'apiKeyIds' | 'targetRuleIds'>(ruleId: string, field: K, value: string): void => {
+    const rule = localRules.find(r => r.id === ruleId)
+    if (rule) {
+      const current = (rule[field] || []) as string[]
+      const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value]
+      updateRule(ruleId, { [field]: next } as Partial<PromptInjectionRule>)
+    }
+  }
+
+  // 恢复内置规则：保留自定义规则，内置规则重置为默认内容
+  const restoreDefaults = async (): Promise<void> => {
+    const defaults = await window.api.proxyGetDefaultPromptRules()
+    const custom = localRules.filter(rule => !rule.builtin)
+    setLocalRules([...defaults, ...custom])
+  }
+
+  const handleSave = async (): Promise<void> => {
+    setLoading(true)
+    try {
+      onRulesChange(localRules)
+      onOpenChange(false)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getActionIcon = (action: string): React.ReactNode => {
+    switch (action) {
+      case 'prepend': return <ArrowUpToLine className="h-4 w-4" />
+      case 'append': return <ArrowDownToLine className="h-4 w-4" />
+      case 'replace': return <Replace className="h-4 w-4" />
+      default: return <Ban className="h-4 w-4" />
+    }
+  }
+
+  const getActionLabel = (action: string): string => {
+    switch (action) {
+      case 'prepend': return isEn ? 'Prepend' : '前置'
+      case 'append': return isEn ? 'Append' : '追加'
+      case 'replace': return isEn ? 'Replace' : '替换'
+      case 'disable': return isEn ? 'Disable' : '禁用'
+      default: return action
+    }
+  }
+
+  const getActionColor = (action: string): string => {
+    switch (action) {
+      case 'prepend': return 'bg-blue-500/10 text-blue-600 dark:text-blue-400'
+      case 'append': return 'bg-green-500/10 text-green-600 dark:text-green-400'
+      case 'replace': return 'bg-purple-500/10 text-purple-600 dark:text-purple-400'
+      case 'disable': return 'bg-red-500/10 text-red-600 dark:text-red-400'
+      default: return 'bg-muted'
+    }
+  }
+
+  const getScopeSummary = (rule: PromptInjectionRule): string => {
+    const parts: string[] = []
+    if (rule.routes && rule.routes.length > 0) {
+      parts.push(rule.routes.map(r => ROUTES.find(item => item.value === r)?.label || r).join(', '))
+    }
+    const models = (rule.models || []).filter(m => m.trim())
+    if (models.length > 0) parts.push(models.join(', '))
+    if (rule.apiKeyIds && rule.apiKeyIds.length > 0) {
+      parts.push(`${rule.apiKeyIds.length} ${isEn ? 'keys' : '个 Key'}`)
+    }
+    if (rule.agenticOnly) parts.push('Agentic')
+    return parts.length > 0 ? parts.join(' · ') : (isEn ? 'All requests' : '所有请求')
+  }
+
+  if (!open) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={() => onOpenChange(false)} />
+      <Card className="relative w-[900px] max-h-[85vh] shadow-2xl border overflow-hidden animate-in fade-in zoom-in-95 duration-200 bg-gradient-to-br from-background to-muted/20">
+        <CardHeader className="pb-4 border-b sticky top-0 bg-background/95 backdrop-blur z-10">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-xl flex items-center gap-3">
+              <div className="p-2 rounded-xl bg-primary/10">
+                <MessageSquareText className="h-6 w-6 text-primary" />
+              </div>
+              <div>
+                <span className="font-bold">{isEn ? 'System Prompt Injection' : '系统提示注入'}</span>
+                <div className="flex items-center gap-2 mt-1">
+                  <Badge className="bg-primary/10 text-primary border-primary/20 font-semibold">
+                    {localRules.filter(r => r.enabled).length}/{localRules.length} {isEn ? 'enabled' : '条启用'}
+                  </Badge>
+                </div>
+              </div>
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={restoreDefaults}
+                className="rounded-lg"
+              >
+                <RotateCcw className="h-4 w-4 mr-1" />
+                {isEn ? 'Restore Defaults' : '恢复默认'}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={addRule}
+                className="rounded-lg"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                {isEn ? 'Add Rule' : '添加规则'}
+              </Button>
+              <Button variant="ghost" size="icon" className="h-9 w-9 rounded-lg hover:bg-destructive/10 hover:text-destructive" onClick={() => onOpenChange(false)}>
+                <X className="h-5 w-5" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-4">
+          <p className="text-xs text-muted-foreground mb-3">
+            {isEn
+              ? 'Rules are applied to the system prompt in list order. Content supports {{timestamp}} and {{model}}.'
+              : '规则按列表顺序作用于系统提示，内容支持 {{timestamp}} 和 {{model}} 变量。'}
+          </p>
+          <div className="max-h-[calc(85vh-210px)] overflow-y-auto pr-2 space-y-3">
+            {localRules.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-16 text-muted-foreground">
+                <div className="p-4 rounded-full bg-muted mb-4">
+                  <MessageSquareText className="h-8 w-8" />
+                </div>
+                <p className="font-medium">{isEn ? 'No injection rules' : '暂无注入规则'}</p>
+                <p className="text-sm mt-1">{isEn ? 'The client system prompt is forwarded unchanged' : '客户端的系统提示将原样转发'}</p>
+              </div>
+            ) : (
+              localRules.map((rule, index) => (
+                <div
+                  key={rule.id}
+                  className={cn(
+                    "border rounded-xl overflow-hidden transition-all",
+                    rule.enabled ? "bg-background" : "bg-muted/30 opacity-60",
+                    expandedId === rule.id ? "ring-2 ring-primary/30" : ""
+                  )}
+                >
+                  {/* 规则头部 */}
+                  <div
+                    className="flex items-center gap-3 p-3 cursor-pointer hover:bg-muted/30"
+                    onClick={() => setExpandedId(expandedId === rule.id ? null : rule.id)}
+                  >
+                    <GripVertical className="h-4 w-4 text-muted-foreground" />
+                    <div onClick={(e) => e.stopPropagation()}>
+                      <Switch
+                        checked={rule.enabled}
+                        onCheckedChange={(checked) => {
+                          updateRule(rule.id, { enabled: checked })
+                        }}
+                      />
+                    </div>
+                    <Badge className={cn("px-2 py-0.5", getActionColor(rule.action))}>
+                      {getActionIcon(rule.action)}
+                      <span className="ml-1">{getActionLabel(rule.action)}</span>
+                    </Badge>
+                    <div className="flex-1 min-w-0 truncate">
+                      <span className="font-medium">{rule.name}</span>
+                      {rule.builtin && (
+                        <Badge variant="outline" className="ml-2 text-xs">{isEn ? 'Built-in' : '内置'}</Badge>
+                      )}
+                      <span className="text-muted-foreground text-sm ml-2">{getScopeSummary(rule)}</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={(e) => { e.stopPropagation(); moveRule(rule.id, 'up') }}
+                        disabled={index === 0}
+                      >
+                        <ChevronUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={(e) => { e.stopPropagation(); moveRule(rule.id, 'down') }}
+                        disabled={index === localRules.length - 1}
+                      >
+                        <ChevronDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 hover:bg-destructive/10 hover:text-destructive"
+                        onClick={(e) => { e.stopPropagation(); deleteRule(rule.id) }}
+                        disabled={rule.builtin}
+                        title={rule.builtin ? (isEn ? 'Built-in rules can be disabled but not deleted' : '内置规则只能关闭，不能删除') : undefined}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {/* 展开的编辑区域 */}
+                  {expandedId === rule.id && (
+                    <div className="border-t p-4 space-y-4 bg-muted/10">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label>{isEn ? 'Rule Name' : '规则名称'}</Label>
+                          <Input
+                            value={rule.name}
+                            onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                            placeholder={isEn ? 'Enter rule name' : '输入规则名称'}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>{isEn ? 'Action' : '注入方式'}</Label>
+                          <select
+                            className="w-full h-10 px-3 py-2 text-sm rounded-xl border border-input bg-background ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+                            value={rule.action}
+                            onChange={(e) => updateRule(rule.id, { action: e.target.value as PromptInjectionRule['action'] })}
+                          >
+                            <option value="prepend">{isEn ? 'Prepend - Insert before the system prompt' : '前置 - 插入到系统提示之前'}</option>
+                            <option value="append">{isEn ? 'Append - Add after the system prompt' : '追加 - 添加到系统提示之后'}</option>
+                            <option value="replace">{isEn ? 'Replace - Replace the client system prompt' : '替换 - 替换客户端的系统提示'}</option>
+                            <option value="disable">{isEn ? 'Disable - Turn off other rules in this scope' : '禁用 - 在此范围内关闭其他规则'}</option>
+                          </select>
+                        </div>
+                      </div>
+
+                      {rule.action === 'disable' ? (
+                        <div className="space-y-2">
+                          <Label>{isEn ? 'Rules to Disable' : '要禁用的规则'}</Label>
+                          <div className="flex flex-wrap gap-2">
+                            {localRules.filter(r => r.id !== rule.id && r.action !== 'disable').map(target => (
+                              <Badge
+                                key={target.id}
+                                variant={rule.targetRuleIds?.includes(target.id) ? "default" : "outline"}
+                                className="cursor-pointer hover:bg-primary/20"
+                                onClick={() => toggleItem(rule.id, 'targetRuleIds', target.id)}
+                              >
+                                {target.name}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="space-y-2">
+                          <Label>{isEn ? 'Content' : '注入内容'}</Label>
+                          <textarea
+                            className="w-full min-h-[140px] px-3 py-2 text-sm font-mono rounded-xl border border-input bg-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                            value={rule.content}
+                            onChange={(e) => updateRule(rule.id, { content: e.target.value })}
+                            placeholder={isEn ? 'Prompt text, e.g. [Context: Current time is {{timestamp}}]' : '提示内容，例如 [Context: Current time is {{timestamp}}]'}
+                          />
+                        </div>
+                      )}
+
+                      <div className="space-y-2">
+                        <Label>{isEn ? 'Endpoints (empty = all)' : '适用端点（空 = 全部）'}</Label>
+                        <div className="flex flex-wrap gap-2">
+                          {ROUTES.map(route => (
+                            <Badge
+                              key={route.value}
+                              variant={rule.routes?.includes(route.value) ? "default" : "outline"}
+                              className="cursor-pointer hover:bg-primary/20"
+                              onClick={() => toggleItem(rule.id, 'routes', route.value)}
+                            >
+                              {route.label}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label>{isEn ? 'Models (empty = all)' : '适用模型（空 = 全部）'}</Label>
+                          <Input
+                            value={(rule.models || []).join(', ')}
+                            onChange={(e) => updateRule(rule.id, { models: e.target.value.split(',').map(m => m.trim()) })}
+                            placeholder={isEn ? 'e.g., claude-sonnet-*, gpt-4o' : '例如: claude-sonnet-*, gpt-4o'}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>{isEn ? 'Agentic Requests Only' : '仅 Agentic 请求'}</Label>
+                          <div className="flex items-center justify-between h-10 px-3 rounded-xl border border-input">
+                            <span className="text-sm text-muted-foreground">{isEn ? 'Requests with tools' : '带工具的请求'}</span>
+                            <Switch
+                              checked={rule.agenticOnly || false}
+                              onCheckedChange={(checked) => updateRule(rule.id, { agenticOnly: checked })}
+                            />
+                          </div>
+                        </div>
+                      </div>
+
+                      {apiKeys.length > 0 && (
+                        <div className="space-y-2">
+                          <Label>{isEn ? 'Apply to API Keys (empty = all keys)' : '适用 API Key（空 = 所有 Key）'}</Label>
+                          <div className="flex flex-wrap gap-2">
+                            {apiKeys.map(key => (
+                              <Badge
+                                key={key.id}
+                                variant={rule.apiKeyIds?.includes(key.id) ? "default" : "outline"}
+                                className="cursor-pointer hover:bg-primary/20"
+                                onClick={() => toggleItem(rule.id, 'apiKeyIds', key.id)}
+                              >
+                                {key.name}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* 底部操作栏 */}
+          <div className="flex justify-end gap-2 pt-4 border-t mt-4">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              {isEn ? 'Cancel' : '取消'}
+            </Button>
+            <Button onClick={handleSave} disabled={loading}>
+              {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isEn ? 'Save' : '保存'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
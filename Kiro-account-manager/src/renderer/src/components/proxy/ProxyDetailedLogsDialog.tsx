@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { Button, Badge, Input } from '../ui'
-import { Trash2, RefreshCw, Download, Search, X, Copy, ChevronDown, ChevronUp, ArrowDownToLine, Pause, ChevronLeft, ChevronRight } from 'lucide-react'
+import { Trash2, RefreshCw, Download, Search, X, Copy, ChevronDown, ChevronUp, ArrowDownToLine, Pause, ChevronLeft, ChevronRight, Repeat } from 'lucide-react'
 import { useTranslation } from '../../hooks/useTranslation'
 
 interface LogEntry {
@@ -9,8 +9,39 @@ interface LogEntry {
   category: string
   message: string
   data?: unknown
+  model?: string
+  apiKeyId?: string
 }
 
+interface CaptureSummary {
+  id: string
+  timestamp: string
+  method: string
+  path: string
+  model?: string
+  status?: number
+  durationMs?: number
+  replayOf?: string
+  frameCount: number
+}
+
+interface CaptureRecord {
+  id: string
+  timestamp: string
+  method: string
+  path: string
+  apiKeyId?: string
+  replayOf?: string
+  request: { headers: Record<string, string>; body: unknown }
+  kiroPayloads: unknown[]
+  frames: Array<{ call: number; eventType: string; payload: unknown }>
+  response: { status?: number; headers?: Record<string, string>; body: string }
+  durationMs?: number
+  truncated?: boolean
+}
+
+type CaptureTab = 'request' | 'kiro' | 'frames' | 'response'
+
 interface ProxyDetailedLogsDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
@@ -88,14 +119,275 @@ function CustomDropdown({ value, options, onChange, placeholder, className }: Cu
   )
 }
 
+// 抓包查看器：列表 + 详情（请求 / Kiro Payload / 事件帧 / 响应），支持重放
+interface CaptureViewerProps {
+  isEn: boolean
+  formatTime: (timestamp: string) => string
+}
+
+function CaptureViewer({ isEn, formatTime }: CaptureViewerProps): React.ReactNode {
+  const [captures, setCaptures] = useState<CaptureSummary[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [record, setRecord] = useState<CaptureRecord | null>(null)
+  const [tab, setTab] = useState<CaptureTab>('request')
+  const [loading, setLoading] = useState(false)
+  const [replaying, setReplaying] = useState(false)
+  const [replayError, setReplayError] = useState<string | null>(null)
+
+  const loadCaptures = useCallback(async (): Promise<void> => {
+    try {
+      setCaptures(await window.api.proxyGetCaptures())
+    } catch (error) {
+      console.error('Failed to load captures:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    setLoading(true)
+    loadCaptures().finally(() => setLoading(false))
+    // 每 2 秒刷新一次
+    const timer = setInterval(loadCaptures, 2000)
+    return (): void => clearInterval(timer)
+  }, [loadCaptures])
+
+  // 选中项变化或列表刷新时重新加载详情（请求进行中时内容会继续增加）
+  const selectedSummary = captures.find(c => c.id === selectedId)
+  useEffect(() => {
+    if (!selectedId) {
+      setRecord(null)
+      return
+    }
+    window.api.proxyGetCapture(selectedId)
+      .then(setRecord)
+      .catch(error => console.error('Failed to load capture:', error))
+  }, [selectedId, selectedSummary?.status, selectedSummary?.frameCount])
+
+  const handleReplay = async (): Promise<void> => {
+    if (!selectedId) return
+    setReplaying(true)
+    setReplayError(null)
+    try {
+      const result = await window.api.proxyReplayCapture(selectedId)
+      if (result.success) {
+        await loadCaptures()
+        if (result.captureId) setSelectedId(result.captureId)
+      } else {
+        setReplayError(result.error || (isEn ? 'Replay failed' : '重放失败'))
+      }
+    } catch (error) {
+      setReplayError((error as Error).message)
+    } finally {
+      setReplaying(false)
+    }
+  }
+
+  const handleDelete = async (): Promise<void> => {
+    if (!selectedId) return
+    await window.api.proxyDeleteCapture(selectedId)
+    setSelectedId(null)
+    await loadCaptures()
+  }
+
+  const handleClear = async (): Promise<void> => {
+    await window.api.proxyClearCaptures()
+    setSelectedId(null)
+    setCaptures([])
+  }
+
+  const getStatusColor = (status?: number): string => {
+    if (!status) return 'bg-muted text-muted-foreground border-muted'
+    if (status >= 500) return 'bg-destructive/20 text-destructive border-destructive/30'
+    if (status >= 400) return 'bg-yellow-500/20 text-yellow-500 border-yellow-500/30'
+    return 'bg-green-500/20 text-green-500 border-green-500/30'
+  }
+
+  // 当前标签页的文本内容
+  const tabContent = useMemo((): string => {
+    if (!record) return ''
+    switch (tab) {
+      case 'request':
+        return JSON.stringify(record.request, null, 2)
+      case 'kiro':
+        return JSON.stringify(record.kiroPayloads, null, 2)
+      case 'frames':
+        return record.frames.map(f => `[${f.call}] ${f.eventType} ${JSON.stringify(f.payload)}`).join('\n')
+      case 'response':
+        return `${JSON.stringify({ status: record.response.status, headers: record.response.headers }, null, 2)}\n\n${record.response.body}`
+    }
+  }, [record, tab])
+
+  const tabs: Array<{ value: CaptureTab; label: string }> = [
+    { value: 'request', label: isEn ? 'Request' : '请求' },
+    { value: 'kiro', label: `${isEn ? 'Kiro Payloads' : 'Kiro Payload'} (${record?.kiroPayloads.length ?? 0})` },
+    { value: 'frames', label: `${isEn ? 'Frames' : '事件帧'} (${record?.frames.length ?? 0})` },
+    { value: 'response', label: isEn ? 'Response' : '响应' }
+  ]
+
+  return (
+    <>
+      {/* 工具栏 */}
+      <div className="flex-shrink-0 flex items-center gap-2 px-4 py-2.5 border-b border-border bg-muted/20">
+        <span className="flex-1 text-xs text-muted-foreground">
+          {isEn
+            ? 'Captured requests are redacted; replay re-sends the request through the current translator.'
+            : '抓包内容已脱敏，重放会通过当前的转换逻辑重新发送请求。'}
+        </span>
+        <Badge variant="secondary" className="font-mono">
+          {captures.length} {isEn ? 'captures' : '条'}
+        </Badge>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={loadCaptures}
+          disabled={loading}
+          className="h-7 px-2 text-xs hover:border-primary/50"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 mr-1 ${loading ? 'animate-spin' : ''}`} />
+          {isEn ? 'Refresh' : '刷新'}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleClear}
+          disabled={captures.length === 0}
+          className="h-7 px-2 text-xs text-destructive hover:bg-destructive/10 hover:border-destructive/50"
+        >
+          <Trash2 className="w-3.5 h-3.5 mr-1" />
+          {isEn ? 'Clear' : '清空'}
+        </Button>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* 抓包列表 */}
+        <div className="w-[420px] flex-shrink-0 overflow-auto border-r border-border bg-muted/10 p-2 font-mono text-xs space-y-0.5">
+          {captures.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16 text-muted-foreground text-center">
+              <span className="text-sm">{isEn ? 'No captures yet' : '暂无抓包记录'}</span>
+              <span className="text-xs mt-1 opacity-70">
+                {isEn ? 'Enable "Capture Bodies" in proxy settings to record requests' : '在反代设置中开启「抓包」后将记录完整请求'}
+              </span>
+            </div>
+          ) : (
+            captures.map(capture => (
+              <button
+                key={capture.id}
+                type="button"
+                onClick={() => setSelectedId(capture.id)}
+                className={`w-full text-left rounded-lg px-2.5 py-2 transition-colors ${
+                  capture.id === selectedId ? 'bg-primary/10 border border-primary/30' : 'hover:bg-muted/50 border border-transparent'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-muted-foreground tabular-nums">{formatTime(capture.timestamp)}</span>
+                  <Badge variant="outline" className={`text-[10px] px-1.5 py-0 ${getStatusColor(capture.status)}`}>
+                    {capture.status ?? '...'}
+                  </Badge>
+                  {capture.replayOf && (
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0 bg-primary/10 text-primary border-primary/30">
+                      {isEn ? 'Replay' : '重放'}
+                    </Badge>
+                  )}
+                  {capture.durationMs !== undefined && (
+                    <span className="ml-auto text-muted-foreground tabular-nums">{capture.durationMs}ms</span>
+                  )}
+                </div>
+                <div className="mt-1 flex items-center gap-2 min-w-0">
+                  <span className="text-primary/80 font-medium">{capture.method}</span>
+                  <span className="truncate text-foreground/90">{capture.path}</span>
+                </div>
+                {capture.model && <div className="mt-0.5 text-muted-foreground truncate">{capture.model}</div>}
+              </button>
+            ))
+          )}
+        </div>
+
+        {/* 抓包详情 */}
+        <div className="flex-1 flex flex-col min-w-0">
+          {!record ? (
+            <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+              {isEn ? 'Select a capture to view details' : '选择一条抓包查看详情'}
+            </div>
+          ) : (
+            <>
+              <div className="flex-shrink-0 flex items-center gap-1 px-3 py-2 border-b border-border">
+                {tabs.map(item => (
+                  <Button
+                    key={item.value}
+                    variant={tab === item.value ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => setTab(item.value)}
+                    className="h-7 px-2 text-xs"
+                  >
+                    {item.label}
+                  </Button>
+                ))}
+                <div className="flex-1" />
+                {record.truncated && (
+                  <Badge variant="outline" className="text-[10px] bg-yellow-500/20 text-yellow-500 border-yellow-500/30">
+                    {isEn ? 'Truncated' : '已截断'}
+                  </Badge>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleReplay}
+                  disabled={replaying}
+                  className="h-7 px-2 text-xs hover:border-primary/50"
+                >
+                  <Repeat className={`w-3.5 h-3.5 mr-1 ${replaying ? 'animate-spin' : ''}`} />
+                  {isEn ? 'Replay' : '重放'}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="w-7 h-7 rounded-full hover:bg-primary/10"
+                  onClick={() => navigator.clipboard.writeText(tabContent)}
+                >
+                  <Copy className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="w-7 h-7 rounded-full hover:bg-destructive/10 hover:text-destructive"
+                  onClick={handleDelete}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+              {replayError && (
+                <div className="flex-shrink-0 px-3 py-1.5 text-xs text-destructive bg-destructive/10 border-b border-border">
+                  {replayError}
+                </div>
+              )}
+              <pre className="flex-1 overflow-auto m-0 p-3 bg-muted/10 font-mono text-[11px] text-foreground/90 whitespace-pre-wrap break-all">
+                {tabContent}
+              </pre>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  )
+}
+
 export function ProxyDetailedLogsDialog({ open, onOpenChange }: ProxyDetailedLogsDialogProps) {
   const { t } = useTranslation()
   const isEn = t('common.unknown') === 'Unknown'
+  const [view, setView] = useState<'logs' | 'captures'>('logs')
   const [logs, setLogs] = useState<LogEntry[]>([])
   const [loading, setLoading] = useState(false)
   const [searchText, setSearchText] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
   const [levelFilter, setLevelFilter] = useState<string>('all')
   const [categoryFilter, setCategoryFilter] = useState<string>('all')
+  const [modelFilter, setModelFilter] = useState<string>('all')
+  const [apiKeyFilter, setApiKeyFilter] = useState<string>('all')
+  const [totalMatched, setTotalMatched] = useState(0)
+  const [totalCount, setTotalCount] = useState(0)
+  const [categories, setCategories] = useState<string[]>([])
+  const [models, setModels] = useState<string[]>([])
+  const [apiKeyIds, setApiKeyIds] = useState<string[]>([])
+  const [apiKeyNames, setApiKeyNames] = useState<Record<string, string>>({})
   const [autoScroll, setAutoScroll] = useState(true)
   const [expandedLogs, setExpandedLogs] = useState<Set<number>>(new Set())
   const [currentPage, setCurrentPage] = useState(1)
@@ -106,20 +398,81 @@ export function ProxyDetailedLogsDialog({ open, onOpenChange }: ProxyDetailedLog
   const [timeRange, setTimeRange] = useState<string>(() => {
     return localStorage.getItem('proxyLogs_timeRange') || 'all'
   })
-  const [displayLimit, setDisplayLimit] = useState<string>(() => {
-    return localStorage.getItem('proxyLogs_displayLimit') || 'all'
-  })
+  const [retentionDays, setRetentionDays] = useState<string>('0')
   const scrollRef = useRef<HTMLDivElement>(null)
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null)
 
-  const loadLogs = useCallback(async () => {
+  // 时间范围过滤
+  const getTimeRangeMs = (range: string): number => {
+    const hour = 60 * 60 * 1000
+    const day = 24 * hour
+    switch (range) {
+      case '1h': return hour
+      case '6h': return 6 * hour
+      case '12h': return 12 * hour
+      case '1d': return day
+      case '3d': return 3 * day
+      case '7d': return 7 * day
+      case '30d': return 30 * day
+      case '180d': return 180 * day
+      case '1y': return 365 * day
+      default: return 0
+    }
+  }
+
+  // 当前过滤条件对应的查询（过滤和分页在主进程的日志存储中完成）
+  const buildQuery = useCallback((): Parameters<typeof window.api.proxyQueryLogs>[0] => {
+    const rangeMs = getTimeRangeMs(timeRange)
+    return {
+      from: rangeMs > 0 ? Date.now() - rangeMs : undefined,
+      levels: levelFilter !== 'all' ? [levelFilter as 'DEBUG' | 'INFO' | 'WARN' | 'ERROR'] : undefined,
+      category: categoryFilter !== 'all' ? categoryFilter : undefined,
+      model: modelFilter !== 'all' ? modelFilter : undefined,
+      apiKeyId: apiKeyFilter !== 'all' ? apiKeyFilter : undefined,
+      search: debouncedSearch || undefined
+    }
+  }, [timeRange, levelFilter, categoryFilter, modelFilter, apiKeyFilter, debouncedSearch])
+
+  const loadLogs = useCallback(async (): Promise<void> => {
     try {
-      const result = await window.api.proxyGetLogs()
-      setLogs(result)
+      const [result, count] = await Promise.all([
+        window.api.proxyQueryLogs({ ...buildQuery(), offset: (currentPage - 1) * pageSize, limit: pageSize }),
+        window.api.proxyGetLogsCount()
+      ])
+      setLogs(result.entries)
+      setTotalMatched(result.total)
+      setTotalCount(count)
+      setCategories(result.categories)
+      setModels(result.models)
+      setApiKeyIds(result.apiKeyIds)
     } catch (error) {
       console.error('Failed to load logs:', error)
     }
-  }, [])
+  }, [buildQuery, currentPage, pageSize])
+
+  // 加载 API Key 名称和日志保留设置
+  useEffect(() => {
+    if (!open) return
+    window.api.proxyGetApiKeys()
+      .then(result => {
+        if (result.success) {
+          setApiKeyNames(Object.fromEntries(result.apiKeys.map(k => [k.id, k.name])))
+        }
+      })
+      .catch(error => console.error('Failed to load API keys:', error))
+    window.api.proxyGetStatus()
+      .then(status => {
+        const config = status.config as { logRetentionDays?: number } | undefined
+        setRetentionDays(String(config?.logRetentionDays || 0))
+      })
+      .catch(error => console.error('Failed to load proxy config:', error))
+  }, [open])
+
+  // 搜索输入防抖
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchText.trim()), 300)
+    return (): void => clearTimeout(timer)
+  }, [searchText])
 
   useEffect(() => {
     if (open) {
@@ -154,21 +507,32 @@ export function ProxyDetailedLogsDialog({ open, onOpenChange }: ProxyDetailedLog
     localStorage.setItem('proxyLogs_timeRange', timeRange)
   }, [timeRange])
 
-  useEffect(() => {
-    localStorage.setItem('proxyLogs_displayLimit', displayLimit)
-  }, [displayLimit])
+  // 修改日志保留天数（超出范围的日志会被删除）
+  const handleRetentionChange = async (value: string): Promise<void> => {
+    setRetentionDays(value)
+    try {
+      await window.api.proxyUpdateConfig({ logRetentionDays: Number(value) })
+      await loadLogs()
+    } catch (error) {
+      console.error('Failed to update log retention:', error)
+    }
+  }
 
   const handleClearLogs = async () => {
     try {
       await window.api.proxyClearLogs()
       setLogs([])
+      setTotalMatched(0)
+      setTotalCount(0)
     } catch (error) {
       console.error('Failed to clear logs:', error)
     }
   }
 
-  const handleExportLogs = () => {
-    const content = logs.map(log => {
+  // 导出当前过滤条件下的日志（最多 10 万条，按时间正序）
+  const handleExportLogs = async (): Promise<void> => {
+    const result = await window.api.proxyQueryLogs({ ...buildQuery(), limit: 100000 })
+    const content = result.entries.reverse().map(log => {
       const dataStr = log.data ? ` | ${JSON.stringify(log.data)}` : ''
       return `[${log.timestamp}] [${log.level}] [${log.category}] ${log.message}${dataStr}`
     }).join('\n')
@@ -198,82 +562,15 @@ export function ProxyDetailedLogsDialog({ open, onOpenChange }: ProxyDetailedLog
     setExpandedLogs(newExpanded)
   }
 
-  // 获取所有类别（缓存）
-  const categories = useMemo(() => {
-    return Array.from(new Set(logs.map(log => log.category))).sort()
-  }, [logs])
-
-  // 时间范围过滤
-  const getTimeRangeMs = (range: string): number => {
-    const hour = 60 * 60 * 1000
-    const day = 24 * hour
-    switch (range) {
-      case '1h': return hour
-      case '6h': return 6 * hour
-      case '12h': return 12 * hour
-      case '1d': return day
-      case '3d': return 3 * day
-      case '7d': return 7 * day
-      case '30d': return 30 * day
-      case '180d': return 180 * day
-      case '1y': return 365 * day
-      default: return 0
-    }
-  }
-
-  // 过滤日志（缓存，避免每次渲染都重新计算）
-  const filteredLogs = useMemo(() => {
-    const now = Date.now()
-    const rangeMs = getTimeRangeMs(timeRange)
-    const search = searchText.toLowerCase()
-    
-    let result = logs.filter(log => {
-      // 时间范围过滤
-      if (rangeMs > 0) {
-        const logTime = new Date(log.timestamp).getTime()
-        if (now - logTime > rangeMs) return false
-      }
-      if (levelFilter !== 'all' && log.level !== levelFilter) return false
-      if (categoryFilter !== 'all' && log.category !== categoryFilter) return false
-      if (search) {
-        // 先检查 message 和 category（快速）
-        if (log.message.toLowerCase().includes(search) ||
-            log.category.toLowerCase().includes(search)) {
-          return true
-        }
-        // 只有在前面没匹配时才检查 data（慢）
-        if (log.data) {
-          try {
-            return JSON.stringify(log.data).toLowerCase().includes(search)
-          } catch {
-            return false
-          }
-        }
-        return false
-      }
-      return true
-    })
-    
-    // 显示条数限制
-    if (displayLimit !== 'all') {
-      const limit = parseInt(displayLimit)
-      if (limit > 0) result = result.slice(-limit)
-    }
-    
-    // 反转顺序，最新的在前面
-    return result.reverse()
-  }, [logs, timeRange, levelFilter, categoryFilter, searchText, displayLimit])
-
   // 分页逻辑
-  const totalPages = Math.ceil(filteredLogs.length / pageSize)
+  const totalPages = Math.ceil(totalMatched / pageSize)
   const startIndex = (currentPage - 1) * pageSize
-  const endIndex = Math.min(startIndex + pageSize, filteredLogs.length)
-  const paginatedLogs = filteredLogs.slice(startIndex, endIndex)
 
   // 当过滤条件变化时重置到第一页
   useEffect(() => {
     setCurrentPage(1)
-  }, [searchText, levelFilter, categoryFilter, timeRange, displayLimit])
+    setExpandedLogs(new Set())
+  }, [debouncedSearch, levelFilter, categoryFilter, modelFilter, apiKeyFilter, timeRange])
 
   const getLevelColor = (level: string) => {
     switch (level) {
@@ -330,8 +627,28 @@ export function ProxyDetailedLogsDialog({ open, onOpenChange }: ProxyDetailedLog
               </svg>
             </div>
             <h2 className="text-lg font-semibold">{isEn ? 'Proxy Detailed Logs' : '反代详细日志'}</h2>
+            <div className="flex items-center gap-0.5 p-0.5 rounded-lg border border-border bg-background/50">
+              <Button
+                variant={view === 'logs' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setView('logs')}
+                className="h-7 px-2.5 text-xs"
+              >
+                {isEn ? 'Logs' : '日志'}
+              </Button>
+              <Button
+                variant={view === 'captures' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setView('captures')}
+                className="h-7 px-2.5 text-xs"
+              >
+                {isEn ? 'Captures' : '抓包'}
+              </Button>
+            </div>
           </div>
           <div className="flex items-center gap-2">
+            {view === 'logs' && (
+            <>
             <CustomDropdown
               value={timeRange}
               onChange={setTimeRange}
@@ -349,30 +666,36 @@ export function ProxyDetailedLogsDialog({ open, onOpenChange }: ProxyDetailedLog
                 { value: '1y', label: isEn ? '1 Year' : '1年' },
               ]}
             />
+            {/* 日志保留天数 */}
             <CustomDropdown
-              value={displayLimit}
-              onChange={setDisplayLimit}
+              value={retentionDays}
+              onChange={handleRetentionChange}
               className="min-w-[70px]"
               options={[
-                { value: 'all', label: isEn ? 'All' : '全部' },
-                { value: '5000', label: '5000' },
-                { value: '10000', label: isEn ? '10K' : '1万' },
-                { value: '50000', label: isEn ? '50K' : '5万' },
-                { value: '100000', label: isEn ? '100K' : '10万' },
-                { value: '200000', label: isEn ? '200K' : '20万' },
-                { value: '500000', label: isEn ? '500K' : '50万' },
-                { value: '1000000', label: isEn ? '1M' : '100万' },
+                { value: '0', label: isEn ? 'Keep: Forever' : '保留：永久' },
+                { value: '1', label: isEn ? 'Keep: 1 Day' : '保留：1天' },
+                { value: '7', label: isEn ? 'Keep: 7 Days' : '保留：7天' },
+                { value: '30', label: isEn ? 'Keep: 30 Days' : '保留：30天' },
+                { value: '90', label: isEn ? 'Keep: 90 Days' : '保留：90天' },
+                { value: '180', label: isEn ? 'Keep: 180 Days' : '保留：180天' },
+                { value: '365', label: isEn ? 'Keep: 1 Year' : '保留：1年' },
               ]}
             />
             <Badge variant="secondary" className="font-mono">
-              {filteredLogs.length} / {logs.length} {isEn ? 'entries' : '条'}
+              {totalMatched} / {totalCount} {isEn ? 'entries' : '条'}
             </Badge>
+            </>
+            )}
             <Button variant="ghost" size="icon" className="rounded-full hover:bg-destructive/10 hover:text-destructive" onClick={() => onOpenChange(false)}>
               <X className="w-4 h-4" />
             </Button>
           </div>
         </div>
 
+        {view === 'captures' ? (
+          <CaptureViewer isEn={isEn} formatTime={formatTime} />
+        ) : (
+        <>
         {/* 工具栏 */}
         <div className="flex-shrink-0 flex items-center gap-2 px-4 py-2.5 border-b border-border bg-muted/20">
           {/* 搜索 */}
@@ -424,6 +747,32 @@ export function ProxyDetailedLogsDialog({ open, onOpenChange }: ProxyDetailedLog
             ]}
           />
 
+          {/* 模型过滤 */}
+          {models.length > 0 && (
+            <CustomDropdown
+              value={modelFilter}
+              onChange={setModelFilter}
+              className="min-w-[100px] max-w-[180px]"
+              options={[
+                { value: 'all', label: isEn ? 'All Models' : '全部模型' },
+                ...models.map(model => ({ value: model, label: model }))
+              ]}
+            />
+          )}
+
+          {/* API Key 过滤 */}
+          {apiKeyIds.length > 0 && (
+            <CustomDropdown
+              value={apiKeyFilter}
+              onChange={setApiKeyFilter}
+              className="min-w-[100px] max-w-[160px]"
+              options={[
+                { value: 'all', label: isEn ? 'All Keys' : '全部 Key' },
+                ...apiKeyIds.map(id => ({ value: id, label: apiKeyNames[id] || id.slice(0, 8) }))
+              ]}
+            />
+          )}
+
           <div className="h-5 w-px bg-border flex-shrink-0" />
 
           {/* 操作按钮 */}
@@ -442,7 +791,7 @@ export function ProxyDetailedLogsDialog({ open, onOpenChange }: ProxyDetailedLog
               variant="outline"
               size="sm"
               onClick={handleExportLogs}
-              disabled={logs.length === 0}
+              disabled={totalMatched === 0}
               className="h-7 px-2 text-xs hover:border-primary/50"
             >
               <Download className="w-3.5 h-3.5 mr-1" />
@@ -452,7 +801,7 @@ export function ProxyDetailedLogsDialog({ open, onOpenChange }: ProxyDetailedLog
               variant="outline"
               size="sm"
               onClick={handleClearLogs}
-              disabled={logs.length === 0}
+              disabled={totalCount === 0}
               className="h-7 px-2 text-xs text-destructive hover:bg-destructive/10 hover:border-destructive/50"
             >
               <Trash2 className="w-3.5 h-3.5 mr-1" />
@@ -552,25 +901,25 @@ export function ProxyDetailedLogsDialog({ open, onOpenChange }: ProxyDetailedLog
         {/* 日志列表 */}
         <div className="flex-1 overflow-auto bg-muted/10" ref={scrollRef}>
           <div className="p-3 font-mono text-xs space-y-0.5">
-            {filteredLogs.length === 0 ? (
+            {logs.length === 0 ? (
               <div className="flex flex-col items-center justify-center py-16 text-muted-foreground">
                 <svg className="w-12 h-12 mb-3 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                 </svg>
-                <span className="text-sm">{logs.length === 0 ? (isEn ? 'No logs yet' : '暂无日志记录') : (isEn ? 'No matching logs' : '没有匹配的日志')}</span>
-                {logs.length === 0 && (
+                <span className="text-sm">{totalCount === 0 ? (isEn ? 'No logs yet' : '暂无日志记录') : (isEn ? 'No matching logs' : '没有匹配的日志')}</span>
+                {totalCount === 0 && (
                   <span className="text-xs mt-1 opacity-70">{isEn ? 'Logs will appear here after proxy requests' : '发起反代请求后日志将显示在这里'}</span>
                 )}
               </div>
             ) : (
-              paginatedLogs.map((log, index) => {
+              logs.map((log, index) => {
                 const globalIndex = startIndex + index
                 const isExpanded = expandedLogs.has(globalIndex)
                 const hasData = log.data !== undefined && log.data !== null
 
                 return (
                   <div
-                    key={index}
+                    key={globalIndex}
                     className={`group rounded-lg px-3 py-2 transition-colors ${getLevelRowBg(log.level)}`}
                   >
                     <div className="flex items-start gap-3">
@@ -632,6 +981,8 @@ export function ProxyDetailedLogsDialog({ open, onOpenChange }: ProxyDetailedLog
             )}
           </div>
         </div>
+        </>
+        )}
       </div>
     </div>
   )
@@ -20,6 +20,8 @@ interface ProxyLogsDialogProps {
   logs: LogEntry[]
   totalCredits: number // 累计总 credits（所有请求）
   totalTokens: number // 累计总 tokens（所有请求）
+  cacheReadTokens?: number // 累计缓存命中的输入 tokens
+  cacheWriteTokens?: number // 累计写入缓存的输入 tokens
   onClearLogs: () => void
   onResetCredits?: () => void
   onResetTokens?: () => void
@@ -32,6 +34,8 @@ export function ProxyLogsDialog({
   logs,
   totalCredits,
   totalTokens,
+  cacheReadTokens = 0,
+  cacheWriteTokens = 0,
   onClearLogs,
   onResetCredits,
   onResetTokens,
@@ -94,6 +98,11 @@ export function ProxyLogsDialog({
                 </Button>
               )}
             </span>
+            {(cacheReadTokens > 0 || cacheWriteTokens > 0) && (
+              <span>
+                {isEn ? 'Cache Read / Write' : '缓存命中 / 写入'}: <Badge variant="outline">{cacheReadTokens.toLocaleString()} / {cacheWriteTokens.toLocaleString()}</Badge>
+              </span>
+            )}
             <span className="text-muted-foreground">|</span>
             <span>Credits {isEn ? 'Recent' : '最近'}: <Badge variant="outline">{recentCredits.toFixed(4)}</Badge></span>
             <span className="flex items-center gap-1">
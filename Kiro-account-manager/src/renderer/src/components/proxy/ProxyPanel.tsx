@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react'
-import { Play, Square, RefreshCw, Copy, Check, Server, Activity, AlertCircle, Globe, Zap, Loader2, FileText, Eye, EyeOff, Dices, Cpu, UserCheck, RotateCcw, Users, Clock } from 'lucide-react'
+import { Play, Square, RefreshCw, Copy, Check, Server, Activity, AlertCircle, Globe, Zap, Loader2, FileText, Eye, EyeOff, Dices, Cpu, UserCheck, RotateCcw, Users, Clock, MessageSquareText } from 'lucide-react'
 import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Input, Label, Switch, Badge, Select } from '../ui'
 import { useAccountsStore } from '../../store/accounts'
 import { useTranslation } from '../../hooks/useTranslation'
@@ -7,6 +7,7 @@ import { ProxyLogsDialog } from './ProxyLogsDialog'
 import { ProxyDetailedLogsDialog } from './ProxyDetailedLogsDialog'
 import { ModelsDialog } from './ModelsDialog'
 import { ModelMappingDialog } from './ModelMappingDialog'
+import { PromptInjectionDialog } from './PromptInjectionDialog'
 import { AccountSelectDialog } from './AccountSelectDialog'
 import { ApiKeyManager } from './ApiKeyManager'
 import { createPortal } from 'react-dom'
@@ -19,6 +20,8 @@ interface ProxyStats {
   totalCredits: number
   inputTokens: number
   outputTokens: number
+  cacheReadTokens?: number
+  cacheWriteTokens?: number
   startTime: number
 }
 
@@ -41,6 +44,20 @@ interface ModelMappingRule {
   apiKeyIds?: string[]
 }
 
+interface PromptInjectionRule {
+  id: string
+  name: string
+  enabled: boolean
+  action: 'prepend' | 'append' | 'replace' | 'disable'
+  content: string
+  targetRuleIds?: string[]
+  models?: string[]
+  apiKeyIds?: string[]
+  routes?: Array<'openai' | 'completions' | 'responses' | 'claude' | 'gemini' | 'ollama'>
+  agenticOnly?: boolean
+  builtin?: boolean
+}
+
 interface ApiKeyInfo {
   id: string
   name: string
@@ -57,6 +74,7 @@ interface ProxyConfig {
   enableMultiAccount: boolean
   selectedAccountId?: string
   logRequests: boolean
+  captureRequests?: boolean
   maxRetries?: number
   preferredEndpoint?: 'codewhisperer' | 'amazonq'
   autoStart?: boolean
@@ -64,6 +82,8 @@ interface ProxyConfig {
   disableTools?: boolean
   autoSwitchOnQuotaExhausted?: boolean
   modelMappings?: ModelMappingRule[]
+  promptInjectionRules?: PromptInjectionRule[]
+  tracing?: { enabled: boolean; endpoint?: string; serviceName?: string }
 }
 
 export function ProxyPanel() {
@@ -92,6 +112,7 @@ export function ProxyPanel() {
   const [showDetailedLogsDialog, setShowDetailedLogsDialog] = useState(false)
   const [showModelsDialog, setShowModelsDialog] = useState(false)
   const [showModelMappingDialog, setShowModelMappingDialog] = useState(false)
+  const [showPromptInjectionDialog, setShowPromptInjectionDialog] = useState(false)
   const [availableModels, setAvailableModels] = useState<Array<{ id: string; name: string }>>([])
   const [showAccountSelectDialog, setShowAccountSelectDialog] = useState(false)
   const [showApiKeyManager, setShowApiKeyManager] = useState(false)
@@ -668,6 +689,17 @@ export function ProxyPanel() {
               />
               <Label htmlFor="logRequests">{isEn ? 'Log Requests' : '记录日志'}</Label>
             </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="captureRequests"
+                checked={config.captureRequests || false}
+                onCheckedChange={(checked) => {
+                  setConfig(prev => ({ ...prev, captureRequests: checked }))
+                  window.api.proxyUpdateConfig({ captureRequests: checked })
+                }}
+              />
+              <Label htmlFor="captureRequests">{isEn ? 'Capture Bodies' : '抓包（完整请求）'}</Label>
+            </div>
           </div>
 
           {/* 高级配置 */}
@@ -777,6 +809,44 @@ export function ProxyPanel() {
                 />
                 <p className="text-xs text-muted-foreground">{isEn ? 'Choose how thinking content is returned in API response' : '选择思考内容在 API 响应中的返回格式'}</p>
               </div>
+              <div className="space-y-2">
+                <Label>{isEn ? 'System Prompt Injection' : '系统提示注入'}</Label>
+                <Button
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={() => setShowPromptInjectionDialog(true)}
+                >
+                  <MessageSquareText className="h-4 w-4 mr-2" />
+                  {config.promptInjectionRules
+                    ? `${config.promptInjectionRules.filter(r => r.enabled).length} ${isEn ? 'rules enabled' : '条规则已启用'}`
+                    : (isEn ? 'Default rules' : '默认规则')}
+                </Button>
+                <p className="text-xs text-muted-foreground">{isEn ? 'Prepend, append or replace system prompts per model, API key or endpoint' : '按模型、API Key 或端点前置、追加或替换系统提示'}</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tracingEndpoint">{isEn ? 'Trace Export (OTLP)' : '链路追踪导出（OTLP）'}</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="tracingEndpoint"
+                    placeholder="http://127.0.0.1:4318/v1/traces"
+                    value={config.tracing?.endpoint || ''}
+                    onChange={(e) => {
+                      const tracing = { enabled: config.tracing?.enabled || false, ...config.tracing, endpoint: e.target.value.trim() || undefined }
+                      setConfig(prev => ({ ...prev, tracing }))
+                      window.api.proxyUpdateConfig({ tracing })
+                    }}
+                  />
+                  <Switch
+                    checked={config.tracing?.enabled || false}
+                    onCheckedChange={(checked) => {
+                      const tracing = { ...config.tracing, enabled: checked }
+                      setConfig(prev => ({ ...prev, tracing }))
+                      window.api.proxyUpdateConfig({ tracing })
+                    }}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">{isEn ? 'Export a span per request to an OpenTelemetry collector (OTLP/HTTP). Prometheus metrics are served at /metrics.' : '每个请求导出一个 Span 到 OpenTelemetry Collector（OTLP/HTTP）。Prometheus 指标见 /metrics。'}</p>
+              </div>
             </div>
           </div>
         </CardContent>
@@ -886,6 +956,16 @@ export function ProxyPanel() {
             <code className="text-muted-foreground flex-1 font-mono">/v1/chat/completions</code>
             <span className="text-xs text-muted-foreground">{isEn ? 'OpenAI Compatible' : 'OpenAI 兼容'}</span>
           </div>
+          <div className="flex items-center gap-2">
+            <span className="text-orange-500 w-11 flex-shrink-0 font-mono">POST</span>
+            <code className="text-muted-foreground flex-1 font-mono">/v1/completions</code>
+            <span className="text-xs text-muted-foreground">{isEn ? 'OpenAI Legacy' : 'OpenAI 旧版补全'}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-orange-500 w-11 flex-shrink-0 font-mono">POST</span>
+            <code className="text-muted-foreground flex-1 font-mono">/v1/responses</code>
+            <span className="text-xs text-muted-foreground">{isEn ? 'OpenAI Responses' : 'OpenAI Responses'}</span>
+          </div>
           <div className="flex items-center gap-2">
             <span className="text-orange-500 w-11 flex-shrink-0 font-mono">POST</span>
             <code className="text-muted-foreground flex-1 font-mono">/v1/messages</code>
@@ -896,6 +976,16 @@ export function ProxyPanel() {
             <code className="text-muted-foreground flex-1 font-mono">/anthropic/v1/messages</code>
             <span className="text-xs text-muted-foreground">{isEn ? 'Claude Code' : 'Claude Code'}</span>
           </div>
+          <div className="flex items-center gap-2">
+            <span className="text-orange-500 w-11 flex-shrink-0 font-mono">POST</span>
+            <code className="text-muted-foreground flex-1 font-mono">/v1beta/models/:model</code>
+            <span className="text-xs text-muted-foreground">{isEn ? 'Gemini Compatible' : 'Gemini 兼容'}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-orange-500 w-11 flex-shrink-0 font-mono">POST</span>
+            <code className="text-muted-foreground flex-1 font-mono">/api/chat</code>
+            <span className="text-xs text-muted-foreground">{isEn ? 'Ollama Compatible' : 'Ollama 兼容'}</span>
+          </div>
           <div className="flex items-center gap-2">
             <span className="text-orange-500 w-11 flex-shrink-0 font-mono">POST</span>
             <code className="text-muted-foreground flex-1 font-mono">/v1/messages/count_tokens</code>
@@ -1030,6 +1120,8 @@ export function ProxyPanel() {
         logs={recentLogs}
         totalCredits={stats?.totalCredits || 0}
         totalTokens={(stats?.inputTokens || 0) + (stats?.outputTokens || 0)}
+        cacheReadTokens={stats?.cacheReadTokens || 0}
+        cacheWriteTokens={stats?.cacheWriteTokens || 0}
         onClearLogs={() => {
           setRecentLogs([])
           window.api.proxySaveLogs([])
@@ -1086,6 +1178,19 @@ export function ProxyPanel() {
         availableModels={availableModels}
       />
 
+      {/* 系统提示注入弹窗 */}
+      <PromptInjectionDialog
+        open={showPromptInjectionDialog}
+        onOpenChange={setShowPromptInjectionDialog}
+        isEn={isEn}
+        rules={config.promptInjectionRules}
+        onRulesChange={(rules) => {
+          setConfig(prev => ({ ...prev, promptInjectionRules: rules }))
+          window.api.proxyUpdateConfig({ promptInjectionRules: rules })
+        }}
+        apiKeys={(config.apiKeys || []).map(k => ({ id: k.id, name: k.name }))}
+      />
+
       {/* 账号选择弹窗 */}
       <AccountSelectDialog
         open={showAccountSelectDialog}
@@ -0,0 +1,285 @@
+// ============================================
+// 账号导入：格式校验、版本迁移与导入预览
+// ============================================
+
+import { v4 as uuidv4 } from 'uuid'
+import type {
+  Account,
+  AccountCredentials,
+  AccountGroup,
+  AccountImportItem,
+  AccountStatus,
+  AccountTag,
+  IdpType,
+  ImportStrategy
+} from '../types/account'
+
+// 当前导出数据格式版本（AccountExportData.schemaVersion）
+export const EXPORT_SCHEMA_VERSION = 2
+
+export type ImportCandidate = Omit<Account, 'isActive'>
+
+export interface ImportIssue {
+  id: string // 邮箱或序号
+  error: string
+}
+
+// 校验和迁移后的导入数据
+export interface ParsedImport {
+  sourceVersion: number
+  accounts: ImportCandidate[]
+  groups: AccountGroup[]
+  tags: AccountTag[]
+  issues: ImportIssue[]
+  // 来自简化格式（CSV/TXT）时为 true，新账号使用新的 ID
+  fromItems: boolean
+}
+
+export type ImportStatus = 'new' | 'duplicate' | 'conflict'
+
+export interface ImportPlanEntry {
+  account: ImportCandidate
+  status: ImportStatus
+  existingId?: string
+  action: 'add' | 'overwrite' | 'update-token' | 'skip'
+  reason?: string
+}
+
+export interface ImportPlan {
+  strategy: ImportStrategy
+  entries: ImportPlanEntry[]
+  groups: AccountGroup[]
+  tags: AccountTag[]
+  issues: ImportIssue[]
+  counts: Record<ImportStatus | 'invalid', number>
+}
+
+const IDP_TYPES: IdpType[] = ['Google', 'Github', 'BuilderId', 'Enterprise', 'AWSIdC', 'Internal', 'IAM_SSO']
+const ACCOUNT_STATUSES: AccountStatus[] = ['active', 'expired', 'error', 'refreshing', 'unknown']
+
+type RawRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is RawRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback
+}
+
+function normalizeIdp(idp: unknown): IdpType {
+  if (typeof idp !== 'string') return 'Google'
+  return IDP_TYPES.find(v => v.toLowerCase() === idp.toLowerCase()) || 'Google'
+}
+
+// ============ 版本迁移 ============
+
+// v1 → v2：旧版导出没有 schemaVersion，凭证缺少 authMethod / provider / region
+function migrateV1ToV2(data: RawRecord): RawRecord {
+  const accounts = Array.isArray(data.accounts) ? data.accounts : []
+  return {
+    ...data,
+    schemaVersion: 2,
+    accounts: accounts.map((raw) => {
+      if (!isRecord(raw) || !isRecord(raw.credentials)) return raw
+      const idp = normalizeIdp(raw.idp)
+      const social = idp === 'Google' || idp === 'Github'
+      return {
+        ...raw,
+        idp,
+        credentials: {
+          region: 'us-east-1',
+          authMethod: social ? 'social' : 'IdC',
+          provider: social || idp === 'BuilderId' || idp === 'Enterprise' || idp === 'IAM_SSO' ? idp : undefined,
+          ...raw.credentials
+        }
+      }
+    }),
+    groups: Array.isArray(data.groups) ? data.groups : [],
+    tags: Array.isArray(data.tags) ? data.tags : []
+  }
+}
+
+const MIGRATIONS: Record<number, (data: RawRecord) => RawRecord> = {
+  1: migrateV1ToV2
+}
+
+// ============ 格式校验 ============
+
+function validateAccount(raw: unknown, index: number, now: number): ImportCandidate | ImportIssue {
+  if (!isRecord(raw)) return { id: `#${index + 1}`, error: 'Account entry is not an object' }
+  const email = optionalString(raw.email)
+  if (!email) return { id: `#${index + 1}`, error: 'Missing email' }
+  if (!isRecord(raw.credentials)) return { id: email, error: 'Missing credentials' }
+  const refreshToken = optionalString(raw.credentials.refreshToken)
+  if (!refreshToken) return { id: email, error: 'Missing refreshToken' }
+
+  const credentials = {
+    ...raw.credentials,
+    accessToken: typeof raw.credentials.accessToken === 'string' ? raw.credentials.accessToken : '',
+    csrfToken: typeof raw.credentials.csrfToken === 'string' ? raw.credentials.csrfToken : '',
+    refreshToken,
+    expiresAt: numberOr(raw.credentials.expiresAt, 0)
+  } as AccountCredentials
+  const usage = isRecord(raw.usage) ? raw.usage : {}
+  const subscription = isRecord(raw.subscription) ? raw.subscription : {}
+
+  return {
+    ...(raw as Partial<ImportCandidate>),
+    id: optionalString(raw.id) || uuidv4(),
+    email,
+    idp: normalizeIdp(raw.idp),
+    credentials,
+    subscription: { ...subscription, type: (optionalString(subscription.type) || 'Free') } as ImportCandidate['subscription'],
+    usage: {
+      ...usage,
+      current: numberOr(usage.current, 0),
+      limit: numberOr(usage.limit, 0),
+      percentUsed: numberOr(usage.percentUsed, 0),
+      lastUpdated: numberOr(usage.lastUpdated, now)
+    } as ImportCandidate['usage'],
+    groupId: optionalString(raw.groupId),
+    tags: Array.isArray(raw.tags) ? raw.tags.filter((t): t is string => typeof t === 'string') : [],
+    status: ACCOUNT_STATUSES.includes(raw.status as AccountStatus) ? raw.status as AccountStatus : 'unknown',
+    createdAt: numberOr(raw.createdAt, now),
+    lastUsedAt: numberOr(raw.lastUsedAt, now)
+  }
+}
+
+function isIssue(value: ImportCandidate | ImportIssue): value is ImportIssue {
+  return 'error' in value
+}
+
+/**
+ * 校验 JSON 导出数据并迁移到当前格式版本
+ * 根结构无效或来自更新的版本时抛出异常，单个账号无效时记录到 issues
+ */
+export function parseExportData(raw: unknown, now: number = Date.now()): ParsedImport {
+  if (!isRecord(raw) || !Array.isArray(raw.accounts)) {
+    throw new Error('Invalid export file: missing accounts')
+  }
+  const sourceVersion = raw.schemaVersion === undefined ? 1 : raw.schemaVersion
+  if (typeof sourceVersion !== 'number' || !Number.isInteger(sourceVersion) || sourceVersion < 1) {
+    throw new Error(`Export file has an invalid format version: ${String(sourceVersion)}`)
+  }
+  if (sourceVersion > EXPORT_SCHEMA_VERSION) {
+    throw new Error(`Export file uses format version ${sourceVersion}, please update the app first`)
+  }
+
+  let data = raw
+  for (let version = sourceVersion; version < EXPORT_SCHEMA_VERSION; version++) {
+    data = MIGRATIONS[version](data)
+  }
+
+  const issues: ImportIssue[] = []
+  const accounts: ImportCandidate[] = []
+  ;(data.accounts as unknown[]).forEach((item, index) => {
+    const result = validateAccount(item, index, now)
+    if (isIssue(result)) issues.push(result)
+    else accounts.push(result)
+  })
+
+  const groups = (Array.isArray(data.groups) ? data.groups : []).filter((g): g is AccountGroup =>
+    isRecord(g) && typeof g.id === 'string' && typeof g.name === 'string'
+  ).map(g => ({ ...g, order: numberOr(g.order, 0), createdAt: numberOr(g.createdAt, now) }))
+  const tags = (Array.isArray(data.tags) ? data.tags : []).filter((t): t is AccountTag =>
+    isRecord(t) && typeof t.id === 'string' && typeof t.name === 'string'
+  ).map(t => ({ ...t, color: typeof t.color === 'string' ? t.color : '#888888' }))
+
+  return { sourceVersion, accounts, groups, tags, issues, fromItems: false }
+}
+
+/**
+ * 将简化格式（CSV/TXT 每行一个账号）转换为导入数据
+ */
+export function parseImportItems(items: AccountImportItem[], now: number = Date.now()): ParsedImport {
+  const issues: ImportIssue[] = []
+  const accounts: ImportCandidate[] = []
+  items.forEach((item, index) => {
+    const result = validateAccount({
+      email: item.email,
+      nickname: item.nickname,
+      idp: item.idp,
+      credentials: {
+        accessToken: item.accessToken || '',
+        csrfToken: item.csrfToken || '',
+        refreshToken: item.refreshToken,
+        clientId: item.clientId,
+        clientSecret: item.clientSecret,
+        // 简化格式不含过期时间和区域，保持未设置（expiresAt 校验后为 0，表示未知）
+        region: item.region
+      },
+      subscription: { type: 'Free' },
+      usage: { current: 0, limit: 25, percentUsed: 0, lastUpdated: now },
+      groupId: item.groupId,
+      tags: item.tags ?? [],
+      status: 'unknown'
+    }, index, now)
+    if (isIssue(result)) issues.push(result)
+    else accounts.push(result)
+  })
+  return { sourceVersion: EXPORT_SCHEMA_VERSION, accounts, groups: [], tags: [], issues, fromItems: true }
+}
+
+// ============ 导入预览 ============
+
+// 同 userId，或同邮箱且同登录方式视为同一账号（允许同邮箱不同登录方式）
+function findExisting(candidate: ImportCandidate, existing: Account[]): Account | undefined {
+  return existing.find(acc =>
+    (candidate.userId && acc.userId === candidate.userId) ||
+    (acc.email === candidate.email && acc.credentials.provider === candidate.credentials.provider)
+  )
+}
+
+/**
+ * 生成导入计划（不修改任何数据），用于预览和实际导入
+ */
+export function planImport(parsed: ParsedImport, existingAccounts: Map<string, Account>, strategy: ImportStrategy): ImportPlan {
+  const existing = Array.from(existingAccounts.values())
+  const entries: ImportPlanEntry[] = []
+  const issues = [...parsed.issues]
+  const seen = new Set<string>()
+
+  for (const account of parsed.accounts) {
+    // 文件内部去重
+    const key = account.userId || `${account.email}|${account.credentials.provider ?? ''}`
+    if (seen.has(key)) {
+      issues.push({ id: account.email, error: 'Duplicate entry in import file' })
+      continue
+    }
+    seen.add(key)
+
+    const match = findExisting(account, existing)
+    if (!match) {
+      entries.push({ account, status: 'new', action: 'add' })
+      continue
+    }
+
+    const status: ImportStatus = match.credentials.refreshToken === account.credentials.refreshToken ? 'duplicate' : 'conflict'
+    let action: ImportPlanEntry['action'] = 'skip'
+    let reason: string | undefined
+    if (strategy === 'overwrite') {
+      action = 'overwrite'
+    } else if (strategy === 'newest' && status === 'conflict') {
+      // 导入数据过期时间未知时无法判断新旧，跳过
+      if (!account.credentials.expiresAt) {
+        reason = 'Token expiry unknown'
+      } else if (account.credentials.expiresAt > (match.credentials.expiresAt || 0)) {
+        action = 'update-token'
+      } else {
+        reason = 'Existing token is newer'
+      }
+    } else {
+      reason = 'Account already exists'
+    }
+    entries.push({ account, status, existingId: match.id, action, reason })
+  }
+
+  const counts = { new: 0, duplicate: 0, conflict: 0, invalid: issues.length }
+  for (const entry of entries) counts[entry.status]++
+  return { strategy, entries, groups: parsed.groups, tags: parsed.tags, issues, counts }
+}
@@ -13,8 +13,10 @@ import type {
   BatchOperationResult,
   AccountSubscription,
   SubscriptionType,
-  IdpType
+  ImportStrategy,
+  ImportReportEntry
 } from '../types/account'
+import { EXPORT_SCHEMA_VERSION, parseExportData, parseImportItems, planImport, type ImportPlan } from '../lib/accountImport'
 
 // ============================================
 // 账号管理 Store
@@ -182,8 +184,10 @@ interface AccountsActions {
 
   // 导入导出
   exportAccounts: (ids?: string[]) => AccountExportData
-  importAccounts: (items: AccountImportItem[]) => BatchOperationResult
-  importFromExportData: (data: AccountExportData) => BatchOperationResult
+  importAccounts: (items: AccountImportItem[], strategy?: ImportStrategy) => BatchOperationResult
+  importFromExportData: (data: unknown, strategy?: ImportStrategy) => BatchOperationResult
+  applyImportPlan: (plan: ImportPlan) => BatchOperationResult
+  openEncryptedBundle: (content: string, passphrase: string) => Promise<unknown>
 
   // 状态管理
   updateAccountStatus: (id: string, status: AccountStatus, error?: string) => void
@@ -839,6 +843,7 @@ export const useAccountsStore = create<AccountsStore>()((set, get) => ({
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const data: AccountExportData = {
       version: get().appVersion,
+      schemaVersion: EXPORT_SCHEMA_VERSION,
       exportedAt: Date.now(),
       accounts: exportAccounts.map(({ isActive, ...rest }) => rest),
       groups: Array.from(groups.values()),
@@ -848,134 +853,96 @@ export const useAccountsStore = create<AccountsStore>()((set, get) => ({
     return data
   },
 
-  importAccounts: (items) => {
-    const result: BatchOperationResult = { success: 0, failed: 0, errors: [] }
+  importAccounts: (items, strategy = 'skip') => {
+    return get().applyImportPlan(planImport(parseImportItems(items), get().accounts, strategy))
+  },
 
-    // 验证 idp 是否有效
-    const validIdps = ['Google', 'Github', 'BuilderId'] as const
-    const normalizeIdp = (idp?: string): IdpType => {
-      if (!idp) return 'Google'
-      const normalized = validIdps.find(v => v.toLowerCase() === idp.toLowerCase())
-      return normalized || 'Google'
-    }
+  importFromExportData: (data, strategy = 'skip') => {
+    return get().applyImportPlan(planImport(parseExportData(data), get().accounts, strategy))
+  },
 
-    for (const item of items) {
-      try {
-        const now = Date.now()
+  // 按导入计划写入账号、分组和标签，返回逐条报告
+  applyImportPlan: (plan) => {
+    const details: ImportReportEntry[] = []
+    const result: BatchOperationResult = { success: 0, failed: 0, errors: [], details }
+    const now = Date.now()
 
-        const account: Omit<Account, 'id' | 'createdAt' | 'isActive'> = {
-          email: item.email,
-          nickname: item.nickname,
-          idp: normalizeIdp(item.idp as string),
-          credentials: {
-            accessToken: item.accessToken || '',
-            csrfToken: item.csrfToken || '',
-            refreshToken: item.refreshToken,
-            clientId: item.clientId,
-            clientSecret: item.clientSecret,
-            region: item.region || 'us-east-1',
-            expiresAt: now + 3600 * 1000
-          },
-          subscription: {
-            type: 'Free'
-          },
-          usage: {
-            current: 0,
-            limit: 25,
-            percentUsed: 0,
-            lastUpdated: now
-          },
-          groupId: item.groupId,
-          tags: item.tags ?? [],
-          status: 'unknown',
-          lastUsedAt: now
-        }
+    set((state) => {
+      const accounts = new Map(state.accounts)
+      const groups = new Map(state.groups)
+      const tags = new Map(state.tags)
 
-        get().addAccount(account)
-        result.success++
-      } catch (error) {
-        result.failed++
-        result.errors.push({
-          id: item.email,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        })
+      // 覆盖模式下同 ID 的分组 / 标签以导入数据为准，其他模式只补充缺少的
+      for (const group of plan.groups) {
+        if (plan.strategy === 'overwrite' || !groups.has(group.id)) groups.set(group.id, group)
+      }
+      for (const tag of plan.tags) {
+        if (plan.strategy === 'overwrite' || !tags.has(tag.id)) tags.set(tag.id, tag)
       }
-    }
-
-    return result
-  },
 
-  importFromExportData: (data) => {
-    const result: BatchOperationResult = { success: 0, failed: 0, errors: [] }
-    const { accounts: existingAccounts } = get()
-    
-    // 检查账户是否已存在（同邮箱+同provider 或 同userId 才算重复）
-    const isAccountExists = (email: string, userId?: string, provider?: string): boolean => {
-      return Array.from(existingAccounts.values()).some(acc => {
-        // userId 相同则重复
-        if (userId && acc.userId === userId) return true
-        // email 相同且 provider 相同则重复（允许同邮箱不同登录方式）
-        if (acc.email === email && acc.credentials.provider === provider) return true
-        return false
-      })
-    }
-    
-    // 去重：文件内部去重
-    const seenEmails = new Set<string>()
-    const seenUserIds = new Set<string>()
-    const uniqueAccounts = data.accounts.filter(acc => {
-      if (seenEmails.has(acc.email) || (acc.userId && seenUserIds.has(acc.userId))) {
-        return false
+      for (const entry of plan.entries) {
+        const { account } = entry
+        const existing = entry.existingId ? accounts.get(entry.existingId) : undefined
+        switch (entry.action) {
+          case 'add': {
+            // ID 与本地其他账号冲突时使用新 ID
+            const id = accounts.has(account.id) ? uuidv4() : account.id
+            accounts.set(id, {
+              ...account,
+              id,
+              machineId: account.machineId || generateRandomMachineId(),
+              createdAt: account.createdAt || now,
+              isActive: false
+            })
+            details.push({ id, email: account.email, action: 'added' })
+            result.success++
+            break
+          }
+          case 'overwrite':
+            if (!existing) break
+            accounts.set(existing.id, {
+              ...account,
+              id: existing.id,
+              machineId: account.machineId || existing.machineId,
+              isActive: existing.isActive
+            })
+            details.push({ id: existing.id, email: account.email, action: 'overwritten' })
+            result.success++
+            break
+          case 'update-token': {
+            if (!existing) break
+            // 只合并非空的凭证字段：导入文件缺少的 accessToken / csrfToken 等会被校验为空字符串，不能覆盖现有值
+            // expiresAt 为 0 表示过期时间未知，同样保留现有值
+            const credentials = Object.fromEntries(
+              Object.entries(account.credentials).filter(([key, value]) =>
+                value !== '' && value !== undefined && value !== null && !(key === 'expiresAt' && value === 0)
+              )
+            ) as Partial<Account['credentials']>
+            accounts.set(existing.id, {
+              ...existing,
+              credentials: { ...existing.credentials, ...credentials },
+              status: 'unknown'
+            })
+            details.push({ id: existing.id, email: account.email, action: 'token-updated' })
+            result.success++
+            break
+          }
+          default:
+            details.push({ id: entry.existingId || account.id, email: account.email, action: 'skipped', reason: entry.reason })
+        }
       }
-      seenEmails.add(acc.email)
-      if (acc.userId) seenUserIds.add(acc.userId)
-      return true
-    })
 
-    // 导入分组
-    for (const group of data.groups) {
-      set((state) => {
-        const groups = new Map(state.groups)
-        groups.set(group.id, group)
-        return { groups }
-      })
-    }
+      return { accounts, groups, tags }
+    })
 
-    // 导入标签
-    for (const tag of data.tags) {
-      set((state) => {
-        const tags = new Map(state.tags)
-        tags.set(tag.id, tag)
-        return { tags }
-      })
+    for (const issue of plan.issues) {
+      result.failed++
+      result.errors.push(issue)
+      details.push({ id: issue.id, email: issue.id, action: 'failed', reason: issue.error })
     }
 
-    // 导入账号（跳过已存在的）
-    let skipped = 0
-    for (const accountData of uniqueAccounts) {
-      // 检查本地是否已存在（传入 provider 参数）
-      if (isAccountExists(accountData.email, accountData.userId, accountData.credentials?.provider)) {
-        skipped++
-        continue
-      }
-      
-      try {
-        set((state) => {
-          const accounts = new Map(state.accounts)
-          accounts.set(accountData.id, { ...accountData, isActive: false })
-          return { accounts }
-        })
-        result.success++
-      } catch (error) {
-        result.failed++
-        result.errors.push({
-          id: accountData.id,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        })
-      }
-    }
-    
     // 记录跳过数量
+    const skipped = details.filter(d => d.action === 'skipped').length
     if (skipped > 0) {
       result.errors.push({
         id: 'skipped',
@@ -987,6 +954,15 @@ export const useAccountsStore = create<AccountsStore>()((set, get) => ({
     return result
   },
 
+  // 解密加密导出包（.kirobundle），返回其中的 JSON 导出数据，口令错误时抛出异常
+  openEncryptedBundle: async (content, passphrase) => {
+    const decrypted = await window.api.importDecryptBundle(content, passphrase)
+    if (!decrypted.success || !decrypted.content) {
+      throw new Error(decrypted.error || 'Failed to decrypt bundle')
+    }
+    return JSON.parse(decrypted.content)
+  },
+
   // ==================== 状态管理 ====================
 
   updateAccountStatus: (id, status, error) => {
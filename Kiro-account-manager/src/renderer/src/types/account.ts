@@ -182,7 +182,8 @@ export interface AccountSort {
  * 导入/导出格式
  */
 export interface AccountExportData {
-  version: string
+  version: string // 导出时的应用版本
+  schemaVersion?: number // 数据格式版本，缺省视为 1（旧版导出）
   exportedAt: number
   accounts: Omit<Account, 'isActive'>[]
   groups: AccountGroup[]
@@ -206,6 +207,22 @@ export interface AccountImportItem {
   tags?: string[]
 }
 
+/**
+ * 导入冲突处理策略
+ * skip: 跳过已存在的账号；overwrite: 用导入数据覆盖；newest: 仅在导入的 Token 更新时替换凭证
+ */
+export type ImportStrategy = 'skip' | 'overwrite' | 'newest'
+
+/**
+ * 导入报告条目
+ */
+export interface ImportReportEntry {
+  id: string
+  email: string
+  action: 'added' | 'overwritten' | 'token-updated' | 'skipped' | 'failed'
+  reason?: string
+}
+
 /**
  * 批量操作结果
  */
@@ -213,6 +230,7 @@ export interface BatchOperationResult {
   success: number
   failed: number
   errors: { id: string; error: string }[]
+  details?: ImportReportEntry[] // 导入时的逐条报告
 }
 
 /**
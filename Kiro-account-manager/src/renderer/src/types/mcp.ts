@@ -0,0 +1,45 @@
+/**
+ * Kiro MCP 服务器配置类型定义（mcp.json 中 mcpServers 的值）
+ */
+
+// 已知字段，其余字段原样保留
+export const KNOWN_MCP_SERVER_FIELDS = [
+  'command',
+  'args',
+  'env',
+  'url',
+  'headers',
+  'disabled',
+  'autoApprove',
+  'disabledTools',
+  'timeout'
+] as const
+
+export interface McpServer {
+  // 本地服务器（stdio）
+  command?: string
+  args?: string[]
+  env?: Record<string, string>
+  // 远程服务器（HTTP / SSE）
+  url?: string
+  headers?: Record<string, string>
+  // 通用
+  disabled?: boolean
+  autoApprove?: string[]   // 无需确认即可调用的工具
+  disabledTools?: string[] // 禁用的工具
+  timeout?: number         // 请求超时（毫秒）
+  [key: string]: unknown
+}
+
+// MCP 配置文件，workspace 为 null 时表示用户级配置
+export interface McpConfigFile {
+  workspace: string | null
+  path: string
+  exists: boolean
+  servers: Record<string, McpServer>
+  error?: string
+}
+
+export function isRemoteMcpServer(server: McpServer): boolean {
+  return typeof server.url === 'string' && server.url !== ''
+}